@@ -0,0 +1,195 @@
+import { S3Client, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { createClient } from "@supabase/supabase-js";
+import type { Handler } from "@netlify/functions";
+
+// Initialize R2 client using environment variables from Netlify
+const r2Client = new S3Client({
+  region: "auto",
+  endpoint: process.env.R2_ENDPOINT,
+  credentials: {
+    accessKeyId: process.env.R2_ACCESS_KEY!,
+    secretAccessKey: process.env.R2_SECRET_KEY!,
+  },
+});
+
+interface R2DeleteRequest {
+  postId: string;
+}
+
+// Extract key from R2 public URL (same rules as extractKeyFromUrl in src/lib/r2.ts)
+const extractKeyFromUrl = (publicUrl: string, publicBaseUrl: string | undefined): string | null => {
+  if (!publicBaseUrl || !publicUrl.startsWith(publicBaseUrl)) {
+    return null;
+  }
+  return publicUrl.substring(publicBaseUrl.length) || null;
+};
+
+export const handler: Handler = async (event) => {
+  const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization, x-client-info, apikey",
+    "Access-Control-Max-Age": "86400",
+    "Access-Control-Allow-Credentials": "false"
+  };
+
+  // Handle CORS preflight requests
+  if (event.httpMethod === "OPTIONS") {
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: "",
+    };
+  }
+
+  if (event.httpMethod !== "POST") {
+    return {
+      statusCode: 405,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: "Method Not Allowed" }),
+    };
+  }
+
+  try {
+    const authHeader = event.headers.authorization || event.headers.Authorization || '';
+    const accessToken = authHeader.replace(/^Bearer\s+/i, '').trim();
+
+    if (!accessToken) {
+      return {
+        statusCode: 401,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: 'Missing Authorization bearer token' }),
+      };
+    }
+
+    let request: R2DeleteRequest;
+    try {
+      request = JSON.parse(event.body || '{}');
+    } catch {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: 'Invalid JSON body' }),
+      };
+    }
+
+    if (!request.postId) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: 'Missing required parameter: postId' }),
+      };
+    }
+
+    // Netlify exposes the site's VITE_ variables to functions as well
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+    const bucketName = process.env.R2_BUCKET_NAME;
+    const publicBaseUrl = process.env.R2_PUBLIC_URL;
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      throw new Error('Supabase environment variables not configured in Netlify');
+    }
+
+    if (!bucketName) {
+      throw new Error('R2 environment variables not configured in Netlify');
+    }
+
+    // Queries run as the caller, so get_shared_media_keys can tell their uploads apart
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${accessToken}` } },
+    });
+
+    // Verify the caller's Supabase JWT
+    const { data: { user }, error: authError } = await supabase.auth.getUser(accessToken);
+
+    if (authError || !user) {
+      return {
+        statusCode: 401,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: 'Invalid or expired session' }),
+      };
+    }
+
+    const { data: post, error: postError } = await supabase
+      .from('posts')
+      .select('user_id, r2_key, thumbnail_url, media_url')
+      .eq('id', request.postId)
+      .maybeSingle();
+
+    if (postError) {
+      throw new Error(`Failed to fetch post: ${postError.message}`);
+    }
+
+    if (!post) {
+      return {
+        statusCode: 404,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: 'Post not found' }),
+      };
+    }
+
+    // Only the post owner may delete its media
+    if (!post.user_id || post.user_id !== user.id) {
+      return {
+        statusCode: 403,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: 'You can only delete media for your own posts' }),
+      };
+    }
+
+    // Keys are derived from the post row, never from the request
+    const keys = new Set<string>();
+
+    if (post.r2_key) {
+      keys.add(post.r2_key);
+    } else if (post.media_url) {
+      const mediaKey = extractKeyFromUrl(post.media_url, publicBaseUrl);
+      if (mediaKey) keys.add(mediaKey);
+    }
+
+    if (post.thumbnail_url) {
+      const thumbnailKey = extractKeyFromUrl(post.thumbnail_url, publicBaseUrl);
+      if (thumbnailKey) keys.add(thumbnailKey);
+    }
+
+    // Post media columns are written by clients and imported style packs can link another
+    // post's media, so keep objects other posts or other users' uploads still use
+    if (keys.size > 0) {
+      const { data: sharedKeys, error: sharedError } = await supabase.rpc('get_shared_media_keys', {
+        media_keys: Array.from(keys),
+        public_base_url: publicBaseUrl ?? null,
+        excluded_post_id: request.postId
+      });
+
+      if (sharedError) {
+        throw new Error(`Failed to check shared media: ${sharedError.message}`);
+      }
+
+      for (const sharedKey of sharedKeys ?? []) {
+        keys.delete(sharedKey);
+      }
+    }
+
+    await Promise.all(
+      Array.from(keys).map(key => r2Client.send(new DeleteObjectCommand({
+        Bucket: bucketName,
+        Key: key,
+      })))
+    );
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({ deleted: Array.from(keys) }),
+    };
+  } catch (error) {
+    console.error("R2 delete function error:", error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: error instanceof Error ? error.message : 'Internal server error' }),
+    };
+  }
+};
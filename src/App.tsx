@@ -1,22 +1,31 @@
 import React from 'react';
-import { Sparkles, Loader2 } from 'lucide-react';
+import { Sparkles, Loader2, AlertTriangle } from 'lucide-react';
 import { useAuth } from './hooks/useAuth';
+import { useRoute } from './hooks/useRoute';
+import { navigate, goBack, slugifyStyle, buildPath } from './lib/routes';
 import { captureError, addBreadcrumb } from './lib/sentry';
 import { AnalysisPage } from './pages/AnalysisPage';
 import { DecodePage } from './pages/DecodePage';
 import { StyleGalleryPage } from './pages/StyleGalleryPage';
 import { ProfileSettingsPage } from './pages/ProfileSettingsPage';
+import { SavedPage } from './pages/SavedPage';
+import { MixPage } from './pages/MixPage';
+import { CollectionsPage } from './pages/CollectionsPage';
+import { CollectionPage } from './pages/CollectionPage';
 import { GalleryView } from './components/GalleryView';
-import { mockAnalysisResult, AnalysisResult } from './constants/modules';
-import { Post } from './lib/supabaseUtils';
+import { mockAnalysisResult, AnalysisResult, RemixSource } from './constants/modules';
+import { AnalysisField } from './utils/geminiParser';
+import { Post, getPostById, getAnalysisById, getProfileByUsername } from './lib/supabaseUtils';
+import { Style, getStyleBySlug } from './lib/styles';
 import { GlassmorphicHeader } from './components/GlassmorphicHeader';
-
-type ViewState = 'analysis' | 'decodeUpload' | 'gallery' | 'styleGallery' | 'artistProfile' | 'profileSettings';
+import { ImportedStylePack } from './lib/stylePacks';
+import { Collection } from './lib/collections';
+import { MIX_LIMITS, MixCandidate, MixedAnalysis, toMixCandidate } from './lib/styleMix';
 
 function App() {
   const { user, loading } = useAuth();
+  const route = useRoute();
   const [signInError, setSignInError] = React.useState<string | null>(null);
-  const [currentView, setCurrentView] = React.useState<ViewState>('gallery');
   
   // Analysis state
   const [currentAnalysis, setCurrentAnalysis] = React.useState<AnalysisResult>(mockAnalysisResult);
@@ -26,11 +35,28 @@ function App() {
   const [currentThumbnailFile, setCurrentThumbnailFile] = React.useState<File | null>(null);
   
   const [isAnalysisFromDecode, setIsAnalysisFromDecode] = React.useState(false);
-  const [selectedStyle, setSelectedStyle] = React.useState<string>('');
+  // Set while a decode is still streaming into the analysis page
+  const [analysisStream, setAnalysisStream] = React.useState<{ completedFields: AnalysisField[]; error?: string } | null>(null);
+  // Pending id of the streaming analysis; a ref because progress arrives in the decode page's async closure
+  const streamingAnalysisIdRef = React.useRef<string | null>(null);
+  const [selectedStyle, setSelectedStyle] = React.useState<Style | null>(null);
   const [currentArtistId, setCurrentArtistId] = React.useState<string | undefined>(undefined);
   const [currentArtistUsername, setCurrentArtistUsername] = React.useState<string | undefined>(undefined);
   const [viewingArtistId, setViewingArtistId] = React.useState<string | undefined>(undefined);
+  const [viewingArtistUsername, setViewingArtistUsername] = React.useState<string | undefined>(undefined);
   const [currentPostId, setCurrentPostId] = React.useState<string | undefined>(undefined);
+  const [currentLikesCount, setCurrentLikesCount] = React.useState(0);
+  // Style codes that came with an imported style pack, for the analysis they were imported with
+  const [importedStyleCodes, setImportedStyleCodes] = React.useState<{ analysisId: string; codes: string[] } | null>(null);
+  // Sources picked for the next mix, kept while browsing so any analysis can be added
+  const [mixSelection, setMixSelection] = React.useState<MixCandidate[]>([]);
+  // Post the next decode remixes, set by "Remix this"
+  const [remixSource, setRemixSource] = React.useState<RemixSource | null>(null);
+
+  // Deep-link resolution state: routes opened on a cold start load their data from Supabase
+  const [routeStatus, setRouteStatus] = React.useState<'ready' | 'loading' | 'notFound'>(
+    () => ['post', 'analysis', 'style', 'artist'].includes(route.name) ? 'loading' : 'ready'
+  );
 
   const handleSentryTest = () => {
     addBreadcrumb('User clicked Sentry test button', 'ui');
@@ -39,24 +65,23 @@ function App() {
 
   const handleDecodeClick = () => {
     addBreadcrumb('Decode button clicked', 'ui');
-    setCurrentView('decodeUpload');
+    setRemixSource(null);
+    navigate({ name: 'decode' });
   };
 
   const handleLogoClick = () => {
     addBreadcrumb('Logo clicked - navigating to gallery', 'ui');
-    setCurrentView('gallery');
+    navigate({ name: 'gallery' });
   };
 
-  const handleGalleryPostClick = (post: Post) => {
-    addBreadcrumb('Gallery post clicked', 'ui', { postId: post.id });
-    
+  const showPost = (post: Post) => {
     // Convert Post to AnalysisResult format - ensure we use the proper analysis ID
     const analysisResult: AnalysisResult = {
       id: post.analysis_data.id,
       ...post.analysis_data
     };
     
-    setCurrentArtistId(post.user_id);
+    setCurrentArtistId(post.user_id || undefined);
     setCurrentArtistUsername(post.username);
     
     setCurrentAnalysis(analysisResult);
@@ -65,8 +90,16 @@ function App() {
     setCurrentMediaFile(null);
     setCurrentThumbnailFile(null);
     setIsAnalysisFromDecode(false);
+    setAnalysisStream(null);
     setCurrentPostId(post.id);
-    setCurrentView('analysis');
+    setCurrentLikesCount(post.likes_count || 0);
+  };
+
+  const handleGalleryPostClick = (post: Post) => {
+    addBreadcrumb('Gallery post clicked', 'ui', { postId: post.id });
+    
+    showPost(post);
+    navigate({ name: 'post', postId: post.id });
     
     console.log('Gallery post clicked:', {
       postId: post.id,
@@ -87,13 +120,21 @@ function App() {
     file: File,
     thumbnailFile?: File
   ) => {
+    const pendingAnalysisId = streamingAnalysisIdRef.current;
+    streamingAnalysisIdRef.current = null;
+
+    // The user left the streaming analysis page, so don't pull them back to it
+    if (pendingAnalysisId && !isViewingAnalysis(pendingAnalysisId)) return;
+
     addBreadcrumb('Decode analysis successful', 'ui', { 
       analysisId: analysis.id,
-      hasThumbnail: !!thumbnailFile 
+      hasThumbnail: !!thumbnailFile,
+      streamed: !!pendingAnalysisId
     });
     
     setCurrentArtistId(undefined);
     setCurrentArtistUsername(undefined);
+    setRemixSource(null);
     
     setCurrentAnalysis(analysis);
     setCurrentMediaUrl(mediaUrl);
@@ -102,7 +143,9 @@ function App() {
     setCurrentThumbnailFile(thumbnailFile || null);
     setIsAnalysisFromDecode(true);
     setCurrentPostId(undefined);
-    setCurrentView('analysis');
+    setAnalysisStream(null);
+    // Swap the pending URL for the saved one without adding a history entry
+    navigate({ name: 'analysis', analysisId: analysis.id! }, { replace: !!pendingAnalysisId });
     
     console.log('Decode success - setting analysis from decode:', {
       analysisId: analysis.id,
@@ -111,64 +154,320 @@ function App() {
     });
   };
 
+  const handleStylePackImported = (imported: ImportedStylePack) => {
+    const { analysis } = imported;
+    addBreadcrumb('Style pack imported', 'ui', { analysisId: analysis.id, mediaType: imported.mediaType });
+
+    setCurrentArtistId(undefined);
+    setCurrentArtistUsername(undefined);
+    setCurrentAnalysis(analysis);
+    setCurrentMediaUrl(imported.mediaUrl);
+    setCurrentMediaType(imported.mediaType);
+    setCurrentMediaFile(imported.mediaFile || null);
+    setCurrentThumbnailFile(imported.thumbnailFile || null);
+    setImportedStyleCodes({ analysisId: analysis.id!, codes: imported.styleCodes });
+    setIsAnalysisFromDecode(true);
+    setCurrentPostId(undefined);
+    setAnalysisStream(null);
+    navigate({ name: 'analysis', analysisId: analysis.id! });
+  };
+
+  const isViewingAnalysis = (analysisId: string) =>
+    window.location.pathname === buildPath({ name: 'analysis', analysisId });
+
+  const handleDecodeProgress = (
+    analysis: AnalysisResult,
+    completedFields: AnalysisField[],
+    mediaUrl: string,
+    mediaType: 'image' | 'video' | 'audio',
+    file: File,
+    thumbnailFile?: File
+  ) => {
+    // First chunk of a new decode: open the analysis page and let it fill in
+    if (streamingAnalysisIdRef.current !== analysis.id) {
+      streamingAnalysisIdRef.current = analysis.id!;
+      addBreadcrumb('Decode analysis streaming', 'ui', { pendingAnalysisId: analysis.id });
+
+      setCurrentArtistId(undefined);
+      setCurrentArtistUsername(undefined);
+      setCurrentAnalysis(analysis);
+      setCurrentMediaUrl(mediaUrl);
+      setCurrentMediaType(mediaType);
+      setCurrentMediaFile(file);
+      setCurrentThumbnailFile(thumbnailFile || null);
+      setIsAnalysisFromDecode(true);
+      setCurrentPostId(undefined);
+      setAnalysisStream({ completedFields });
+      navigate({ name: 'analysis', analysisId: analysis.id! });
+      return;
+    }
+
+    if (!isViewingAnalysis(analysis.id!)) return;
+    setCurrentAnalysis(analysis);
+    setAnalysisStream({ completedFields });
+  };
+
+  const handleDecodeError = (message: string) => {
+    const pendingAnalysisId = streamingAnalysisIdRef.current;
+    streamingAnalysisIdRef.current = null;
+    if (!pendingAnalysisId || !isViewingAnalysis(pendingAnalysisId)) return;
+
+    setAnalysisStream(prev => ({ completedFields: prev?.completedFields || [], error: message }));
+  };
+
   const handleBackFromDecode = () => {
     addBreadcrumb('Back from decode page', 'ui');
-    setCurrentView('gallery');
+    goBack({ name: 'gallery' });
   };
 
   const handleBackFromGallery = () => {
     addBreadcrumb('Back from gallery page', 'ui');
-    setCurrentView('gallery');
+    navigate({ name: 'gallery' });
   };
 
   const handleBackFromAnalysis = () => {
     addBreadcrumb('Back from analysis page', 'ui');
-    setIsAnalysisFromDecode(false);
-    setCurrentArtistId(undefined);
-    setCurrentArtistUsername(undefined);
-    setCurrentPostId(undefined);
-    setCurrentView('gallery');
+    goBack({ name: 'gallery' });
   };
 
+  // The style is looked up from the slug, which also maps a fresh analysis's spelling onto its canonical style
   const handleViewStyleGallery = (style: string) => {
     addBreadcrumb('View style gallery clicked', 'ui', { style });
+    navigate({ name: 'style', slug: slugifyStyle(style) });
+  };
+
+  const handleOpenStyle = (style: Style) => {
+    addBreadcrumb('Style gallery opened', 'ui', { style: style.name, slug: style.slug });
     setSelectedStyle(style);
-    setCurrentView('styleGallery');
+    navigate({ name: 'style', slug: style.slug });
   };
 
   const handleBackFromStyleGallery = () => {
     addBreadcrumb('Back from style gallery', 'ui');
-    setCurrentView('analysis');
+    goBack({ name: 'gallery' });
   };
 
   const handleViewArtistProfileFromApp = (artistId: string) => {
     addBreadcrumb('View artist profile clicked', 'ui', { artistId });
+    if (!currentArtistUsername) return;
     setViewingArtistId(artistId);
-    setCurrentView('artistProfile');
+    setViewingArtistUsername(currentArtistUsername);
+    navigate({ name: 'artist', username: currentArtistUsername });
   };
 
   const handleBackFromArtistProfile = () => {
     addBreadcrumb('Back from artist profile', 'ui');
-    setViewingArtistId(undefined);
-    setCurrentView('analysis');
+    goBack({ name: 'gallery' });
   };
 
   const handleProfileSettingsClick = () => {
     addBreadcrumb('Profile settings clicked', 'ui');
-    setCurrentView('profileSettings');
+    navigate({ name: 'settings' });
   };
 
   const handleBackFromProfileSettings = () => {
     addBreadcrumb('Back from profile settings', 'ui');
-    setCurrentView('gallery');
+    goBack({ name: 'gallery' });
+  };
+
+  const handleSavedClick = () => {
+    addBreadcrumb('Saved analyses clicked', 'ui');
+    navigate({ name: 'saved' });
+  };
+
+  const handleBackFromSaved = () => {
+    addBreadcrumb('Back from saved analyses', 'ui');
+    goBack({ name: 'gallery' });
+  };
+
+  const handleCollectionsClick = () => {
+    addBreadcrumb('Collections clicked', 'ui');
+    navigate({ name: 'collections' });
+  };
+
+  const handleBackFromCollections = () => {
+    addBreadcrumb('Back from collections', 'ui');
+    goBack({ name: 'gallery' });
+  };
+
+  const handleOpenCollection = (collection: Collection) => {
+    addBreadcrumb('Collection opened', 'ui', { collectionId: collection.id });
+    navigate({ name: 'collection', collectionId: collection.id });
+  };
+
+  const handleBackFromCollection = () => {
+    addBreadcrumb('Back from collection', 'ui');
+    goBack({ name: 'collections' });
+  };
+
+  const handleCollectionDeleted = () => {
+    navigate({ name: 'collections' }, { replace: true });
+  };
+
+  const handleMixClick = () => {
+    addBreadcrumb('Mix workspace opened', 'ui', { mixCount: mixSelection.length });
+    navigate({ name: 'mix' });
+  };
+
+  const handleBackFromMix = () => {
+    addBreadcrumb('Back from mix workspace', 'ui');
+    goBack({ name: 'gallery' });
+  };
+
+  const handleAddToMix = () => {
+    const candidate = toMixCandidate({
+      analysis: currentAnalysis,
+      mediaUrl: currentMediaUrl,
+      mediaType: currentMediaType,
+      postId: currentPostId,
+      username: currentArtistUsername
+    });
+    addBreadcrumb('Added to mix', 'ui', { source: candidate.key });
+
+    setMixSelection(prev => prev.some(source => source.key === candidate.key) || prev.length >= MIX_LIMITS.MAX_SOURCES
+      ? prev
+      : [...prev, candidate]
+    );
+    navigate({ name: 'mix' });
+  };
+
+  const handleRemix = () => {
+    if (!currentPostId) return;
+    addBreadcrumb('Remix started', 'ui', { postId: currentPostId });
+
+    setRemixSource({
+      postId: currentPostId,
+      title: currentAnalysis.title,
+      username: currentArtistUsername
+    });
+    navigate({ name: 'decode' });
+  };
+
+  const handleMixCreated = (mixed: MixedAnalysis) => {
+    const { analysis } = mixed;
+    addBreadcrumb('Mix created', 'ui', { analysisId: analysis.id, sources: analysis.mixSources?.length });
+
+    setMixSelection([]);
+    setCurrentArtistId(undefined);
+    setCurrentArtistUsername(undefined);
+    setCurrentAnalysis(analysis);
+    setCurrentMediaUrl(''); // Mixes have no media of their own
+    setCurrentMediaType(mixed.mediaType);
+    setCurrentMediaFile(null);
+    setCurrentThumbnailFile(null);
+    setIsAnalysisFromDecode(true);
+    setCurrentPostId(undefined);
+    setAnalysisStream(null);
+    navigate({ name: 'analysis', analysisId: analysis.id! });
+  };
+
+  const handleOpenSavedAnalysis = (
+    analysis: AnalysisResult,
+    mediaUrl: string,
+    mediaType: 'image' | 'video' | 'audio'
+  ) => {
+    addBreadcrumb('Saved analysis opened', 'ui', { analysisId: analysis.id });
+
+    setCurrentArtistId(undefined);
+    setCurrentArtistUsername(undefined);
+    setCurrentAnalysis(analysis);
+    setCurrentMediaUrl(mediaUrl);
+    setCurrentMediaType(mediaType);
+    setCurrentMediaFile(null);
+    setCurrentThumbnailFile(null);
+    setIsAnalysisFromDecode(false);
+    setAnalysisStream(null);
+    setCurrentPostId(undefined);
+    navigate({ name: 'analysis', analysisId: analysis.id! });
   };
 
   const handlePostDeleted = () => {
     addBreadcrumb('Post deleted successfully', 'ui', { postId: currentPostId });
-    setCurrentView('gallery');
     setCurrentPostId(undefined);
+    navigate({ name: 'gallery' }, { replace: true });
   };
 
+  // Load the data behind deep links that aren't already held in memory. Each case skips
+  // what's already loaded, so re-running when that state changes doesn't refetch.
+  React.useEffect(() => {
+    let cancelled = false;
+
+    const resolveRoute = async () => {
+      switch (route.name) {
+        case 'post': {
+          if (route.postId === currentPostId) break;
+          setRouteStatus('loading');
+          const post = await getPostById(route.postId);
+          if (cancelled) return;
+          if (!post) {
+            setRouteStatus('notFound');
+            return;
+          }
+          showPost(post);
+          break;
+        }
+        case 'analysis': {
+          if (route.analysisId === currentAnalysis.id && !currentPostId) break;
+          setRouteStatus('loading');
+          const result = await getAnalysisById(route.analysisId);
+          if (cancelled) return;
+          if (!result) {
+            setRouteStatus('notFound');
+            return;
+          }
+          setCurrentArtistId(undefined);
+          setCurrentArtistUsername(undefined);
+          setCurrentAnalysis(result.analysis);
+          setCurrentMediaUrl(result.mediaUrl);
+          setCurrentMediaType(result.mediaType);
+          setCurrentMediaFile(null);
+          setCurrentThumbnailFile(null);
+          setIsAnalysisFromDecode(false);
+          setAnalysisStream(null);
+          setCurrentPostId(undefined);
+          break;
+        }
+        case 'style': {
+          if (selectedStyle?.slug === route.slug) break;
+          setRouteStatus('loading');
+          const style = await getStyleBySlug(route.slug);
+          if (cancelled) return;
+          if (!style) {
+            setRouteStatus('notFound');
+            return;
+          }
+          setSelectedStyle(style);
+          // Aliases and close misspellings lead to the canonical URL
+          if (style.slug !== route.slug) {
+            navigate({ name: 'style', slug: style.slug }, { replace: true });
+          }
+          break;
+        }
+        case 'artist': {
+          if (viewingArtistId && route.username === viewingArtistUsername) break;
+          setRouteStatus('loading');
+          const profile = await getProfileByUsername(route.username);
+          if (cancelled) return;
+          if (!profile) {
+            setRouteStatus('notFound');
+            return;
+          }
+          setViewingArtistId(profile.id);
+          setViewingArtistUsername(profile.username);
+          break;
+        }
+      }
+
+      setRouteStatus('ready');
+    };
+
+    resolveRoute();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [route, currentAnalysis.id, currentPostId, selectedStyle?.slug, viewingArtistId, viewingArtistUsername]);
+
   // Log component mount
   React.useEffect(() => {
     addBreadcrumb('App component mounted', 'navigation');
@@ -203,128 +502,187 @@ function App() {
     );
   }
 
-  // Render Profile Settings Page
-  if (currentView === 'profileSettings') {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-dark-matte-300 via-dark-matte-400 to-dark-matte-300 font-inter">
-        <GlassmorphicHeader
-          onDecodeClick={handleDecodeClick}
-          onLogoClick={handleLogoClick}
-          onProfileClick={handleProfileSettingsClick}
-          signInError={signInError}
-          onDismissSignInError={() => setSignInError(null)}
-        />
-        <ProfileSettingsPage onBack={handleBackFromProfileSettings} />
+  const renderWithHeader = (content: React.ReactNode) => (
+    <div className="min-h-screen bg-gradient-to-br from-dark-matte-300 via-dark-matte-400 to-dark-matte-300 font-inter">
+      <GlassmorphicHeader
+        onDecodeClick={handleDecodeClick}
+        onLogoClick={handleLogoClick}
+        onProfileClick={handleProfileSettingsClick}
+        onSavedClick={handleSavedClick}
+        onCollectionsClick={handleCollectionsClick}
+        onMixClick={handleMixClick}
+        mixCount={mixSelection.length}
+        signInError={signInError}
+        onDismissSignInError={() => setSignInError(null)}
+      />
+      {content}
+    </div>
+  );
+
+  // Render deep-link loading state (style links opened in-app resolve their slug first)
+  if (routeStatus === 'loading' || (routeStatus === 'ready' && route.name === 'style' && !selectedStyle)) {
+    return renderWithHeader(
+      <div className="flex items-center justify-center min-h-screen pt-16">
+        <div className="flex items-center space-x-3">
+          <Loader2 className="w-6 h-6 text-[#B8A082] animate-spin" />
+          <span className="text-white/70 text-lg">Loading...</span>
+        </div>
       </div>
     );
   }
 
-  // Render Style Gallery Page
-  if (currentView === 'styleGallery') {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-dark-matte-300 via-dark-matte-400 to-dark-matte-300 font-inter">
-        <GlassmorphicHeader
-          onDecodeClick={handleDecodeClick}
-          onLogoClick={handleLogoClick}
-          onProfileClick={handleProfileSettingsClick}
-          signInError={signInError}
-          onDismissSignInError={() => setSignInError(null)}
-        />
-        <StyleGalleryPage
-          styleName={selectedStyle}
-          onBack={handleBackFromStyleGallery}
-          onPostClick={handleGalleryPostClick}
-        />
+  // Render missing post, analysis, style or artist
+  if (routeStatus === 'notFound') {
+    return renderWithHeader(
+      <div className="flex items-center justify-center min-h-screen pt-16">
+        <div className="text-center">
+          <div className="w-16 h-16 mx-auto mb-4 bg-white/10 rounded-full flex items-center justify-center">
+            <AlertTriangle className="w-8 h-8 text-white/30" />
+          </div>
+          <p className="text-improved-muted text-lg mb-2">Nothing here</p>
+          <p className="text-gray-400 text-sm mb-4">This page may have been removed or the link is incorrect.</p>
+          <button
+            onClick={handleLogoClick}
+            className="px-6 py-2 bg-[#D4B896] hover:bg-[#C4A886] text-[#1a1a1a] rounded-xl font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+          >
+            Back to Gallery
+          </button>
+        </div>
       </div>
     );
   }
 
+  // Render Profile Settings Page
+  if (route.name === 'settings') {
+    return renderWithHeader(
+      <ProfileSettingsPage onBack={handleBackFromProfileSettings} />
+    );
+  }
+
+  // Render Saved Analyses Page
+  if (route.name === 'saved') {
+    return renderWithHeader(
+      <SavedPage
+        onBack={handleBackFromSaved}
+        onOpenAnalysis={handleOpenSavedAnalysis}
+      />
+    );
+  }
+
+  // Render Collections Page
+  if (route.name === 'collections') {
+    return renderWithHeader(
+      <CollectionsPage
+        onBack={handleBackFromCollections}
+        onOpenCollection={handleOpenCollection}
+      />
+    );
+  }
+
+  // Render a single collection's gallery
+  if (route.name === 'collection') {
+    return renderWithHeader(
+      <CollectionPage
+        key={route.collectionId}
+        collectionId={route.collectionId}
+        onBack={handleBackFromCollection}
+        onOpenPost={handleGalleryPostClick}
+        onOpenAnalysis={handleOpenSavedAnalysis}
+        onDeleted={handleCollectionDeleted}
+      />
+    );
+  }
+
+  // Render Mix Workspace
+  if (route.name === 'mix') {
+    return renderWithHeader(
+      <MixPage
+        selection={mixSelection}
+        onSelectionChange={setMixSelection}
+        onMixCreated={handleMixCreated}
+        onBack={handleBackFromMix}
+      />
+    );
+  }
+
+  // Render Style Gallery Page
+  if (route.name === 'style' && selectedStyle) {
+    return renderWithHeader(
+      <StyleGalleryPage
+        style={selectedStyle}
+        onBack={handleBackFromStyleGallery}
+        onPostClick={handleGalleryPostClick}
+        onStyleClick={handleOpenStyle}
+      />
+    );
+  }
+
   // Render Artist Profile Page
-  if (currentView === 'artistProfile') {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-dark-matte-300 via-dark-matte-400 to-dark-matte-300 font-inter">
-        <GlassmorphicHeader
-          onDecodeClick={handleDecodeClick}
-          onLogoClick={handleLogoClick}
-          onProfileClick={handleProfileSettingsClick}
-          signInError={signInError}
-          onDismissSignInError={() => setSignInError(null)}
-        />
-        <GalleryView
-          onBack={handleBackFromArtistProfile}
-          onPostClick={handleGalleryPostClick}
-          artistId={viewingArtistId}
-          artistUsername={currentArtistUsername}
-        />
-      </div>
+  if (route.name === 'artist') {
+    return renderWithHeader(
+      <GalleryView
+        onBack={handleBackFromArtistProfile}
+        onPostClick={handleGalleryPostClick}
+        artistId={viewingArtistId}
+        artistUsername={viewingArtistUsername}
+      />
     );
   }
 
   // Render Gallery View (now the default home page)
-  if (currentView === 'gallery') {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-dark-matte-300 via-dark-matte-400 to-dark-matte-300 font-inter">
-        <GlassmorphicHeader
-          onDecodeClick={handleDecodeClick}
-          onLogoClick={handleLogoClick}
-          onProfileClick={handleProfileSettingsClick}
-          signInError={signInError}
-          onDismissSignInError={() => setSignInError(null)}
-        />
-        <GalleryView
-          onBack={handleBackFromGallery}
-          onPostClick={handleGalleryPostClick}
-        />
-      </div>
+  if (route.name === 'gallery') {
+    return renderWithHeader(
+      <GalleryView
+        onBack={handleBackFromGallery}
+        onPostClick={handleGalleryPostClick}
+      />
     );
   }
 
   // Render Decode Upload Page
-  if (currentView === 'decodeUpload') {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-dark-matte-300 via-dark-matte-400 to-dark-matte-300 font-inter">
-        <GlassmorphicHeader
-          onDecodeClick={handleDecodeClick}
-          onLogoClick={handleLogoClick}
-          onProfileClick={handleProfileSettingsClick}
-          signInError={signInError}
-          onDismissSignInError={() => setSignInError(null)}
-        />
-        <DecodePage
-          onDecodeSuccess={handleDecodeSuccess}
-          onBack={handleBackFromDecode}
-        />
-      </div>
+  if (route.name === 'decode') {
+    return renderWithHeader(
+      <DecodePage
+        onDecodeSuccess={handleDecodeSuccess}
+        onDecodeProgress={handleDecodeProgress}
+        onDecodeError={handleDecodeError}
+        onStylePackImported={handleStylePackImported}
+        remixOf={remixSource || undefined}
+        onClearRemix={() => setRemixSource(null)}
+        onBack={handleBackFromDecode}
+      />
     );
   }
 
-  // Render Analysis Page
-  if (currentView === 'analysis') {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-dark-matte-300 via-dark-matte-400 to-dark-matte-300 font-inter">
-        <GlassmorphicHeader
-          onDecodeClick={handleDecodeClick}
-          onLogoClick={handleLogoClick}
-          onProfileClick={handleProfileSettingsClick}
-          signInError={signInError}
-          onDismissSignInError={() => setSignInError(null)}
-        />
-        <AnalysisPage
-          analysis={currentAnalysis}
-          mediaUrl={currentMediaUrl}
-          mediaType={currentMediaType}
-          selectedMediaFile={currentMediaFile}
-          thumbnailFile={currentThumbnailFile}
-          artistUsername={currentArtistUsername}
-          artistId={currentArtistId}
-          postId={currentPostId}
-          isFromDecodePage={isAnalysisFromDecode}
-          onBack={handleBackFromAnalysis}
-          onViewStyleGallery={handleViewStyleGallery}
-          onViewArtistProfile={handleViewArtistProfileFromApp}
-          onPostDeleted={handlePostDeleted}
-        />
-      </div>
+  // Render Analysis Page for gallery posts and saved analyses
+  if (route.name === 'post' || route.name === 'analysis') {
+    return renderWithHeader(
+      <AnalysisPage
+        key={currentPostId || currentAnalysis.id}
+        analysis={currentAnalysis}
+        mediaUrl={currentMediaUrl}
+        mediaType={currentMediaType}
+        selectedMediaFile={currentMediaFile || undefined}
+        thumbnailFile={currentThumbnailFile || undefined}
+        initialStyleCodes={importedStyleCodes && importedStyleCodes.analysisId === currentAnalysis.id ? importedStyleCodes.codes : undefined}
+        artistUsername={currentArtistUsername}
+        artistId={currentArtistId}
+        postId={currentPostId}
+        likesCount={currentLikesCount}
+        isFromDecodePage={isAnalysisFromDecode}
+        isStreaming={!!analysisStream && !analysisStream.error}
+        completedFields={analysisStream?.completedFields}
+        streamError={analysisStream?.error}
+        onAnalysisChange={setCurrentAnalysis}
+        onOpenPost={handleGalleryPostClick}
+        onAddToMix={handleAddToMix}
+        isInMix={mixSelection.some(source => source.analysisId === currentAnalysis.id)}
+        onRemix={handleRemix}
+        onBack={handleBackFromAnalysis}
+        onViewStyleGallery={handleViewStyleGallery}
+        onViewArtistProfile={handleViewArtistProfileFromApp}
+        onPostDeleted={handlePostDeleted}
+      />
     );
   }
 
@@ -335,6 +693,10 @@ function App() {
         onDecodeClick={handleDecodeClick}
         onLogoClick={handleLogoClick}
         onProfileClick={handleProfileSettingsClick}
+        onSavedClick={handleSavedClick}
+        onCollectionsClick={handleCollectionsClick}
+        onMixClick={handleMixClick}
+        mixCount={mixSelection.length}
         signInError={signInError}
         onDismissSignInError={() => setSignInError(null)}
       />
@@ -350,7 +712,7 @@ function App() {
             Discover, Mix, and Analyze AI Art Styles
           </h2>
           <p className="text-gray-300 text-lg max-w-3xl mx-auto leading-relaxed">
-            Explore a curated library of AI-generated art styles, decode visual aesthetics, and generate creative prompts for MidJourney, Stable Diffusion, and other AI art tools.
+            Explore a curated library of AI-generated art styles, decode visual aesthetics, and generate ready-to-paste prompts for Midjourney, Stable Diffusion, Flux, Suno, and Runway.
           </p>
         </div>
 
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Music } from 'lucide-react';
+import { AudioAnalysis } from '../utils/geminiParser';
+import { formatTimestamp } from '../utils/videoKeyframes';
+
+interface AudioDetailsProps {
+  audio: AudioAnalysis;
+  onSeek?: (time: number) => void; // Jump to a structure section, when playback is available
+}
+
+/**
+ * Music details of an audio analysis: genre, tempo, key, instrumentation, mood,
+ * lyric themes and the sections of the track.
+ */
+export const AudioDetails: React.FC<AudioDetailsProps> = ({ audio, onSeek }) => {
+  const renderTags = (label: string, items: string[]) => items.length > 0 && (
+    <div>
+      <h4 className="text-xs font-medium text-gray-400 mb-1">{label}</h4>
+      <div className="flex flex-wrap gap-1.5">
+        {items.map(item => (
+          <span key={item} className="px-2 py-0.5 bg-black/30 text-gray-200 text-xs rounded-lg">{item}</span>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <section className="mb-4 border border-white/10 rounded-xl overflow-hidden bg-black/20 backdrop-blur-sm" aria-label="Audio details">
+      <div className="flex items-center space-x-2 px-3 py-2 border-b border-white/10 bg-black/30 text-xs font-medium text-white">
+        <Music className="w-4 h-4 text-gray-400" />
+        <span>Audio details</span>
+      </div>
+
+      <div className="p-3 space-y-3">
+        <dl className="grid grid-cols-3 gap-2 text-center">
+          <div className="bg-black/30 rounded-lg p-2">
+            <dt className="text-[10px] uppercase tracking-wide text-gray-400">Genre</dt>
+            <dd className="text-sm text-white">{audio.genre}</dd>
+          </div>
+          <div className="bg-black/30 rounded-lg p-2">
+            <dt className="text-[10px] uppercase tracking-wide text-gray-400">Tempo</dt>
+            <dd className="text-sm text-white">{audio.bpm !== null ? `${audio.bpm} BPM` : 'Free time'}</dd>
+          </div>
+          <div className="bg-black/30 rounded-lg p-2">
+            <dt className="text-[10px] uppercase tracking-wide text-gray-400">Key</dt>
+            <dd className="text-sm text-white">{audio.key}</dd>
+          </div>
+        </dl>
+
+        {renderTags('Instrumentation', audio.instrumentation)}
+        {renderTags('Mood', audio.mood)}
+        {renderTags('Lyric themes', audio.lyricThemes)}
+
+        {audio.structure.length > 0 && (
+          <div>
+            <h4 className="text-xs font-medium text-gray-400 mb-1">Structure</h4>
+            <ol className="space-y-1">
+              {audio.structure.map((section, index) => {
+                const { start } = section;
+                return (
+                  <li key={index}>
+                    <button
+                      onClick={() => start !== undefined && onSeek?.(start)}
+                      disabled={!onSeek || start === undefined}
+                      className="w-full flex items-start space-x-2 text-left rounded-md px-1 py-0.5 enabled:hover:bg-white/5 disabled:cursor-default"
+                    >
+                      <span className="w-10 flex-shrink-0 text-xs font-mono text-gray-500">
+                        {start !== undefined ? formatTimestamp(start) : ''}
+                      </span>
+                      <span className="text-xs font-medium text-white w-16 flex-shrink-0">{section.label}</span>
+                      <span className="text-xs text-gray-300">{section.description}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { computeSpectrogram, getSpectrogramColor, loadAudio } from '../utils/audioWaveform';
+import { AUDIO_WAVEFORM } from '../constants';
+
+interface AudioSpectrogramProps {
+  src: string;
+  progress?: number; // Playback position, 0-1
+  onSeek?: (position: number) => void;
+  height?: number;
+}
+
+/**
+ * Spectrogram of an audio file, decoded in the browser when first shown. Low
+ * frequencies are at the bottom.
+ */
+export const AudioSpectrogram: React.FC<AudioSpectrogramProps> = ({ src, progress, onSeek, height = 128 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'failed'>('loading');
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus('loading');
+
+    loadAudio(src)
+      .then(({ samples }) => {
+        if (cancelled) return;
+
+        const columns = computeSpectrogram(samples, {
+          fftSize: AUDIO_WAVEFORM.FFT_SIZE,
+          columns: AUDIO_WAVEFORM.SPECTROGRAM_COLUMNS,
+          floorDb: AUDIO_WAVEFORM.SPECTROGRAM_FLOOR_DB
+        });
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || columns.length === 0) throw new Error('Could not draw spectrogram');
+
+        const bins = columns[0].length;
+        canvas.width = columns.length;
+        canvas.height = bins;
+        const image = ctx.createImageData(columns.length, bins);
+
+        columns.forEach((column, x) => {
+          column.forEach((value, bin) => {
+            const offset = ((bins - 1 - bin) * columns.length + x) * 4;
+            const [r, g, b] = getSpectrogramColor(value);
+            image.data[offset] = r;
+            image.data[offset + 1] = g;
+            image.data[offset + 2] = b;
+            image.data[offset + 3] = 255;
+          });
+        });
+
+        ctx.putImageData(image, 0, 0);
+        setStatus('ready');
+      })
+      .catch(error => {
+        console.warn('Failed to render spectrogram:', error);
+        if (!cancelled) setStatus('failed');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onSeek) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+  };
+
+  return (
+    <div
+      className={`relative w-full rounded-lg overflow-hidden bg-black/40 ${onSeek ? 'cursor-pointer' : ''}`}
+      style={{ height }}
+      onClick={handleClick}
+    >
+      <canvas
+        ref={canvasRef}
+        className="w-full h-full"
+        style={{ imageRendering: 'pixelated', display: status === 'ready' ? 'block' : 'none' }}
+        aria-label="Audio spectrogram"
+      />
+
+      {status === 'loading' && (
+        <div className="absolute inset-0 flex items-center justify-center text-white/60 text-xs space-x-2">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>Decoding audio…</span>
+        </div>
+      )}
+      {status === 'failed' && (
+        <div className="absolute inset-0 flex items-center justify-center text-white/50 text-xs">
+          Spectrogram unavailable for this file
+        </div>
+      )}
+
+      {progress !== undefined && status === 'ready' && (
+        <div
+          className="absolute top-0 bottom-0 w-px bg-white pointer-events-none"
+          style={{ left: `${Math.min(1, Math.max(0, progress)) * 100}%` }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Volume2 } from 'lucide-react';
+import { computePeaks, loadAudio } from '../utils/audioWaveform';
+import { AUDIO_WAVEFORM } from '../constants';
+
+export interface WaveformMarker {
+  position: number; // 0-1 along the track
+  label: string;
+}
+
+interface AudioWaveformProps {
+  peaks?: number[]; // Stored with the analysis; without them the audio is decoded from src
+  src?: string;
+  progress?: number; // Playback position, 0-1
+  markers?: WaveformMarker[];
+  onSeek?: (position: number) => void;
+  height?: number;
+  className?: string;
+}
+
+// Peaks decoded for analyses saved before waveforms were stored, shared by every card
+const decodedPeaks = new Map<string, Promise<number[]>>();
+
+const getDecodedPeaks = (src: string): Promise<number[]> => {
+  let peaks = decodedPeaks.get(src);
+  if (!peaks) {
+    peaks = loadAudio(src).then(({ samples }) => computePeaks(samples, AUDIO_WAVEFORM.PEAK_COUNT));
+    // Failed loads aren't cached, so the next card showing this audio tries again
+    peaks.catch(() => decodedPeaks.delete(src));
+    decodedPeaks.set(src, peaks);
+  }
+  return peaks;
+};
+
+/**
+ * Waveform of an audio file as bars. Without stored peaks the audio is fetched and
+ * decoded once the waveform scrolls into view.
+ */
+export const AudioWaveform: React.FC<AudioWaveformProps> = ({
+  peaks,
+  src,
+  progress,
+  markers = [],
+  onSeek,
+  height = 64,
+  className = ''
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [loadedPeaks, setLoadedPeaks] = useState<number[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const hasPeaks = !!peaks && peaks.length > 0;
+
+  useEffect(() => {
+    if (hasPeaks || !src || !containerRef.current) return;
+
+    let cancelled = false;
+    const observer = new IntersectionObserver(entries => {
+      if (!entries.some(entry => entry.isIntersecting)) return;
+      observer.disconnect();
+
+      getDecodedPeaks(src)
+        .then(result => { if (!cancelled) setLoadedPeaks(result); })
+        .catch(error => {
+          console.warn('Failed to decode audio for waveform:', error);
+          if (!cancelled) setLoadFailed(true);
+        });
+    }, { rootMargin: '200px' });
+
+    observer.observe(containerRef.current);
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [hasPeaks, src]);
+
+  const bars = hasPeaks ? peaks : loadedPeaks;
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onSeek) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!onSeek || (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight')) return;
+    e.preventDefault();
+    onSeek(Math.min(1, Math.max(0, (progress ?? 0) + (e.key === 'ArrowRight' ? 0.05 : -0.05))));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative w-full ${onSeek ? 'cursor-pointer' : ''} ${className}`}
+      style={{ height }}
+      onClick={handleClick}
+      onKeyDown={handleKeyDown}
+      {...(onSeek && {
+        role: 'slider',
+        tabIndex: 0,
+        'aria-label': 'Seek audio',
+        'aria-valuemin': 0,
+        'aria-valuemax': 100,
+        'aria-valuenow': Math.round((progress ?? 0) * 100)
+      })}
+    >
+      {bars ? (
+        <svg
+          className="w-full h-full"
+          viewBox={`0 0 ${bars.length} 100`}
+          preserveAspectRatio="none"
+          aria-hidden="true"
+        >
+          {bars.map((peak, index) => {
+            const barHeight = Math.max(2, peak * 100);
+            const played = progress !== undefined && index / bars.length < progress;
+            return (
+              <rect
+                key={index}
+                x={index + 0.15}
+                y={(100 - barHeight) / 2}
+                width={0.7}
+                height={barHeight}
+                className={played ? 'fill-accent-gold' : 'fill-white/40'}
+              />
+            );
+          })}
+        </svg>
+      ) : (
+        <div className="w-full h-full flex items-center justify-center">
+          <Volume2 className={`w-8 h-8 text-white/40 ${loadFailed ? '' : 'animate-pulse'}`} />
+        </div>
+      )}
+
+      {markers.map(marker => (
+        <div
+          key={`${marker.label}-${marker.position}`}
+          className="absolute top-0 bottom-0 border-l border-white/30 pointer-events-none"
+          style={{ left: `${marker.position * 100}%` }}
+        >
+          <span className="absolute top-0 left-1 text-[10px] text-white/70 whitespace-nowrap">{marker.label}</span>
+        </div>
+      ))}
+
+      {progress !== undefined && (
+        <div
+          className="absolute top-0 bottom-0 w-px bg-white pointer-events-none"
+          style={{ left: `${Math.min(1, Math.max(0, progress)) * 100}%` }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,302 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Loader2, Check, X, AlertCircle, RefreshCw, Clock, Upload, Download, ExternalLink } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { addBreadcrumb, captureError } from '../lib/sentry';
+import { CustomModule } from '../lib/supabaseUtils';
+import { decodeBatchFile, postBatchResult, BatchDecodeResult } from '../lib/batchDecode';
+import { exportStylePackBundle } from '../lib/stylePacks';
+import { buildStylePack } from '../utils/stylePack';
+import { runTaskQueue } from '../utils/taskQueue';
+import { BATCH_DECODE } from '../constants';
+
+type BatchItemStatus = 'queued' | 'uploading' | 'analyzing' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+interface BatchItem {
+  file: File;
+  status: BatchItemStatus;
+  uploadProgress: number;
+  attempt: number;
+  error?: string;
+  result?: BatchDecodeResult;
+  postStatus?: 'posting' | 'posted' | 'failed';
+}
+
+interface BatchDecodePanelProps {
+  files: File[];
+  customModules: CustomModule[]; // Selected custom modules, applied to every file
+  onOpenResult: (result: BatchDecodeResult, file: File) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  uploading: 'Uploading',
+  analyzing: 'Analyzing',
+  retrying: 'Retrying',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const getErrorMessage = (error: unknown) => error instanceof Error ? error.message : 'Analysis failed';
+
+/**
+ * Decode many files through a client-side queue, then post or export the results together
+ */
+export const BatchDecodePanel: React.FC<BatchDecodePanelProps> = ({ files, customModules, onOpenResult, onClose }) => {
+  const { user } = useAuth();
+  const [items, setItems] = useState<BatchItem[]>(() =>
+    files.map(file => ({ file, status: 'queued', uploadProgress: 0, attempt: 0 }))
+  );
+  const [isRunning, setIsRunning] = useState(false);
+  const [isPosting, setIsPosting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop starting new files if the panel goes away mid-batch
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const updateItem = (index: number, updates: Partial<BatchItem>) => {
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, ...updates } : item));
+  };
+
+  // Run the queue over the given item indices, e.g. everything queued or only the failures
+  const runBatch = async (indices: number[]) => {
+    if (indices.length === 0) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    setActionError(null);
+    indices.forEach(index => updateItem(index, { status: 'queued', error: undefined, uploadProgress: 0 }));
+
+    addBreadcrumb('Batch decode started', 'ui', { count: indices.length, customModulesCount: customModules.length });
+
+    await runTaskQueue(
+      indices,
+      (itemIndex) => decodeBatchFile(files[itemIndex], {
+        customModules,
+        onUploadProgress: (progress) => updateItem(itemIndex, {
+          status: progress < 100 ? 'uploading' : 'analyzing',
+          uploadProgress: progress
+        })
+      }),
+      {
+        concurrency: BATCH_DECODE.CONCURRENCY,
+        retries: BATCH_DECODE.MAX_RETRIES,
+        retryDelayMs: BATCH_DECODE.RETRY_DELAY_MS,
+        signal: controller.signal
+      },
+      (event) => {
+        const itemIndex = indices[event.index];
+        switch (event.status) {
+          case 'running':
+            updateItem(itemIndex, { status: 'uploading', uploadProgress: 0, attempt: event.attempt });
+            break;
+          case 'retrying':
+            updateItem(itemIndex, { status: 'retrying', error: getErrorMessage(event.error) });
+            break;
+          case 'done':
+            updateItem(itemIndex, { status: 'done', result: event.result, error: undefined });
+            break;
+          case 'failed':
+            captureError(event.error as Error, { context: 'batchDecode', fileName: files[itemIndex].name });
+            updateItem(itemIndex, { status: 'failed', error: getErrorMessage(event.error) });
+            break;
+          case 'cancelled':
+            updateItem(itemIndex, { status: 'cancelled' });
+            break;
+        }
+      }
+    );
+
+    if (abortControllerRef.current === controller) abortControllerRef.current = null;
+    setIsRunning(false);
+    addBreadcrumb('Batch decode finished', 'ui');
+  };
+
+  const handleStart = () => runBatch(items.map((_, index) => index).filter(index => items[index].status === 'queued'));
+
+  const handleRetry = () => runBatch(
+    items.map((_, index) => index).filter(index => ['failed', 'cancelled'].includes(items[index].status))
+  );
+
+  const handleCancel = () => abortControllerRef.current?.abort();
+
+  const doneIndices = items.map((_, index) => index).filter(index => items[index].status === 'done');
+  const unpostedIndices = doneIndices.filter(index => items[index].postStatus !== 'posted');
+  const failedCount = items.filter(item => item.status === 'failed' || item.status === 'cancelled').length;
+  const queuedCount = items.filter(item => item.status === 'queued').length;
+
+  const handlePostAll = async () => {
+    if (user && !user.username) {
+      setActionError('Please set a username in your profile to post to the gallery');
+      return;
+    }
+
+    setIsPosting(true);
+    setActionError(null);
+    let failures = 0;
+
+    // One at a time keeps the gallery order the same as the batch order
+    for (const index of unpostedIndices) {
+      updateItem(index, { postStatus: 'posting' });
+      try {
+        await postBatchResult(items[index].result!, user);
+        updateItem(index, { postStatus: 'posted' });
+      } catch {
+        failures++;
+        updateItem(index, { postStatus: 'failed' });
+      }
+    }
+
+    if (failures > 0) setActionError(`${failures} of ${unpostedIndices.length} posts failed`);
+    setIsPosting(false);
+  };
+
+  const handleExportAll = async () => {
+    try {
+      setIsExporting(true);
+      setActionError(null);
+
+      await exportStylePackBundle(
+        doneIndices.map(index => {
+          const result = items[index].result!;
+          return {
+            pack: buildStylePack(result.analysis, { mediaType: result.mediaType, mediaUrl: result.mediaUrl }),
+            mediaUrl: result.mediaUrl,
+            thumbnailFile: result.thumbnailFile
+          };
+        }),
+        `styledrop-batch-${new Date().toISOString().slice(0, 10)}.zip`
+      );
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Failed to export style packs');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderStatusIcon = (item: BatchItem) => {
+    switch (item.status) {
+      case 'queued': return <Clock className="w-4 h-4 text-gray-400" />;
+      case 'uploading':
+      case 'analyzing': return <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />;
+      case 'retrying': return <RefreshCw className="w-4 h-4 text-orange-400 animate-spin" />;
+      case 'done': return <Check className="w-4 h-4 text-green-400" />;
+      case 'failed': return <AlertCircle className="w-4 h-4 text-red-400" />;
+      case 'cancelled': return <X className="w-4 h-4 text-gray-500" />;
+    }
+  };
+
+  return (
+    <div className="w-full text-left space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-white font-medium text-lg">Batch decode</h3>
+          <p className="text-gray-400 text-sm">
+            {doneIndices.length}/{items.length} done
+            {failedCount > 0 && <span className="text-red-300"> · {failedCount} failed</span>}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          disabled={isRunning || isPosting}
+          className="p-2 rounded-full hover:bg-white/10 transition-colors disabled:opacity-50"
+          aria-label="Close batch"
+        >
+          <X className="w-5 h-5 text-gray-400" />
+        </button>
+      </div>
+
+      <ul className="max-h-80 overflow-y-auto space-y-1 pr-1" aria-live="polite">
+        {items.map((item, index) => (
+          <li key={index} className="flex items-center space-x-3 p-2 bg-white/5 rounded-lg border border-white/10">
+            {renderStatusIcon(item)}
+            <div className="flex-1 min-w-0">
+              <p className="text-white text-sm truncate">{item.file.name}</p>
+              <p className={`text-xs truncate ${item.status === 'failed' ? 'text-red-300' : 'text-gray-400'}`}>
+                {STATUS_LABELS[item.status]}
+                {item.status === 'uploading' && ` ${Math.round(item.uploadProgress)}%`}
+                {item.attempt > 1 && item.status !== 'done' && ` (attempt ${item.attempt})`}
+                {item.status === 'done' && item.result && ` · ${item.result.analysis.title}`}
+                {item.error && item.status !== 'done' && ` · ${item.error}`}
+                {item.postStatus === 'posted' && ' · Posted'}
+                {item.postStatus === 'failed' && ' · Post failed'}
+              </p>
+            </div>
+            {item.postStatus === 'posting' && <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />}
+            {item.status === 'done' && item.result && (
+              <button
+                onClick={() => onOpenResult(item.result!, item.file)}
+                disabled={isRunning}
+                className="p-1.5 rounded-lg hover:bg-white/10 text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                aria-label={`Open analysis of ${item.file.name}`}
+                title={isRunning ? 'Wait for the batch to finish' : 'Open analysis'}
+              >
+                <ExternalLink className="w-4 h-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {actionError && (
+        <p className="text-red-300 text-sm" role="alert">{actionError}</p>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        {isRunning ? (
+          <button
+            onClick={handleCancel}
+            className="px-4 py-2 bg-white/5 hover:bg-white/10 rounded-lg border border-white/10 text-gray-300 hover:text-white text-sm transition-colors"
+          >
+            Cancel remaining
+          </button>
+        ) : (
+          <>
+            {queuedCount > 0 && (
+              <button
+                onClick={handleStart}
+                className="px-4 py-2 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 rounded-lg text-white text-sm font-medium transition-colors"
+              >
+                Decode {queuedCount} {queuedCount === 1 ? 'file' : 'files'}
+              </button>
+            )}
+            {failedCount > 0 && (
+              <button
+                onClick={handleRetry}
+                className="flex items-center space-x-1 px-4 py-2 bg-white/5 hover:bg-white/10 rounded-lg border border-white/10 text-gray-300 hover:text-white text-sm transition-colors"
+              >
+                <RefreshCw className="w-4 h-4" />
+                <span>Retry failed</span>
+              </button>
+            )}
+          </>
+        )}
+
+        {!isRunning && doneIndices.length > 0 && (
+          <>
+            <button
+              onClick={handlePostAll}
+              disabled={isPosting || unpostedIndices.length === 0}
+              className="flex items-center space-x-1 px-4 py-2 bg-white/5 hover:bg-white/10 rounded-lg border border-white/10 text-gray-300 hover:text-white text-sm transition-colors disabled:opacity-50"
+            >
+              {isPosting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              <span>{unpostedIndices.length === 0 ? 'All posted' : `Post ${unpostedIndices.length} to gallery`}</span>
+            </button>
+            <button
+              onClick={handleExportAll}
+              disabled={isExporting}
+              className="flex items-center space-x-1 px-4 py-2 bg-white/5 hover:bg-white/10 rounded-lg border border-white/10 text-gray-300 hover:text-white text-sm transition-colors disabled:opacity-50"
+            >
+              {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              <span>Export style packs</span>
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
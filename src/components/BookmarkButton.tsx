@@ -0,0 +1,63 @@
+import React from 'react';
+import { Bookmark } from 'lucide-react';
+import { addBookmark, removeBookmark, isBookmarked } from '../lib/supabaseUtils';
+import { useOptimisticToggle } from '../hooks/useOptimisticToggle';
+
+interface BookmarkButtonProps {
+  analysisId: string;
+  userId?: string;
+  isSaved?: boolean; // Known saved state (e.g. batch-loaded by a gallery); fetched when omitted
+  variant?: 'card' | 'page';
+}
+
+const saveBookmark = (userId: string, analysisId: string, saved: boolean) =>
+  saved ? addBookmark(userId, analysisId) : removeBookmark(userId, analysisId);
+
+export const BookmarkButton: React.FC<BookmarkButtonProps> = ({
+  analysisId,
+  userId,
+  isSaved,
+  variant = 'card'
+}) => {
+  const { isOn: saved, toggle } = useOptimisticToggle({
+    id: analysisId,
+    userId,
+    knownState: isSaved,
+    load: isBookmarked,
+    save: saveBookmark,
+    breadcrumbs: { on: 'Bookmark clicked', off: 'Remove bookmark clicked' },
+    errorContext: 'handleBookmarkToggle'
+  });
+
+  const handleToggle = (e: React.MouseEvent) => {
+    // Don't open the post when saving from a gallery card
+    e.stopPropagation();
+    toggle();
+  };
+
+  const label = !userId
+    ? 'Sign in to save analyses'
+    : saved ? 'Remove from saved' : 'Save analysis';
+
+  const sizeClasses = variant === 'page'
+    ? 'p-1.5 rounded-xl bg-white/10 hover:bg-white/20'
+    : 'p-1.5 rounded-lg bg-black/70 hover:bg-black/90';
+
+  return (
+    <button
+      onClick={handleToggle}
+      onKeyDown={(e) => e.stopPropagation()}
+      disabled={!userId}
+      className={`flex items-center transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900 disabled:cursor-not-allowed ${sizeClasses}`}
+      aria-label={label}
+      aria-pressed={saved}
+      title={label}
+    >
+      <Bookmark
+        className={`${variant === 'page' ? 'w-5 h-5' : 'w-4 h-4'} transition-colors ${
+          saved ? 'text-[#D4B896] fill-[#D4B896]' : 'text-white/70'
+        }`}
+      />
+    </button>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Check, Loader2, Plus, Lock, Globe, AlertTriangle } from 'lucide-react';
+import {
+  Collection,
+  CollectionTarget,
+  getCollections,
+  getCollectionIdsContaining,
+  addToCollection,
+  removeFromCollection,
+  createCollection
+} from '../lib/collections';
+import { navigate } from '../lib/routes';
+import { addBreadcrumb } from '../lib/sentry';
+import { COLLECTIONS } from '../constants';
+
+interface CollectionPickerProps {
+  userId: string;
+  postId?: string; // Gallery posts are collected as posts
+  analysisId?: string; // Otherwise the analysis itself
+  onClose: () => void;
+}
+
+/**
+ * "Add to collection" dropdown: toggles the post or analysis in each of the user's
+ * collections, and can start a new collection with it
+ */
+export const CollectionPicker: React.FC<CollectionPickerProps> = ({ userId, postId, analysisId, onClose }) => {
+  const [collections, setCollections] = useState<Collection[] | null>(null);
+  const [memberIds, setMemberIds] = useState<Set<string>>(() => new Set());
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newIsPublic, setNewIsPublic] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const target = useMemo<CollectionTarget>(
+    () => postId ? { postId } : { analysisId: analysisId || '' },
+    [postId, analysisId]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getCollections(userId).then(async result => {
+      const ids = await getCollectionIdsContaining(result.map(collection => collection.id), target);
+      if (cancelled) return;
+      setCollections(result);
+      setMemberIds(ids);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, target]);
+
+  const setMember = (collectionId: string, isMember: boolean) => {
+    setMemberIds(prev => {
+      const next = new Set(prev);
+      if (isMember) next.add(collectionId);
+      else next.delete(collectionId);
+      return next;
+    });
+  };
+
+  const handleToggle = async (collection: Collection) => {
+    if (pendingId) return;
+
+    const isMember = memberIds.has(collection.id);
+    setPendingId(collection.id);
+    setError(null);
+    setMember(collection.id, !isMember);
+
+    try {
+      if (isMember) {
+        await removeFromCollection(collection.id, target);
+      } else {
+        await addToCollection(collection.id, target);
+      }
+      addBreadcrumb(isMember ? 'Removed from collection' : 'Added to collection', 'ui', { collectionId: collection.id });
+    } catch (toggleError) {
+      setMember(collection.id, isMember);
+      setError(toggleError instanceof Error ? toggleError.message : 'Failed to update the collection');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim() || isCreating) return;
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const collection = await createCollection(userId, { name: newName, description: '', is_public: newIsPublic });
+      await addToCollection(collection.id, target);
+      addBreadcrumb('Collection created from picker', 'ui', { collectionId: collection.id });
+
+      setCollections(prev => [{ ...collection, items_count: 1 }, ...(prev || [])]);
+      setMember(collection.id, true);
+      setNewName('');
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : 'Failed to create the collection');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleManage = () => {
+    onClose();
+    navigate({ name: 'collections' });
+  };
+
+  return (
+    <div className="absolute right-0 mt-2 w-72 bg-black/90 border border-white/10 rounded-xl shadow-lg overflow-hidden z-20" role="dialog" aria-label="Add to collection">
+      <div className="px-4 py-2 border-b border-white/10 text-sm font-medium text-[#D4B896]">Add to collection</div>
+
+      {collections === null ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+        </div>
+      ) : collections.length === 0 ? (
+        <p className="px-4 py-3 text-sm text-gray-400">No collections yet. Name your first one below.</p>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto py-1">
+          {collections.map(collection => {
+            const isMember = memberIds.has(collection.id);
+            const VisibilityIcon = collection.is_public ? Globe : Lock;
+            return (
+              <li key={collection.id}>
+                <button
+                  onClick={() => handleToggle(collection)}
+                  disabled={pendingId === collection.id}
+                  className="w-full flex items-center space-x-3 px-4 py-2 text-left text-sm text-gray-300 hover:bg-white/10 hover:text-white transition-colors focus:outline-none focus:bg-white/10 disabled:opacity-60"
+                  role="checkbox"
+                  aria-checked={isMember}
+                >
+                  <span className={`w-4 h-4 rounded border flex items-center justify-center flex-shrink-0 ${isMember ? 'bg-[#8FB3A8] border-[#8FB3A8]' : 'border-white/30'}`}>
+                    {isMember && <Check className="w-3 h-3 text-[#1a1a1a]" />}
+                  </span>
+                  <span className="flex-1 truncate">{collection.name}</span>
+                  <VisibilityIcon className="w-3 h-3 text-gray-500 flex-shrink-0" aria-label={collection.is_public ? 'Public' : 'Private'} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {error && (
+        <div className="mx-3 mb-2 p-2 bg-red-500/20 border border-red-500/30 rounded-lg flex items-start space-x-2" role="alert">
+          <AlertTriangle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
+          <p className="text-red-300 text-xs">{error}</p>
+        </div>
+      )}
+
+      {/* New collection */}
+      <form onSubmit={handleCreate} className="border-t border-white/10 p-3 space-y-2">
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            maxLength={COLLECTIONS.NAME_MAX_LENGTH}
+            placeholder="New collection"
+            className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-400"
+            aria-label="New collection name"
+          />
+          <button
+            type="submit"
+            disabled={!newName.trim() || isCreating}
+            className="p-1.5 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-40 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+            aria-label="Create collection"
+          >
+            {isCreating ? <Loader2 className="w-4 h-4 text-gray-300 animate-spin" /> : <Plus className="w-4 h-4 text-gray-300" />}
+          </button>
+        </div>
+        <label className="flex items-center space-x-2 text-xs text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={newIsPublic}
+            onChange={(e) => setNewIsPublic(e.target.checked)}
+            className="rounded border-white/30 bg-white/5"
+          />
+          <span>Public</span>
+        </label>
+      </form>
+
+      <button
+        onClick={handleManage}
+        className="w-full px-4 py-2 border-t border-white/10 text-left text-xs text-gray-400 hover:bg-white/10 hover:text-white transition-colors focus:outline-none focus:bg-white/10"
+      >
+        Manage collections
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,308 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { MessageCircle, Reply, Pencil, Trash2, Loader2, AlertTriangle, User } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { getComments, addComment, updateComment, deleteComment, PostComment, CommentNode } from '../lib/comments';
+import { buildCommentTree, isCommentEdited } from '../utils/commentTree';
+import { addBreadcrumb } from '../lib/sentry';
+import { COMMENTS } from '../constants';
+
+interface CommentThreadProps {
+  postId: string;
+  postOwnerId?: string; // Post owners can delete any comment on their post
+}
+
+// Raw HTML isn't rendered; links open outside the app
+const MARKDOWN_COMPONENTS: Components = {
+  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-[#8FB3A8] underline hover:text-white">
+      {children}
+    </a>
+  ),
+  ul: ({ children }) => <ul className="list-disc pl-5 mb-2">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 mb-2">{children}</ol>,
+  blockquote: ({ children }) => <blockquote className="border-l-2 border-white/20 pl-3 text-gray-400 mb-2">{children}</blockquote>,
+  code: ({ children }) => <code className="bg-black/40 rounded px-1 font-mono text-xs">{children}</code>,
+  pre: ({ children }) => <pre className="bg-black/40 rounded-lg p-3 mb-2 overflow-x-auto">{children}</pre>,
+  img: ({ alt }) => <span className="text-gray-400">[{alt || 'image'}]</span>
+};
+
+/**
+ * Threaded, markdown discussion on a gallery post
+ */
+export const CommentThread: React.FC<CommentThreadProps> = ({ postId, postOwnerId }) => {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<PostComment[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [pendingId, setPendingId] = useState<string | null>(null); // 'new', or the comment being replied to, edited or deleted
+
+  useEffect(() => {
+    let cancelled = false;
+    setComments(null);
+    setError(null);
+
+    getComments(postId)
+      .then(result => {
+        if (!cancelled) setComments(result);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setComments([]);
+        setError('Failed to load comments.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [postId]);
+
+  const tree = useMemo(() => buildCommentTree(comments || []), [comments]);
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    if (pendingId) return;
+
+    setPendingId(id);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong. Please try again.');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !draft.trim()) return;
+
+    runAction('new', async () => {
+      const comment = await addComment(postId, user.id, draft);
+      addBreadcrumb('Comment posted', 'ui', { postId });
+      setComments(prev => [...(prev || []), comment]);
+      setDraft('');
+    });
+  };
+
+  const handleReply = (e: React.FormEvent, parentId: string) => {
+    e.preventDefault();
+    if (!user || !replyDraft.trim()) return;
+
+    runAction(parentId, async () => {
+      const comment = await addComment(postId, user.id, replyDraft, parentId);
+      addBreadcrumb('Comment reply posted', 'ui', { postId, parentId });
+      setComments(prev => [...(prev || []), comment]);
+      setReplyingTo(null);
+      setReplyDraft('');
+    });
+  };
+
+  const handleEdit = (e: React.FormEvent, commentId: string) => {
+    e.preventDefault();
+    if (!editDraft.trim()) return;
+
+    runAction(commentId, async () => {
+      const updated = await updateComment(commentId, editDraft);
+      setComments(prev => (prev || []).map(comment => comment.id === commentId ? updated : comment));
+      setEditingId(null);
+    });
+  };
+
+  const handleDelete = (node: CommentNode) => {
+    const message = node.replies.length > 0
+      ? 'Delete this comment and its replies?'
+      : 'Delete this comment?';
+    if (!window.confirm(message)) return;
+
+    runAction(node.comment.id, async () => {
+      await deleteComment(node.comment.id);
+      addBreadcrumb('Comment deleted', 'ui', { postId, commentId: node.comment.id });
+
+      // Replies are deleted with their parent
+      const removed = new Set<string>();
+      const collect = (current: CommentNode) => {
+        removed.add(current.comment.id);
+        current.replies.forEach(collect);
+      };
+      collect(node);
+      setComments(prev => (prev || []).filter(comment => !removed.has(comment.id)));
+    });
+  };
+
+  const renderForm = (
+    value: string,
+    onChange: (value: string) => void,
+    onSubmit: (e: React.FormEvent) => void,
+    submitLabel: string,
+    isPending: boolean,
+    onCancel?: () => void
+  ) => (
+    <form onSubmit={onSubmit} className="space-y-2">
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        maxLength={COMMENTS.BODY_MAX_LENGTH}
+        placeholder="Add to the discussion... Markdown is supported"
+        rows={3}
+        className="w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white placeholder-gray-500 resize-y focus:outline-none focus:ring-2 focus:ring-blue-400"
+        aria-label={submitLabel}
+        autoFocus={!!onCancel}
+      />
+      <div className="flex items-center justify-end space-x-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 rounded-lg text-xs text-gray-400 hover:text-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={!value.trim() || isPending}
+          className="flex items-center space-x-2 px-3 py-1.5 bg-[#D4B896] hover:bg-[#C4A886] disabled:opacity-50 disabled:cursor-not-allowed text-[#1a1a1a] rounded-lg text-xs font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+        >
+          {isPending && <Loader2 className="w-3 h-3 animate-spin" />}
+          <span>{submitLabel}</span>
+        </button>
+      </div>
+    </form>
+  );
+
+  const renderNode = (node: CommentNode, depth: number): React.ReactNode => {
+    const { comment } = node;
+    const isAuthor = user?.id === comment.user_id;
+    const canDelete = isAuthor || (!!user && user.id === postOwnerId);
+    const isPending = pendingId === comment.id;
+    const actionClass = 'flex items-center space-x-1 text-xs text-gray-400 hover:text-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 rounded disabled:opacity-50';
+
+    return (
+      <li key={comment.id}>
+        <article className="py-3" aria-label={`Comment by ${comment.author?.username || 'a deleted user'}`}>
+          <header className="flex items-center space-x-2 mb-1">
+            {comment.author?.avatar_url ? (
+              <img src={comment.author.avatar_url} alt="" className="w-6 h-6 rounded-full" />
+            ) : (
+              <div className="w-6 h-6 rounded-full bg-white/10 flex items-center justify-center">
+                <User className="w-3 h-3 text-white/50" />
+              </div>
+            )}
+            <span className="text-sm text-[#5F6BBB] font-mono">@{comment.author?.username || 'unknown'}</span>
+            {comment.user_id === postOwnerId && (
+              <span className="px-1.5 py-0.5 rounded bg-[#D4B896]/20 text-[#D4B896] text-[10px] uppercase tracking-wide">Artist</span>
+            )}
+            <time className="text-xs text-gray-500" dateTime={comment.created_at}>
+              {new Date(comment.created_at).toLocaleDateString()}
+            </time>
+            {isCommentEdited(comment) && <span className="text-xs text-gray-500">(edited)</span>}
+          </header>
+
+          <div className="pl-8">
+            {editingId === comment.id ? (
+              renderForm(editDraft, setEditDraft, (e) => handleEdit(e, comment.id), 'Save', isPending, () => setEditingId(null))
+            ) : (
+              <div className="text-sm text-improved-contrast break-words">
+                <ReactMarkdown remarkPlugins={[remarkGfm]} components={MARKDOWN_COMPONENTS}>
+                  {comment.body}
+                </ReactMarkdown>
+              </div>
+            )}
+
+            {editingId !== comment.id && (
+              <div className="flex items-center space-x-4 mt-2">
+                {user && (
+                  <button
+                    onClick={() => {
+                      setReplyingTo(replyingTo === comment.id ? null : comment.id);
+                      setReplyDraft('');
+                    }}
+                    className={actionClass}
+                    aria-expanded={replyingTo === comment.id}
+                  >
+                    <Reply className="w-3 h-3" />
+                    <span>Reply</span>
+                  </button>
+                )}
+                {isAuthor && (
+                  <button
+                    onClick={() => {
+                      setEditingId(comment.id);
+                      setEditDraft(comment.body);
+                    }}
+                    className={actionClass}
+                  >
+                    <Pencil className="w-3 h-3" />
+                    <span>Edit</span>
+                  </button>
+                )}
+                {canDelete && (
+                  <button onClick={() => handleDelete(node)} disabled={isPending} className={`${actionClass} hover:text-red-300`}>
+                    <Trash2 className="w-3 h-3" />
+                    <span>Delete</span>
+                  </button>
+                )}
+              </div>
+            )}
+
+            {replyingTo === comment.id && (
+              <div className="mt-3">
+                {renderForm(replyDraft, setReplyDraft, (e) => handleReply(e, comment.id), 'Reply', isPending, () => setReplyingTo(null))}
+              </div>
+            )}
+          </div>
+        </article>
+
+        {node.replies.length > 0 && (
+          // Past the maximum depth, replies continue at the same indentation
+          <ul className={depth < COMMENTS.MAX_REPLY_DEPTH ? 'pl-6 border-l border-white/10 ml-3' : ''}>
+            {node.replies.map(reply => renderNode(reply, depth + 1))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  const count = comments?.length || 0;
+
+  return (
+    <section className="border border-white/10 rounded-xl bg-black/20 backdrop-blur-sm p-4" aria-label="Comments">
+      <h2 className="flex items-center space-x-2 text-sm font-medium text-[#D4B896] mb-4">
+        <MessageCircle className="w-4 h-4" />
+        <span>{count > 0 ? `Discussion (${count})` : 'Discussion'}</span>
+      </h2>
+
+      {user ? (
+        renderForm(draft, setDraft, handleSubmit, 'Comment', pendingId === 'new')
+      ) : (
+        <p className="text-sm text-gray-400">Sign in to join the discussion.</p>
+      )}
+
+      {error && (
+        <div className="mt-3 p-2 bg-red-500/20 border border-red-500/30 rounded-lg flex items-start space-x-2" role="alert">
+          <AlertTriangle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
+          <p className="text-red-300 text-xs">{error}</p>
+        </div>
+      )}
+
+      {comments === null ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+        </div>
+      ) : tree.length === 0 ? (
+        <p className="mt-4 text-sm text-gray-500">No comments yet.</p>
+      ) : (
+        <ul className="mt-2 divide-y divide-white/5">
+          {tree.map(node => renderNode(node, 0))}
+        </ul>
+      )}
+    </section>
+  );
+};
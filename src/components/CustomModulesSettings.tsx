@@ -0,0 +1,376 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Pencil, Trash2, Loader2, AlertTriangle, Layers } from 'lucide-react';
+import {
+  fetchCustomModules,
+  createCustomModule,
+  updateCustomModule,
+  deleteCustomModule,
+  CustomModule,
+  CustomModuleInput
+} from '../lib/supabaseUtils';
+import { addBreadcrumb, captureError } from '../lib/sentry';
+import { CUSTOM_MODULE_LIMITS } from '../utils/geminiParser';
+import {
+  CUSTOM_MODULE_ICONS,
+  CustomModuleIcon,
+  DEFAULT_CUSTOM_MODULE_COLOR,
+  DEFAULT_CUSTOM_MODULE_ICON,
+  getCustomModuleIcon
+} from '../constants/modules';
+
+interface CustomModulesSettingsProps {
+  userId: string;
+}
+
+const EMPTY_FORM: CustomModuleInput = {
+  name: '',
+  color: DEFAULT_CUSTOM_MODULE_COLOR,
+  icon: DEFAULT_CUSTOM_MODULE_ICON,
+  instruction: '',
+  item_count: 3,
+  min_words: null,
+  max_words: null,
+  is_active: true
+};
+
+const validateModule = (form: CustomModuleInput): string | null => {
+  if (!form.name.trim()) return 'Module name is required';
+  if (form.name.trim().length > CUSTOM_MODULE_LIMITS.MAX_NAME_LENGTH) {
+    return `Module name must be at most ${CUSTOM_MODULE_LIMITS.MAX_NAME_LENGTH} characters`;
+  }
+  if (!form.instruction.trim()) return 'Instruction is required';
+  if (form.instruction.trim().length > CUSTOM_MODULE_LIMITS.MAX_INSTRUCTION_LENGTH) {
+    return `Instruction must be at most ${CUSTOM_MODULE_LIMITS.MAX_INSTRUCTION_LENGTH} characters`;
+  }
+  if (!Number.isInteger(form.item_count) || form.item_count < 1 || form.item_count > CUSTOM_MODULE_LIMITS.MAX_ITEMS) {
+    return `Item count must be between 1 and ${CUSTOM_MODULE_LIMITS.MAX_ITEMS}`;
+  }
+  if (form.min_words !== null && form.max_words !== null && form.min_words > form.max_words) {
+    return 'Minimum words cannot be more than maximum words';
+  }
+  return null;
+};
+
+const parseWordLimit = (value: string): number | null => {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 1 ? null : parsed;
+};
+
+/**
+ * Create, edit and delete the user's own analysis modules
+ */
+export const CustomModulesSettings: React.FC<CustomModulesSettingsProps> = ({ userId }) => {
+  const [modules, setModules] = useState<CustomModule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [form, setForm] = useState<CustomModuleInput>(EMPTY_FORM);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchCustomModules(userId)
+      .then(data => {
+        if (!cancelled) setModules(data);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load your modules. Please try again.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const startEditing = (module?: CustomModule) => {
+    setError(null);
+    if (module) {
+      const { name, color, icon, instruction, item_count, min_words, max_words, is_active } = module;
+      setForm({ name, color, icon, instruction, item_count, min_words, max_words, is_active });
+      setEditingId(module.id);
+    } else {
+      setForm(EMPTY_FORM);
+      setEditingId('new');
+    }
+  };
+
+  const updateForm = (updates: Partial<CustomModuleInput>) => {
+    setForm(prev => ({ ...prev, ...updates }));
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    const validationError = validateModule(form);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const input = { ...form, name: form.name.trim(), instruction: form.instruction.trim() };
+
+    try {
+      setSaving(true);
+      addBreadcrumb('Saving custom module', 'ui', { isNew: editingId === 'new' });
+
+      if (editingId === 'new') {
+        const created = await createCustomModule(userId, input);
+        setModules(prev => [...prev, created]);
+      } else if (editingId) {
+        const updated = await updateCustomModule(editingId, input);
+        setModules(prev => prev.map(module => module.id === updated.id ? updated : module));
+      }
+
+      setEditingId(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save module');
+      captureError(error as Error, { context: 'saveCustomModule' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (module: CustomModule) => {
+    try {
+      const updated = await updateCustomModule(module.id, { is_active: !module.is_active });
+      setModules(prev => prev.map(existing => existing.id === updated.id ? updated : existing));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update module');
+    }
+  };
+
+  const handleDelete = async (module: CustomModule) => {
+    if (!window.confirm(`Delete the "${module.name}" module? Existing analyses keep their results.`)) return;
+
+    try {
+      await deleteCustomModule(module.id);
+      setModules(prev => prev.filter(existing => existing.id !== module.id));
+      if (editingId === module.id) setEditingId(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete module');
+    }
+  };
+
+  const renderForm = () => (
+    <div className="p-4 bg-white/5 rounded-lg border border-white/10 space-y-4">
+      <div className="flex space-x-3">
+        <div className="flex-1">
+          <label htmlFor="module-name" className="block text-xs font-medium text-gray-300 mb-1">Name</label>
+          <input
+            id="module-name"
+            type="text"
+            value={form.name}
+            maxLength={CUSTOM_MODULE_LIMITS.MAX_NAME_LENGTH}
+            onChange={(e) => updateForm({ name: e.target.value })}
+            className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-white text-sm placeholder-gray-400 focus:outline-none focus:border-[#B8A082]/50"
+            placeholder="Lighting"
+          />
+        </div>
+        <div>
+          <label htmlFor="module-color" className="block text-xs font-medium text-gray-300 mb-1">Color</label>
+          <input
+            id="module-color"
+            type="color"
+            value={form.color}
+            onChange={(e) => updateForm({ color: e.target.value })}
+            className="w-12 h-9 bg-transparent border border-white/10 rounded-lg cursor-pointer"
+          />
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-xs font-medium text-gray-300 mb-1">Icon</span>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(CUSTOM_MODULE_ICONS) as CustomModuleIcon[]).map(iconKey => {
+            const Icon = CUSTOM_MODULE_ICONS[iconKey];
+            const isSelected = form.icon === iconKey;
+
+            return (
+              <button
+                key={iconKey}
+                type="button"
+                onClick={() => updateForm({ icon: iconKey })}
+                aria-label={iconKey}
+                aria-pressed={isSelected}
+                className={`p-2 rounded-lg border transition-colors ${
+                  isSelected ? 'border-white/40 bg-white/10 text-white' : 'border-white/10 text-gray-400 hover:text-white'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="module-instruction" className="block text-xs font-medium text-gray-300 mb-1">Instruction</label>
+        <textarea
+          id="module-instruction"
+          value={form.instruction}
+          maxLength={CUSTOM_MODULE_LIMITS.MAX_INSTRUCTION_LENGTH}
+          onChange={(e) => updateForm({ instruction: e.target.value })}
+          rows={3}
+          className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-white text-sm placeholder-gray-400 focus:outline-none focus:border-[#B8A082]/50 resize-none"
+          placeholder="Describe the lighting setup: key light direction, quality and color temperature."
+        />
+        <p className="text-xs text-gray-500 text-right">
+          {form.instruction.length}/{CUSTOM_MODULE_LIMITS.MAX_INSTRUCTION_LENGTH}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="module-items" className="block text-xs font-medium text-gray-300 mb-1">Items</label>
+          <input
+            id="module-items"
+            type="number"
+            min={1}
+            max={CUSTOM_MODULE_LIMITS.MAX_ITEMS}
+            value={form.item_count}
+            onChange={(e) => updateForm({ item_count: parseInt(e.target.value, 10) || 1 })}
+            className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-[#B8A082]/50"
+          />
+        </div>
+        <div>
+          <label htmlFor="module-min-words" className="block text-xs font-medium text-gray-300 mb-1">Min words</label>
+          <input
+            id="module-min-words"
+            type="number"
+            min={1}
+            value={form.min_words ?? ''}
+            onChange={(e) => updateForm({ min_words: parseWordLimit(e.target.value) })}
+            className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-[#B8A082]/50"
+            placeholder="Any"
+          />
+        </div>
+        <div>
+          <label htmlFor="module-max-words" className="block text-xs font-medium text-gray-300 mb-1">Max words</label>
+          <input
+            id="module-max-words"
+            type="number"
+            min={1}
+            value={form.max_words ?? ''}
+            onChange={(e) => updateForm({ max_words: parseWordLimit(e.target.value) })}
+            className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-[#B8A082]/50"
+            placeholder="Any"
+          />
+        </div>
+      </div>
+
+      <div className="flex space-x-3">
+        <button
+          onClick={() => setEditingId(null)}
+          disabled={saving}
+          className="flex-1 px-4 py-2 bg-white/5 hover:bg-white/10 rounded-lg border border-white/10 text-gray-300 hover:text-white text-sm transition-all duration-300 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex-1 px-4 py-2 bg-gradient-to-r from-[#B8A082] to-[#A69072] hover:from-[#A69072] hover:to-[#958060] rounded-lg text-white text-sm font-medium transition-all duration-300 disabled:opacity-50 flex items-center justify-center space-x-2"
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          <span>{editingId === 'new' ? 'Create Module' : 'Save Module'}</span>
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="mt-6 p-6 bg-white/5 backdrop-blur-sm rounded-2xl border border-white/10 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Layers className="w-5 h-5 text-[#B8A082]" />
+          <div>
+            <h3 className="text-white font-medium">Custom Modules</h3>
+            <p className="text-gray-400 text-xs">Extra prompt lanes generated alongside the six built-in modules</p>
+          </div>
+        </div>
+        {editingId === null && (
+          <button
+            onClick={() => startEditing()}
+            className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-sm text-white transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New</span>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-start space-x-2">
+          <AlertTriangle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+          <p className="text-red-200 text-sm">{error}</p>
+        </div>
+      )}
+
+      {editingId === 'new' && renderForm()}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 text-[#B8A082] animate-spin" />
+        </div>
+      ) : modules.length === 0 && editingId === null ? (
+        <p className="text-gray-500 text-sm">You haven't created any modules yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {modules.map(module => {
+            if (editingId === module.id) {
+              return <React.Fragment key={module.id}>{renderForm()}</React.Fragment>;
+            }
+
+            const Icon = getCustomModuleIcon(module.icon);
+            return (
+              <div
+                key={module.id}
+                className="flex items-center space-x-3 p-3 bg-white/5 rounded-lg border border-white/10"
+              >
+                <div
+                  className="w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0"
+                  style={{ background: `${module.color}30`, color: module.color }}
+                >
+                  <Icon className="w-4 h-4" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-white text-sm font-medium truncate">{module.name}</p>
+                  <p className="text-gray-400 text-xs truncate">
+                    {module.item_count} items · {module.instruction}
+                  </p>
+                </div>
+                <label className="flex items-center space-x-1 text-xs text-gray-400 cursor-pointer" title="Selected by default when decoding">
+                  <input
+                    type="checkbox"
+                    checked={module.is_active}
+                    onChange={() => handleToggleActive(module)}
+                    className="accent-[#B8A082]"
+                  />
+                  <span>Default</span>
+                </label>
+                <button
+                  onClick={() => startEditing(module)}
+                  disabled={editingId !== null}
+                  className="p-1.5 rounded-lg hover:bg-white/10 text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                  aria-label={`Edit ${module.name}`}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(module)}
+                  className="p-1.5 rounded-lg hover:bg-red-500/20 text-gray-400 hover:text-red-400 transition-colors"
+                  aria-label={`Delete ${module.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
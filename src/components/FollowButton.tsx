@@ -0,0 +1,87 @@
+import React, { useState, useEffect } from 'react';
+import { UserPlus, UserCheck } from 'lucide-react';
+import { followUser, unfollowUser, isFollowing } from '../lib/supabaseUtils';
+import { addBreadcrumb, captureError } from '../lib/sentry';
+
+interface FollowButtonProps {
+  artistId: string;
+  userId?: string;
+  onFollowChange?: (following: boolean) => void; // Called on toggle and again on rollback, e.g. to adjust a follower count
+}
+
+export const FollowButton: React.FC<FollowButtonProps> = ({
+  artistId,
+  userId,
+  onFollowChange
+}) => {
+  const [following, setFollowing] = useState(false);
+  const [pending, setPending] = useState(false);
+
+  useEffect(() => {
+    if (!userId) {
+      setFollowing(false);
+      return;
+    }
+
+    let cancelled = false;
+    isFollowing(userId, artistId).then(result => {
+      if (!cancelled) setFollowing(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [artistId, userId]);
+
+  const handleToggle = async () => {
+    if (!userId || pending) return;
+
+    const nextFollowing = !following;
+    addBreadcrumb(nextFollowing ? 'Follow clicked' : 'Unfollow clicked', 'ui', { artistId });
+
+    // Optimistic update
+    setFollowing(nextFollowing);
+    onFollowChange?.(nextFollowing);
+    setPending(true);
+
+    try {
+      if (nextFollowing) {
+        await followUser(userId, artistId);
+      } else {
+        await unfollowUser(userId, artistId);
+      }
+    } catch (error) {
+      console.error('Failed to toggle follow:', error);
+      captureError(error as Error, { context: 'handleFollowToggle', artistId, nextFollowing });
+
+      // Roll back the optimistic update
+      setFollowing(!nextFollowing);
+      onFollowChange?.(!nextFollowing);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const label = !userId
+    ? 'Sign in to follow artists'
+    : following ? 'Unfollow this artist' : 'Follow this artist';
+  const Icon = following ? UserCheck : UserPlus;
+
+  return (
+    <button
+      onClick={handleToggle}
+      disabled={!userId}
+      className={`flex items-center space-x-2 px-4 py-1.5 rounded-xl text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900 disabled:cursor-not-allowed disabled:opacity-60 ${
+        following
+          ? 'bg-white/10 hover:bg-white/20 text-improved-contrast'
+          : 'bg-[#D4B896] hover:bg-[#C4A886] text-[#1a1a1a]'
+      }`}
+      aria-label={label}
+      aria-pressed={following}
+      title={label}
+    >
+      <Icon className="w-4 h-4" />
+      <span>{following ? 'Following' : 'Follow'}</span>
+    </button>
+  );
+};
@@ -0,0 +1,235 @@
+import React from 'react';
+import { Play, Volume2, Type, PenLine, GitFork, MessageCircle } from 'lucide-react';
+import { Post, validateAndFixMediaUrl } from '../lib/supabaseUtils';
+import { LikeButton } from './LikeButton';
+import { BookmarkButton } from './BookmarkButton';
+import { AudioWaveform } from './AudioWaveform';
+
+interface GalleryPostCardProps {
+  post: Post;
+  userId?: string;
+  isLiked: boolean;
+  isSaved: boolean;
+  onClick: (post: Post) => void;
+  isLikeable?: boolean; // False for analyses shown as cards, which have no likes
+  role?: 'gridcell' | 'listitem';
+  children?: React.ReactNode; // Extra controls over the card, e.g. a collection owner's item actions
+}
+
+/**
+ * A post in a masonry gallery grid: media preview, badges, and save and like actions
+ */
+export const GalleryPostCard: React.FC<GalleryPostCardProps> = ({
+  post,
+  userId,
+  isLiked,
+  isSaved,
+  onClick,
+  isLikeable = true,
+  role = 'gridcell',
+  children
+}) => {
+  const getMediaIcon = (mediaType: string) => {
+    switch (mediaType) {
+      case 'video': return Play;
+      case 'audio': return Volume2;
+      default: return Type;
+    }
+  };
+
+  const renderMediaPreview = (post: Post) => {
+    const MediaIcon = getMediaIcon(post.media_type);
+    
+    // Validate and fix the media URL
+    const validatedUrl = validateAndFixMediaUrl(post.media_url);
+    
+    console.log('Rendering media preview:', {
+      postId: post.id.substring(0, 8),
+      originalUrl: post.media_url,
+      validatedUrl: validatedUrl,
+      mediaType: post.media_type
+    });
+
+    switch (post.media_type) {
+      case 'image':
+        return (
+          <div className="relative w-full">
+            <img
+              src={validatedUrl}
+              alt={post.title}
+              className="w-full h-auto object-cover shadow-double-border"
+              loading="lazy"
+              onError={(e) => {
+                console.warn('Image failed to load, showing fallback:', {
+                  postId: post.id,
+                  originalUrl: post.media_url,
+                  validatedUrl: validatedUrl
+                });
+                // Set a fallback image or hide the image
+                const target = e.target as HTMLImageElement;
+                target.style.display = 'none';
+                // Show the fallback div
+                const fallbackDiv = target.nextElementSibling as HTMLElement;
+                if (fallbackDiv) {
+                  fallbackDiv.style.display = 'flex';
+                }
+              }}
+            />
+            {/* Fallback div for broken images */}
+            <div 
+              className="absolute inset-0 bg-gradient-to-br from-[#B8A082]/20 to-[#7C9A92]/20 flex items-center justify-center shadow-double-border"
+              style={{ display: 'none' }}
+            >
+              <div className="text-center">
+                <Type className="w-16 h-16 text-[#B8A082] mx-auto mb-2" />
+                <p className="text-[#B8A082] text-sm">Image unavailable</p>
+                <p className="text-[#B8A082]/60 text-xs mt-1">Media file could not be loaded</p>
+              </div>
+            </div>
+          </div>
+        );
+      case 'video':
+        return (
+          <div className="relative w-full">
+            <video
+              src={validatedUrl}
+              className="w-full h-auto object-cover shadow-double-border"
+              muted
+              preload="none"
+              poster={post.thumbnail_url} // NEW: Use thumbnail as poster if available
+              onError={(e) => {
+                console.warn('Video failed to load, showing fallback:', {
+                  postId: post.id,
+                  originalUrl: post.media_url,
+                  validatedUrl: validatedUrl
+                });
+                // Show fallback for video
+                const target = e.target as HTMLVideoElement;
+                target.style.display = 'none';
+                const fallbackDiv = target.nextElementSibling as HTMLElement;
+                if (fallbackDiv) {
+                  fallbackDiv.style.display = 'flex';
+                }
+              }}
+            />
+            <div className="absolute inset-0 bg-black/30 flex items-center justify-center">
+              <Play className="w-12 h-12 text-white/80" />
+            </div>
+            {/* Fallback div for broken videos */}
+            <div 
+              className="absolute inset-0 bg-gradient-to-br from-[#4da0ff]/20 to-[#7C9A92]/20 flex items-center justify-center shadow-double-border"
+              style={{ display: 'none' }}
+            >
+              <div className="text-center">
+                <Play className="w-16 h-16 text-[#4da0ff] mx-auto mb-2" />
+                <p className="text-[#4da0ff] text-sm">Video unavailable</p>
+                <p className="text-[#4da0ff]/60 text-xs mt-1">Media file could not be loaded</p>
+              </div>
+            </div>
+          </div>
+        );
+      case 'audio':
+        return (
+          <div className="w-full h-auto bg-white/5 backdrop-blur-xl border border-white/10 shadow-lg px-4 py-8">
+            <AudioWaveform peaks={post.analysis_data?.waveform} src={validatedUrl} height={80} />
+          </div>
+        );
+      default:
+        return (
+          <div className="w-full h-auto bg-white/5 flex items-center justify-center shadow-double-border py-16">
+            <div className="text-center">
+              <MediaIcon className="w-16 h-16 text-white/30 mx-auto mb-2" />
+              <p className="text-white/30 text-sm">Unknown media type</p>
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div
+      onClick={() => onClick(post)}
+      className="bg-white/5 rounded-2xl overflow-hidden hover:bg-white/10 transition-all group border border-white/10 hover:border-white/20 hover:scale-[1.02] transform duration-300 cursor-pointer relative break-inside-avoid focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+      role={role}
+      tabIndex={0}
+      aria-label={`View ${post.title} in ${post.style} style`}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          onClick(post);
+        }
+      }}
+    >
+      {/* Media Preview */}
+      {renderMediaPreview(post)}
+
+      {/* Posted with an edited prompt instead of the model output */}
+      {post.analysis_data?.revision && (
+        <div className="absolute top-2 left-2 flex items-center space-x-1 bg-black/70 text-[#D4B896] text-xs px-2 py-1 rounded" title="Prompt edited by the artist">
+          <PenLine className="w-3 h-3" />
+          <span>Edited</span>
+        </div>
+      )}
+
+      {/* Card Actions - Remixes, Comments, Save and Like */}
+      <div className="absolute bottom-2 right-2 flex items-center space-x-2">
+        {(post.remixes_count || 0) > 0 && (
+          <div
+            className="flex items-center px-2 py-1 text-xs space-x-1 rounded-lg bg-black/70"
+            title={`${post.remixes_count} ${post.remixes_count === 1 ? 'remix' : 'remixes'}`}
+          >
+            <GitFork className="w-4 h-4 text-white/70" />
+            <span className="text-white/80 font-mono">{post.remixes_count}</span>
+          </div>
+        )}
+        {(post.comments_count || 0) > 0 && (
+          <div
+            className="flex items-center px-2 py-1 text-xs space-x-1 rounded-lg bg-black/70"
+            title={`${post.comments_count} ${post.comments_count === 1 ? 'comment' : 'comments'}`}
+          >
+            <MessageCircle className="w-4 h-4 text-white/70" />
+            <span className="text-white/80 font-mono">{post.comments_count}</span>
+          </div>
+        )}
+        {post.analysis_data?.id && (
+          <BookmarkButton
+            analysisId={post.analysis_data.id}
+            userId={userId}
+            isSaved={isSaved}
+          />
+        )}
+        {isLikeable && (
+          <LikeButton
+            postId={post.id}
+            userId={userId}
+            likesCount={post.likes_count || 0}
+            isLiked={isLiked}
+          />
+        )}
+      </div>
+
+      {/* Style Name Overlay - Updated with hover effect */}
+      <div className="absolute bottom-0 left-1/2 transform -translate-x-1/2 bg-black px-3 py-2 rounded-t-lg opacity-0 group-hover:opacity-70 translate-y-full group-hover:translate-y-0 transition-all duration-300">
+        <p className="text-[#8FB3A8] font-mono text-xs font-medium text-center whitespace-nowrap">
+          {post.style}
+        </p>
+      </div>
+
+      {/* Debug info overlay (only in development) */}
+      {import.meta.env.DEV && (
+        <div className="absolute top-2 right-2 bg-black/80 text-white text-xs p-1 rounded opacity-0 group-hover:opacity-100 transition-opacity">
+          <div>ID: {post.id.substring(0, 8)}...</div>
+          <div>URL: {post.media_url.substring(0, 30)}...</div>
+          <div>Type: {post.media_type}</div>
+          {post.thumbnail_url && <div>Has thumbnail</div>}
+        </div>
+      )}
+
+      {children && (
+        <div className="absolute top-2 right-2 z-10 flex items-center space-x-1">
+          {children}
+        </div>
+      )}
+    </div>
+  );
+};
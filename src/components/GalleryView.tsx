@@ -1,8 +1,15 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Loader2, AlertTriangle, ChevronDown, Play, Volume2, Type, Image, Video, Music, Search, X } from 'lucide-react';
-import { getPosts, getPostsByUserId, Post, validateAndFixMediaUrl } from '../lib/supabaseUtils';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Loader2, AlertTriangle, ChevronDown, Type, Image, Video, Music, Search, X, Users } from 'lucide-react';
+import { getPosts, getPostsByUserId, getFollowingPosts, getSearchFacets, getFollowCounts, GallerySortOrder, Post, SearchFacets, FollowCounts } from '../lib/supabaseUtils';
 import { addBreadcrumb, captureError } from '../lib/sentry';
 import { GallerySkeletonLoader, GalleryLoadMoreSkeleton } from './GallerySkeletonLoader';
+import { GalleryPostCard } from './GalleryPostCard';
+import { FollowButton } from './FollowButton';
+import { useAuth } from '../hooks/useAuth';
+import { useLikedPostIds } from '../hooks/useLikedPostIds';
+import { useBookmarkedAnalysisIds } from '../hooks/useBookmarkedAnalysisIds';
+import { parseSearchQuery, hasSearchTerms, toggleStyleFilter } from '../utils/searchQuery';
+import { SEARCH } from '../constants';
 
 interface GalleryViewProps {
   onBack: () => void;
@@ -20,22 +27,58 @@ export const GalleryView: React.FC<GalleryViewProps> = ({
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [sortOrder, setSortOrder] = useState<'new' | 'top' | 'hot'>('new');
+  const [sortOrder, setSortOrder] = useState<GallerySortOrder>('new');
+  const [searchSortOrder, setSearchSortOrder] = useState<GallerySortOrder>('relevance'); // Kept apart so clearing a search restores the browsing order
   const [selectedMediaType, setSelectedMediaType] = useState<'image' | 'video' | 'audio'>('image');
   const [hasMore, setHasMore] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchInputValue, setSearchInputValue] = useState('');
+  const [facets, setFacets] = useState<SearchFacets | null>(null); // Match counts for the active search
+  const [feed, setFeed] = useState<'all' | 'following'>('all'); // Home gallery tab
+  const [followCounts, setFollowCounts] = useState<FollowCounts | null>(null); // Shown on artist profiles
   const loadMoreRef = useRef<HTMLDivElement>(null);
+  const { user } = useAuth();
+  // The following feed is only offered on the home gallery, to signed-in users
+  const isFollowingFeed = feed === 'following' && !artistId && !!user;
+  const likedPostIds = useLikedPostIds(posts, user?.id);
+  const bookmarkedAnalysisIds = useBookmarkedAnalysisIds(posts, user?.id);
 
   // Debounce search query to avoid excessive API calls
   useEffect(() => {
     const timeoutId = setTimeout(() => {
       setSearchQuery(searchInputValue);
-    }, 300);
+    }, SEARCH.DEBOUNCE_MS);
 
     return () => clearTimeout(timeoutId);
   }, [searchInputValue]);
+
+  // Operators alone (e.g. style:noir) still count as a search. The following feed isn't searchable.
+  const isSearching = useMemo(
+    () => !isFollowingFeed && hasSearchTerms(parseSearchQuery(searchQuery)),
+    [isFollowingFeed, searchQuery]
+  );
+  const activeSortOrder = isSearching ? searchSortOrder : sortOrder;
+  const activeStyleFilters = useMemo(
+    () => parseSearchQuery(searchInputValue).styles.map(style => style.toLowerCase()),
+    [searchInputValue]
+  );
+
+  // Load facet counts alongside search results
+  useEffect(() => {
+    if (!isSearching) {
+      setFacets(null);
+      return;
+    }
+
+    let cancelled = false;
+    getSearchFacets(searchQuery, selectedMediaType, { userId: artistId })
+      .then(result => { if (!cancelled) setFacets(result); });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isSearching, searchQuery, selectedMediaType, artistId]);
   
   const loadPosts = useCallback(async (reset: boolean = false) => {
     try {
@@ -48,12 +91,14 @@ export const GalleryView: React.FC<GalleryViewProps> = ({
 
       const offset = reset ? 0 : posts.length;
       
-      // NEW: Use different fetch function based on whether we're viewing an artist's profile
+      // Use different fetch function based on whether we're viewing an artist's profile or the following feed
       let result;
       if (artistId) {
-        result = await getPostsByUserId(artistId, sortOrder, 12, offset, selectedMediaType, searchQuery);
+        result = await getPostsByUserId(artistId, activeSortOrder, 12, offset, selectedMediaType, searchQuery);
+      } else if (isFollowingFeed) {
+        result = await getFollowingPosts(activeSortOrder, 12, offset, selectedMediaType);
       } else {
-        result = await getPosts(sortOrder, 12, offset, selectedMediaType, searchQuery);
+        result = await getPosts(activeSortOrder, 12, offset, selectedMediaType, searchQuery);
       }
       
       const { posts: newPosts, hasMore: moreAvailable } = result;
@@ -70,6 +115,7 @@ export const GalleryView: React.FC<GalleryViewProps> = ({
         hasMore: moreAvailable,
         isArtistProfile: !!artistId,
         artistId,
+        isFollowingFeed,
         mediaType: selectedMediaType,
         searchQuery
       });
@@ -87,12 +133,29 @@ export const GalleryView: React.FC<GalleryViewProps> = ({
       setLoading(false);
       setLoadingMore(false);
     }
-  }, [sortOrder, selectedMediaType, posts.length, artistId, searchQuery]);
+  }, [activeSortOrder, selectedMediaType, posts.length, artistId, isFollowingFeed, searchQuery]);
 
-  // Load posts on mount and when sort order, media type, or artist changes
+  // Load posts on mount and when sort order, media type, artist or feed changes
   useEffect(() => {
     loadPosts(true);
-  }, [sortOrder, selectedMediaType, artistId, searchQuery]);
+  }, [activeSortOrder, selectedMediaType, artistId, isFollowingFeed, searchQuery]);
+
+  // Load the artist's follow counts
+  useEffect(() => {
+    if (!artistId) {
+      setFollowCounts(null);
+      return;
+    }
+
+    let cancelled = false;
+    getFollowCounts(artistId).then(counts => {
+      if (!cancelled) setFollowCounts(counts);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [artistId]);
 
   // Infinite scroll
   useEffect(() => {
@@ -112,16 +175,20 @@ export const GalleryView: React.FC<GalleryViewProps> = ({
     return () => observer.disconnect();
   }, [hasMore, loadingMore, loading, loadPosts]);
 
-  const handleSortChange = (newSort: 'new' | 'top' | 'hot') => {
+  const handleSortChange = (newSort: GallerySortOrder) => {
     addBreadcrumb('Sort order changed', 'ui', { 
-      from: sortOrder, 
+      from: activeSortOrder, 
       to: newSort,
       isArtistProfile: !!artistId,
       artistId,
       mediaType: selectedMediaType,
       searchQuery
     });
-    setSortOrder(newSort);
+    if (isSearching) {
+      setSearchSortOrder(newSort);
+    } else {
+      setSortOrder(newSort);
+    }
   };
 
   const handleMediaTypeChange = (newMediaType: 'image' | 'video' | 'audio') => {
@@ -135,6 +202,19 @@ export const GalleryView: React.FC<GalleryViewProps> = ({
     setSelectedMediaType(newMediaType);
   };
 
+  const handleFeedChange = (newFeed: 'all' | 'following') => {
+    addBreadcrumb('Gallery feed changed', 'ui', { from: feed, to: newFeed, mediaType: selectedMediaType });
+    setFeed(newFeed);
+  };
+
+  // Keep the follower count in step with the follow button
+  const handleFollowChange = (following: boolean) => {
+    setFollowCounts(prev => prev && {
+      ...prev,
+      followers: Math.max(0, prev.followers + (following ? 1 : -1))
+    });
+  };
+
   const handleClearSearch = () => {
     setSearchInputValue('');
     addBreadcrumb('Search cleared', 'ui', { 
@@ -144,6 +224,12 @@ export const GalleryView: React.FC<GalleryViewProps> = ({
     });
   };
   
+  // Style facet chips add or remove a style: operator in the search box
+  const handleStyleFacetToggle = (style: string) => {
+    addBreadcrumb('Search style facet toggled', 'ui', { style, searchQuery });
+    setSearchInputValue(current => toggleStyleFilter(current, style));
+  };
+
   const handlePostClick = (post: Post) => {
     addBreadcrumb('Gallery post clicked', 'ui', { 
       postId: post.id,
@@ -155,14 +241,6 @@ export const GalleryView: React.FC<GalleryViewProps> = ({
     onPostClick(post);
   };
 
-  const getMediaIcon = (mediaType: string) => {
-    switch (mediaType) {
-      case 'video': return Play;
-      case 'audio': return Volume2;
-      default: return Type;
-    }
-  };
-
   const getMediaTypeIcon = (mediaType: 'image' | 'video' | 'audio') => {
     switch (mediaType) {
       case 'image': return Image;
@@ -172,118 +250,6 @@ export const GalleryView: React.FC<GalleryViewProps> = ({
     }
   };
 
-  const renderMediaPreview = (post: Post) => {
-    const MediaIcon = getMediaIcon(post.media_type);
-    
-    // Validate and fix the media URL
-    const validatedUrl = validateAndFixMediaUrl(post.media_url);
-    
-    console.log('Rendering media preview:', {
-      postId: post.id.substring(0, 8),
-      originalUrl: post.media_url,
-      validatedUrl: validatedUrl,
-      mediaType: post.media_type,
-      isArtistProfile: !!artistId
-    });
-
-    switch (post.media_type) {
-      case 'image':
-        return (
-          <div className="relative w-full">
-            <img
-              src={validatedUrl}
-              alt={post.title}
-              className="w-full h-auto object-cover shadow-double-border"
-              loading="lazy"
-              onError={(e) => {
-                console.warn('Image failed to load, showing fallback:', {
-                  postId: post.id,
-                  originalUrl: post.media_url,
-                  validatedUrl: validatedUrl
-                });
-                // Set a fallback image or hide the image
-                const target = e.target as HTMLImageElement;
-                target.style.display = 'none';
-                // Show the fallback div
-                const fallbackDiv = target.nextElementSibling as HTMLElement;
-                if (fallbackDiv) {
-                  fallbackDiv.style.display = 'flex';
-                }
-              }}
-            />
-            {/* Fallback div for broken images */}
-            <div 
-              className="absolute inset-0 bg-gradient-to-br from-[#B8A082]/20 to-[#7C9A92]/20 flex items-center justify-center shadow-double-border"
-              style={{ display: 'none' }}
-            >
-              <div className="text-center">
-                <Type className="w-16 h-16 text-[#B8A082] mx-auto mb-2" />
-                <p className="text-[#B8A082] text-sm">Image unavailable</p>
-                <p className="text-[#B8A082]/60 text-xs mt-1">Media file could not be loaded</p>
-              </div>
-            </div>
-          </div>
-        );
-      case 'video':
-        return (
-          <div className="relative w-full">
-            <video
-              src={validatedUrl}
-              className="w-full h-auto object-cover shadow-double-border"
-              muted
-              preload="none"
-              poster={post.thumbnail_url} // NEW: Use thumbnail as poster if available
-              onError={(e) => {
-                console.warn('Video failed to load, showing fallback:', {
-                  postId: post.id,
-                  originalUrl: post.media_url,
-                  validatedUrl: validatedUrl
-                });
-                // Show fallback for video
-                const target = e.target as HTMLVideoElement;
-                target.style.display = 'none';
-                const fallbackDiv = target.nextElementSibling as HTMLElement;
-                if (fallbackDiv) {
-                  fallbackDiv.style.display = 'flex';
-                }
-              }}
-            />
-            <div className="absolute inset-0 bg-black/30 flex items-center justify-center">
-              <Play className="w-12 h-12 text-white/80" />
-            </div>
-            {/* Fallback div for broken videos */}
-            <div 
-              className="absolute inset-0 bg-gradient-to-br from-[#4da0ff]/20 to-[#7C9A92]/20 flex items-center justify-center shadow-double-border"
-              style={{ display: 'none' }}
-            >
-              <div className="text-center">
-                <Play className="w-16 h-16 text-[#4da0ff] mx-auto mb-2" />
-                <p className="text-[#4da0ff] text-sm">Video unavailable</p>
-                <p className="text-[#4da0ff]/60 text-xs mt-1">Media file could not be loaded</p>
-              </div>
-            </div>
-          </div>
-        );
-      case 'audio':
-        return (
-          <div className="w-full h-auto bg-white/5 backdrop-blur-xl border border-white/10 flex items-center justify-center shadow-lg py-12">
-            <div className="text-center">
-              <Volume2 className="w-16 h-16 text-white/60 mx-auto mb-2" />
-              <p className="text-white/50 text-sm">Audio Content</p>
-            </div>
-          </div>
-        );
-      default:
-        return (
-          <div className="w-full h-auto bg-white/5 flex items-center justify-center shadow-double-border py-16">
-            <div className="text-center">
-              <MediaIcon className="w-16 h-16 text-white/30 mx-auto mb-2" />
-              <p className="text-white/30 text-sm">Unknown media type</p>
-            </div>
-          </div>
-        );
-    }
-  };
 
   // NEW: Get the appropriate title for the gallery
   const getGalleryTitle = () => {
@@ -295,6 +261,20 @@ export const GalleryView: React.FC<GalleryViewProps> = ({
 
   // NEW: Get the appropriate empty state message
   const getEmptyStateMessage = () => {
+    if (isSearching) {
+      return {
+        title: 'No matches',
+        subtitle: `Nothing matches "${searchQuery.trim()}" in ${selectedMediaType} posts.`,
+        buttonText: 'Clear Search'
+      };
+    }
+    if (isFollowingFeed) {
+      return {
+        title: 'Nothing from artists you follow',
+        subtitle: `Follow artists from their profiles to see their ${selectedMediaType} posts here.`,
+        buttonText: 'Explore the Gallery'
+      };
+    }
     if (artistUsername) {
       return {
         title: `No creations yet`,
@@ -316,6 +296,34 @@ export const GalleryView: React.FC<GalleryViewProps> = ({
         <header className="px-4 py-4 flex items-center justify-between border-b border-white/10">
           <h1 className="sr-only">{getGalleryTitle()}</h1>
           <div className="flex items-center space-x-4">
+            {/* Feed Tabs */}
+            {!artistId && user && (
+              <div className="flex items-center bg-black/60 backdrop-blur-sm rounded-lg border border-white/10 overflow-hidden" role="tablist" aria-label="Gallery feed">
+                {(['all', 'following'] as const).map((feedOption) => {
+                  const isActive = feed === feedOption;
+                  return (
+                    <button
+                      key={feedOption}
+                      onClick={() => handleFeedChange(feedOption)}
+                      className={`flex items-center space-x-2 px-3 py-2 text-xs font-medium transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-inset ${
+                        isActive
+                          ? 'text-[#8FB3A8] bg-black/80'
+                          : 'text-improved-contrast hover:bg-black/80'
+                      }`}
+                      role="tab"
+                      aria-selected={isActive}
+                      aria-label={feedOption === 'all' ? 'All posts' : 'Posts from artists you follow'}
+                    >
+                      {feedOption === 'following' && <Users className="w-4 h-4" />}
+                      <span className={feedOption === 'following' ? 'hidden sm:block' : ''}>
+                        {feedOption === 'all' ? 'All' : 'Following'}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
             {/* Media Type Filter Tabs */}
             <div className="flex items-center bg-black/60 backdrop-blur-sm rounded-lg border border-white/10 overflow-hidden" role="tablist" aria-label="Media type filter">
               {(['image', 'video', 'audio'] as const).map((mediaType) => {
@@ -337,6 +345,11 @@ export const GalleryView: React.FC<GalleryViewProps> = ({
                   >
                     <Icon className="w-4 h-4" />
                     <span className="hidden sm:block capitalize">{mediaType}</span>
+                    {facets && (
+                      <span className="text-[10px] text-gray-400" aria-label={`${facets.mediaTypes[mediaType]} matches`}>
+                        {facets.mediaTypes[mediaType]}
+                      </span>
+                    )}
                   </button>
                 );
               })}
@@ -347,11 +360,12 @@ export const GalleryView: React.FC<GalleryViewProps> = ({
             {/* Sort Dropdown */}
             <div className="relative">
               <select
-                value={sortOrder}
-                onChange={(e) => handleSortChange(e.target.value as 'new' | 'top' | 'hot')}
+                value={activeSortOrder}
+                onChange={(e) => handleSortChange(e.target.value as GallerySortOrder)}
                 className="appearance-none bg-black/60 backdrop-blur-sm hover:bg-black/80 text-improved-contrast rounded-lg px-4 py-2 pr-8 font-medium transition-colors text-sm cursor-pointer border border-white/10 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400"
                 aria-label="Sort gallery content"
               >
+                {isSearching && <option value="relevance" className="bg-black text-[#E0E0E0]">Best match</option>}
                 <option value="new" className="bg-black text-[#E0E0E0]">New</option>
                 <option value="top" className="bg-black text-[#E0E0E0]">Top</option>
                 <option value="hot" className="bg-black text-[#E0E0E0]">Hot</option>
@@ -360,28 +374,31 @@ export const GalleryView: React.FC<GalleryViewProps> = ({
             </div>
 
             {/* Search Bar */}
-            <div className="relative flex-1 max-w-md">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-                <input
-                  type="text"
-                  value={searchInputValue}
-                  onChange={(e) => setSearchInputValue(e.target.value)}
-                  placeholder="Search styles, titles, or prompts..."
-                  className="w-full bg-black/60 backdrop-blur-sm hover:bg-black/80 focus:bg-black/80 text-improved-contrast rounded-lg pl-10 pr-10 py-2 text-sm border border-white/10 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400 transition-all duration-300"
-                  aria-label="Search gallery content"
-                />
-                {searchInputValue && (
-                  <button
-                    onClick={handleClearSearch}
-                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900 rounded"
-                    aria-label="Clear search"
-                  >
-                    <X className="w-4 h-4" />
-                  </button>
-                )}
+            {!isFollowingFeed && (
+              <div className="relative flex-1 max-w-md">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                  <input
+                    type="text"
+                    value={searchInputValue}
+                    onChange={(e) => setSearchInputValue(e.target.value)}
+                    placeholder='Search... "phrase", -exclude, style:, artist:'
+                    title='Search titles, styles, prompts and key tokens. Use "quotes" for phrases, -word to exclude, style:name and artist:username to filter.'
+                    className="w-full bg-black/60 backdrop-blur-sm hover:bg-black/80 focus:bg-black/80 text-improved-contrast rounded-lg pl-10 pr-10 py-2 text-sm border border-white/10 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400 transition-all duration-300"
+                    aria-label="Search gallery content"
+                  />
+                  {searchInputValue && (
+                    <button
+                      onClick={handleClearSearch}
+                      className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900 rounded"
+                      aria-label="Clear search"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
               </div>
-            </div>
+            )}
             {/* Powered by Bolt Tag - Moved to the right of the dropdown */}
             <div className="flex items-center space-x-2">
               <img 
@@ -401,6 +418,48 @@ export const GalleryView: React.FC<GalleryViewProps> = ({
             </div>
           </div>
         </header>
+
+        {/* Artist profile bar with follow counts */}
+        {artistId && (
+          <div className="px-4 py-3 flex items-center justify-between border-b border-white/10">
+            <div>
+              {artistUsername && <p className="text-white font-medium">@{artistUsername}</p>}
+              {followCounts && (
+                <p className="text-gray-400 text-sm">
+                  <span className="text-improved-contrast font-mono">{followCounts.followers}</span> {followCounts.followers === 1 ? 'follower' : 'followers'}
+                  {' · '}
+                  <span className="text-improved-contrast font-mono">{followCounts.following}</span> following
+                </p>
+              )}
+            </div>
+            {user?.id !== artistId && (
+              <FollowButton artistId={artistId} userId={user?.id} onFollowChange={handleFollowChange} />
+            )}
+          </div>
+        )}
+
+        {/* Style facets for the active search */}
+        {facets && facets.styles.length > 0 && (
+          <nav className="px-4 py-2 flex items-center gap-2 overflow-x-auto border-b border-white/10" aria-label="Filter search by style">
+            {facets.styles.map(({ style, count }) => {
+              const isActive = activeStyleFilters.includes(style.toLowerCase());
+              return (
+                <button
+                  key={style}
+                  onClick={() => handleStyleFacetToggle(style)}
+                  className={`flex-shrink-0 px-3 py-1 rounded-full text-xs border transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 ${
+                    isActive
+                      ? 'border-[#8FB3A8] text-[#8FB3A8] bg-black/80'
+                      : 'border-white/10 text-improved-contrast bg-black/60 hover:bg-black/80'
+                  }`}
+                  aria-pressed={isActive}
+                >
+                  {style} <span className="text-gray-400">{count}</span>
+                </button>
+              );
+            })}
+          </nav>
+        )}
           {/* Right Section - Sort and Powered by Bolt */}
           <div className="flex items-center space-x-4 w-full sm:w-auto justify-between sm:justify-end">
         {/* Content */}
@@ -432,7 +491,7 @@ export const GalleryView: React.FC<GalleryViewProps> = ({
                 <p className="text-improved-muted text-lg mb-2">{getEmptyStateMessage().title}</p>
                 <p className="text-gray-400 text-sm mb-4">{getEmptyStateMessage().subtitle}</p>
                 <button
-                  onClick={searchQuery.trim() ? handleClearSearch : onBack}
+                  onClick={isSearching ? handleClearSearch : isFollowingFeed ? () => handleFeedChange('all') : onBack}
                   className="px-6 py-2 bg-[#D4B896] hover:bg-[#C4A886] text-[#1a1a1a] rounded-xl font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
                 >
                   {getEmptyStateMessage().buttonText}
@@ -444,40 +503,14 @@ export const GalleryView: React.FC<GalleryViewProps> = ({
               {/* Gallery Grid */}
               <div className="columns-1 md:columns-2 lg:columns-3 xl:columns-4 gap-6 space-y-6" role="grid" aria-label="Style gallery">
                 {posts.map((post) => (
-                  <div
+                  <GalleryPostCard
                     key={post.id}
-                    onClick={() => handlePostClick(post)}
-                    className="bg-white/5 rounded-2xl overflow-hidden hover:bg-white/10 transition-all group border border-white/10 hover:border-white/20 hover:scale-[1.02] transform duration-300 cursor-pointer relative break-inside-avoid focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
-                    role="gridcell"
-                    tabIndex={0}
-                    aria-label={`View ${post.title} in ${post.style} style`}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter' || e.key === ' ') {
-                        e.preventDefault();
-                        handlePostClick(post);
-                      }
-                    }}
-                  >
-                    {/* Media Preview */}
-                    {renderMediaPreview(post)}
-                    
-                    {/* Style Name Overlay - Updated with hover effect */}
-                    <div className="absolute bottom-0 left-1/2 transform -translate-x-1/2 bg-black px-3 py-2 rounded-t-lg opacity-0 group-hover:opacity-70 translate-y-full group-hover:translate-y-0 transition-all duration-300">
-                      <p className="text-[#8FB3A8] font-mono text-xs font-medium text-center whitespace-nowrap">
-                        {post.style}
-                      </p>
-                    </div>
-
-                    {/* Debug info overlay (only in development) */}
-                    {import.meta.env.DEV && (
-                      <div className="absolute top-2 right-2 bg-black/80 text-white text-xs p-1 rounded opacity-0 group-hover:opacity-100 transition-opacity">
-                        <div>ID: {post.id.substring(0, 8)}...</div>
-                        <div>URL: {post.media_url.substring(0, 30)}...</div>
-                        <div>Type: {post.media_type}</div>
-                        {post.thumbnail_url && <div>Has thumbnail</div>}
-                      </div>
-                    )}
-                  </div>
+                    post={post}
+                    userId={user?.id}
+                    isLiked={likedPostIds.has(post.id)}
+                    isSaved={!!post.analysis_data?.id && bookmarkedAnalysisIds.has(post.analysis_data.id)}
+                    onClick={handlePostClick}
+                  />
                 ))}
               </div>
 
@@ -8,7 +8,10 @@ import {
   Menu, // Import Menu icon
   X, // Import X icon
   AlertCircle,
-  Settings
+  Settings,
+  Bookmark,
+  Blend,
+  FolderOpen
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { addBreadcrumb, captureError } from '../lib/sentry';
@@ -17,6 +20,10 @@ interface GlassmorphicHeaderProps {
   onDecodeClick: () => void;
   onLogoClick?: () => void;
   onProfileClick: () => void;
+  onSavedClick: () => void;
+  onCollectionsClick: () => void; // Open the user's collections
+  onMixClick: () => void; // Open the Mix workspace
+  mixCount?: number; // Sources picked for the next mix, shown as a badge
   signInError: string | null;
   onDismissSignInError: () => void;
 }
@@ -26,6 +33,10 @@ export const GlassmorphicHeader: React.FC<GlassmorphicHeaderProps> = ({
   onLogoClick,
   // ... existing props
   onProfileClick,
+  onSavedClick,
+  onCollectionsClick,
+  onMixClick,
+  mixCount = 0,
   signInError,
   onDismissSignInError
 }) => {
@@ -69,6 +80,18 @@ export const GlassmorphicHeader: React.FC<GlassmorphicHeaderProps> = ({
     onProfileClick();
   };
 
+  const handleSavedClick = () => {
+    addBreadcrumb('Saved analyses clicked', 'ui');
+    setShowProfileMenu(false);
+    onSavedClick();
+  };
+
+  const handleCollectionsClick = () => {
+    addBreadcrumb('Collections clicked', 'ui');
+    setShowProfileMenu(false);
+    onCollectionsClick();
+  };
+
   // Get display name with priority: username > full_name > email prefix
   const getDisplayName = () => {
     if (!user) return 'User';
@@ -158,6 +181,25 @@ export const GlassmorphicHeader: React.FC<GlassmorphicHeaderProps> = ({
               <Code size={16} />
               <span className="hidden sm:block">Decode Media</span>
             </button>
+
+            {/* Mix Button */}
+            <button
+              onClick={() => {
+                onMixClick();
+                addBreadcrumb('Mix button clicked', 'ui', { mixCount });
+              }}
+              className="flex items-center gap-2 px-4 py-1.5 rounded-2xl transition-colors font-mono tracking-wide hover:bg-black/20 text-[#8FB3A8] hover:text-[#9FC3B8] focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+              aria-label={mixCount > 0 ? `Mix styles - ${mixCount} picked` : 'Mix styles'}
+              tabIndex={0}
+            >
+              <Blend size={16} />
+              <span className="hidden sm:block">Mix</span>
+              {mixCount > 0 && (
+                <span className="min-w-[1.25rem] h-5 px-1 rounded-full bg-[#8FB3A8]/20 text-xs flex items-center justify-center">
+                  {mixCount}
+                </span>
+              )}
+            </button>
           </div>
 
           {/* Desktop User Authentication (hidden on small screens) */}
@@ -217,6 +259,28 @@ export const GlassmorphicHeader: React.FC<GlassmorphicHeaderProps> = ({
                         )}
                       </div>
 
+                      {/* Saved Analyses */}
+                      <button
+                        onClick={handleSavedClick}
+                        className="w-full flex items-center gap-3 px-4 py-2 text-improved-contrast hover:text-white hover:bg-white/10 transition-colors text-sm focus:outline-none focus:bg-white/10"
+                        role="menuitem"
+                        tabIndex={0}
+                      >
+                        <Bookmark size={16} />
+                        <span>Saved</span>
+                      </button>
+
+                      {/* Collections */}
+                      <button
+                        onClick={handleCollectionsClick}
+                        className="w-full flex items-center gap-3 px-4 py-2 text-improved-contrast hover:text-white hover:bg-white/10 transition-colors text-sm focus:outline-none focus:bg-white/10"
+                        role="menuitem"
+                        tabIndex={0}
+                      >
+                        <FolderOpen size={16} />
+                        <span>Collections</span>
+                      </button>
+
                       {/* Account Settings */}
                       <button
                         onClick={handleAccountClick}
@@ -282,6 +346,21 @@ export const GlassmorphicHeader: React.FC<GlassmorphicHeaderProps> = ({
               <span>Decode Media</span>
             </button>
 
+            {/* Mix Button for Mobile */}
+            <button
+              onClick={() => {
+                onMixClick();
+                setIsMobileMenuOpen(false); // Close menu after click
+                addBreadcrumb('Mix button clicked (mobile)', 'ui', { mixCount });
+              }}
+              className="flex items-center gap-3 px-6 py-3 rounded-full text-2xl font-mono tracking-wide text-[#8FB3A8] hover:text-[#9FC3B8] hover:bg-white/10 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+              aria-label={mixCount > 0 ? `Mix styles - ${mixCount} picked` : 'Mix styles'}
+              tabIndex={0}
+            >
+              <Blend size={28} />
+              <span>Mix{mixCount > 0 ? ` (${mixCount})` : ''}</span>
+            </button>
+
             {/* User Authentication for Mobile */}
             {loading ? (
               <div className="flex items-center gap-3 px-6 py-3 rounded-full text-2xl font-mono tracking-wide text-white/50">
@@ -310,6 +389,30 @@ export const GlassmorphicHeader: React.FC<GlassmorphicHeaderProps> = ({
                   )}
                   <span>{getDisplayName()}</span>
                 </button>
+                <button
+                  onClick={() => {
+                    handleSavedClick();
+                    setIsMobileMenuOpen(false); // Close menu after click
+                  }}
+                  className="flex items-center gap-3 px-6 py-3 rounded-full text-2xl font-mono tracking-wide text-[#D4B896] hover:text-white hover:bg-white/10 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+                  aria-label="Saved analyses"
+                  tabIndex={0}
+                >
+                  <Bookmark size={28} />
+                  <span>Saved</span>
+                </button>
+                <button
+                  onClick={() => {
+                    handleCollectionsClick();
+                    setIsMobileMenuOpen(false); // Close menu after click
+                  }}
+                  className="flex items-center gap-3 px-6 py-3 rounded-full text-2xl font-mono tracking-wide text-[#8FB3A8] hover:text-white hover:bg-white/10 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+                  aria-label="Collections"
+                  tabIndex={0}
+                >
+                  <FolderOpen size={28} />
+                  <span>Collections</span>
+                </button>
                 <button
                   onClick={() => {
                     handleSignOut();
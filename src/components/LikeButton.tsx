@@ -0,0 +1,73 @@
+import React, { useState, useEffect } from 'react';
+import { Heart } from 'lucide-react';
+import { likePost, unlikePost, hasLiked } from '../lib/supabaseUtils';
+import { useOptimisticToggle } from '../hooks/useOptimisticToggle';
+
+interface LikeButtonProps {
+  postId: string;
+  userId?: string;
+  likesCount: number;
+  isLiked?: boolean; // Known liked state (e.g. batch-loaded by a gallery); fetched when omitted
+  variant?: 'card' | 'page';
+}
+
+const saveLike = (userId: string, postId: string, liked: boolean) =>
+  liked ? likePost(userId, postId) : unlikePost(userId, postId);
+
+export const LikeButton: React.FC<LikeButtonProps> = ({
+  postId,
+  userId,
+  likesCount,
+  isLiked,
+  variant = 'card'
+}) => {
+  const [count, setCount] = useState(likesCount);
+
+  useEffect(() => {
+    setCount(likesCount);
+  }, [likesCount]);
+
+  const { isOn: liked, toggle } = useOptimisticToggle({
+    id: postId,
+    userId,
+    knownState: isLiked,
+    load: hasLiked,
+    save: saveLike,
+    onChange: nextLiked => setCount(prev => Math.max(0, prev + (nextLiked ? 1 : -1))),
+    breadcrumbs: { on: 'Like clicked', off: 'Unlike clicked' },
+    errorContext: 'handleLikeToggle'
+  });
+
+  const handleToggle = (e: React.MouseEvent) => {
+    // Don't open the post when liking from a gallery card
+    e.stopPropagation();
+    toggle();
+  };
+
+  const label = !userId
+    ? 'Sign in to like posts'
+    : liked ? 'Unlike this post' : 'Like this post';
+
+  const sizeClasses = variant === 'page'
+    ? 'px-3 py-1.5 text-sm space-x-2 rounded-xl bg-white/10 hover:bg-white/20'
+    : 'px-2 py-1 text-xs space-x-1 rounded-lg bg-black/70 hover:bg-black/90';
+
+  return (
+    <button
+      onClick={handleToggle}
+      onKeyDown={(e) => e.stopPropagation()}
+      disabled={!userId}
+      className={`flex items-center transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900 disabled:cursor-not-allowed ${sizeClasses}`}
+      aria-label={label}
+      aria-pressed={liked}
+      title={label}
+    >
+      <Heart
+        className={`${variant === 'page' ? 'w-5 h-5' : 'w-4 h-4'} transition-colors ${
+          liked ? 'text-red-400 fill-red-400' : 'text-white/70'
+        }`}
+      />
+      <span className="text-white/80 font-mono">{count}</span>
+    </button>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Blend } from 'lucide-react';
+import { StyleMixSource } from '../constants/modules';
+import { Route, buildPath, navigate } from '../lib/routes';
+import { addBreadcrumb } from '../lib/sentry';
+
+interface MixAttributionProps {
+  sources: StyleMixSource[];
+}
+
+const getSourceRoute = (source: StyleMixSource): Route | null => {
+  if (source.postId) return { name: 'post', postId: source.postId };
+  if (source.analysisId) return { name: 'analysis', analysisId: source.analysisId };
+  return null;
+};
+
+/**
+ * "Mixed from": credits the posts and analyses a mix was blended from, with their share
+ */
+export const MixAttribution: React.FC<MixAttributionProps> = ({ sources }) => {
+  const handleClick = (e: React.MouseEvent, source: StyleMixSource, route: Route) => {
+    // Keep modified clicks (new tab, new window) to the browser
+    if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+    e.preventDefault();
+
+    addBreadcrumb('Mix source opened', 'ui', { postId: source.postId, analysisId: source.analysisId });
+    navigate(route);
+  };
+
+  return (
+    <section className="mb-4" aria-label="Mixed from">
+      <div className="flex items-center space-x-2 text-[#D4B896] text-sm font-medium mb-2">
+        <Blend className="w-4 h-4" />
+        <span>Mixed from</span>
+      </div>
+      <ul className="flex flex-wrap gap-2">
+        {sources.map((source, index) => {
+          const route = getSourceRoute(source);
+          const label = (
+            <>
+              <span className="text-white">{source.title}</span>
+              {source.username && <span className="text-white/50"> by @{source.username}</span>}
+              <span className="text-[#8FB3A8] font-mono text-xs ml-2">{Math.round(source.weight * 100)}%</span>
+            </>
+          );
+
+          return (
+            <li key={source.postId || source.analysisId || index}>
+              {route ? (
+                <a
+                  href={buildPath(route)}
+                  onClick={(e) => handleClick(e, source, route)}
+                  className="inline-block px-3 py-1.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+                  title={source.style}
+                >
+                  {label}
+                </a>
+              ) : (
+                <span className="inline-block px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-sm" title={source.style}>
+                  {label}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
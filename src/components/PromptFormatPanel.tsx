@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Copy, Check } from 'lucide-react';
+import { AnalysisResult, PromptListKey } from '../constants/modules';
+import {
+  ASPECT_RATIOS,
+  AspectRatio,
+  PROMPT_FORMATTERS,
+  PromptTargetId,
+  formatPromptForTarget,
+  getPromptFormatter
+} from '../utils/promptFormatters';
+import { addBreadcrumb, captureError } from '../lib/sentry';
+
+interface PromptFormatPanelProps {
+  analysis: AnalysisResult;
+  prompt: string; // The prompt as edited on the page, formatted in place of analysis.prompt
+  styleCodes: string[]; // Parsed from the style codes input, used for Midjourney --sref
+  variationIndices: Partial<Record<PromptListKey, number>>; // Variation currently shown in each module
+}
+
+/**
+ * Shows the analysis formatted for a chosen generation tool, with a copy button per section
+ */
+export const PromptFormatPanel: React.FC<PromptFormatPanelProps> = ({ analysis, prompt, styleCodes, variationIndices }) => {
+  const [target, setTarget] = useState<PromptTargetId>(PROMPT_FORMATTERS[0].id);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
+  const [copiedLabel, setCopiedLabel] = useState<string | null>(null);
+
+  const formatter = getPromptFormatter(target);
+  const sections = formatPromptForTarget(target, { ...analysis, prompt }, {
+    aspectRatio,
+    styleCodes,
+    variationIndex: formatter.sourceKey ? variationIndices[formatter.sourceKey] : undefined
+  });
+
+  const handleCopy = async (label: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedLabel(label);
+      addBreadcrumb('Formatted prompt copied to clipboard', 'ui', { target, section: label });
+      setTimeout(() => setCopiedLabel(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy formatted prompt:', error);
+      captureError(error as Error, { context: 'copyFormattedPrompt', target });
+    }
+  };
+
+  return (
+    <section className="mb-4 border border-white/10 rounded-xl overflow-hidden bg-black/20 backdrop-blur-sm" aria-label="Formatted prompt">
+      <div className="flex border-b border-white/10 bg-black/30" role="tablist" aria-label="Target model">
+        {PROMPT_FORMATTERS.map((option, index) => (
+          <React.Fragment key={option.id}>
+            <button
+              role="tab"
+              aria-selected={option.id === target}
+              onClick={() => {
+                setTarget(option.id);
+                setCopiedLabel(null);
+              }}
+              className={`flex-1 px-2 py-2 text-xs font-medium transition-colors ${
+                option.id === target ? 'text-white bg-white/10' : 'text-gray-400 hover:text-gray-300'
+              }`}
+              title={option.description}
+            >
+              {option.label}
+            </button>
+            {index < PROMPT_FORMATTERS.length - 1 && <div className="w-px bg-white/10" />}
+          </React.Fragment>
+        ))}
+      </div>
+
+      <div className="p-3 space-y-3">
+        {formatter.usesAspectRatio && (
+          <div className="flex items-center space-x-2">
+            <label htmlFor="format-aspect-ratio" className="text-xs text-gray-400">Aspect ratio</label>
+            <select
+              id="format-aspect-ratio"
+              value={aspectRatio}
+              onChange={(e) => setAspectRatio(e.target.value as AspectRatio)}
+              className="bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-xs text-white font-mono focus:outline-none focus:ring-2 focus:ring-blue-400"
+            >
+              {ASPECT_RATIOS.map(ratio => (
+                <option key={ratio} value={ratio}>{ratio}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {sections.map(section => (
+          <div key={section.label}>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs text-[#D4B896] font-medium">{section.label}</span>
+              <button
+                onClick={() => handleCopy(section.label, section.text)}
+                disabled={!section.text}
+                className="flex items-center space-x-1 px-2 py-0.5 rounded-lg text-xs text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30 transition-colors"
+                aria-label={`Copy ${formatter.label} ${section.label.toLowerCase()}`}
+              >
+                {copiedLabel === section.label ? (
+                  <Check className="w-3 h-3 text-green-400" />
+                ) : (
+                  <Copy className="w-3 h-3" />
+                )}
+                <span>{copiedLabel === section.label ? 'Copied!' : 'Copy'}</span>
+              </button>
+            </div>
+            <p className="bg-black/30 rounded-lg p-3 text-improved-contrast text-sm font-mono leading-relaxed break-words select-all">
+              {section.text || <span className="text-gray-500">Nothing to format yet</span>}
+            </p>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
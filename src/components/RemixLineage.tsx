@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { GitFork, ChevronRight, Volume2, Play } from 'lucide-react';
+import { RemixSource } from '../constants/modules';
+import { getPostLineage, LineagePost, PostLineage, RemixNode } from '../lib/remixLineage';
+import { countRemixNodes } from '../utils/lineageTree';
+import { validateAndFixMediaUrl } from '../lib/supabaseUtils';
+import { buildPath, navigate } from '../lib/routes';
+import { addBreadcrumb } from '../lib/sentry';
+
+interface RemixLineageProps {
+  postId?: string; // Set for gallery posts, whose lineage is loaded from the database
+  remixOf?: RemixSource; // Post an unposted remix was started from
+}
+
+type LinkTarget = Pick<LineagePost, 'id' | 'title'> & Partial<LineagePost>;
+
+/**
+ * Where a post comes from and where it went: the chain of posts it remixes, oldest
+ * first, and the tree of its remixes. Hidden when the post has neither.
+ */
+export const RemixLineage: React.FC<RemixLineageProps> = ({ postId, remixOf }) => {
+  const [lineage, setLineage] = useState<PostLineage | null>(null);
+
+  useEffect(() => {
+    if (!postId) return;
+
+    let cancelled = false;
+    setLineage(null);
+
+    getPostLineage(postId).then(result => {
+      if (!cancelled) setLineage(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [postId]);
+
+  const handleClick = (e: React.MouseEvent, post: LinkTarget) => {
+    // Keep modified clicks (new tab, new window) to the browser
+    if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+    e.preventDefault();
+
+    addBreadcrumb('Lineage post opened', 'ui', { postId: post.id, depth: post.depth });
+    navigate({ name: 'post', postId: post.id });
+  };
+
+  const renderPreview = (post: LineagePost) => {
+    if (post.thumbnail_url || post.media_type === 'image') {
+      return (
+        <img
+          src={post.thumbnail_url || validateAndFixMediaUrl(post.media_url)}
+          alt=""
+          className="w-6 h-6 rounded object-cover flex-shrink-0"
+          loading="lazy"
+        />
+      );
+    }
+
+    const Icon = post.media_type === 'audio' ? Volume2 : Play;
+    return (
+      <span className="w-6 h-6 rounded bg-white/10 flex items-center justify-center flex-shrink-0">
+        <Icon className="w-3 h-3 text-gray-400" />
+      </span>
+    );
+  };
+
+  const renderLink = (post: LinkTarget) => (
+    <a
+      href={buildPath({ name: 'post', postId: post.id })}
+      onClick={(e) => handleClick(e, post)}
+      className="inline-flex items-center space-x-2 px-2 py-1 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 min-w-0"
+      title={post.style}
+    >
+      {post.media_url && renderPreview(post as LineagePost)}
+      <span className="truncate">
+        <span className="text-white">{post.title}</span>
+        {post.username && <span className="text-white/50"> by @{post.username}</span>}
+      </span>
+    </a>
+  );
+
+  const renderRemixes = (nodes: RemixNode[]) => (
+    <ul className="space-y-1">
+      {nodes.map(node => (
+        <li key={node.post.id}>
+          {renderLink(node.post)}
+          {node.remixes.length > 0 && (
+            <div className="ml-3 mt-1 pl-3 border-l border-white/10">
+              {renderRemixes(node.remixes)}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+
+  // An unposted remix only knows the post it was started from; so does a post whose
+  // parent is gone, which is credited without a link
+  const ancestors = lineage?.ancestors ?? [];
+  const remixes = lineage?.remixes ?? [];
+  const isParentDeleted = !!postId && lineage !== null && ancestors.length === 0;
+
+  if (ancestors.length === 0 && remixes.length === 0 && !remixOf) return null;
+
+  return (
+    <section className="mb-4 space-y-3" aria-label="Remix lineage">
+      {(ancestors.length > 0 || remixOf) && (
+        <div>
+          <div className="flex items-center space-x-2 text-[#D4B896] text-sm font-medium mb-2">
+            <GitFork className="w-4 h-4" />
+            <span>Remix of</span>
+          </div>
+          <ol className="flex flex-wrap items-center gap-1">
+            {ancestors.length > 0 ? ancestors.map((post, index) => (
+              <li key={post.id} className="flex items-center min-w-0">
+                {index > 0 && <ChevronRight className="w-4 h-4 text-gray-500 mr-1 flex-shrink-0" />}
+                {renderLink(post)}
+              </li>
+            )) : remixOf && (
+              <li className="min-w-0">
+                {isParentDeleted ? (
+                  <span className="inline-block px-2 py-1 bg-white/5 border border-white/10 rounded-lg text-sm text-white/50">
+                    {remixOf.title}{remixOf.username && ` by @${remixOf.username}`}
+                  </span>
+                ) : renderLink({ id: remixOf.postId, title: remixOf.title, username: remixOf.username })}
+              </li>
+            )}
+          </ol>
+        </div>
+      )}
+
+      {remixes.length > 0 && (
+        <div>
+          <div className="flex items-center space-x-2 text-[#D4B896] text-sm font-medium mb-2">
+            <GitFork className="w-4 h-4 rotate-180" />
+            <span>Remixes ({countRemixNodes(remixes)})</span>
+          </div>
+          <div className="max-h-64 overflow-y-auto">
+            {renderRemixes(remixes)}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
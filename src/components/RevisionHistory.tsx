@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { History, RotateCcw, X } from 'lucide-react';
+import { AnalysisRevision } from '../lib/analysisRevisions';
+import { diffWords } from '../utils/textDiff';
+import { addBreadcrumb } from '../lib/sentry';
+
+interface RevisionHistoryProps {
+  revisions: AnalysisRevision[]; // Newest first
+  originalPrompt: string; // Model output, shown as the first version
+  activeRevisionId: string | null; // Version the editor holds, null for the original
+  currentPrompt: string;
+  currentStyleCodes: string[];
+  onRestore: (revision: AnalysisRevision | null) => void;
+  onClose: () => void;
+}
+
+const ORIGINAL = 'original';
+
+/**
+ * Saved versions of the prompt and style codes. The selected version is diffed against
+ * what's in the editor, and can be restored into it.
+ */
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({
+  revisions,
+  originalPrompt,
+  activeRevisionId,
+  currentPrompt,
+  currentStyleCodes,
+  onRestore,
+  onClose
+}) => {
+  const [selectedId, setSelectedId] = useState<string>(activeRevisionId ?? revisions[0]?.id ?? ORIGINAL);
+
+  const selected = revisions.find(revision => revision.id === selectedId) ?? null;
+  const selectedPrompt = selected ? selected.prompt : originalPrompt;
+  const selectedCodes = selected ? selected.style_codes : [];
+  const diff = diffWords(selectedPrompt, currentPrompt);
+  const hasChanges = diff.some(part => part.type !== 'same')
+    || selectedCodes.join(' ') !== currentStyleCodes.join(' ');
+  const isSelectedActive = (selected?.id ?? null) === activeRevisionId;
+
+  const handleRestore = () => {
+    addBreadcrumb('Analysis revision restored', 'ui', { revision: selected?.revision_number ?? 0 });
+    onRestore(selected);
+  };
+
+  const versions = [
+    ...revisions.map(revision => ({
+      id: revision.id,
+      label: `Revision ${revision.revision_number}`,
+      date: new Date(revision.created_at).toLocaleString()
+    })),
+    { id: ORIGINAL, label: 'Original', date: 'Model output' }
+  ];
+
+  return (
+    <section className="mb-4 border border-white/10 rounded-xl overflow-hidden bg-black/20 backdrop-blur-sm" aria-label="Prompt history">
+      <header className="flex items-center justify-between px-4 py-2 border-b border-white/10">
+        <div className="flex items-center space-x-2 text-[#D4B896] text-sm font-medium">
+          <History className="w-4 h-4" />
+          <span>History</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-lg hover:bg-white/10 text-gray-400 hover:text-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+          aria-label="Close history"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </header>
+
+      <div className="flex flex-col sm:flex-row">
+        {/* Versions */}
+        <ul className="sm:w-40 max-h-48 sm:max-h-64 overflow-y-auto border-b sm:border-b-0 sm:border-r border-white/10" role="listbox" aria-label="Versions">
+          {versions.map(version => {
+            const isActive = (version.id === ORIGINAL ? null : version.id) === activeRevisionId;
+            return (
+              <li key={version.id}>
+                <button
+                  onClick={() => setSelectedId(version.id)}
+                  className={`w-full text-left px-3 py-2 text-sm transition-colors focus:outline-none focus:bg-white/10 ${selectedId === version.id ? 'bg-white/10 text-white' : 'text-gray-400 hover:bg-white/5 hover:text-white'}`}
+                  role="option"
+                  aria-selected={selectedId === version.id}
+                >
+                  <span className="block">
+                    {version.label}
+                    {isActive && <span className="ml-1 text-[#8FB3A8] text-xs">(current)</span>}
+                  </span>
+                  <span className="block text-xs text-gray-500 truncate">{version.date}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        {/* Diff against the editor */}
+        <div className="flex-1 p-4 min-w-0">
+          <p className="text-gray-500 text-xs mb-2">
+            {hasChanges ? 'Changes from this version to the editor' : 'Same as the editor'}
+          </p>
+          <p className="text-sm font-mono leading-relaxed whitespace-pre-wrap break-words">
+            {diff.map((part, index) => (
+              <span
+                key={index}
+                className={
+                  part.type === 'added' ? 'bg-green-500/20 text-green-300'
+                    : part.type === 'removed' ? 'bg-red-500/20 text-red-300 line-through'
+                    : 'text-improved-contrast'
+                }
+              >
+                {part.text}
+              </span>
+            ))}
+          </p>
+
+          {(selectedCodes.length > 0 || currentStyleCodes.length > 0) && (
+            <div className="flex flex-wrap gap-1 mt-3" aria-label="Style codes">
+              {selectedCodes.filter(code => !currentStyleCodes.includes(code)).map((code, index) => (
+                <span key={`removed-${index}`} className="px-2 py-0.5 rounded text-xs font-mono bg-red-500/20 text-red-300 line-through">{code}</span>
+              ))}
+              {currentStyleCodes.map((code, index) => (
+                <span
+                  key={`current-${index}`}
+                  className={`px-2 py-0.5 rounded text-xs font-mono ${selectedCodes.includes(code) ? 'bg-white/10 text-[#D4B896]' : 'bg-green-500/20 text-green-300'}`}
+                >
+                  {code}
+                </span>
+              ))}
+            </div>
+          )}
+
+          <button
+            onClick={handleRestore}
+            disabled={!hasChanges && isSelectedActive}
+            className="mt-4 flex items-center space-x-2 px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-40 disabled:cursor-not-allowed text-sm text-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Restore this version</span>
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+};
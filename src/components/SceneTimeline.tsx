@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Copy, Check, Film } from 'lucide-react';
+import { VideoTimeline } from '../constants/modules';
+import { addBreadcrumb, captureError } from '../lib/sentry';
+import { formatTimestamp } from '../utils/videoKeyframes';
+
+interface SceneTimelineProps {
+  timeline: VideoTimeline;
+  currentTime: number; // Playback position of the video, in seconds
+  onSeek: (time: number) => void;
+}
+
+/**
+ * Per-scene analysis of a video. Segments follow playback, and clicking one seeks the video to it.
+ */
+export const SceneTimeline: React.FC<SceneTimelineProps> = ({ timeline, currentTime, onSeek }) => {
+  const [copiedText, setCopiedText] = useState<string | null>(null);
+  const { segments } = timeline;
+  const duration = timeline.duration || segments[segments.length - 1]?.end || 0;
+
+  const activeIndex = Math.max(0, segments.findIndex(segment => currentTime >= segment.start && currentTime < segment.end));
+  const activeSegment = segments[activeIndex];
+
+  const handleCopy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedText(text);
+      addBreadcrumb('Timeline prompt copied to clipboard', 'ui');
+      setTimeout(() => setCopiedText(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy timeline prompt:', error);
+      captureError(error as Error, { context: 'copyTimelinePrompt' });
+    }
+  };
+
+  if (!activeSegment) return null;
+
+  const renderCopyButton = (text: string, label: string) => (
+    <button
+      onClick={() => handleCopy(text)}
+      className="p-1 rounded-md hover:bg-white/10 text-gray-400 hover:text-white transition-colors flex-shrink-0"
+      aria-label={`Copy ${label}`}
+    >
+      {copiedText === text ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Copy className="w-3.5 h-3.5" />}
+    </button>
+  );
+
+  return (
+    <section className="mb-4 border border-white/10 rounded-xl overflow-hidden bg-black/20 backdrop-blur-sm" aria-label="Scene timeline">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/10 bg-black/30">
+        <div className="flex items-center space-x-2 text-xs font-medium text-white">
+          <Film className="w-4 h-4 text-gray-400" />
+          <span>Scene timeline</span>
+        </div>
+        <span className="text-xs text-gray-400">
+          {segments.length} {segments.length === 1 ? 'segment' : 'segments'} · {timeline.sampling === 'scenes' ? 'scene cuts' : 'fixed intervals'}
+        </span>
+      </div>
+
+      <div className="p-3 space-y-3">
+        {/* Segment widths follow their share of the video */}
+        <div className="flex h-14 rounded-lg overflow-hidden" role="list">
+          {segments.map((segment, index) => {
+            const isActive = index === activeIndex;
+            const share = duration > 0 ? (segment.end - segment.start) / duration : 1 / segments.length;
+
+            return (
+              <button
+                key={index}
+                role="listitem"
+                onClick={() => onSeek(segment.start)}
+                className={`relative min-w-[2rem] border-r border-black/60 last:border-r-0 bg-cover bg-center transition-all ${
+                  isActive ? 'ring-2 ring-inset ring-white opacity-100' : 'opacity-60 hover:opacity-90'
+                }`}
+                style={{
+                  flexGrow: Math.max(share, 0.01),
+                  flexBasis: 0,
+                  ...(segment.keyframeUrl && { backgroundImage: `url(${segment.keyframeUrl})` })
+                }}
+                aria-label={`Seek to ${formatTimestamp(segment.start)}: ${segment.style}`}
+                aria-current={isActive}
+                title={`${formatTimestamp(segment.start)} – ${segment.style}`}
+              >
+                <span className="absolute bottom-0.5 left-1 text-[10px] font-mono text-white drop-shadow">
+                  {formatTimestamp(segment.start)}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2" aria-live="polite">
+          <div className="flex items-baseline justify-between">
+            <h3 className="text-sm font-medium text-white">{activeSegment.style}</h3>
+            <span className="text-xs font-mono text-gray-400">
+              {formatTimestamp(activeSegment.start)} – {formatTimestamp(activeSegment.end)}
+            </span>
+          </div>
+          <div className="flex items-start space-x-2">
+            <p className="flex-1 text-sm text-gray-300">{activeSegment.prompt}</p>
+            {renderCopyButton(activeSegment.prompt, 'scene prompt')}
+          </div>
+          {activeSegment.animationPrompts.map((animationPrompt, index) => (
+            <div key={index} className="flex items-start space-x-2 pl-3 border-l-2 border-white/10">
+              <p className="flex-1 text-xs text-gray-400">{animationPrompt}</p>
+              {renderCopyButton(animationPrompt, `animation prompt ${index + 1}`)}
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { Sparkles, Play } from 'lucide-react';
+import { AnalysisResult } from '../constants/modules';
+import { getSimilarPosts, SimilarPost } from '../lib/similarPosts';
+import { validateAndFixMediaUrl } from '../lib/supabaseUtils';
+import { addBreadcrumb } from '../lib/sentry';
+import { AudioWaveform } from './AudioWaveform';
+
+interface SimilarPostsRailProps {
+  analysis: AnalysisResult;
+  postId?: string; // Set when viewing a gallery post, so it can be matched on its stored embedding
+  onOpenPost: (post: SimilarPost) => void;
+}
+
+/**
+ * "More like this": a horizontal rail of the posts whose prompt and key tokens are
+ * closest to this analysis. Hidden when there's nothing to show.
+ */
+export const SimilarPostsRail: React.FC<SimilarPostsRailProps> = ({ analysis, postId, onOpenPost }) => {
+  const [posts, setPosts] = useState<SimilarPost[] | null>(null);
+  // Only what the match depends on, so regenerating module prompts doesn't refetch
+  const { id: analysisId, prompt, keyTokens } = analysis;
+
+  useEffect(() => {
+    let cancelled = false;
+    setPosts(null);
+
+    getSimilarPosts({ id: analysisId, prompt, keyTokens }, postId)
+      .then(result => { if (!cancelled) setPosts(result); })
+      .catch(error => {
+        // Similar posts are a nice-to-have, so a failure just hides the rail
+        console.warn('Failed to load similar posts:', error);
+        if (!cancelled) setPosts([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [analysisId, prompt, keyTokens, postId]);
+
+  if (posts !== null && posts.length === 0) return null;
+
+  const handleOpen = (post: SimilarPost) => {
+    addBreadcrumb('Similar post opened', 'ui', { postId: post.id, similarity: post.similarity });
+    onOpenPost(post);
+  };
+
+  const renderPreview = (post: SimilarPost) => {
+    const mediaUrl = validateAndFixMediaUrl(post.media_url);
+
+    if (post.media_type === 'audio') {
+      return (
+        <div className="w-full h-full flex items-center px-2 bg-white/5">
+          <AudioWaveform peaks={post.analysis_data?.waveform} src={mediaUrl} height={48} />
+        </div>
+      );
+    }
+
+    if (post.media_type === 'video') {
+      return (
+        <div className="relative w-full h-full">
+          {post.thumbnail_url
+            ? <img src={post.thumbnail_url} alt="" className="w-full h-full object-cover" loading="lazy" />
+            : <video src={mediaUrl} className="w-full h-full object-cover" muted preload="metadata" />}
+          <Play className="absolute inset-0 m-auto w-6 h-6 text-white/80" />
+        </div>
+      );
+    }
+
+    return <img src={post.thumbnail_url || mediaUrl} alt="" className="w-full h-full object-cover" loading="lazy" />;
+  };
+
+  return (
+    <section className="mb-4" aria-label="More like this">
+      <h2 className="flex items-center space-x-2 text-sm font-medium text-white mb-2">
+        <Sparkles className="w-4 h-4 text-gray-400" />
+        <span>More like this</span>
+      </h2>
+
+      <div className="flex space-x-3 overflow-x-auto pb-2 -mx-1 px-1" role="list">
+        {posts === null
+          ? Array.from({ length: 4 }, (_, index) => (
+              <div key={index} className="flex-shrink-0 w-36 h-44 rounded-xl bg-white/5 animate-pulse" />
+            ))
+          : posts.map(post => (
+              <button
+                key={post.id}
+                role="listitem"
+                onClick={() => handleOpen(post)}
+                className="flex-shrink-0 w-36 text-left rounded-xl overflow-hidden border border-white/10 bg-black/20 hover:border-white/30 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+                title={`${post.title} – ${Math.round(post.similarity * 100)}% match`}
+              >
+                <div className="h-28 overflow-hidden">{renderPreview(post)}</div>
+                <div className="p-2">
+                  <p className="text-xs font-medium text-white truncate">{post.title}</p>
+                  <p className="text-[11px] text-gray-400 truncate">{post.style}</p>
+                </div>
+              </button>
+            ))}
+      </div>
+    </section>
+  );
+};
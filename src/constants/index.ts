@@ -38,13 +38,14 @@ export const MEDIA_TYPE_CATEGORIES = {
 
 // File Size Limits (in MB)
 export const FILE_SIZE_LIMITS = {
-  MAX_UPLOAD_SIZE_MB: 10,
+  MAX_UPLOAD_SIZE_MB: 100,
   MAX_COMPRESSION_SIZE_MB: 2
 } as const;
 
 // API Endpoints
 export const API_ENDPOINTS = {
-  NETLIFY_R2_SIGN: '/.netlify/functions/r2-sign'
+  NETLIFY_R2_SIGN: '/.netlify/functions/r2-sign',
+  NETLIFY_R2_DELETE: '/.netlify/functions/r2-delete'
 } as const;
 
 // Default Values
@@ -53,5 +54,67 @@ export const DEFAULTS = {
   PRESIGNED_URL_EXPIRY_SECONDS: 300, // 5 minutes
   USERNAME_MIN_LENGTH: 3,
   USERNAME_MAX_LENGTH: 20,
-  USERNAME_CHANGE_COOLDOWN_DAYS: 30
-} as const;
\ No newline at end of file
+  USERNAME_CHANGE_COOLDOWN_DAYS: 30,
+  MAX_PROMPT_VARIATIONS: 30 // Per module, must match public.append_analysis_variations
+} as const;
+
+// Batch Decode - many files analyzed in one job from the decode page
+export const BATCH_DECODE = {
+  MAX_FILES: 50,
+  CONCURRENCY: 3,
+  MAX_RETRIES: 2, // Extra attempts per file
+  RETRY_DELAY_MS: 2000 // Doubled after every failed attempt
+} as const;
+
+// Keyframe sampling for video scene timelines
+export const VIDEO_TIMELINE = {
+  INTERVAL_SECONDS: 5, // Stretched for long videos so the keyframe limit still covers the whole clip
+  SCAN_STEP_SECONDS: 0.5, // How often frames are compared when looking for scene cuts
+  MAX_SCAN_FRAMES: 240,
+  SCENE_CUT_THRESHOLD: 0.25, // Mean pixel difference (0-1) that counts as a cut
+  MIN_SCENE_SECONDS: 1.5,
+  KEYFRAME_WIDTH: 512
+} as const;
+
+// Waveform and spectrogram rendering for audio
+export const AUDIO_WAVEFORM = {
+  PEAK_COUNT: 120, // Bars stored with the analysis, enough for the widest card
+  FFT_SIZE: 1024,
+  SPECTROGRAM_COLUMNS: 240,
+  SPECTROGRAM_FLOOR_DB: -90 // Quieter bins are drawn as silence
+} as const;
+
+// "More like this" rail on the analysis page
+export const SIMILAR_POSTS = {
+  RAIL_SIZE: 12,
+  MIN_SIMILARITY: 0.25 // Cosine similarity below which a match isn't worth showing
+} as const;
+
+// Gallery Search
+export const SEARCH = {
+  DEBOUNCE_MS: 300,
+  FACET_STYLE_LIMIT: 8 // Style chips shown under the search bar
+} as const;
+
+// Style Taxonomy
+export const STYLES = {
+  RELATED_COUNT: 8 // Related styles shown on a style gallery page
+} as const;
+
+// Style Mixing - source and weight limits live in supabase/functions/_shared/styleMix.ts
+export const STYLE_MIX = {
+  PICKER_PAGE_SIZE: 12
+} as const;
+
+// Collections - must match the checks in the collections migration
+export const COLLECTIONS = {
+  NAME_MAX_LENGTH: 80,
+  DESCRIPTION_MAX_LENGTH: 500,
+  MAX_ITEMS: 500
+} as const;
+
+// Comments - BODY_MAX_LENGTH must match the check in the comments migration
+export const COMMENTS = {
+  BODY_MAX_LENGTH: 2000,
+  MAX_REPLY_DEPTH: 4 // Deeper replies are shown at this depth
+} as const;
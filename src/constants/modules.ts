@@ -1,4 +1,11 @@
-import { DivideIcon as LucideIcon, Type, Play, Volume2, Shuffle, Expand, Music } from 'lucide-react';
+import {
+  LucideIcon, Type, Play, Volume2, Shuffle, Expand, Music,
+  Sparkles, Sun, Palette, Camera, Film, Wand2, Layers, Ban
+} from 'lucide-react';
+import { MOCK_ANALYSIS_RESULT } from '../../supabase/functions/_shared/mockAnalysis';
+import type { AnalysisProviderInfo, AudioAnalysis, PromptListKey } from '../../supabase/functions/_shared/analysisSchema';
+
+export type { PromptListKey } from '../../supabase/functions/_shared/analysisSchema';
 
 export interface AnalysisResult {
   id?: string; // Optional UUID from database - undefined if not saved to database
@@ -12,6 +19,69 @@ export interface AnalysisResult {
   musicPrompts: string[]; // 3 music style descriptions (150-180 characters each)
   dialoguePrompts: string[]; // 3 dialogue/narration prompts (5-10 words each, simplified)
   storyPrompts: string[]; // 3 unique stories (15-21 words each)
+  provider?: AnalysisProviderInfo; // Backend that produced the analysis, missing on older analyses
+  customModules?: CustomModuleResult[]; // Output of user-defined modules, in the order they were requested
+  timeline?: VideoTimeline; // Per-scene analysis of sampled video keyframes
+  audio?: AudioAnalysis; // Music details (genre, tempo, key...), audio only
+  waveform?: number[]; // Normalized peaks (0-1) of the audio, computed in the browser at decode
+  mixSources?: StyleMixSource[]; // Analyses this one was blended from in the Mix workspace, heaviest first
+  styleCodes?: string[]; // Style codes the analysis was posted with
+  revision?: PostedRevision; // Set on posts whose prompt or style codes were edited before posting
+  remixOf?: RemixSource; // Gallery post this was decoded as a remix of; becomes posts.parent_post_id
+}
+
+// Segment of a video starting at a sampled keyframe, analyzed on its own
+export interface VideoTimelineSegment {
+  start: number; // Seconds
+  end: number;
+  keyframeUrl?: string; // R2 URL of the keyframe image
+  style: string;
+  prompt: string;
+  animationPrompts: string[];
+}
+
+export interface VideoTimeline {
+  sampling: 'interval' | 'scenes'; // Fixed intervals or detected scene cuts
+  duration: number; // Seconds
+  segments: VideoTimelineSegment[];
+}
+
+// Edited revision a post was made from (see src/lib/analysisRevisions.ts). The post's
+// prompt and styleCodes hold the edit; the model's prompt is kept for comparison.
+export interface PostedRevision {
+  id: string; // analysis_revisions row id
+  number: number;
+  createdAt: string;
+  originalPrompt: string;
+}
+
+// Post a decode was started from with "Remix this". Like mix sources, names are copied
+// so the link can be shown before the analysis is posted.
+export interface RemixSource {
+  postId: string;
+  title: string;
+  username?: string;
+}
+
+// Source of a mixed analysis, kept for attribution. Names are copied at mix time so the
+// credit survives the source being renamed or deleted.
+export interface StyleMixSource {
+  postId?: string; // Set when the source was a gallery post
+  analysisId?: string;
+  title: string;
+  style: string;
+  username?: string;
+  weight: number; // Share of the mix (0-1)
+}
+
+// Output of a user-defined module. Display fields are copied from the module at decode
+// time so editing or deleting the module later doesn't change saved analyses.
+export interface CustomModuleResult {
+  id: string; // custom_modules row id
+  name: string;
+  color: string;
+  icon: string; // Key into CUSTOM_MODULE_ICONS
+  items: string[];
 }
 
 export interface ModuleDefinition {
@@ -19,9 +89,39 @@ export interface ModuleDefinition {
   name: string;
   color: string;
   icon: LucideIcon;
-  promptKey: keyof AnalysisResult;
+  promptKey: PromptListKey;
+}
+
+export interface CustomModuleDefinition {
+  id: string;
+  name: string;
+  color: string;
+  icon: LucideIcon;
+  customModuleId: string;
 }
 
+export type AnyModuleDefinition = ModuleDefinition | CustomModuleDefinition;
+
+// Icons users can pick for their own modules, stored by key in custom_modules.icon
+export const CUSTOM_MODULE_ICONS = {
+  sparkles: Sparkles,
+  sun: Sun,
+  palette: Palette,
+  camera: Camera,
+  film: Film,
+  wand: Wand2,
+  layers: Layers,
+  ban: Ban
+} as const;
+
+export type CustomModuleIcon = keyof typeof CUSTOM_MODULE_ICONS;
+
+export const DEFAULT_CUSTOM_MODULE_ICON: CustomModuleIcon = 'sparkles';
+export const DEFAULT_CUSTOM_MODULE_COLOR = '#B8A082';
+
+export const getCustomModuleIcon = (icon: string): LucideIcon =>
+  CUSTOM_MODULE_ICONS[icon as CustomModuleIcon] ?? CUSTOM_MODULE_ICONS[DEFAULT_CUSTOM_MODULE_ICON];
+
 export const TOP_MODULES: ModuleDefinition[] = [
   {
     id: 'story',
@@ -73,46 +173,22 @@ export const BOTTOM_MODULES: ModuleDefinition[] = [
 // Mock analysis result for development
 export const mockAnalysisResult: AnalysisResult = {
   id: undefined, // Mock analysis doesn't have a database ID
-  title: "Digital Serenity",
-  style: "Neo-futuristic Cyberpunk",
-  prompt: "A captivating cybernetic portrait bathed in neon glow, showcasing intricate digital enhancements and a serene expression, blending human and machine aesthetics seamlessly.",
-  keyTokens: [
-    "cybernetic portrait",
-    "neon lighting",
-    "futuristic aesthetic",
-    "digital enhancement",
-    "synthetic beauty",
-    "technological fusion",
-    "ethereal glow"
-  ],
-  creativeRemixes: [
-    "Transform into medieval fantasy setting with magical elements replacing technological components in mystical environment.",
-    "Reimagine as 1920s art deco style with geometric patterns and luxurious vintage aesthetic throughout composition.",
-    "Convert to underwater scene with bioluminescent features and flowing aquatic elements creating ethereal atmosphere."
-  ],
-  outpaintingPrompts: [
-    "Reveal vast surrounding environment with additional contextual elements extending beyond current boundaries of content.",
-    "Expand to show broader narrative context with supporting characters and environmental details in background.",
-    "Extend scope to include temporal elements showing progression and development of central theme."
-  ],
-  animationPrompts: [
-    "Gentle rhythmic motion with subtle environmental changes and soft transitions creating peaceful flowing movement.",
-    "Dynamic transformation sequence with dramatic lighting changes and particle effects building visual intensity.",
-    "Cinematic camera movement revealing hidden details and creating immersive storytelling experience through motion."
-  ],
-  musicPrompts: [
-    "Ethereal ambient soundscape with layered textures, evolving harmonies, and subtle rhythmic elements creating immersive atmospheric experience perfect for contemplation.",
-    "Dynamic orchestral composition featuring dramatic crescendos, intricate melodies, and rich instrumentation that captures emotional depth and narrative complexity.",
-    "Electronic fusion with synthesized textures, rhythmic patterns, and digital processing creating modern sonic interpretation of visual themes."
-  ],
-  dialoguePrompts: [
-    "The essence of transformation unfolds",
-    "Where reality meets imagination",
-    "Beyond the realm of possibility"
-  ],
-  storyPrompts: [
-    "A simple discovery becomes the catalyst for extraordinary personal transformation and unexpected journey of growth.",
-    "An intricate narrative exploring how seemingly unrelated elements connect across different dimensions of experience.",
-    "A surreal adventure where boundaries between different realities blur creating infinite possibilities for exploration."
-  ]
-};
\ No newline at end of file
+  ...MOCK_ANALYSIS_RESULT
+};
+
+export const getCustomModuleDefinitions = (analysis: AnalysisResult): CustomModuleDefinition[] =>
+  (analysis.customModules ?? []).map(module => ({
+    id: `custom-${module.id}`,
+    name: module.name.toUpperCase(),
+    color: module.color,
+    icon: getCustomModuleIcon(module.icon),
+    customModuleId: module.id
+  }));
+
+/**
+ * Items shown for a module, whether built-in or user-defined
+ */
+export const getModuleItems = (analysis: AnalysisResult, module: AnyModuleDefinition): string[] => {
+  if ('promptKey' in module) return analysis[module.promptKey] || [];
+  return analysis.customModules?.find(custom => custom.id === module.customModuleId)?.items || [];
+};
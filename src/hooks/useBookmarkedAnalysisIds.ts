@@ -0,0 +1,29 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Post, getBookmarkedAnalysisIds } from '../lib/supabaseUtils';
+
+// Batch-load which gallery posts' analyses the signed-in user has bookmarked
+export function useBookmarkedAnalysisIds(posts: Post[], userId?: string): Set<string> {
+  const [bookmarkedAnalysisIds, setBookmarkedAnalysisIds] = useState<Set<string>>(() => new Set());
+  const analysisIds = useMemo(
+    () => posts.map(post => post.analysis_data?.id).filter((id): id is string => !!id),
+    [posts]
+  );
+
+  useEffect(() => {
+    if (!userId) {
+      setBookmarkedAnalysisIds(new Set());
+      return;
+    }
+
+    let cancelled = false;
+    getBookmarkedAnalysisIds(userId, analysisIds).then(ids => {
+      if (!cancelled) setBookmarkedAnalysisIds(ids);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, analysisIds]);
+
+  return bookmarkedAnalysisIds;
+}
@@ -0,0 +1,26 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Post, getLikedPostIds } from '../lib/supabaseUtils';
+
+// Batch-load which gallery posts the signed-in user has liked
+export function useLikedPostIds(posts: Post[], userId?: string): Set<string> {
+  const [likedPostIds, setLikedPostIds] = useState<Set<string>>(() => new Set());
+  const postIds = useMemo(() => posts.map(post => post.id), [posts]);
+
+  useEffect(() => {
+    if (!userId) {
+      setLikedPostIds(new Set());
+      return;
+    }
+
+    let cancelled = false;
+    getLikedPostIds(userId, postIds).then(ids => {
+      if (!cancelled) setLikedPostIds(ids);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, postIds]);
+
+  return likedPostIds;
+}
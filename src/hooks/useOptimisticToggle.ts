@@ -0,0 +1,76 @@
+import { useState, useEffect } from 'react';
+import { addBreadcrumb, captureError } from '../lib/sentry';
+
+interface OptimisticToggleOptions {
+  id: string; // Item the toggle belongs to, e.g. a post or analysis
+  userId?: string;
+  knownState?: boolean; // Known state (e.g. batch-loaded by a gallery); loaded when omitted
+  load: (userId: string, id: string) => Promise<boolean>;
+  save: (userId: string, id: string, nextState: boolean) => Promise<void>;
+  onChange?: (nextState: boolean) => void; // Called on every optimistic change and on its rollback
+  breadcrumbs: { on: string; off: string };
+  errorContext: string;
+}
+
+// On/off state for a signed-in user that flips immediately and rolls back if saving fails
+export function useOptimisticToggle({
+  id,
+  userId,
+  knownState,
+  load,
+  save,
+  onChange,
+  breadcrumbs,
+  errorContext
+}: OptimisticToggleOptions): { isOn: boolean; toggle: () => Promise<void> } {
+  const [isOn, setIsOn] = useState(!!knownState);
+  const [pending, setPending] = useState(false);
+
+  useEffect(() => {
+    if (knownState !== undefined) {
+      setIsOn(knownState);
+      return;
+    }
+
+    if (!userId) {
+      setIsOn(false);
+      return;
+    }
+
+    let cancelled = false;
+    load(userId, id).then(result => {
+      if (!cancelled) setIsOn(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, userId, knownState, load]);
+
+  const toggle = async () => {
+    if (!userId || pending) return;
+
+    const nextState = !isOn;
+    addBreadcrumb(nextState ? breadcrumbs.on : breadcrumbs.off, 'ui', { id });
+
+    // Optimistic update
+    setIsOn(nextState);
+    onChange?.(nextState);
+    setPending(true);
+
+    try {
+      await save(userId, id, nextState);
+    } catch (error) {
+      console.error(`Failed to save toggle (${errorContext}):`, error);
+      captureError(error as Error, { context: errorContext, id, nextState });
+
+      // Roll back the optimistic update
+      setIsOn(!nextState);
+      onChange?.(!nextState);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return { isOn, toggle };
+}
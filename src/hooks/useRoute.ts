@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react';
+import { Route, parseRoute, ROUTE_CHANGE_EVENT } from '../lib/routes';
+import { addBreadcrumb } from '../lib/sentry';
+
+export function useRoute(): Route {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname));
+
+  useEffect(() => {
+    const handleLocationChange = () => {
+      const nextRoute = parseRoute(window.location.pathname);
+      addBreadcrumb('Route changed', 'navigation', { route: nextRoute.name, path: window.location.pathname });
+      setRoute(nextRoute);
+    };
+
+    window.addEventListener('popstate', handleLocationChange);
+    window.addEventListener(ROUTE_CHANGE_EVENT, handleLocationChange);
+
+    return () => {
+      window.removeEventListener('popstate', handleLocationChange);
+      window.removeEventListener(ROUTE_CHANGE_EVENT, handleLocationChange);
+    };
+  }, []);
+
+  return route;
+}
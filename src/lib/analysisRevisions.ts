@@ -0,0 +1,103 @@
+import { supabase, isSupabaseReady } from './supabase';
+import { captureError, addBreadcrumb } from './sentry';
+import { AnalysisResult } from '../constants/modules';
+
+/**
+ * A saved edit of an analysis' prompt and style codes. The model output in the
+ * analysis itself is never changed, so it serves as revision 0.
+ */
+export interface AnalysisRevision {
+  id: string;
+  analysis_id: string;
+  revision_number: number;
+  prompt: string;
+  style_codes: string[];
+  created_by: string | null;
+  created_at: string;
+}
+
+/**
+ * All revisions of an analysis, newest first
+ */
+export const getAnalysisRevisions = async (analysisId: string): Promise<AnalysisRevision[]> => {
+  try {
+    if (!isSupabaseReady || !supabase) return [];
+
+    const { data, error } = await supabase
+      .from('analysis_revisions')
+      .select('*')
+      .eq('analysis_id', analysisId)
+      .order('revision_number', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load revisions: ${error.message}`);
+    }
+
+    return (data || []) as AnalysisRevision[];
+  } catch (error) {
+    captureError(error as Error, { context: 'getAnalysisRevisions', analysisId });
+    return [];
+  }
+};
+
+/**
+ * Save the edited prompt and style codes as the next revision. Saving the same content
+ * as the latest revision returns that revision instead of adding one.
+ */
+export const saveAnalysisRevision = async (
+  analysisId: string,
+  prompt: string,
+  styleCodes: string[]
+): Promise<AnalysisRevision> => {
+  if (!isSupabaseReady || !supabase) {
+    throw new Error('Supabase is not configured');
+  }
+
+  try {
+    addBreadcrumb('Saving analysis revision', 'database', { analysisId, styleCodes: styleCodes.length });
+
+    const { data, error } = await supabase
+      .rpc('save_analysis_revision', {
+        target_analysis_id: analysisId,
+        revision_prompt: prompt,
+        revision_style_codes: styleCodes
+      })
+      .single()
+      .overrideTypes<AnalysisRevision, { merge: false }>();
+
+    if (error) {
+      console.error('Error saving analysis revision:', error);
+      throw new Error(`Failed to save revision: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Failed to save revision: no revision returned');
+    }
+
+    addBreadcrumb('Analysis revision saved', 'database', { analysisId, revision: data.revision_number });
+    return data;
+  } catch (error) {
+    captureError(error as Error, { context: 'saveAnalysisRevision', analysisId });
+    throw error;
+  }
+};
+
+/**
+ * The analysis as it should be posted: the revision's prompt and style codes, with the
+ * model's prompt kept in `revision` so the gallery can tell edited posts apart
+ */
+export const applyRevision = (analysis: AnalysisResult, revision: AnalysisRevision | null): AnalysisResult => {
+  if (!revision) return analysis;
+
+  return {
+    ...analysis,
+    prompt: revision.prompt,
+    styleCodes: revision.style_codes,
+    revision: {
+      id: revision.id,
+      number: revision.revision_number,
+      createdAt: revision.created_at,
+      originalPrompt: analysis.revision?.originalPrompt ?? analysis.prompt
+    }
+  };
+};
@@ -0,0 +1,110 @@
+import { AnalysisResult } from '../constants/modules';
+import { captureError, addBreadcrumb } from './sentry';
+import { callGeminiAnalysisFunction, uploadMediaForAnalysis, GeminiAnalysisResponse, UploadedMedia } from './geminiApi';
+import { createPost, CustomModule, Post } from './supabaseUtils';
+import { getPresignedUploadUrl, uploadFileToR2 } from './r2';
+import { generateThumbnailFile } from '../utils/videoThumbnail';
+import { R2_FOLDERS, MEDIA_TYPE_CATEGORIES } from '../constants';
+
+export type BatchMediaType = 'image' | 'video' | 'audio';
+
+export interface BatchDecodeResult extends GeminiAnalysisResponse {
+  mediaType: BatchMediaType;
+  thumbnailFile?: File; // Generated for videos, used as the post thumbnail
+}
+
+export const getBatchMediaType = (file: File): BatchMediaType => {
+  const mimeType = file.type.toLowerCase();
+  if (mimeType.startsWith(`${MEDIA_TYPE_CATEGORIES.VIDEO}/`)) return MEDIA_TYPE_CATEGORIES.VIDEO;
+  if (mimeType.startsWith(`${MEDIA_TYPE_CATEGORIES.AUDIO}/`)) return MEDIA_TYPE_CATEGORIES.AUDIO;
+  return MEDIA_TYPE_CATEGORIES.IMAGE;
+};
+
+// Upload of each file that hasn't been analyzed yet, so a retry only repeats the analysis
+const pendingUploads = new WeakMap<File, Promise<UploadedMedia>>();
+
+const uploadBatchFile = (file: File, onUploadProgress?: (progress: number) => void): Promise<UploadedMedia> => {
+  const pending = pendingUploads.get(file);
+  if (pending) {
+    onUploadProgress?.(100);
+    return pending;
+  }
+
+  const upload = uploadMediaForAnalysis(file, onUploadProgress);
+  pendingUploads.set(file, upload);
+  // A failed upload is attempted again on the next try
+  upload.catch(() => pendingUploads.delete(file));
+  return upload;
+};
+
+/**
+ * Decode one file of a batch. Like a single decode, the analysis is saved with the
+ * 'anon' user so it can be posted afterwards. The file is uploaded once; retries reuse
+ * the upload and only run the analysis again.
+ */
+export const decodeBatchFile = async (
+  file: File,
+  options: { customModules?: CustomModule[]; onUploadProgress?: (progress: number) => void } = {}
+): Promise<BatchDecodeResult> => {
+  const mediaType = getBatchMediaType(file);
+  const uploadedMedia = await uploadBatchFile(file, options.onUploadProgress);
+  const response = await callGeminiAnalysisFunction(file, 'anon', { ...options, uploadedMedia });
+  pendingUploads.delete(file);
+
+  let thumbnailFile: File | undefined;
+  if (mediaType === 'video') {
+    try {
+      thumbnailFile = await generateThumbnailFile(file, { time: 1, width: 320, height: 240, quality: 0.8 });
+    } catch (thumbnailError) {
+      // Not critical, the post just goes up without a poster
+      captureError(thumbnailError as Error, { context: 'decodeBatchFile.thumbnail' });
+    }
+  }
+
+  return { ...response, mediaType, thumbnailFile };
+};
+
+/**
+ * Post a decoded batch result to the gallery, reusing its R2 upload
+ */
+export const postBatchResult = async (
+  result: BatchDecodeResult,
+  user: { id: string; username?: string } | null
+): Promise<Post> => {
+  try {
+    addBreadcrumb('Posting batch result', 'ui', { analysisId: result.analysis.id, isAnonymous: !user });
+
+    let thumbnailUrl: string | undefined;
+    if (result.thumbnailFile) {
+      try {
+        const { uploadUrl, publicUrl } = await getPresignedUploadUrl({
+          contentType: 'image/jpeg',
+          ext: '.jpg', // Thumbnails are always JPEG
+          folder: R2_FOLDERS.THUMBNAILS
+        });
+        await uploadFileToR2(result.thumbnailFile, uploadUrl);
+        thumbnailUrl = publicUrl;
+      } catch (thumbnailError) {
+        console.error('Failed to upload batch thumbnail to R2, proceeding without it:', thumbnailError);
+        captureError(thumbnailError as Error, { context: 'postBatchResult.thumbnail' });
+      }
+    }
+
+    const analysis: AnalysisResult = result.analysis;
+
+    return await createPost({
+      user_id: user?.id || null,
+      username: user?.username || 'Anonymous',
+      media_url: result.mediaUrl,
+      media_type: result.mediaType,
+      title: analysis.title,
+      style: analysis.style,
+      analysis_data: analysis,
+      thumbnail_url: thumbnailUrl,
+      r2_key: result.r2Key
+    });
+  } catch (error) {
+    captureError(error as Error, { context: 'postBatchResult' });
+    throw error;
+  }
+};
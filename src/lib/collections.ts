@@ -0,0 +1,348 @@
+import { supabase, isSupabaseReady } from './supabase';
+import { captureError, addBreadcrumb } from './sentry';
+import { Post, POST_CARD_COLUMNS, getImageUrl, getAnalysisTypeFromMimeType, validateAndFixMediaUrl } from './supabaseUtils';
+import { AnalysisResult } from '../constants/modules';
+
+/**
+ * A named board of posts and analyses, curated by its owner
+ */
+export interface Collection {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string;
+  is_public: boolean;
+  cover_url: string | null; // Picked by the owner; get_collections falls back to the first image
+  created_at: string;
+  updated_at: string;
+  items_count?: number; // Only set by getCollections
+  owner_username?: string | null; // Only set by getCollectionById
+}
+
+// Analysis in a collection, with the upload it was decoded from
+interface CollectionAnalysis {
+  id: string;
+  data: AnalysisResult;
+  image: { storage_path: string | null; mime_type: string | null } | null;
+}
+
+export interface CollectionItem {
+  id: string;
+  collection_id: string;
+  position: number;
+  created_at: string;
+  post: Post | null;
+  analysis: CollectionAnalysis | null;
+}
+
+// What can be added to a collection: a gallery post, or an analysis that isn't posted
+export type CollectionTarget = { postId: string } | { analysisId: string };
+
+export type CollectionChanges = Partial<Pick<Collection, 'name' | 'description' | 'is_public' | 'cover_url'>>;
+
+const requireSupabase = () => {
+  if (!isSupabaseReady || !supabase) {
+    throw new Error('Supabase is not configured');
+  }
+  return supabase;
+};
+
+/**
+ * A user's collections, most recently curated first. Other users only see the public ones.
+ */
+export const getCollections = async (userId: string): Promise<Collection[]> => {
+  try {
+    if (!isSupabaseReady || !supabase) return [];
+
+    const { data, error } = await supabase.rpc('get_collections', { target_user_id: userId });
+
+    if (error) {
+      throw new Error(`Failed to load collections: ${error.message}`);
+    }
+
+    return ((data || []) as Collection[]).map(collection => ({
+      ...collection,
+      cover_url: collection.cover_url ? validateAndFixMediaUrl(getImageUrl(collection.cover_url)) : null,
+      items_count: Number(collection.items_count) || 0
+    }));
+  } catch (error) {
+    captureError(error as Error, { context: 'getCollections', userId });
+    return [];
+  }
+};
+
+export const getCollectionById = async (collectionId: string): Promise<Collection | null> => {
+  try {
+    if (!isSupabaseReady || !supabase) return null;
+
+    addBreadcrumb('Fetching collection by ID', 'database', { collectionId });
+
+    const { data, error } = await supabase
+      .from('collections')
+      .select('*, owner:profiles(username)')
+      .eq('id', collectionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load collection: ${error.message}`);
+    }
+    if (!data) return null;
+
+    const { owner, ...collection } = data as Collection & { owner: { username: string | null } | null };
+    return { ...collection, owner_username: owner?.username ?? null };
+  } catch (error) {
+    captureError(error as Error, { context: 'getCollectionById', collectionId });
+    return null;
+  }
+};
+
+/**
+ * Items of a collection in their curated order
+ */
+export const getCollectionItems = async (collectionId: string): Promise<CollectionItem[]> => {
+  const client = requireSupabase();
+
+  try {
+    const { data, error } = await client
+      .from('collection_items')
+      .select(`id, collection_id, position, created_at, post:posts(${POST_CARD_COLUMNS}), analysis:analyses(id, data, image:images(storage_path, mime_type))`)
+      .eq('collection_id', collectionId)
+      .order('position', { ascending: true })
+      .overrideTypes<CollectionItem[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to load collection items: ${error.message}`);
+    }
+
+    return data || [];
+  } catch (error) {
+    captureError(error as Error, { context: 'getCollectionItems', collectionId });
+    throw error;
+  }
+};
+
+export const createCollection = async (
+  userId: string,
+  fields: Pick<Collection, 'name' | 'description' | 'is_public'>
+): Promise<Collection> => {
+  const client = requireSupabase();
+
+  try {
+    addBreadcrumb('Creating collection', 'database', { isPublic: fields.is_public });
+
+    const { data, error } = await client
+      .from('collections')
+      .insert({
+        user_id: userId,
+        name: fields.name.trim(),
+        description: fields.description.trim(),
+        is_public: fields.is_public
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating collection:', error);
+      throw new Error(`Failed to create collection: ${error.message}`);
+    }
+
+    return { ...(data as Collection), items_count: 0 };
+  } catch (error) {
+    captureError(error as Error, { context: 'createCollection' });
+    throw error;
+  }
+};
+
+export const updateCollection = async (collectionId: string, changes: CollectionChanges): Promise<Collection> => {
+  const client = requireSupabase();
+
+  try {
+    addBreadcrumb('Updating collection', 'database', { collectionId, fields: Object.keys(changes) });
+
+    const { data, error } = await client
+      .from('collections')
+      .update({
+        ...changes,
+        ...(changes.name !== undefined && { name: changes.name.trim() }),
+        ...(changes.description !== undefined && { description: changes.description.trim() })
+      })
+      .eq('id', collectionId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating collection:', error);
+      throw new Error(`Failed to update collection: ${error.message}`);
+    }
+
+    return data as Collection;
+  } catch (error) {
+    captureError(error as Error, { context: 'updateCollection', collectionId });
+    throw error;
+  }
+};
+
+export const deleteCollection = async (collectionId: string): Promise<void> => {
+  const client = requireSupabase();
+
+  try {
+    addBreadcrumb('Deleting collection', 'database', { collectionId });
+
+    const { error } = await client.from('collections').delete().eq('id', collectionId);
+
+    if (error) {
+      console.error('Error deleting collection:', error);
+      throw new Error(`Failed to delete collection: ${error.message}`);
+    }
+  } catch (error) {
+    captureError(error as Error, { context: 'deleteCollection', collectionId });
+    throw error;
+  }
+};
+
+/**
+ * Append a post or analysis to a collection. Adding it twice is a no-op.
+ */
+export const addToCollection = async (collectionId: string, target: CollectionTarget): Promise<void> => {
+  const client = requireSupabase();
+
+  try {
+    addBreadcrumb('Adding to collection', 'database', { collectionId, ...target });
+
+    const { error } = await client.rpc('add_collection_item', {
+      target_collection_id: collectionId,
+      target_post_id: 'postId' in target ? target.postId : null,
+      target_analysis_id: 'analysisId' in target ? target.analysisId : null
+    });
+
+    if (error) {
+      console.error('Error adding to collection:', error);
+      throw new Error(`Failed to add to collection: ${error.message}`);
+    }
+  } catch (error) {
+    captureError(error as Error, { context: 'addToCollection', collectionId });
+    throw error;
+  }
+};
+
+export const removeFromCollection = async (collectionId: string, target: CollectionTarget): Promise<void> => {
+  const client = requireSupabase();
+
+  try {
+    addBreadcrumb('Removing from collection', 'database', { collectionId, ...target });
+
+    let query = client.from('collection_items').delete().eq('collection_id', collectionId);
+    query = 'postId' in target ? query.eq('post_id', target.postId) : query.eq('analysis_id', target.analysisId);
+
+    const { error } = await query;
+
+    if (error) {
+      console.error('Error removing from collection:', error);
+      throw new Error(`Failed to remove from collection: ${error.message}`);
+    }
+  } catch (error) {
+    captureError(error as Error, { context: 'removeFromCollection', collectionId });
+    throw error;
+  }
+};
+
+export const removeCollectionItem = async (itemId: string): Promise<void> => {
+  const client = requireSupabase();
+
+  try {
+    const { error } = await client.from('collection_items').delete().eq('id', itemId);
+
+    if (error) {
+      throw new Error(`Failed to remove item: ${error.message}`);
+    }
+  } catch (error) {
+    captureError(error as Error, { context: 'removeCollectionItem', itemId });
+    throw error;
+  }
+};
+
+/**
+ * Save the order of a collection's items, first to last
+ */
+export const reorderCollectionItems = async (collectionId: string, itemIds: string[]): Promise<void> => {
+  const client = requireSupabase();
+
+  try {
+    const { error } = await client.rpc('reorder_collection_items', {
+      target_collection_id: collectionId,
+      item_ids: itemIds
+    });
+
+    if (error) {
+      throw new Error(`Failed to reorder collection: ${error.message}`);
+    }
+  } catch (error) {
+    captureError(error as Error, { context: 'reorderCollectionItems', collectionId });
+    throw error;
+  }
+};
+
+/**
+ * Which of the given collections already hold the target
+ */
+export const getCollectionIdsContaining = async (
+  collectionIds: string[],
+  target: CollectionTarget
+): Promise<Set<string>> => {
+  try {
+    if (!isSupabaseReady || !supabase || collectionIds.length === 0) return new Set();
+
+    let query = supabase.from('collection_items').select('collection_id').in('collection_id', collectionIds);
+    query = 'postId' in target ? query.eq('post_id', target.postId) : query.eq('analysis_id', target.analysisId);
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to check collections: ${error.message}`);
+    }
+
+    return new Set((data || []).map(item => item.collection_id as string));
+  } catch (error) {
+    captureError(error as Error, { context: 'getCollectionIdsContaining' });
+    return new Set();
+  }
+};
+
+/**
+ * Media of an item, for covers and for opening it
+ */
+export const getCollectionItemMedia = (item: CollectionItem): { url: string; type: 'image' | 'video' | 'audio' } | null => {
+  if (item.post) {
+    return { url: validateAndFixMediaUrl(item.post.media_url), type: item.post.media_type };
+  }
+  if (item.analysis?.image?.storage_path) {
+    return {
+      url: validateAndFixMediaUrl(getImageUrl(item.analysis.image.storage_path)),
+      type: getAnalysisTypeFromMimeType(item.analysis.image.mime_type || '') as 'image' | 'video' | 'audio'
+    };
+  }
+  return null;
+};
+
+/**
+ * An item as a gallery card. Analyses are shown like posts without a poster, and
+ * carry the analysis id as both ids.
+ */
+export const collectionItemToPost = (item: CollectionItem): Post | null => {
+  if (item.post) return item.post;
+
+  const media = getCollectionItemMedia(item);
+  if (!item.analysis || !media) return null;
+
+  return {
+    id: item.analysis.id,
+    user_id: null,
+    username: '',
+    media_url: media.url,
+    media_type: media.type,
+    title: item.analysis.data.title,
+    style: item.analysis.data.style,
+    analysis_data: { ...item.analysis.data, id: item.analysis.id },
+    created_at: item.created_at
+  };
+};
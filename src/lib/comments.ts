@@ -0,0 +1,124 @@
+import { supabase, isSupabaseReady } from './supabase';
+import { captureError, addBreadcrumb } from './sentry';
+import { PostComment } from '../utils/commentTree';
+
+export type { PostComment, CommentNode } from '../utils/commentTree';
+
+// Without generated types the author join is typed as a list, so queries override the row type
+const COMMENT_COLUMNS = 'id, post_id, user_id, parent_id, body, created_at, updated_at, author:profiles(username, avatar_url)';
+
+const requireSupabase = () => {
+  if (!isSupabaseReady || !supabase) {
+    throw new Error('Supabase is not configured');
+  }
+  return supabase;
+};
+
+/**
+ * All comments on a post, oldest first (see buildCommentTree for threading)
+ */
+export const getComments = async (postId: string): Promise<PostComment[]> => {
+  const client = requireSupabase();
+
+  try {
+    addBreadcrumb('Fetching comments', 'database', { postId });
+
+    const { data, error } = await client
+      .from('comments')
+      .select(COMMENT_COLUMNS)
+      .eq('post_id', postId)
+      .order('created_at', { ascending: true })
+      .overrideTypes<PostComment[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to load comments: ${error.message}`);
+    }
+
+    return data || [];
+  } catch (error) {
+    captureError(error as Error, { context: 'getComments', postId });
+    throw error;
+  }
+};
+
+export const addComment = async (
+  postId: string,
+  userId: string,
+  body: string,
+  parentId: string | null = null
+): Promise<PostComment> => {
+  const client = requireSupabase();
+
+  try {
+    addBreadcrumb('Adding comment', 'database', { postId, isReply: !!parentId });
+
+    const { data, error } = await client
+      .from('comments')
+      .insert({
+        post_id: postId,
+        user_id: userId,
+        parent_id: parentId,
+        body: body.trim()
+      })
+      .select(COMMENT_COLUMNS)
+      .single()
+      .overrideTypes<PostComment, { merge: false }>();
+
+    if (error) {
+      console.error('Error adding comment:', error);
+      throw new Error(`Failed to post comment: ${error.message}`);
+    }
+
+    return data;
+  } catch (error) {
+    captureError(error as Error, { context: 'addComment', postId });
+    throw error;
+  }
+};
+
+export const updateComment = async (commentId: string, body: string): Promise<PostComment> => {
+  const client = requireSupabase();
+
+  try {
+    addBreadcrumb('Editing comment', 'database', { commentId });
+
+    const { data, error } = await client
+      .from('comments')
+      .update({ body: body.trim() })
+      .eq('id', commentId)
+      .select(COMMENT_COLUMNS)
+      .single()
+      .overrideTypes<PostComment, { merge: false }>();
+
+    if (error) {
+      console.error('Error editing comment:', error);
+      throw new Error(`Failed to edit comment: ${error.message}`);
+    }
+
+    return data;
+  } catch (error) {
+    captureError(error as Error, { context: 'updateComment', commentId });
+    throw error;
+  }
+};
+
+/**
+ * Delete a comment and its replies. Allowed for the author and the post's owner.
+ */
+export const deleteComment = async (commentId: string): Promise<void> => {
+  const client = requireSupabase();
+
+  try {
+    addBreadcrumb('Deleting comment', 'database', { commentId });
+
+    const { error } = await client.from('comments').delete().eq('id', commentId);
+
+    if (error) {
+      console.error('Error deleting comment:', error);
+      throw new Error(`Failed to delete comment: ${error.message}`);
+    }
+  } catch (error) {
+    captureError(error as Error, { context: 'deleteComment', commentId });
+    throw error;
+  }
+};
@@ -1,130 +1,266 @@
-import { supabase } from './supabase';
-import { AnalysisResult } from '../constants/modules';
+import { supabase, isSupabaseReady } from './supabase';
+import { AnalysisResult, CustomModuleResult, PromptListKey, RemixSource } from '../constants/modules';
 import { captureError, addBreadcrumb } from './sentry';
-import { saveAnalysisToDatabase } from './supabaseUtils';
-import { uploadFileToR2, compressImage } from './r2';
-import { extractGeminiJSON } from '../utils/geminiParser';
+import { saveAnalysisToDatabase, CustomModule } from './supabaseUtils';
+import { getPresignedUploadUrl, uploadFileToR2, compressImage } from './r2';
+import {
+  parseGeminiAnalysis,
+  parsePartialAnalysis,
+  AnalysisProviderInfo,
+  PartialAnalysis,
+  CustomModuleSpec,
+  CustomModuleOutputs
+} from '../utils/geminiParser';
+import { createLineBuffer } from '../utils/partialJson';
+import { KeyframeSampling } from '../utils/videoKeyframes';
+import { uploadTimelineKeyframes, analyzeTimelineKeyframes } from './videoTimeline';
+import { computePeaks, decodeAudio } from '../utils/audioWaveform';
 import { makeUUID } from '../utils/uuid';
-import { R2_FOLDERS, MEDIA_TYPE_CATEGORIES } from '../constants';
+import { R2_FOLDERS, MEDIA_TYPE_CATEGORIES, FILE_SIZE_LIMITS, AUDIO_WAVEFORM } from '../constants';
 
 export interface GeminiAnalysisRequest {
-  mediaData: string; // base64 encoded media
+  mediaUrl: string; // R2 public URL, fetched by the edge function
+  mediaKey: string;
   mimeType: string;
   mediaType: 'image' | 'video' | 'audio';
+  stream?: boolean; // Ask for NDJSON events instead of a single JSON response
+  customModules?: CustomModuleSpec[]; // User-defined modules to generate alongside the built-in ones
 }
 
-export const callGeminiAnalysisFunction = async (file: File, userId?: string): Promise<AnalysisResult> => {
+export interface GeminiAnalysisResponse {
+  analysis: AnalysisResult;
+  provider?: AnalysisProviderInfo; // Backend that produced the analysis
+  mediaUrl: string; // R2 CDN URL of the analyzed file
+  r2Key: string;
+}
+
+export interface GeminiAnalysisOptions {
+  onUploadProgress?: (progress: number) => void;
+  // When set, the analysis is streamed and this is called as fields arrive
+  onPartialAnalysis?: (partial: PartialAnalysis, mediaUrl: string) => void;
+  customModules?: CustomModule[]; // Selected user-defined modules
+  timelineSampling?: KeyframeSampling; // Videos only: also build a scene timeline from sampled keyframes
+  remixOf?: RemixSource; // Gallery post this decode remixes, saved with the analysis
+  uploadedMedia?: UploadedMedia; // Reuse an earlier upload of the file instead of uploading it again
+}
+
+// A file uploaded to R2 for analysis
+export interface UploadedMedia {
+  mediaUrl: string;
+  key: string;
+  mimeType: string; // Type of the uploaded file, which differs from the original after compression
+}
+
+// Final payload of analyze-media, whether it was streamed or not
+interface AnalysisFunctionResult {
+  analysis: unknown;
+  provider?: AnalysisProviderInfo;
+}
+
+/**
+ * Call analyze-media in streaming mode, reporting the partially parsed analysis after
+ * every chunk. supabase.functions.invoke buffers the whole body, so this uses fetch.
+ */
+const streamAnalysisFunction = async (
+  requestPayload: GeminiAnalysisRequest,
+  onPartialAnalysis: (partial: PartialAnalysis) => void
+): Promise<AnalysisFunctionResult> => {
+  if (!isSupabaseReady || !supabase) {
+    throw new Error('Supabase is not configured');
+  }
+
+  const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-media`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'apikey': anonKey,
+      'Authorization': `Bearer ${session?.access_token || anonKey}`
+    },
+    body: JSON.stringify(requestPayload)
+  });
+
+  // Errors raised before the model starts answering come back as plain JSON
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(`Analysis failed: ${errorData.error || `status ${response.status}`}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const lines = createLineBuffer();
+  let streamedText = '';
+  // Assigned inside handleLine, so keep TS from narrowing it to null
+  let result = null as AnalysisFunctionResult | null;
+
+  const handleLine = (line: string) => {
+    const event = JSON.parse(line);
+
+    switch (event.type) {
+      case 'delta':
+        streamedText += event.text;
+        onPartialAnalysis(parsePartialAnalysis(streamedText));
+        break;
+      case 'done':
+        result = { analysis: event.analysis, provider: event.provider };
+        break;
+      case 'error':
+        captureError(new Error(event.error), {
+          context: 'streamAnalysisFunction',
+          details: event.details,
+          fieldErrors: event.fieldErrors
+        });
+        throw new Error(`Analysis failed: ${event.error}`);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    lines.push(decoder.decode(value, { stream: true })).forEach(handleLine);
+  }
+  lines.push(decoder.decode()).forEach(handleLine);
+  lines.flush().forEach(handleLine);
+
+  if (!result) {
+    throw new Error('Analysis stream ended before the analysis was complete');
+  }
+
+  return result;
+};
+
+/**
+ * Upload a file to R2 for analysis, compressing images first
+ */
+export const uploadMediaForAnalysis = async (
+  file: File,
+  onUploadProgress?: (progress: number) => void
+): Promise<UploadedMedia> => {
+  let fileToUpload = file;
+  if (file.type.startsWith('image/')) {
+    try {
+      fileToUpload = await compressImage(file, FILE_SIZE_LIMITS.MAX_COMPRESSION_SIZE_MB);
+    } catch (compressionError) {
+      console.warn('Image compression failed, using original file:', compressionError);
+    }
+  }
+
+  const ext = '.' + file.name.split('.').pop()?.toLowerCase();
+  const { uploadUrl, publicUrl, key } = await getPresignedUploadUrl({
+    contentType: fileToUpload.type,
+    ext,
+    folder: R2_FOLDERS.UPLOADS
+  });
+
+  await uploadFileToR2(fileToUpload, uploadUrl, onUploadProgress);
+
+  console.log('CLIENT: Media uploaded to R2 for analysis', {
+    key,
+    uploadedSize: fileToUpload.size,
+    originalFileSize: file.size,
+    originalFileType: file.type
+  });
+
+  return { mediaUrl: publicUrl, key, mimeType: fileToUpload.type };
+};
+
+export const callGeminiAnalysisFunction = async (
+  file: File,
+  userId?: string,
+  options: GeminiAnalysisOptions = {}
+): Promise<GeminiAnalysisResponse> => {
+  const { onUploadProgress, onPartialAnalysis, customModules = [], timelineSampling, remixOf, uploadedMedia } = options;
+
   try {
     addBreadcrumb('Starting Gemini analysis with R2 upload', 'api', { 
       fileName: file.name, 
       fileSize: file.size,
       fileType: file.type,
-      hasUserId: !!userId
+      hasUserId: !!userId,
+      streaming: !!onPartialAnalysis,
+      customModulesCount: customModules.length,
+      timelineSampling,
+      remixOf: remixOf?.postId
     });
 
-    // Performance consideration: For very large files (>5MB), this base64 conversion
-    // can be memory-intensive and slow. Future optimization could involve uploading
-    // to R2 first and passing the URL to the Edge Function instead of base64 data.
-    if (file.size > 5 * 1024 * 1024) { // 5MB threshold
-      addBreadcrumb('Large file detected - base64 conversion may be slow', 'performance', {
-        fileSize: file.size,
-        fileName: file.name
-      });
-    }
+    // Keyframes are sampled and uploaded while the main analysis runs. A failed
+    // timeline never fails the decode, so errors just leave it out.
+    const timelineKeyframes = timelineSampling && getMediaTypeFromFile(file) === MEDIA_TYPE_CATEGORIES.VIDEO
+      ? uploadTimelineKeyframes(file, timelineSampling).catch(error => {
+          console.warn('Failed to sample video keyframes, continuing without a timeline:', error);
+          return null;
+        })
+      : null;
+
+    // Same for the waveform of an audio file, which is decoded locally
+    const waveform = getMediaTypeFromFile(file) === MEDIA_TYPE_CATEGORIES.AUDIO
+      ? file.arrayBuffer()
+          .then(decodeAudio)
+          .then(({ samples }) => computePeaks(samples, AUDIO_WAVEFORM.PEAK_COUNT))
+          .catch(error => {
+            console.warn('Failed to compute audio waveform, continuing without one:', error);
+            return null;
+          })
+      : null;
+
+    // Step 1: Upload the file to R2 so the edge function can fetch it server-side
+    const { mediaUrl: publicUrl, key, mimeType } = uploadedMedia ?? await uploadMediaForAnalysis(file, onUploadProgress);
 
-    // Step 1: Convert file to base64 for Gemini analysis
-    const base64Data = await fileToBase64(file);
-    
-    console.log('CLIENT: Base64 conversion completed', {
-      base64Length: base64Data.length,
-      base64Preview: base64Data.substring(0, 50) + '...',
-      originalFileSize: file.size,
-      originalFileName: file.name,
-      originalFileType: file.type
-    });
-    
     // Determine media type
     const mediaType = getMediaTypeFromFile(file);
     
     // Prepare request payload
     const requestPayload: GeminiAnalysisRequest = {
-      mediaData: base64Data,
-      mimeType: file.type,
-      mediaType
+      mediaUrl: publicUrl,
+      mediaKey: key,
+      mimeType,
+      mediaType,
+      stream: !!onPartialAnalysis,
+      customModules: customModules.length > 0 ? customModules.map(toCustomModuleSpec) : undefined
     };
 
-    console.log('CLIENT: Request payload prepared', {
-      mediaDataLength: requestPayload.mediaData.length,
-      mimeType: requestPayload.mimeType,
-      mediaType: requestPayload.mediaType,
-      payloadSize: JSON.stringify(requestPayload).length
-    });
-
-    addBreadcrumb('Calling Supabase Edge Function for analysis', 'api');
+    addBreadcrumb('Calling Supabase Edge Function for analysis', 'api', { key });
 
-    // Step 3: Call Supabase Edge Function for analysis
-    const { data, error } = await supabase.functions.invoke('analyze-media', {
-      body: requestPayload
-    });
+    // Step 2: Call Supabase Edge Function for analysis
+    const data = onPartialAnalysis
+      ? await streamAnalysisFunction(requestPayload, partial => onPartialAnalysis(partial, publicUrl))
+      : await invokeAnalysisFunction(requestPayload);
 
-    console.log('CLIENT: Supabase function response', {
-      hasData: !!data,
-      hasError: !!error,
-      errorDetails: error,
-      dataKeys: data ? Object.keys(data) : null
-    });
+    addBreadcrumb('Analysis completed successfully', 'api', { provider: data.provider?.id });
+    
+    // Parse and validate the analysis result using our robust parser
+    const analysisResult = parseAnalysisResponse(data.analysis, customModules, mediaType);
+    const provider: AnalysisProviderInfo | undefined = data.provider;
+    analysisResult.provider = provider;
 
-    if (error) {
-      console.error('Supabase function error:', error);
-      captureError(new Error(error.message), { 
-        context: 'callGeminiAnalysisFunction',
-        functionName: 'analyze-media',
-        errorDetails: error
-      });
-      throw new Error(`Analysis failed: ${error.message}`);
+    const uploadedKeyframes = await timelineKeyframes;
+    if (uploadedKeyframes) {
+      try {
+        analysisResult.timeline = await analyzeTimelineKeyframes(uploadedKeyframes, analysisResult);
+      } catch (timelineError) {
+        console.warn('Timeline analysis failed, continuing without a timeline:', timelineError);
+      }
     }
 
-    if (!data || !data.analysis) {
-      throw new Error('Invalid response from analysis service');
+    const waveformPeaks = await waveform;
+    if (waveformPeaks && waveformPeaks.length > 0) {
+      analysisResult.waveform = waveformPeaks;
     }
 
-    addBreadcrumb('Gemini analysis completed successfully', 'api');
-    
-    // Parse and validate the analysis result using our robust parser
-    let analysisResult = parseAnalysisResponse(data.analysis);
+    if (remixOf) {
+      analysisResult.remixOf = remixOf;
+    }
 
-    // Step 4: Save to database if we have a userId (including 'anon')
-    if (userId && file) {
+    // Step 3: Save to database if we have a userId (including 'anon'), reusing the R2 upload
+    if (userId) {
       try {
         addBreadcrumb('Saving analysis to database', 'database', { userId });
         
-        // Upload file to R2 for database storage
-        const ext = '.' + file.name.split('.').pop()?.toLowerCase();
-        
-        // Get presigned URL from Netlify Function
-        const signResponse = await fetch(`/.netlify/functions/r2-sign?contentType=${file.type}&ext=${ext}&folder=${R2_FOLDERS.UPLOADS}`);
-        const signResult = await signResponse.json();
-
-        if (!signResponse.ok || signResult.error) {
-          throw new Error(signResult.error || 'Failed to get presigned URL from Netlify Function');
-        }
-
-        // Compress image if needed
-        let fileToUpload = file;
-        if (file.type.startsWith('image/')) {
-          try {
-            fileToUpload = await compressImage(file, 2);
-          } catch (compressionError) {
-            console.warn('Image compression failed, using original file:', compressionError);
-          }
-        }
-
-        await uploadFileToR2(fileToUpload, signResult.uploadUrl);
-        
-        // Save analysis to database with R2 URL
         const analysisId = await saveAnalysisToDatabase(
-          signResult.publicUrl, // R2 CDN URL
-          signResult.key, // R2 key
+          publicUrl, // R2 CDN URL
+          key, // R2 key
           userId,
           analysisResult,
           file.name,
@@ -148,7 +284,7 @@ export const callGeminiAnalysisFunction = async (file: File, userId?: string): P
       console.log('CLIENT: Analysis completed successfully without database persistence');
     }
     
-    return analysisResult;
+    return { analysis: analysisResult, provider, mediaUrl: publicUrl, r2Key: key };
   } catch (error) {
     console.error('Gemini analysis failed:', error);
     captureError(error as Error, { context: 'callGeminiAnalysisFunction' });
@@ -156,28 +292,110 @@ export const callGeminiAnalysisFunction = async (file: File, userId?: string): P
   }
 };
 
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const result = reader.result as string;
-      const base64 = result.split(',')[1];
-      
-      console.log('CLIENT: FileReader completed', {
-        originalResultLength: result.length,
-        base64Length: base64.length,
-        hasDataPrefix: result.includes('data:'),
-        resultPrefix: result.substring(0, 50)
-      });
-      
-      resolve(base64);
-    };
-    reader.onerror = () => {
-      console.error('CLIENT: FileReader error');
-      reject(new Error('Failed to read file'));
-    };
-    reader.readAsDataURL(file);
+const invokeAnalysisFunction = async (requestPayload: GeminiAnalysisRequest): Promise<AnalysisFunctionResult> => {
+  if (!isSupabaseReady || !supabase) {
+    throw new Error('Supabase is not configured');
+  }
+
+  const { data, error } = await supabase.functions.invoke('analyze-media', {
+    body: requestPayload
   });
+
+  console.log('CLIENT: Supabase function response', {
+    hasData: !!data,
+    hasError: !!error,
+    errorDetails: error,
+    dataKeys: data ? Object.keys(data) : null
+  });
+
+  if (error) {
+    console.error('Supabase function error:', error);
+    captureError(new Error(error.message), { 
+      context: 'callGeminiAnalysisFunction',
+      functionName: 'analyze-media',
+      errorDetails: error
+    });
+    throw new Error(`Analysis failed: ${error.message}`);
+  }
+
+  if (!data || !data.analysis) {
+    throw new Error('Invalid response from analysis service');
+  }
+
+  return data;
+};
+
+/**
+ * Ask analyze-media for fresh variations of one module's prompts, using the stored
+ * analysis as context instead of re-analyzing the media
+ */
+export const regenerateModulePrompts = async (
+  analysis: AnalysisResult,
+  promptKey: PromptListKey
+): Promise<string[]> => {
+  if (!isSupabaseReady || !supabase) {
+    throw new Error('Supabase is not configured');
+  }
+
+  try {
+    addBreadcrumb('Regenerating module prompts', 'api', { analysisId: analysis.id, promptKey });
+
+    const { data, error } = await supabase.functions.invoke('analyze-media', {
+      body: {
+        mode: 'regenerate',
+        promptKey,
+        analysis: {
+          title: analysis.title,
+          style: analysis.style,
+          prompt: analysis.prompt,
+          keyTokens: analysis.keyTokens,
+          [promptKey]: analysis[promptKey]
+        },
+        // Audio analyses get music-specific wording for the regenerated prompts
+        mediaType: analysis.audio ? MEDIA_TYPE_CATEGORIES.AUDIO : undefined
+      }
+    });
+
+    if (error) {
+      captureError(new Error(error.message), {
+        context: 'regenerateModulePrompts',
+        functionName: 'analyze-media',
+        errorDetails: error
+      });
+      throw new Error(`Regeneration failed: ${error.message}`);
+    }
+
+    if (!Array.isArray(data?.variations) || data.variations.length === 0) {
+      throw new Error('Invalid response from analysis service');
+    }
+
+    return data.variations as string[];
+  } catch (error) {
+    captureError(error as Error, { context: 'regenerateModulePrompts' });
+    throw error;
+  }
+};
+
+// Ask analyze-media which provider it is configured with
+export const getAnalysisProviderInfo = async (): Promise<AnalysisProviderInfo | null> => {
+  if (!isSupabaseReady || !supabase) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke('analyze-media', { method: 'GET' });
+
+    if (error) {
+      console.error('Failed to load analysis provider:', error);
+      captureError(new Error(error.message), { context: 'getAnalysisProviderInfo' });
+      return null;
+    }
+
+    return data?.provider || null;
+  } catch (error) {
+    captureError(error as Error, { context: 'getAnalysisProviderInfo' });
+    return null;
+  }
 };
 
 const getMediaTypeFromFile = (file: File): 'image' | 'video' | 'audio' => {
@@ -194,49 +412,51 @@ const getMediaTypeFromFile = (file: File): 'image' | 'video' | 'audio' => {
   return MEDIA_TYPE_CATEGORIES.IMAGE;
 };
 
-const parseAnalysisResponse = (response: any): AnalysisResult => {
+const toCustomModuleSpec = (module: CustomModule): CustomModuleSpec => ({
+  id: module.id,
+  name: module.name,
+  instruction: module.instruction,
+  itemCount: module.item_count,
+  minWords: module.min_words,
+  maxWords: module.max_words
+});
+
+/**
+ * Pair custom module items with the module's display fields, in the order the modules
+ * were selected. Modules without output yet get an empty list.
+ */
+export const buildCustomModuleResults = (
+  modules: CustomModule[],
+  outputs: CustomModuleOutputs = {}
+): CustomModuleResult[] =>
+  modules.map(module => ({
+    id: module.id,
+    name: module.name,
+    color: module.color,
+    icon: module.icon,
+    items: outputs[module.id] || []
+  }));
+
+const parseAnalysisResponse = (
+  response: unknown,
+  customModules: CustomModule[],
+  mediaType: GeminiAnalysisRequest['mediaType']
+): AnalysisResult => {
   try {
-    let analysisData = response;
-    
-    // If response is a string, try to parse it using our robust parser
-    if (typeof response === 'string') {
-      analysisData = extractGeminiJSON(response);
-    } else {
-      // If it's already an object, validate it
-      const requiredFields = [
-        'title', 'style', 'prompt', 'keyTokens', 
-        'creativeRemixes', 'outpaintingPrompts', 'animationPrompts',
-        'musicPrompts', 'dialoguePrompts', 'storyPrompts'
-      ];
-
-      for (const field of requiredFields) {
-        if (!analysisData[field]) {
-          throw new Error(`Missing required field: ${field}`);
-        }
-      }
-    }
+    // Same validator the edge function uses; strings fall back to text extraction
+    const { customModules: customOutputs, ...analysisData } = parseGeminiAnalysis(
+      response,
+      customModules.map(toCustomModuleSpec),
+      mediaType
+    );
 
-    const analysisResult: AnalysisResult = {
+    return {
       id: makeUUID(), // Generate a temporary UUID that will be replaced if saved to database
-      title: analysisData.title,
-      style: analysisData.style,
-      prompt: analysisData.prompt,
-      keyTokens: Array.isArray(analysisData.keyTokens) ? analysisData.keyTokens : [],
-      creativeRemixes: Array.isArray(analysisData.creativeRemixes) ? analysisData.creativeRemixes : [],
-      outpaintingPrompts: Array.isArray(analysisData.outpaintingPrompts) ? analysisData.outpaintingPrompts : [],
-      animationPrompts: Array.isArray(analysisData.animationPrompts) ? analysisData.animationPrompts : [],
-      musicPrompts: Array.isArray(analysisData.musicPrompts) ? analysisData.musicPrompts : [],
-      dialoguePrompts: Array.isArray(analysisData.dialoguePrompts) ? analysisData.dialoguePrompts : [],
-      storyPrompts: Array.isArray(analysisData.storyPrompts) ? analysisData.storyPrompts : []
+      ...analysisData,
+      ...(customModules.length > 0 && { customModules: buildCustomModuleResults(customModules, customOutputs) })
     };
-
-    return analysisResult;
   } catch (error) {
     console.error('Failed to parse analysis response:', error);
-    captureError(error as Error, { 
-      context: 'parseAnalysisResponse',
-      response: typeof response === 'string' ? response.substring(0, 500) : response
-    });
     throw new Error('Failed to parse analysis response');
   }
-};
\ No newline at end of file
+};
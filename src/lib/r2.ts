@@ -1,18 +1,9 @@
-import { S3Client, PutObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { addBreadcrumb, captureError } from './sentry';
-import { makeUUID } from '../utils/uuid';
-import { R2_FOLDERS, FILE_SIZE_LIMITS, DEFAULTS } from '../constants';
-
-// R2 client configuration
-export const r2Client = new S3Client({
-  region: "auto",
-  endpoint: import.meta.env.VITE_R2_ENDPOINT,
-  credentials: {
-    accessKeyId: import.meta.env.VITE_R2_ACCESS_KEY!,
-    secretAccessKey: import.meta.env.VITE_R2_SECRET_KEY!,
-  },
-});
+import { R2_FOLDERS, FILE_SIZE_LIMITS, API_ENDPOINTS } from '../constants';
+import { isPublicMediaUrl } from '../../supabase/functions/_shared/mediaUrls';
+
+// R2 credentials live only in the Netlify functions; the browser signs uploads and
+// deletes media through those endpoints
 
 export interface PresignedUploadResponse {
   uploadUrl: string;
@@ -26,43 +17,34 @@ export interface UploadRequest {
   folder?: string;
 }
 
-// Generate a presigned URL for uploading to R2
+// Get a presigned URL for uploading to R2 from the r2-sign function
 export const getPresignedUploadUrl = async (request: UploadRequest): Promise<PresignedUploadResponse> => {
   try {
-    addBreadcrumb('Generating presigned upload URL', 'r2', { 
+    addBreadcrumb('Requesting presigned upload URL', 'r2', { 
       contentType: request.contentType,
       ext: request.ext,
       folder: request.folder || R2_FOLDERS.UPLOADS
     });
 
-    const key = `${request.folder || R2_FOLDERS.UPLOADS}/${makeUUID()}${request.ext}`;
-    const bucketName = import.meta.env.VITE_R2_BUCKET_NAME;
-    const publicBaseUrl = import.meta.env.VITE_R2_PUBLIC_URL;
+    const params = new URLSearchParams({
+      contentType: request.contentType,
+      ext: request.ext,
+      folder: request.folder || R2_FOLDERS.UPLOADS
+    });
 
-    if (!bucketName) {
-      throw new Error('VITE_R2_BUCKET_NAME not configured');
-    }
+    const response = await fetch(`${API_ENDPOINTS.NETLIFY_R2_SIGN}?${params.toString()}`);
+    const result = await response.json().catch(() => ({}));
 
-    if (!publicBaseUrl) {
-      throw new Error('VITE_R2_PUBLIC_URL not configured');
+    if (!response.ok) {
+      throw new Error(result.error || `R2 sign failed with status ${response.status}`);
     }
 
-    const command = new PutObjectCommand({
-      Bucket: bucketName,
-      Key: key,
-      ContentType: request.contentType,
-      ACL: "public-read",
-    });
-
-    const uploadUrl = await getSignedUrl(r2Client, command, { expiresIn: DEFAULTS.PRESIGNED_URL_EXPIRY_SECONDS });
-    const publicUrl = `${publicBaseUrl}${key}`;
-
-    addBreadcrumb('Presigned URL generated successfully', 'r2', { key, publicUrl });
+    addBreadcrumb('Presigned URL received successfully', 'r2', { key: result.key, publicUrl: result.publicUrl });
 
     return {
-      uploadUrl,
-      publicUrl,
-      key
+      uploadUrl: result.uploadUrl,
+      publicUrl: result.publicUrl,
+      key: result.key
     };
   } catch (error) {
     captureError(error as Error, { context: 'getPresignedUploadUrl', request });
@@ -123,26 +105,30 @@ export const uploadFileToR2 = async (
   }
 };
 
-// Delete file from R2
-export const deleteFileFromR2 = async (key: string): Promise<void> => {
+// Delete a post's media from R2 through the r2-delete function, which checks the
+// caller's Supabase session owns the post before deleting anything
+export const deletePostMediaFromR2 = async (postId: string, accessToken: string): Promise<string[]> => {
   try {
-    addBreadcrumb('Deleting file from R2', 'r2', { key });
+    addBreadcrumb('Requesting R2 media deletion', 'r2', { postId });
+
+    const response = await fetch(API_ENDPOINTS.NETLIFY_R2_DELETE, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`
+      },
+      body: JSON.stringify({ postId })
+    });
+    const result = await response.json().catch(() => ({}));
 
-    const bucketName = import.meta.env.VITE_R2_BUCKET_NAME;
-    
-    if (!bucketName) {
-      throw new Error('VITE_R2_BUCKET_NAME not configured');
+    if (!response.ok) {
+      throw new Error(result.error || `R2 delete failed with status ${response.status}`);
     }
 
-    const command = new DeleteObjectCommand({
-      Bucket: bucketName,
-      Key: key,
-    });
-
-    await r2Client.send(command);
-    addBreadcrumb('File deleted from R2 successfully', 'r2', { key });
+    addBreadcrumb('R2 media deleted successfully', 'r2', { postId, keys: result.deleted });
+    return result.deleted || [];
   } catch (error) {
-    captureError(error as Error, { context: 'deleteFileFromR2', key });
+    captureError(error as Error, { context: 'deletePostMediaFromR2', postId });
     throw error;
   }
 };
@@ -240,4 +226,9 @@ export const extractKeyFromUrl = (publicUrl: string): string | null => {
     captureError(error as Error, { context: 'extractKeyFromUrl', publicUrl });
     return null;
   }
-};
\ No newline at end of file
+};
+// Whether a URL points into our R2 bucket, e.g. before reusing media from an imported file
+export const isR2PublicUrl = (url: string): boolean => {
+  const publicBaseUrl = import.meta.env.VITE_R2_PUBLIC_URL;
+  return !!publicBaseUrl && isPublicMediaUrl(url, publicBaseUrl);
+};
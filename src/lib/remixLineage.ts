@@ -0,0 +1,28 @@
+import { supabase, isSupabaseReady } from './supabase';
+import { captureError, addBreadcrumb } from './sentry';
+import { buildLineageTree, LineagePost, PostLineage } from '../utils/lineageTree';
+
+export type { LineagePost, PostLineage, RemixNode } from '../utils/lineageTree';
+
+/**
+ * The posts a post remixes and its remixes, a few levels each way. Fails to an empty
+ * lineage, which hides the lineage section.
+ */
+export const getPostLineage = async (postId: string): Promise<PostLineage> => {
+  try {
+    if (!isSupabaseReady || !supabase) return { ancestors: [], remixes: [] };
+
+    addBreadcrumb('Fetching post lineage', 'database', { postId });
+
+    const { data, error } = await supabase.rpc('get_post_lineage', { target_post_id: postId });
+
+    if (error) {
+      throw new Error(`Failed to load lineage: ${error.message}`);
+    }
+
+    return buildLineageTree((data || []) as LineagePost[], postId);
+  } catch (error) {
+    captureError(error as Error, { context: 'getPostLineage', postId });
+    return { ancestors: [], remixes: [] };
+  }
+};
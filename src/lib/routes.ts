@@ -0,0 +1,133 @@
+/**
+ * URL routing for StyleDrop
+ * Maps browser paths to application views and back, so posts, styles and
+ * artist profiles can be bookmarked, shared and reached with the back button.
+ */
+
+export type Route =
+  | { name: 'gallery' }
+  | { name: 'decode' }
+  | { name: 'post'; postId: string }
+  | { name: 'analysis'; analysisId: string }
+  | { name: 'style'; slug: string }
+  | { name: 'artist'; username: string }
+  | { name: 'settings' }
+  | { name: 'saved' }
+  | { name: 'mix' }
+  | { name: 'collections' }
+  | { name: 'collection'; collectionId: string }
+  | { name: 'notFound'; path: string };
+
+// Custom event fired after programmatic navigation so listeners can re-read the URL
+export const ROUTE_CHANGE_EVENT = 'styledrop:routechange';
+
+/**
+ * Convert a free-text style name into a URL slug
+ * Must match public.slugify_style, which sets the canonical slugs in the styles table
+ */
+export const slugifyStyle = (style: string): string => {
+  return style
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+};
+
+const decodeSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+/**
+ * Parse a pathname into a Route
+ */
+export const parseRoute = (pathname: string): Route => {
+  const segments = pathname
+    .split('/')
+    .filter(segment => segment.length > 0)
+    .map(decodeSegment);
+
+  if (segments.length === 0) {
+    return { name: 'gallery' };
+  }
+
+  const [head, param] = segments;
+
+  if (segments.length === 1) {
+    switch (head) {
+      case 'gallery': return { name: 'gallery' };
+      case 'decode': return { name: 'decode' };
+      case 'settings': return { name: 'settings' };
+      case 'saved': return { name: 'saved' };
+      case 'mix': return { name: 'mix' };
+      case 'collections': return { name: 'collections' };
+    }
+  }
+
+  if (segments.length === 2 && param) {
+    switch (head) {
+      case 'post': return { name: 'post', postId: param };
+      case 'analysis': return { name: 'analysis', analysisId: param };
+      case 'style': return { name: 'style', slug: param };
+      case 'artist': return { name: 'artist', username: param };
+      case 'collection': return { name: 'collection', collectionId: param };
+    }
+  }
+
+  return { name: 'notFound', path: pathname };
+};
+
+/**
+ * Build the pathname for a Route
+ */
+export const buildPath = (route: Route): string => {
+  switch (route.name) {
+    case 'gallery': return '/';
+    case 'decode': return '/decode';
+    case 'settings': return '/settings';
+    case 'saved': return '/saved';
+    case 'mix': return '/mix';
+    case 'collections': return '/collections';
+    case 'post': return `/post/${encodeURIComponent(route.postId)}`;
+    case 'analysis': return `/analysis/${encodeURIComponent(route.analysisId)}`;
+    case 'style': return `/style/${encodeURIComponent(route.slug)}`;
+    case 'artist': return `/artist/${encodeURIComponent(route.username)}`;
+    case 'collection': return `/collection/${encodeURIComponent(route.collectionId)}`;
+    case 'notFound': return route.path;
+  }
+};
+
+/**
+ * Navigate to a Route by updating the browser history
+ */
+export const navigate = (route: Route, options: { replace?: boolean } = {}): void => {
+  const path = buildPath(route);
+
+  if (path === window.location.pathname && !options.replace) {
+    return;
+  }
+
+  // Mark entries pushed by the app so goBack knows it can use history.back();
+  // replaced entries keep whatever marker they already had
+  if (options.replace) {
+    window.history.replaceState({ inApp: !!window.history.state?.inApp }, '', path);
+  } else {
+    window.history.pushState({ inApp: true }, '', path);
+  }
+
+  window.dispatchEvent(new Event(ROUTE_CHANGE_EVENT));
+};
+
+/**
+ * Go back in history when the previous entry belongs to the app,
+ * otherwise navigate to the fallback route (e.g. after a cold-start deep link)
+ */
+export const goBack = (fallback: Route): void => {
+  if (window.history.state?.inApp) {
+    window.history.back();
+  } else {
+    navigate(fallback, { replace: true });
+  }
+};
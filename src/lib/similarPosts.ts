@@ -0,0 +1,100 @@
+import { supabase, isSupabaseReady } from './supabase';
+import type { Post } from './supabaseUtils';
+import { AnalysisResult } from '../constants/modules';
+import { captureError, addBreadcrumb } from './sentry';
+import { buildEmbeddingText } from '../../supabase/functions/_shared/embeddings';
+import { SIMILAR_POSTS } from '../constants';
+
+export interface SimilarPost extends Post {
+  similarity: number; // Cosine similarity to the source, up to 1
+}
+
+/**
+ * Ask analyze-media to embed posts from their stored analysis. Called right after a
+ * post is created; failures only cost the post its place in "More like this" until
+ * the next backfill, so they are reported and swallowed.
+ */
+export const requestPostEmbeddings = async (postIds: string[]): Promise<void> => {
+  if (!isSupabaseReady || !supabase || postIds.length === 0) return;
+
+  try {
+    const { error } = await supabase.functions.invoke('analyze-media', {
+      body: { mode: 'embed', postIds }
+    });
+    if (error) throw new Error(error.message);
+
+    addBreadcrumb('Post embeddings requested', 'api', { count: postIds.length });
+  } catch (error) {
+    console.warn('Failed to embed posts, they will be picked up by the next backfill:', error);
+    captureError(error as Error, { context: 'requestPostEmbeddings', postIds });
+  }
+};
+
+type SimilarityInput = Pick<AnalysisResult, 'id' | 'prompt' | 'keyTokens'>;
+
+const embedAnalysis = async (analysis: SimilarityInput): Promise<{ embedding: number[]; model: string }> => {
+  if (!isSupabaseReady || !supabase) {
+    throw new Error('Supabase is not configured');
+  }
+
+  const { data, error } = await supabase.functions.invoke('analyze-media', {
+    body: { mode: 'embed', text: buildEmbeddingText(analysis) }
+  });
+
+  if (error) throw new Error(`Embedding failed: ${error.message}`);
+  if (!Array.isArray(data?.embedding) || typeof data?.model !== 'string') {
+    throw new Error('Invalid response from analysis service');
+  }
+
+  return { embedding: data.embedding, model: data.model };
+};
+
+/**
+ * Posts styled most like an analysis. A gallery post is matched on its stored
+ * embedding; a fresh decode, or a post that hasn't been embedded yet, is embedded
+ * on the fly instead.
+ */
+export const getSimilarPosts = async (
+  analysis: SimilarityInput,
+  postId?: string,
+  limit: number = SIMILAR_POSTS.RAIL_SIZE
+): Promise<SimilarPost[]> => {
+  if (!isSupabaseReady || !supabase) {
+    throw new Error('Supabase is not configured');
+  }
+
+  try {
+    addBreadcrumb('Fetching similar posts', 'database', { postId, analysisId: analysis.id });
+
+    let matches: SimilarPost[] = [];
+
+    if (postId) {
+      const { data, error } = await supabase.rpc('get_similar_posts', {
+        source_post_id: postId,
+        match_count: limit
+      });
+      if (error) throw new Error(error.message);
+      matches = data || [];
+    }
+
+    if (matches.length === 0) {
+      const { embedding, model } = await embedAnalysis(analysis);
+      const { data, error } = await supabase.rpc('match_similar_posts', {
+        query_embedding: JSON.stringify(embedding),
+        query_model: model,
+        match_count: limit,
+        exclude_post_id: postId ?? null
+      });
+      if (error) throw new Error(error.message);
+      matches = data || [];
+    }
+
+    // A fresh decode that was already posted would otherwise be its own best match
+    return matches.filter(post =>
+      post.analysis_data?.id !== analysis.id && post.similarity >= SIMILAR_POSTS.MIN_SIMILARITY
+    );
+  } catch (error) {
+    captureError(error as Error, { context: 'getSimilarPosts', postId });
+    throw error;
+  }
+};
@@ -0,0 +1,160 @@
+import { supabase, isSupabaseReady } from './supabase';
+import { captureError, addBreadcrumb } from './sentry';
+import { saveAnalysisToDatabase, Post, BookmarkedAnalysis, getImageUrl, getSavedAnalysisMediaType, validateAndFixMediaUrl } from './supabaseUtils';
+import { AnalysisResult, StyleMixSource } from '../constants/modules';
+import { parseGeminiAnalysis } from '../utils/geminiParser';
+import { makeUUID } from '../utils/uuid';
+import { MIX_LIMITS } from '../../supabase/functions/_shared/styleMix';
+import { PROMPT_LIST_FIELDS } from '../../supabase/functions/_shared/analysisSchema';
+
+export { MIX_LIMITS };
+
+type MixMediaType = 'image' | 'video' | 'audio';
+
+/**
+ * A post or saved analysis picked in the Mix workspace
+ */
+export interface MixCandidate {
+  key: string; // Unique per source, so the same analysis can't be picked twice
+  postId?: string;
+  analysisId?: string;
+  username?: string;
+  analysis: AnalysisResult;
+  mediaUrl: string; // Empty for mixes, which have no media
+  mediaType: MixMediaType;
+  weight: number; // Slider value, MIX_LIMITS.MIN_WEIGHT-MAX_WEIGHT
+}
+
+// Mixes have no media of their own; audio mixes keep the music details
+export interface MixedAnalysis {
+  analysis: AnalysisResult;
+  mediaType: MixMediaType;
+}
+
+/**
+ * Turn anything showing an analysis (a post, a saved analysis, the open analysis page)
+ * into a mix source
+ */
+export const toMixCandidate = (source: {
+  analysis: AnalysisResult;
+  mediaUrl: string;
+  mediaType: MixMediaType;
+  postId?: string;
+  username?: string;
+}): MixCandidate => ({
+  key: source.postId ? `post:${source.postId}` : `analysis:${source.analysis.id}`,
+  postId: source.postId,
+  analysisId: source.analysis.id,
+  username: source.username,
+  analysis: source.analysis,
+  mediaUrl: source.mediaUrl,
+  mediaType: source.mediaType,
+  weight: MIX_LIMITS.DEFAULT_WEIGHT
+});
+
+export const postToMixCandidate = (post: Post): MixCandidate => toMixCandidate({
+  analysis: post.analysis_data,
+  mediaUrl: post.media_url,
+  mediaType: post.media_type,
+  postId: post.id,
+  username: post.username
+});
+
+// Saved mixes have no stored media, so they're picked without a preview
+export const bookmarkToMixCandidate = (bookmark: BookmarkedAnalysis): MixCandidate => {
+  const storagePath = bookmark.analysis.image?.storage_path;
+
+  return toMixCandidate({
+    analysis: { ...bookmark.analysis.data, id: bookmark.analysis.id },
+    mediaUrl: storagePath ? validateAndFixMediaUrl(getImageUrl(storagePath)) : '',
+    mediaType: getSavedAnalysisMediaType(bookmark.analysis.image?.mime_type, bookmark.analysis.data)
+  });
+};
+
+// Only the fields the blend reads; waveforms, timelines and custom modules stay behind
+const toSourceAnalysis = (analysis: AnalysisResult) => ({
+  title: analysis.title,
+  style: analysis.style,
+  prompt: analysis.prompt,
+  keyTokens: analysis.keyTokens,
+  ...Object.fromEntries(PROMPT_LIST_FIELDS.map(field => [field, analysis[field]])),
+  ...(analysis.audio && { audio: analysis.audio })
+});
+
+/**
+ * Blend 2-4 analyses with analyze-media's mix mode and save the result as a new
+ * analysis. The mix is saved without media, and it records every source in mixSources
+ * for attribution.
+ */
+export const mixAnalyses = async (candidates: MixCandidate[], userId?: string): Promise<MixedAnalysis> => {
+  if (!isSupabaseReady || !supabase) {
+    throw new Error('Supabase is not configured');
+  }
+
+  if (candidates.length < MIX_LIMITS.MIN_SOURCES || candidates.length > MIX_LIMITS.MAX_SOURCES) {
+    throw new Error(`Pick ${MIX_LIMITS.MIN_SOURCES}-${MIX_LIMITS.MAX_SOURCES} styles to mix`);
+  }
+
+  try {
+    const sources = [...candidates].sort((a, b) => b.weight - a.weight);
+    const isAudioMix = sources.every(source => source.mediaType === 'audio' && source.analysis.audio);
+    const totalWeight = sources.reduce((sum, source) => sum + source.weight, 0);
+
+    addBreadcrumb('Mixing analyses', 'api', {
+      sources: sources.map(source => source.key),
+      weights: sources.map(source => source.weight)
+    });
+
+    const { data, error } = await supabase.functions.invoke('analyze-media', {
+      body: {
+        mode: 'mix',
+        sources: sources.map(source => ({ analysis: toSourceAnalysis(source.analysis), weight: source.weight })),
+        mediaType: isAudioMix ? 'audio' : undefined
+      }
+    });
+
+    if (error) {
+      captureError(new Error(error.message), {
+        context: 'mixAnalyses',
+        functionName: 'analyze-media',
+        errorDetails: error
+      });
+      throw new Error(`Mixing failed: ${error.message}`);
+    }
+
+    if (!data?.analysis) {
+      throw new Error('Invalid response from analysis service');
+    }
+
+    const mixSources: StyleMixSource[] = sources.map(source => ({
+      postId: source.postId,
+      analysisId: source.analysisId,
+      title: source.analysis.title,
+      style: source.analysis.style,
+      username: source.username,
+      weight: source.weight / totalWeight
+    }));
+
+    const analysis: AnalysisResult = {
+      id: makeUUID(), // Replaced below once saved
+      ...parseGeminiAnalysis(data.analysis, [], isAudioMix ? 'audio' : undefined),
+      customModules: undefined, // Mixes are blended from the built-in modules only
+      provider: data.provider,
+      mixSources
+    };
+
+    try {
+      analysis.id = await saveAnalysisToDatabase(null, null, userId || 'anon', analysis, null, null, null);
+    } catch (saveError) {
+      console.error('Failed to save mixed analysis to database:', saveError);
+      captureError(saveError as Error, { context: 'mixAnalyses.save' });
+    }
+
+    addBreadcrumb('Analyses mixed', 'api', { analysisId: analysis.id, isAudioMix });
+
+    return { analysis, mediaType: isAudioMix ? 'audio' : 'image' };
+  } catch (error) {
+    captureError(error as Error, { context: 'mixAnalyses' });
+    throw error;
+  }
+};
@@ -0,0 +1,215 @@
+import { AnalysisResult } from '../constants/modules';
+import { captureError, addBreadcrumb } from './sentry';
+import { saveAnalysisToDatabase } from './supabaseUtils';
+import { getPresignedUploadUrl, uploadFileToR2, compressImage, extractKeyFromUrl, isR2PublicUrl } from './r2';
+import {
+  StylePack,
+  StylePackError,
+  StylePackMediaType,
+  createStylePackBundle,
+  createStylePackZip,
+  getStylePackFileName,
+  readStylePack,
+  stylePackToJSON,
+  stylePackToMarkdown
+} from '../utils/stylePack';
+import { makeUUID } from '../utils/uuid';
+import { R2_FOLDERS } from '../constants';
+
+export type StylePackExportFormat = 'json' | 'markdown' | 'zip';
+
+export interface ImportedStylePack {
+  analysis: AnalysisResult;
+  mediaUrl: string;
+  mediaType: StylePackMediaType;
+  mediaFile?: File; // Set when the pack's thumbnail became the media
+  thumbnailFile?: File; // Poster for video packs that link to their original media
+  styleCodes: string[];
+}
+
+const THUMBNAIL_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif'
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Get a thumbnail to ship in a zipped pack: the generated video thumbnail when there
+ * is one, otherwise the image itself, shrunk if it is large. Returns null when the
+ * media can't be fetched (e.g. the CDN doesn't allow it) so the export still works.
+ */
+const loadThumbnail = async (
+  mediaUrl: string,
+  mediaType: StylePackMediaType,
+  thumbnailFile?: File
+): Promise<File | null> => {
+  if (thumbnailFile) return thumbnailFile;
+  if (mediaType !== 'image' || !mediaUrl) return null;
+
+  try {
+    const response = await fetch(mediaUrl);
+    if (!response.ok) return null;
+
+    const blob = await response.blob();
+    const extension = Object.keys(THUMBNAIL_MIME_TYPES).find(ext => THUMBNAIL_MIME_TYPES[ext] === blob.type) || 'jpg';
+    const file = new File([blob], `thumbnail.${extension}`, { type: blob.type || 'image/jpeg' });
+
+    return await compressImage(file, 1);
+  } catch (error) {
+    console.warn('Could not include media thumbnail in style pack:', error);
+    return null;
+  }
+};
+
+const loadThumbnailEntry = async (
+  mediaUrl: string,
+  mediaType: StylePackMediaType,
+  thumbnailFile?: File
+): Promise<{ name: string; data: Uint8Array } | undefined> => {
+  const thumbnail = await loadThumbnail(mediaUrl, mediaType, thumbnailFile);
+  if (!thumbnail) return undefined;
+
+  const extension = thumbnail.name.split('.').pop()?.toLowerCase() || 'jpg';
+  return { name: `thumbnail.${extension}`, data: new Uint8Array(await thumbnail.arrayBuffer()) };
+};
+
+/**
+ * Download a pack as JSON, Markdown or a zip with the media thumbnail
+ */
+export const exportStylePack = async (
+  pack: StylePack,
+  format: StylePackExportFormat,
+  thumbnailSource?: { mediaUrl: string; thumbnailFile?: File }
+): Promise<void> => {
+  try {
+    addBreadcrumb('Exporting style pack', 'ui', { format, title: pack.analysis.title });
+
+    if (format === 'json') {
+      downloadBlob(new Blob([stylePackToJSON(pack)], { type: 'application/json' }), getStylePackFileName(pack, 'json'));
+      return;
+    }
+
+    if (format === 'markdown') {
+      downloadBlob(new Blob([stylePackToMarkdown(pack)], { type: 'text/markdown' }), getStylePackFileName(pack, 'md'));
+      return;
+    }
+
+    const thumbnail = thumbnailSource
+      ? await loadThumbnailEntry(thumbnailSource.mediaUrl, pack.media.type, thumbnailSource.thumbnailFile)
+      : undefined;
+
+    const zip = createStylePackZip(pack, thumbnail);
+    downloadBlob(new Blob([zip], { type: 'application/zip' }), getStylePackFileName(pack, 'zip'));
+  } catch (error) {
+    captureError(error as Error, { context: 'exportStylePack', format });
+    throw error;
+  }
+};
+
+/**
+ * Download several packs as one zip holding a style pack zip per analysis
+ */
+export const exportStylePackBundle = async (
+  entries: { pack: StylePack; mediaUrl: string; thumbnailFile?: File }[],
+  fileName: string
+): Promise<void> => {
+  try {
+    addBreadcrumb('Exporting style pack bundle', 'ui', { count: entries.length });
+
+    const packs = [];
+    for (const { pack, mediaUrl, thumbnailFile } of entries) {
+      packs.push({ pack, thumbnail: await loadThumbnailEntry(mediaUrl, pack.media.type, thumbnailFile) });
+    }
+
+    downloadBlob(new Blob([createStylePackBundle(packs)], { type: 'application/zip' }), fileName);
+  } catch (error) {
+    captureError(error as Error, { context: 'exportStylePackBundle', count: entries.length });
+    throw error;
+  }
+};
+
+/**
+ * Import a .json or .zip style pack as a new analysis. Image packs use their bundled
+ * thumbnail as the media; other packs link to the original media URL, which must be in
+ * our R2 bucket. The analysis is saved like a decode, and still opens if saving fails.
+ */
+export const importStylePack = async (file: File): Promise<ImportedStylePack> => {
+  try {
+    addBreadcrumb('Importing style pack', 'ui', { fileName: file.name, fileSize: file.size });
+
+    const { pack, thumbnail } = readStylePack(new Uint8Array(await file.arrayBuffer()));
+
+    let thumbnailFile: File | undefined;
+    if (thumbnail) {
+      const extension = thumbnail.name.split('.').pop()?.toLowerCase() || '';
+      const mimeType = THUMBNAIL_MIME_TYPES[extension];
+      if (mimeType) thumbnailFile = new File([thumbnail.data], thumbnail.name, { type: mimeType });
+    }
+
+    let mediaUrl: string;
+    let mediaKey: string;
+    let mediaType: StylePackMediaType;
+    let mediaFile: File | undefined;
+
+    if (thumbnailFile && (pack.media.type === 'image' || !pack.media.url)) {
+      const { uploadUrl, publicUrl, key } = await getPresignedUploadUrl({
+        contentType: thumbnailFile.type,
+        ext: '.' + thumbnailFile.name.split('.').pop(),
+        folder: R2_FOLDERS.UPLOADS
+      });
+      await uploadFileToR2(thumbnailFile, uploadUrl);
+
+      mediaUrl = publicUrl;
+      mediaKey = key;
+      mediaType = 'image';
+      mediaFile = thumbnailFile;
+      thumbnailFile = undefined;
+    } else if (pack.media.url && isR2PublicUrl(pack.media.url)) {
+      mediaUrl = pack.media.url;
+      mediaKey = extractKeyFromUrl(pack.media.url) || pack.media.url;
+      mediaType = pack.media.type;
+    } else if (pack.media.url) {
+      // Links elsewhere could be posted to the gallery as if they were uploads
+      throw new StylePackError('Style pack media is hosted outside StyleDrop. Import the zipped pack with its thumbnail, or decode the original media.');
+    } else {
+      throw new StylePackError('Style pack has no media to show');
+    }
+
+    const analysis: AnalysisResult = { id: makeUUID(), ...pack.analysis };
+
+    try {
+      analysis.id = await saveAnalysisToDatabase(
+        mediaUrl,
+        mediaKey,
+        'anon',
+        analysis,
+        mediaFile?.name || file.name,
+        mediaFile?.size || 0,
+        mediaFile?.type || `${mediaType}/*`
+      );
+    } catch (saveError) {
+      console.error('Failed to save imported analysis to database:', saveError);
+      captureError(saveError as Error, { context: 'importStylePack.save' });
+    }
+
+    addBreadcrumb('Style pack imported', 'ui', { analysisId: analysis.id, mediaType });
+
+    return { analysis, mediaUrl, mediaType, mediaFile, thumbnailFile, styleCodes: pack.styleCodes };
+  } catch (error) {
+    captureError(error as Error, { context: 'importStylePack' });
+    throw error;
+  }
+};
@@ -0,0 +1,74 @@
+import { supabase, isSupabaseReady } from './supabase';
+import { captureError, addBreadcrumb } from './sentry';
+import { STYLES } from '../constants';
+
+/**
+ * A canonical style from the styles table. Posts are mapped onto styles by the
+ * database when they are created, so differently spelled styles share one gallery.
+ */
+export interface Style {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  parent_id: string | null;
+  post_count: number;
+}
+
+export interface RelatedStyle extends Style {
+  relation: 'parent' | 'child' | 'sibling' | 'similar';
+}
+
+/**
+ * Find the style behind a URL slug. Old slugs of merged styles and close misspellings
+ * resolve too, so callers should redirect when the returned slug differs.
+ */
+export const getStyleBySlug = async (slug: string): Promise<Style | null> => {
+  try {
+    if (!isSupabaseReady || !supabase) {
+      console.warn('Supabase not configured, cannot resolve style');
+      return null;
+    }
+
+    addBreadcrumb('Resolving style slug', 'database', { slug });
+
+    const { data, error } = await supabase.rpc('get_style', { style_slug: slug });
+
+    if (error) {
+      console.error('Error resolving style slug:', error);
+      throw new Error(`Failed to resolve style: ${error.message}`);
+    }
+
+    const [style] = (data || []) as Style[];
+    return style ? { ...style, post_count: Number(style.post_count) } : null;
+  } catch (error) {
+    captureError(error as Error, { context: 'getStyleBySlug', slug });
+    return null;
+  }
+};
+
+/**
+ * The parent, children and siblings of a style, followed by styles with similar names
+ */
+export const getRelatedStyles = async (
+  styleId: string,
+  limit: number = STYLES.RELATED_COUNT
+): Promise<RelatedStyle[]> => {
+  try {
+    if (!isSupabaseReady || !supabase) return [];
+
+    const { data, error } = await supabase.rpc('get_related_styles', {
+      target_style_id: styleId,
+      match_count: limit
+    });
+
+    if (error) {
+      throw new Error(`Failed to load related styles: ${error.message}`);
+    }
+
+    return ((data || []) as RelatedStyle[]).map(style => ({ ...style, post_count: Number(style.post_count) }));
+  } catch (error) {
+    captureError(error as Error, { context: 'getRelatedStyles', styleId });
+    return [];
+  }
+};
@@ -1,8 +1,11 @@
-import { supabase } from './supabase';
+import { supabase, isSupabaseReady } from './supabase';
 import { captureError, addBreadcrumb } from './sentry';
-import { AnalysisResult } from '../constants/modules';
-import { deleteFileFromR2, extractKeyFromUrl } from './r2';
-import { DEFAULTS } from '../constants';
+import { AnalysisResult, PromptListKey } from '../constants/modules';
+import { deletePostMediaFromR2 } from './r2';
+import { DEFAULTS, SEARCH } from '../constants';
+import { requestPostEmbeddings } from './similarPosts';
+import { parseSearchQuery } from '../utils/searchQuery';
+import type { Style } from './styles';
 
 export interface BookmarkedAnalysis {
   id: string;
@@ -15,9 +18,9 @@ export interface BookmarkedAnalysis {
     created_at: string;
     image: {
       id: string;
-      storage_path: string;
-      original_filename: string;
-      mime_type: string;
+      storage_path: string | null; // null for mixes, which have no media
+      original_filename: string | null;
+      mime_type: string | null;
       user_id: string;
     } | null;
   };
@@ -33,6 +36,7 @@ export interface PostData {
   analysis_data: any;
   thumbnail_url?: string;
   r2_key?: string; // NEW: Store R2 key for deletion
+  parent_post_id?: string | null; // Post this one remixes; only settable on insert
 }
 
 export interface Post {
@@ -42,14 +46,63 @@ export interface Post {
   media_url: string; // R2 CDN URL
   media_type: 'image' | 'video' | 'audio';
   title: string;
-  style: string;
+  style: string; // Canonical style name, set by the database from style_id
+  style_id?: string | null; // Canonical style (see src/lib/styles.ts)
   analysis_data: any;
   created_at: string;
   thumbnail_url?: string;
   likes_count?: number;
   r2_key?: string; // NEW: R2 key for deletion
+  parent_post_id?: string | null; // Post this one remixes (see src/lib/remixLineage.ts)
+  remixes_count?: number; // Direct remixes, kept in sync by a database trigger
+  comments_count?: number; // Comments and replies, kept in sync by a database trigger
+}
+
+// Post columns a gallery card needs; search_posts and get_following_posts return the same set
+export const POST_CARD_COLUMNS = 'id, title, media_url, media_type, thumbnail_url, username, style, likes_count, created_at, user_id, analysis_data, parent_post_id, remixes_count, comments_count';
+
+// Gallery sort orders; 'relevance' ranks search results by full-text match
+export type GallerySortOrder = 'new' | 'top' | 'hot' | 'relevance';
+
+// Narrows a search to one artist's posts or one style's posts
+export interface PostSearchScope {
+  userId?: string;
+  style?: string;
+}
+
+// Matching post counts for a search, shown next to the gallery filters
+export interface SearchFacets {
+  mediaTypes: Record<'image' | 'video' | 'audio', number>;
+  styles: { style: string; count: number }[];
 }
 
+// User-defined analysis module, as stored in custom_modules
+// Follower and following counts of a profile, kept in sync by a database trigger
+export interface FollowCounts {
+  followers: number;
+  following: number;
+}
+
+export interface CustomModule {
+  id: string;
+  user_id: string;
+  name: string;
+  color: string;
+  icon: string;
+  instruction: string;
+  item_count: number;
+  min_words: number | null;
+  max_words: number | null;
+  is_active: boolean; // Selected by default when decoding
+  created_at: string;
+  updated_at: string;
+}
+
+export type CustomModuleInput = Pick<
+  CustomModule,
+  'name' | 'color' | 'icon' | 'instruction' | 'item_count' | 'min_words' | 'max_words' | 'is_active'
+>;
+
 // NEW: Profile update interface
 export interface ProfileUpdateData {
   username?: string;
@@ -58,14 +111,15 @@ export interface ProfileUpdateData {
 }
 
 // Save analysis with R2 media URL (no file upload to Supabase)
+// Mixes have no media of their own and pass null for the media fields
 export const saveAnalysisToDatabase = async (
-  mediaUrl: string, // R2 CDN URL
-  r2Key: string, // R2 object key
+  mediaUrl: string | null, // R2 CDN URL
+  r2Key: string | null, // R2 object key
   userId: string, 
   analysisResult: AnalysisResult,
-  originalFilename: string,
-  fileSize: number,
-  mimeType: string
+  originalFilename: string | null,
+  fileSize: number | null,
+  mimeType: string | null
 ): Promise<string> => {
   try {
     addBreadcrumb('Starting analysis save with R2 URL', 'database', { userId, mediaUrl });
@@ -112,7 +166,7 @@ export const saveAnalysisToDatabase = async (
     const analysisInsertData = {
       image_id: imageData.id,
       data: analysisResult,
-      analysis_type: getAnalysisTypeFromMimeType(mimeType)
+      analysis_type: mimeType ? getAnalysisTypeFromMimeType(mimeType) : 'mix'
     };
 
     console.log('Inserting analysis data:', { 
@@ -156,7 +210,44 @@ export const saveAnalysisToDatabase = async (
   }
 };
 
-const getAnalysisTypeFromMimeType = (mimeType: string): string => {
+/**
+ * Append regenerated variations to one module's prompt list in analyses.data,
+ * returning the full list as stored
+ */
+export const appendAnalysisVariations = async (
+  analysisId: string,
+  promptKey: PromptListKey,
+  variations: string[]
+): Promise<string[]> => {
+  try {
+    addBreadcrumb('Appending prompt variations', 'database', { analysisId, promptKey, count: variations.length });
+
+    const { data, error } = await supabase.rpc('append_analysis_variations', {
+      target_analysis_id: analysisId,
+      prompt_key: promptKey,
+      variations
+    });
+
+    if (error) {
+      console.error('Error appending prompt variations:', error);
+      captureError(new Error(error.message), {
+        context: 'appendAnalysisVariations',
+        analysisId,
+        promptKey,
+        errorCode: error.code
+      });
+      throw new Error(`Failed to save variations: ${error.message}`);
+    }
+
+    addBreadcrumb('Prompt variations saved', 'database', { analysisId, total: data?.length });
+    return data as string[];
+  } catch (error) {
+    captureError(error as Error, { context: 'appendAnalysisVariations' });
+    throw error;
+  }
+};
+
+export const getAnalysisTypeFromMimeType = (mimeType: string): string => {
   const type = mimeType.toLowerCase();
   if (type.startsWith('image/')) return 'image';
   if (type.startsWith('video/')) return 'video';
@@ -164,6 +255,15 @@ const getAnalysisTypeFromMimeType = (mimeType: string): string => {
   return 'image';
 };
 
+// Media type of a saved analysis. Mixes have no media, so audio mixes are told apart by their music details.
+export const getSavedAnalysisMediaType = (
+  mimeType: string | null | undefined,
+  analysis: AnalysisResult
+): 'image' | 'video' | 'audio' => {
+  if (mimeType) return getAnalysisTypeFromMimeType(mimeType) as 'image' | 'video' | 'audio';
+  return analysis.audio ? 'audio' : 'image';
+};
+
 export const createPost = async (postData: PostData): Promise<Post> => {
   try {
     addBreadcrumb('Creating new post with R2 URL', 'database', { 
@@ -213,6 +313,11 @@ export const createPost = async (postData: PostData): Promise<Post> => {
       hasThumbnail: !!data.thumbnail_url,
       hasR2Key: !!data.r2_key
     });
+
+    // Embed in the background for "More like this"; never holds up or fails the post.
+    // Only owners can request embeddings, so anonymous posts wait for the backfill.
+    if (data.user_id) void requestPostEmbeddings([data.id]);
+
     return data;
   } catch (error) {
     captureError(error as Error, { context: 'createPost' });
@@ -225,10 +330,10 @@ export const deletePost = async (postId: string, userId: string): Promise<void>
   try {
     addBreadcrumb('Deleting post and R2 objects', 'database', { postId, userId });
 
-    // First, get the post to extract R2 keys
+    // First, make sure the post exists and belongs to the user
     const { data: post, error: fetchError } = await supabase
       .from('posts')
-      .select('r2_key, thumbnail_url, media_url')
+      .select('id')
       .eq('id', postId)
       .eq('user_id', userId) // Ensure user owns the post
       .single();
@@ -242,32 +347,15 @@ export const deletePost = async (postId: string, userId: string): Promise<void>
       throw new Error('Post not found or access denied');
     }
 
-    // Delete from R2 if we have keys
-    const deletePromises: Promise<void>[] = [];
-
-    if (post.r2_key) {
-      deletePromises.push(deleteFileFromR2(post.r2_key));
-    }
-
-    // Extract thumbnail key from URL if present
-    if (post.thumbnail_url) {
-      const thumbnailKey = extractKeyFromUrl(post.thumbnail_url);
-      if (thumbnailKey) {
-        deletePromises.push(deleteFileFromR2(thumbnailKey));
-      }
-    }
+    // Delete from R2 through the server function (don't fail if R2 deletion fails)
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
 
-    // Extract main media key from URL if no r2_key stored
-    if (!post.r2_key && post.media_url) {
-      const mediaKey = extractKeyFromUrl(post.media_url);
-      if (mediaKey) {
-        deletePromises.push(deleteFileFromR2(mediaKey));
+      if (!session?.access_token) {
+        throw new Error('No active session for R2 deletion');
       }
-    }
 
-    // Delete from R2 (don't fail if R2 deletion fails)
-    try {
-      await Promise.all(deletePromises);
+      await deletePostMediaFromR2(postId, session.access_token);
       addBreadcrumb('R2 objects deleted successfully', 'database', { postId });
     } catch (r2Error) {
       console.warn('Failed to delete some R2 objects:', r2Error);
@@ -386,46 +474,248 @@ export const getUserProfile = async (userId: string) => {
   }
 };
 
+// Look up a public profile by username (used by /artist/:username deep links)
+export const getProfileByUsername = async (username: string): Promise<{ id: string; username: string } | null> => {
+  try {
+    addBreadcrumb('Fetching profile by username', 'database', { username });
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, username')
+      .eq('username', username)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      console.error('Error fetching profile by username:', error);
+      throw new Error(`Failed to fetch profile: ${error.message}`);
+    }
+
+    return data || null;
+  } catch (error) {
+    captureError(error as Error, { context: 'getProfileByUsername', username });
+    return null;
+  }
+};
+
+// Fetch a single post (used by /post/:id deep links)
+export const getPostById = async (postId: string): Promise<Post | null> => {
+  try {
+    addBreadcrumb('Fetching post by ID', 'database', { postId });
+
+    const { data, error } = await supabase
+      .from('posts')
+      .select(`${POST_CARD_COLUMNS}, r2_key`)
+      .eq('id', postId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      console.error('Error fetching post by ID:', error);
+      captureError(new Error(error.message), {
+        context: 'getPostById',
+        postId,
+        errorCode: error.code
+      });
+      throw error;
+    }
+
+    addBreadcrumb('Post fetched by ID', 'database', { postId, found: !!data });
+    return data || null;
+  } catch (error) {
+    captureError(error as Error, { context: 'getPostById' });
+    return null;
+  }
+};
+
+// Fetch a saved analysis together with its media (used by /analysis/:id deep links)
+export const getAnalysisById = async (analysisId: string): Promise<{
+  analysis: AnalysisResult;
+  mediaUrl: string; // Empty for mixes, which have no media
+  mediaType: 'image' | 'video' | 'audio';
+  userId: string | null;
+} | null> => {
+  try {
+    addBreadcrumb('Fetching analysis by ID', 'database', { analysisId });
+
+    const { data: analysisData, error: analysisError } = await supabase
+      .from('analyses')
+      .select('id, data, image_id')
+      .eq('id', analysisId)
+      .single();
+
+    if (analysisError && analysisError.code !== 'PGRST116') {
+      console.error('Error fetching analysis by ID:', analysisError);
+      throw new Error(`Failed to fetch analysis: ${analysisError.message}`);
+    }
+
+    if (!analysisData) {
+      return null;
+    }
+
+    const { data: imageData, error: imageError } = await supabase
+      .from('images')
+      .select('storage_path, mime_type, user_id')
+      .eq('id', analysisData.image_id)
+      .single();
+
+    if (imageError) {
+      console.error('Error fetching media for analysis:', imageError);
+      throw new Error(`Failed to fetch analysis media: ${imageError.message}`);
+    }
+
+    addBreadcrumb('Analysis fetched by ID', 'database', { analysisId });
+
+    return {
+      analysis: { ...analysisData.data, id: analysisData.id },
+      mediaUrl: imageData.storage_path ? getImageUrl(imageData.storage_path) : '',
+      mediaType: getSavedAnalysisMediaType(imageData.mime_type, analysisData.data),
+      userId: imageData.user_id
+    };
+  } catch (error) {
+    captureError(error as Error, { context: 'getAnalysisById', analysisId });
+    return null;
+  }
+};
+
+// Helper function to apply the gallery sort order, shared by all post queries
+// 'hot' uses posts.hot_score, a stored time-decayed score (see public.calculate_hot_score)
+// 'relevance' only means something for searches, so plain listings fall back to 'new'
+const applySortOrder = <Q extends { order: (column: string, options?: { ascending?: boolean }) => Q }>(
+  query: Q,
+  sortOrder: GallerySortOrder
+): Q => {
+  switch (sortOrder) {
+    case 'top':
+      // Sort by likes_count in descending order, then by created_at for ties
+      return query.order('likes_count', { ascending: false }).order('created_at', { ascending: false });
+    case 'hot':
+      // Sort by hot score, then by created_at for ties
+      return query.order('hot_score', { ascending: false }).order('created_at', { ascending: false });
+    case 'new':
+    case 'relevance':
+    default:
+      // Sort by creation date in descending order (newest first)
+      return query.order('created_at', { ascending: false });
+  }
+};
+
+/**
+ * Full-text search over title, style, prompt and keyTokens (see the search_posts RPC).
+ * The query may use "phrases", -exclusions, style: and artist: (see src/utils/searchQuery.ts).
+ */
+export const searchPosts = async (
+  searchQuery: string,
+  sortOrder: GallerySortOrder = 'relevance',
+  limit: number = DEFAULTS.GALLERY_PAGE_SIZE,
+  offset: number = 0,
+  mediaType: 'image' | 'video' | 'audio' = 'image',
+  scope: PostSearchScope = {}
+): Promise<{ posts: Post[]; hasMore: boolean }> => {
+  try {
+    if (!isSupabaseReady || !supabase) {
+      console.warn('Supabase not configured, returning empty posts array');
+      return { posts: [], hasMore: false };
+    }
+
+    const parsed = parseSearchQuery(searchQuery);
+    addBreadcrumb('Searching posts', 'database', { sortOrder, limit, offset, mediaType, ...parsed, ...scope });
+
+    // One extra row tells whether there's another page, like the range() queries below
+    const { data, error } = await supabase.rpc('search_posts', {
+      search_text: parsed.text,
+      style_filters: parsed.styles,
+      artist_filters: parsed.artists,
+      filter_media_type: mediaType,
+      filter_user_id: scope.userId ?? null,
+      filter_style: scope.style ?? null,
+      sort_order: sortOrder,
+      page_size: limit + 1,
+      page_offset: offset
+    });
+
+    if (error) {
+      console.error('Error searching posts:', error);
+      throw new Error(`Search failed: ${error.message}`);
+    }
+
+    const posts: Post[] = data || [];
+    const hasMore = posts.length > limit;
+    const actualPosts = hasMore ? posts.slice(0, limit) : posts;
+
+    addBreadcrumb('Posts searched successfully', 'database', { count: actualPosts.length, hasMore });
+    return { posts: actualPosts, hasMore };
+  } catch (error) {
+    captureError(error as Error, { context: 'searchPosts', searchQuery, sortOrder, mediaType, ...scope });
+    return { posts: [], hasMore: false };
+  }
+};
+
+/**
+ * Counts of posts matching a search per media type, and the most common styles among
+ * the matches of the selected media type
+ */
+export const getSearchFacets = async (
+  searchQuery: string,
+  mediaType: 'image' | 'video' | 'audio' = 'image',
+  scope: PostSearchScope = {}
+): Promise<SearchFacets> => {
+  const facets: SearchFacets = { mediaTypes: { image: 0, video: 0, audio: 0 }, styles: [] };
+
+  try {
+    if (!isSupabaseReady || !supabase) return facets;
+
+    const parsed = parseSearchQuery(searchQuery);
+    const { data, error } = await supabase.rpc('get_search_facets', {
+      search_text: parsed.text,
+      style_filters: parsed.styles,
+      artist_filters: parsed.artists,
+      filter_media_type: mediaType,
+      filter_user_id: scope.userId ?? null,
+      filter_style: scope.style ?? null,
+      style_limit: SEARCH.FACET_STYLE_LIMIT
+    });
+
+    if (error) {
+      throw new Error(`Failed to load search facets: ${error.message}`);
+    }
+
+    for (const row of (data || []) as { facet: string; value: string; post_count: number }[]) {
+      if (row.facet === 'media_type' && row.value in facets.mediaTypes) {
+        facets.mediaTypes[row.value as keyof SearchFacets['mediaTypes']] = Number(row.post_count);
+      } else if (row.facet === 'style') {
+        facets.styles.push({ style: row.value, count: Number(row.post_count) });
+      }
+    }
+
+    return facets;
+  } catch (error) {
+    captureError(error as Error, { context: 'getSearchFacets', searchQuery, mediaType, ...scope });
+    return facets;
+  }
+};
+
 export const getPosts = async (
-  sortOrder: 'new' | 'top' | 'hot' = 'new', 
+  sortOrder: GallerySortOrder = 'new', 
   limit: number = DEFAULTS.GALLERY_PAGE_SIZE,
   offset: number = 0,
   mediaType: 'image' | 'video' | 'audio' = 'image',
   searchQuery?: string
 ): Promise<{ posts: Post[]; hasMore: boolean }> => {
   try {
+    // Searches go through the full-text search RPC
+    if (searchQuery && searchQuery.trim()) {
+      return await searchPosts(searchQuery, sortOrder, limit, offset, mediaType, {});
+    }
+
     addBreadcrumb('Fetching posts', 'database', { sortOrder, limit, offset, mediaType, searchQuery });
 
     let query = supabase
       .from('posts')
-      .select('id, title, media_url, media_type, thumbnail_url, username, style, likes_count, created_at, user_id, analysis_data')
+      .select(POST_CARD_COLUMNS)
       .eq('media_type', mediaType)
       .range(offset, offset + limit);
 
-    // Add search filter if query is provided
-    if (searchQuery && searchQuery.trim()) {
-      const trimmedQuery = searchQuery.trim();
-      query = query.or(`title.ilike.%${trimmedQuery}%,style.ilike.%${trimmedQuery}%,analysis_data->>prompt.ilike.%${trimmedQuery}%`);
-    }
-
     // Apply sorting based on the selected order
-    switch (sortOrder) {
-      case 'top':
-        // Sort by likes_count in descending order, then by created_at for ties
-        query = query.order('likes_count', { ascending: false }).order('created_at', { ascending: false });
-        break;
-      case 'hot':
-        // For 'hot', we can use a combination of likes and recency
-        // For now, we'll use likes_count as primary sort, but this could be enhanced
-        // with a more complex algorithm that considers both likes and time
-        query = query.order('likes_count', { ascending: false }).order('created_at', { ascending: false });
-        break;
-      case 'new':
-      default:
-        // Sort by creation date in descending order (newest first)
-        query = query.order('created_at', { ascending: false });
-        break;
-    }
+    query = applySortOrder(query, sortOrder);
 
     const { data, error } = await query;
 
@@ -482,44 +772,29 @@ export const getPosts = async (
 
 export const getPostsByUserId = async (
   userId: string,
-  sortOrder: 'new' | 'top' | 'hot' = 'new', 
+  sortOrder: GallerySortOrder = 'new', 
   limit: number = DEFAULTS.GALLERY_PAGE_SIZE,
   offset: number = 0,
   mediaType: 'image' | 'video' | 'audio' = 'image',
   searchQuery?: string
 ): Promise<{ posts: Post[]; hasMore: boolean }> => {
   try {
+    // Searches go through the full-text search RPC
+    if (searchQuery && searchQuery.trim()) {
+      return await searchPosts(searchQuery, sortOrder, limit, offset, mediaType, { userId });
+    }
+
     addBreadcrumb('Fetching posts by user ID', 'database', { userId, sortOrder, limit, offset, mediaType, searchQuery });
 
     let query = supabase
       .from('posts')
-      .select('id, title, media_url, media_type, thumbnail_url, username, style, likes_count, created_at, user_id, analysis_data')
+      .select(POST_CARD_COLUMNS)
       .eq('user_id', userId)
       .eq('media_type', mediaType)
       .range(offset, offset + limit);
 
-    // Add search filter if query is provided
-    if (searchQuery && searchQuery.trim()) {
-      const trimmedQuery = searchQuery.trim();
-      query = query.or(`title.ilike.%${trimmedQuery}%,style.ilike.%${trimmedQuery}%,analysis_data->>prompt.ilike.%${trimmedQuery}%`);
-    }
-
     // Apply sorting based on the selected order
-    switch (sortOrder) {
-      case 'top':
-        // Sort by likes_count in descending order, then by created_at for ties
-        query = query.order('likes_count', { ascending: false }).order('created_at', { ascending: false });
-        break;
-      case 'hot':
-        // For 'hot', use likes_count as primary sort with recency as secondary
-        query = query.order('likes_count', { ascending: false }).order('created_at', { ascending: false });
-        break;
-      case 'new':
-      default:
-        // Sort by creation date in descending order (newest first)
-        query = query.order('created_at', { ascending: false });
-        break;
-    }
+    query = applySortOrder(query, sortOrder);
 
     const { data, error } = await query;
 
@@ -558,52 +833,77 @@ export const getPostsByUserId = async (
   }
 };
 
+// Posts by the artists the signed-in user follows (see the get_following_posts RPC)
+export const getFollowingPosts = async (
+  sortOrder: GallerySortOrder = 'new',
+  limit: number = DEFAULTS.GALLERY_PAGE_SIZE,
+  offset: number = 0,
+  mediaType: 'image' | 'video' | 'audio' = 'image'
+): Promise<{ posts: Post[]; hasMore: boolean }> => {
+  try {
+    if (!isSupabaseReady || !supabase) {
+      console.warn('Supabase not configured, returning empty posts array');
+      return { posts: [], hasMore: false };
+    }
+
+    addBreadcrumb('Fetching following feed', 'database', { sortOrder, limit, offset, mediaType });
+
+    // One extra row tells whether there's another page, like the range() queries above
+    const { data, error } = await supabase.rpc('get_following_posts', {
+      filter_media_type: mediaType,
+      sort_order: sortOrder,
+      page_size: limit + 1,
+      page_offset: offset
+    });
+
+    if (error) {
+      console.error('Error fetching following feed:', error);
+      throw new Error(`Failed to fetch following feed: ${error.message}`);
+    }
+
+    const posts: Post[] = data || [];
+    const hasMore = posts.length > limit;
+    const actualPosts = hasMore ? posts.slice(0, limit) : posts;
+
+    addBreadcrumb('Following feed fetched successfully', 'database', { count: actualPosts.length, hasMore });
+    return { posts: actualPosts, hasMore };
+  } catch (error) {
+    captureError(error as Error, { context: 'getFollowingPosts', sortOrder, mediaType });
+    return { posts: [], hasMore: false };
+  }
+};
+
 export const getPostsByStyle = async (
-  style: string,
-  sortOrder: 'new' | 'top' | 'hot' = 'new', 
+  style: Pick<Style, 'id' | 'name'>,
+  sortOrder: GallerySortOrder = 'new', 
   limit: number = DEFAULTS.GALLERY_PAGE_SIZE,
   offset: number = 0,
   mediaType: 'image' | 'video' | 'audio' = 'image',
   searchQuery?: string
 ): Promise<{ posts: Post[]; hasMore: boolean }> => {
   try {
+    // Searches go through the full-text search RPC
+    if (searchQuery && searchQuery.trim()) {
+      return await searchPosts(searchQuery, sortOrder, limit, offset, mediaType, { style: style.name });
+    }
+
     // Check if Supabase is configured
     if (!isSupabaseReady || !supabase) {
       console.warn('Supabase not configured, returning empty posts array');
       return { posts: [], hasMore: false };
     }
 
-    addBreadcrumb('Fetching posts by style', 'database', { style, sortOrder, limit, offset, mediaType, searchQuery });
+    addBreadcrumb('Fetching posts by style', 'database', { style: style.name, styleId: style.id, sortOrder, limit, offset, mediaType, searchQuery });
 
     let query = supabase
       .from('posts')
-      .select('id, title, media_url, media_type, thumbnail_url, username, style, likes_count, created_at, user_id, analysis_data')
-      .eq('style', style)
+      .select(POST_CARD_COLUMNS)
+      .eq('style_id', style.id)
       .eq('media_type', mediaType)
       .range(offset, offset + limit);
 
-    // Add search filter if query is provided
-    if (searchQuery && searchQuery.trim()) {
-      const trimmedQuery = searchQuery.trim();
-      query = query.or(`title.ilike.%${trimmedQuery}%,analysis_data->>prompt.ilike.%${trimmedQuery}%`);
-    }
-
     // Apply sorting based on the selected order
-    switch (sortOrder) {
-      case 'top':
-        // Sort by likes_count in descending order, then by created_at for ties
-        query = query.order('likes_count', { ascending: false }).order('created_at', { ascending: false });
-        break;
-      case 'hot':
-        // For 'hot', use likes_count as primary sort with recency as secondary
-        query = query.order('likes_count', { ascending: false }).order('created_at', { ascending: false });
-        break;
-      case 'new':
-      default:
-        // Sort by creation date in descending order (newest first)
-        query = query.order('created_at', { ascending: false });
-        break;
-    }
+    query = applySortOrder(query, sortOrder);
 
     const { data, error } = await query;
 
@@ -611,7 +911,8 @@ export const getPostsByStyle = async (
       console.error('Error fetching posts by style:', error);
       captureError(new Error(error.message), { 
         context: 'getPostsByStyle',
-        style,
+        style: style.name,
+        styleId: style.id,
         sortOrder,
         limit,
         offset,
@@ -627,7 +928,7 @@ export const getPostsByStyle = async (
     const actualPosts = hasMore ? posts.slice(0, limit) : posts;
 
     addBreadcrumb('Posts by style fetched successfully', 'database', { 
-      style,
+      style: style.name,
       sortOrder,
       mediaType,
       searchQuery,
@@ -785,6 +1086,42 @@ export const isBookmarked = async (userId: string, analysisId: string): Promise<
   }
 };
 
+// Get which of the given analyses a user has bookmarked, in one query for a page of gallery cards
+export const getBookmarkedAnalysisIds = async (userId: string, analysisIds: string[]): Promise<Set<string>> => {
+  if (analysisIds.length === 0) {
+    return new Set();
+  }
+
+  try {
+    if (!isSupabaseReady || !supabase) {
+      return new Set();
+    }
+
+    addBreadcrumb('Fetching bookmarked analysis ids', 'database', { userId, count: analysisIds.length });
+
+    const { data, error } = await supabase
+      .from('bookmarks')
+      .select('analysis_id')
+      .eq('user_id', userId)
+      .in('analysis_id', analysisIds);
+
+    if (error) {
+      console.error('Error fetching bookmarked analyses:', error);
+      captureError(new Error(error.message), {
+        context: 'getBookmarkedAnalysisIds',
+        userId,
+        errorCode: error.code
+      });
+      throw error;
+    }
+
+    return new Set((data || []).map(bookmark => bookmark.analysis_id as string));
+  } catch (error) {
+    captureError(error as Error, { context: 'getBookmarkedAnalysisIds' });
+    return new Set();
+  }
+};
+
 export const fetchBookmarkedAnalyses = async (userId: string): Promise<BookmarkedAnalysis[]> => {
   try {
     addBreadcrumb('Fetching bookmarked analyses', 'database', { userId });
@@ -985,6 +1322,390 @@ export const fetchBookmarkedAnalyses = async (userId: string): Promise<Bookmarke
   }
 };
 
+// Like a post - likes_count is kept in sync by a database trigger
+export const likePost = async (userId: string, postId: string): Promise<void> => {
+  try {
+    if (!isSupabaseReady || !supabase) {
+      throw new Error('Supabase not configured');
+    }
+
+    addBreadcrumb('Liking post', 'database', { userId, postId });
+
+    const { error } = await supabase
+      .from('likes')
+      .insert({
+        user_id: userId,
+        post_id: postId
+      });
+
+    // 23505 = unique violation, the post is already liked
+    if (error && error.code !== '23505') {
+      console.error('Error liking post:', error);
+      captureError(new Error(error.message), {
+        context: 'likePost',
+        userId,
+        postId,
+        errorCode: error.code
+      });
+      throw error;
+    }
+
+    addBreadcrumb('Post liked successfully', 'database');
+  } catch (error) {
+    captureError(error as Error, { context: 'likePost' });
+    throw error;
+  }
+};
+
+// Unlike a post
+export const unlikePost = async (userId: string, postId: string): Promise<void> => {
+  try {
+    if (!isSupabaseReady || !supabase) {
+      throw new Error('Supabase not configured');
+    }
+
+    addBreadcrumb('Unliking post', 'database', { userId, postId });
+
+    const { error } = await supabase
+      .from('likes')
+      .delete()
+      .eq('user_id', userId)
+      .eq('post_id', postId);
+
+    if (error) {
+      console.error('Error unliking post:', error);
+      captureError(new Error(error.message), {
+        context: 'unlikePost',
+        userId,
+        postId,
+        errorCode: error.code
+      });
+      throw error;
+    }
+
+    addBreadcrumb('Post unliked successfully', 'database');
+  } catch (error) {
+    captureError(error as Error, { context: 'unlikePost' });
+    throw error;
+  }
+};
+
+// Check whether a user has liked a post
+export const hasLiked = async (userId: string, postId: string): Promise<boolean> => {
+  try {
+    if (!isSupabaseReady || !supabase) {
+      return false;
+    }
+
+    addBreadcrumb('Checking like status', 'database', { userId, postId });
+
+    const { data, error } = await supabase
+      .from('likes')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('post_id', postId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error checking like:', error);
+      captureError(new Error(error.message), {
+        context: 'hasLiked',
+        userId,
+        postId,
+        errorCode: error.code
+      });
+      throw error;
+    }
+
+    return !!data;
+  } catch (error) {
+    captureError(error as Error, { context: 'hasLiked' });
+    return false;
+  }
+};
+
+// Get which of the given posts a user has liked, in one query for a page of gallery cards
+export const getLikedPostIds = async (userId: string, postIds: string[]): Promise<Set<string>> => {
+  if (postIds.length === 0) {
+    return new Set();
+  }
+
+  try {
+    if (!isSupabaseReady || !supabase) {
+      return new Set();
+    }
+
+    addBreadcrumb('Fetching liked post ids', 'database', { userId, count: postIds.length });
+
+    const { data, error } = await supabase
+      .from('likes')
+      .select('post_id')
+      .eq('user_id', userId)
+      .in('post_id', postIds);
+
+    if (error) {
+      console.error('Error fetching liked posts:', error);
+      captureError(new Error(error.message), {
+        context: 'getLikedPostIds',
+        userId,
+        errorCode: error.code
+      });
+      throw error;
+    }
+
+    return new Set((data || []).map(like => like.post_id as string));
+  } catch (error) {
+    captureError(error as Error, { context: 'getLikedPostIds' });
+    return new Set();
+  }
+};
+
+// Follow an artist - both profiles' counts are kept in sync by a database trigger
+export const followUser = async (followerId: string, followingId: string): Promise<void> => {
+  try {
+    if (!isSupabaseReady || !supabase) {
+      throw new Error('Supabase not configured');
+    }
+
+    addBreadcrumb('Following user', 'database', { followerId, followingId });
+
+    const { error } = await supabase
+      .from('follows')
+      .insert({
+        follower_id: followerId,
+        following_id: followingId
+      });
+
+    // 23505 = unique violation, the artist is already followed
+    if (error && error.code !== '23505') {
+      console.error('Error following user:', error);
+      captureError(new Error(error.message), {
+        context: 'followUser',
+        followerId,
+        followingId,
+        errorCode: error.code
+      });
+      throw error;
+    }
+
+    addBreadcrumb('User followed successfully', 'database');
+  } catch (error) {
+    captureError(error as Error, { context: 'followUser' });
+    throw error;
+  }
+};
+
+// Unfollow an artist
+export const unfollowUser = async (followerId: string, followingId: string): Promise<void> => {
+  try {
+    if (!isSupabaseReady || !supabase) {
+      throw new Error('Supabase not configured');
+    }
+
+    addBreadcrumb('Unfollowing user', 'database', { followerId, followingId });
+
+    const { error } = await supabase
+      .from('follows')
+      .delete()
+      .eq('follower_id', followerId)
+      .eq('following_id', followingId);
+
+    if (error) {
+      console.error('Error unfollowing user:', error);
+      captureError(new Error(error.message), {
+        context: 'unfollowUser',
+        followerId,
+        followingId,
+        errorCode: error.code
+      });
+      throw error;
+    }
+
+    addBreadcrumb('User unfollowed successfully', 'database');
+  } catch (error) {
+    captureError(error as Error, { context: 'unfollowUser' });
+    throw error;
+  }
+};
+
+// Check whether a user follows an artist
+export const isFollowing = async (followerId: string, followingId: string): Promise<boolean> => {
+  try {
+    if (!isSupabaseReady || !supabase) {
+      return false;
+    }
+
+    const { data, error } = await supabase
+      .from('follows')
+      .select('id')
+      .eq('follower_id', followerId)
+      .eq('following_id', followingId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error checking follow:', error);
+      throw error;
+    }
+
+    return !!data;
+  } catch (error) {
+    captureError(error as Error, { context: 'isFollowing', followerId, followingId });
+    return false;
+  }
+};
+
+// Follower and following counts for an artist profile
+export const getFollowCounts = async (userId: string): Promise<FollowCounts> => {
+  try {
+    if (!isSupabaseReady || !supabase) {
+      return { followers: 0, following: 0 };
+    }
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('followers_count, following_count')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching follow counts:', error);
+      throw error;
+    }
+
+    return {
+      followers: data?.followers_count || 0,
+      following: data?.following_count || 0
+    };
+  } catch (error) {
+    captureError(error as Error, { context: 'getFollowCounts', userId });
+    return { followers: 0, following: 0 };
+  }
+};
+
+// Custom analysis modules
+export const fetchCustomModules = async (userId: string): Promise<CustomModule[]> => {
+  try {
+    if (!isSupabaseReady || !supabase) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('custom_modules')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching custom modules:', error);
+      captureError(new Error(error.message), {
+        context: 'fetchCustomModules',
+        userId,
+        errorCode: error.code
+      });
+      throw error;
+    }
+
+    return (data || []) as CustomModule[];
+  } catch (error) {
+    captureError(error as Error, { context: 'fetchCustomModules' });
+    throw error;
+  }
+};
+
+export const createCustomModule = async (userId: string, input: CustomModuleInput): Promise<CustomModule> => {
+  try {
+    if (!isSupabaseReady || !supabase) {
+      throw new Error('Supabase not configured');
+    }
+
+    addBreadcrumb('Creating custom module', 'database', { userId, name: input.name });
+
+    const { data, error } = await supabase
+      .from('custom_modules')
+      .insert({ ...input, user_id: userId })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating custom module:', error);
+      captureError(new Error(error.message), {
+        context: 'createCustomModule',
+        userId,
+        errorCode: error.code
+      });
+      throw new Error(`Failed to create module: ${error.message}`);
+    }
+
+    return data as CustomModule;
+  } catch (error) {
+    captureError(error as Error, { context: 'createCustomModule' });
+    throw error;
+  }
+};
+
+export const updateCustomModule = async (
+  moduleId: string,
+  updates: Partial<CustomModuleInput>
+): Promise<CustomModule> => {
+  try {
+    if (!isSupabaseReady || !supabase) {
+      throw new Error('Supabase not configured');
+    }
+
+    addBreadcrumb('Updating custom module', 'database', { moduleId, fields: Object.keys(updates) });
+
+    const { data, error } = await supabase
+      .from('custom_modules')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', moduleId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating custom module:', error);
+      captureError(new Error(error.message), {
+        context: 'updateCustomModule',
+        moduleId,
+        errorCode: error.code
+      });
+      throw new Error(`Failed to update module: ${error.message}`);
+    }
+
+    return data as CustomModule;
+  } catch (error) {
+    captureError(error as Error, { context: 'updateCustomModule' });
+    throw error;
+  }
+};
+
+export const deleteCustomModule = async (moduleId: string): Promise<void> => {
+  try {
+    if (!isSupabaseReady || !supabase) {
+      throw new Error('Supabase not configured');
+    }
+
+    addBreadcrumb('Deleting custom module', 'database', { moduleId });
+
+    const { error } = await supabase
+      .from('custom_modules')
+      .delete()
+      .eq('id', moduleId);
+
+    if (error) {
+      console.error('Error deleting custom module:', error);
+      captureError(new Error(error.message), {
+        context: 'deleteCustomModule',
+        moduleId,
+        errorCode: error.code
+      });
+      throw new Error(`Failed to delete module: ${error.message}`);
+    }
+  } catch (error) {
+    captureError(error as Error, { context: 'deleteCustomModule' });
+    throw error;
+  }
+};
+
 // Helper function to get R2 URL from storage path (for backward compatibility)
 export const getImageUrl = (storagePath: string): string => {
   try {
@@ -0,0 +1,108 @@
+import { supabase, isSupabaseReady } from './supabase';
+import { VideoTimeline } from '../constants/modules';
+import { captureError, addBreadcrumb } from './sentry';
+import { getPresignedUploadUrl, uploadFileToR2 } from './r2';
+import { TIMELINE_LIMITS, VideoSegmentAnalysis } from '../utils/geminiParser';
+import { KeyframeSampling, buildTimelineSegments, sampleVideoKeyframes } from '../utils/videoKeyframes';
+import { R2_FOLDERS, VIDEO_TIMELINE } from '../constants';
+
+// Keyframes sampled from a video and uploaded to R2, ready to be analyzed
+export interface UploadedKeyframes {
+  sampling: KeyframeSampling;
+  duration: number;
+  keyframes: { time: number; mediaUrl: string; mediaKey: string }[];
+}
+
+/**
+ * Sample keyframes from a video and upload them to R2. Runs alongside the main
+ * analysis, since it doesn't depend on it.
+ */
+export const uploadTimelineKeyframes = async (file: File, sampling: KeyframeSampling): Promise<UploadedKeyframes> => {
+  try {
+    addBreadcrumb('Sampling video keyframes', 'ui', { fileName: file.name, sampling });
+
+    const { duration, keyframes } = await sampleVideoKeyframes(file, {
+      sampling,
+      maxKeyframes: TIMELINE_LIMITS.MAX_KEYFRAMES,
+      intervalSeconds: VIDEO_TIMELINE.INTERVAL_SECONDS,
+      scanStepSeconds: VIDEO_TIMELINE.SCAN_STEP_SECONDS,
+      maxScanFrames: VIDEO_TIMELINE.MAX_SCAN_FRAMES,
+      sceneCutThreshold: VIDEO_TIMELINE.SCENE_CUT_THRESHOLD,
+      minSceneSeconds: VIDEO_TIMELINE.MIN_SCENE_SECONDS,
+      keyframeWidth: VIDEO_TIMELINE.KEYFRAME_WIDTH
+    });
+
+    const uploaded = await Promise.all(keyframes.map(async keyframe => {
+      const { uploadUrl, publicUrl, key } = await getPresignedUploadUrl({
+        contentType: 'image/jpeg',
+        ext: '.jpg',
+        folder: R2_FOLDERS.THUMBNAILS
+      });
+      await uploadFileToR2(keyframe.file, uploadUrl);
+      return { time: keyframe.time, mediaUrl: publicUrl, mediaKey: key };
+    }));
+
+    addBreadcrumb('Video keyframes uploaded', 'ui', { count: uploaded.length, duration });
+
+    return { sampling, duration, keyframes: uploaded };
+  } catch (error) {
+    captureError(error as Error, { context: 'uploadTimelineKeyframes' });
+    throw error;
+  }
+};
+
+/**
+ * Analyze uploaded keyframes as a scene timeline, one segment per keyframe. The
+ * whole-video title and style keep the segment wording consistent with the analysis.
+ */
+export const analyzeTimelineKeyframes = async (
+  uploaded: UploadedKeyframes,
+  context: { title: string; style: string }
+): Promise<VideoTimeline> => {
+  if (!isSupabaseReady || !supabase) {
+    throw new Error('Supabase is not configured');
+  }
+
+  try {
+    addBreadcrumb('Analyzing video timeline', 'api', { count: uploaded.keyframes.length });
+
+    const { data, error } = await supabase.functions.invoke('analyze-media', {
+      body: {
+        mode: 'timeline',
+        keyframes: uploaded.keyframes.map(keyframe => ({ ...keyframe, mimeType: 'image/jpeg' })),
+        analysis: context
+      }
+    });
+
+    if (error) {
+      captureError(new Error(error.message), {
+        context: 'analyzeTimelineKeyframes',
+        functionName: 'analyze-media',
+        errorDetails: error
+      });
+      throw new Error(`Timeline analysis failed: ${error.message}`);
+    }
+
+    const segments = data?.segments as VideoSegmentAnalysis[] | undefined;
+    if (!Array.isArray(segments) || segments.length !== uploaded.keyframes.length) {
+      throw new Error('Invalid response from analysis service');
+    }
+
+    const ranges = buildTimelineSegments(uploaded.keyframes.map(keyframe => keyframe.time), uploaded.duration);
+
+    return {
+      sampling: uploaded.sampling,
+      duration: uploaded.duration,
+      segments: segments.map((segment, index) => ({
+        ...ranges[index],
+        keyframeUrl: uploaded.keyframes[index].mediaUrl,
+        style: segment.style,
+        prompt: segment.prompt,
+        animationPrompts: segment.animationPrompts
+      }))
+    };
+  } catch (error) {
+    captureError(error as Error, { context: 'analyzeTimelineKeyframes' });
+    throw error;
+  }
+};
@@ -1,12 +1,40 @@
-import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Upload, Type, Play, Volume2, Check, X, AlertTriangle, RefreshCw, Trash2, Loader2, Copy } from 'lucide-react';
-import { AnalysisResult, TOP_MODULES, BOTTOM_MODULES, ModuleDefinition } from '../constants/modules';
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Upload, Type, Play, Volume2, Check, X, AlertTriangle, RefreshCw, Trash2, Loader2, Copy, ChevronLeft, ChevronRight, Download, Blend, History, Save, PenLine, GitFork, FolderPlus } from 'lucide-react';
+import {
+  AnalysisResult,
+  TOP_MODULES,
+  BOTTOM_MODULES,
+  ModuleDefinition,
+  AnyModuleDefinition,
+  PromptListKey,
+  getCustomModuleDefinitions,
+  getModuleItems
+} from '../constants/modules';
 import { AnalysisContent } from '../components/AnalysisContent';
+import { AnalysisField } from '../utils/geminiParser';
+import { LikeButton } from '../components/LikeButton';
+import { BookmarkButton } from '../components/BookmarkButton';
+import { PromptFormatPanel } from '../components/PromptFormatPanel';
+import { SceneTimeline } from '../components/SceneTimeline';
+import { AudioWaveform } from '../components/AudioWaveform';
+import { AudioSpectrogram } from '../components/AudioSpectrogram';
+import { AudioDetails } from '../components/AudioDetails';
+import { SimilarPostsRail } from '../components/SimilarPostsRail';
+import { MixAttribution } from '../components/MixAttribution';
+import { RevisionHistory } from '../components/RevisionHistory';
+import { RemixLineage } from '../components/RemixLineage';
+import { CommentThread } from '../components/CommentThread';
+import { CollectionPicker } from '../components/CollectionPicker';
 import { useAuth } from '../hooks/useAuth';
 import { addBreadcrumb, captureError } from '../lib/sentry';
-import { createPost, PostData, checkIfAnalysisIsPosted, deletePost } from '../lib/supabaseUtils';
+import { createPost, PostData, checkIfAnalysisIsPosted, deletePost, appendAnalysisVariations, Post } from '../lib/supabaseUtils';
 import { uploadFileToR2, extractKeyFromUrl } from '../lib/r2';
-import { R2_FOLDERS, MEDIA_TYPE_CATEGORIES } from '../constants';
+import { regenerateModulePrompts } from '../lib/geminiApi';
+import { exportStylePack, StylePackExportFormat } from '../lib/stylePacks';
+import { AnalysisRevision, getAnalysisRevisions, saveAnalysisRevision, applyRevision } from '../lib/analysisRevisions';
+import { buildStylePack } from '../utils/stylePack';
+import { generateMixCover } from '../utils/mixCover';
+import { R2_FOLDERS, MEDIA_TYPE_CATEGORIES, DEFAULTS } from '../constants';
 
 interface AnalysisPageProps {
   analysis?: AnalysisResult;
@@ -15,15 +43,25 @@ interface AnalysisPageProps {
   artistUsername?: string;
   artistId?: string;
   postId?: string; // NEW: Post ID for deletion functionality
+  likesCount?: number; // Current like count when viewing a gallery post
   onBack: () => void;
   onTextClick?: (text: string) => void;
   isTextOnlyAnalysis?: boolean;
   selectedMediaFile?: File;
   thumbnailFile?: File;
+  initialStyleCodes?: string[]; // Style codes from an imported style pack
   onViewArtistProfile?: (artistId: string) => void;
   isFromDecodePage?: boolean;
   onViewStyleGallery?: (style: string) => void;
   onPostDeleted?: () => void; // NEW: Callback for when post is deleted
+  isStreaming?: boolean; // Analysis is still arriving from the decode stream
+  completedFields?: AnalysisField[]; // Fields fully received while streaming
+  streamError?: string; // Streaming failed after the page opened
+  onAnalysisChange?: (analysis: AnalysisResult) => void; // Module prompts were regenerated
+  onOpenPost?: (post: Post) => void; // A post in the "More like this" rail was clicked
+  onAddToMix?: () => void; // Add this analysis to the Mix workspace
+  isInMix?: boolean; // Already picked for the next mix
+  onRemix?: () => void; // Start a decode linked to this post
 }
 
 export const AnalysisPage: React.FC<AnalysisPageProps> = ({
@@ -33,19 +71,30 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
   artistUsername,
   artistId,
   postId, // NEW: Post ID prop
+  likesCount = 0,
   onBack,
   onTextClick,
   isTextOnlyAnalysis = false,
   selectedMediaFile,
   thumbnailFile,
+  initialStyleCodes,
   onViewArtistProfile,
   isFromDecodePage = false,
   onViewStyleGallery,
-  onPostDeleted // NEW: Post deletion callback
+  onPostDeleted, // Post deletion callback
+  isStreaming = false,
+  completedFields = [],
+  streamError,
+  onAnalysisChange,
+  onOpenPost,
+  onAddToMix,
+  isInMix = false,
+  onRemix
 }) => {
   const { user, loading: authLoading } = useAuth();
   const [activeTopModule, setActiveTopModule] = useState<string>(TOP_MODULES[0].id);
   const [activeBottomModule, setActiveBottomModule] = useState<string>(BOTTOM_MODULES[0].id);
+  const [activeCustomModule, setActiveCustomModule] = useState<string>(''); // Falls back to the first custom module
   const [isPosting, setIsPosting] = useState(false);
   const [postStatus, setPostStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [isAlreadyPosted, setIsAlreadyPosted] = useState(false);
@@ -66,15 +115,43 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
 
   const [animatingModuleId, setAnimatingModuleId] = useState<string | null>(null);
 
+  // Per-module prompt regeneration
+  const [regeneratingModuleId, setRegeneratingModuleId] = useState<string | null>(null);
+  const [regenerateError, setRegenerateError] = useState<{ moduleId: string; message: string } | null>(null);
+
   // NEW: Editable prompt state
   const [editablePrompt, setEditablePrompt] = useState<string>('');
 
   // NEW: Style Codes state
-  const [styleCodes, setStyleCodes] = useState<string>('');
+  const [styleCodes, setStyleCodes] = useState<string>(() => (initialStyleCodes ?? analysis?.styleCodes)?.join(' ') ?? '');
+
+  // Saved revisions of the prompt and style codes; activeRevision is the one the
+  // editor started from (null for the model output) and the one a post is made from
+  const [revisions, setRevisions] = useState<AnalysisRevision[]>([]);
+  const [activeRevision, setActiveRevision] = useState<AnalysisRevision | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [isSavingRevision, setIsSavingRevision] = useState(false);
+  const [revisionError, setRevisionError] = useState<string | null>(null);
+
+  // Style pack export
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showCollectionPicker, setShowCollectionPicker] = useState(false); // "Add to collection" dropdown
+  const [exportingFormat, setExportingFormat] = useState<StylePackExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   // NEW: Copy feedback state for style codes
   const [copiedCodeIndex, setCopiedCodeIndex] = useState<number | null>(null);
 
+  // Video playback position, for following along in the scene timeline
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [videoTime, setVideoTime] = useState(0);
+
+  // Audio playback position and which visualization is shown
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [audioTime, setAudioTime] = useState(0);
+  const [audioDuration, setAudioDuration] = useState(0);
+  const [audioView, setAudioView] = useState<'waveform' | 'spectrogram'>('waveform');
+
   const currentAnalysis = analysis;
 
   if (!currentAnalysis) {
@@ -87,6 +164,36 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
   }, [currentAnalysis.prompt]);
 
   const hasValidDatabaseId = currentAnalysis.id && typeof currentAnalysis.id === 'string' && currentAnalysis.id.length === 36;
+  const hasMedia = !!mediaUrl; // Mixes have no media of their own
+
+  // Posts carry their edited prompt, so the model's prompt comes from the posted revision
+  const originalPrompt = currentAnalysis.revision?.originalPrompt ?? currentAnalysis.prompt;
+  const originalStyleCodes = currentAnalysis.styleCodes ?? [];
+
+  // Load saved revisions. Analyses open on their latest revision so edits survive
+  // navigation; posts keep the revision they were posted with.
+  useEffect(() => {
+    if (!hasValidDatabaseId || isStreaming) return;
+
+    let cancelled = false;
+    getAnalysisRevisions(currentAnalysis.id!).then(result => {
+      if (cancelled) return;
+      setRevisions(result);
+
+      if (postId) {
+        setActiveRevision(result.find(revision => revision.id === currentAnalysis.revision?.id) ?? null);
+      } else if (result.length > 0 && !initialStyleCodes) {
+        const [latest] = result;
+        setActiveRevision(latest);
+        setEditablePrompt(latest.prompt);
+        setStyleCodes(latest.style_codes.join(' '));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentAnalysis.id, currentAnalysis.revision?.id, hasValidDatabaseId, initialStyleCodes, isStreaming, postId]);
 
   console.log('AnalysisPage rendered with R2 URL:', {
     isFromDecodePage,
@@ -188,31 +295,38 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
       setPostStatus('idle');
       addBreadcrumb('Post initiated to gallery with R2 URL', 'ui', { isAnonymous: !user });
 
+      // Unsaved edits become a revision first, so the post uses them
+      const postedRevision = hasUnsavedEdits && canSaveRevision ? await handleSaveRevision() : activeRevision;
+
       let finalMediaUrl = mediaUrl; // Should already be R2 CDN URL
       let r2Key = extractKeyFromUrl(mediaUrl); // Extract R2 key from URL
       let thumbnailUrl: string | undefined;
 
-      // If we have a selected media file, upload it to R2 (for decode page)
-      if (selectedMediaFile) {
+      // Mixes have no media of their own, so they're posted as an image of a generated cover
+      const postMediaFile = hasMedia ? selectedMediaFile : await generateMixCover(currentAnalysis);
+      const postMediaType = hasMedia ? mediaType : 'image';
+
+      // Decoded media is normally already in R2; only upload the file when it isn't
+      if (postMediaFile && !r2Key) {
         console.log('Uploading media file for post to R2:', {
-          fileName: selectedMediaFile.name,
-          fileSize: selectedMediaFile.size,
-          fileType: selectedMediaFile.type
+          fileName: postMediaFile.name,
+          fileSize: postMediaFile.size,
+          fileType: postMediaFile.type
         });
         
         addBreadcrumb('Uploading media file to R2 for post', 'ui');
         
-        const ext = '.' + selectedMediaFile.name.split('.').pop()?.toLowerCase();
+        const ext = '.' + postMediaFile.name.split('.').pop()?.toLowerCase();
         
         // Get presigned URL from Netlify Function
-        const signResponse = await fetch(`/.netlify/functions/r2-sign?contentType=${selectedMediaFile.type}&ext=${ext}&folder=${R2_FOLDERS.POSTS}`);
+        const signResponse = await fetch(`/.netlify/functions/r2-sign?contentType=${postMediaFile.type}&ext=${ext}&folder=${R2_FOLDERS.POSTS}`);
         const signResult = await signResponse.json();
 
         if (!signResponse.ok || signResult.error) {
           throw new Error(signResult.error || 'Failed to get presigned URL from Netlify Function');
         }
 
-        await uploadFileToR2(selectedMediaFile, signResult.uploadUrl);
+        await uploadFileToR2(postMediaFile, signResult.uploadUrl);
         finalMediaUrl = signResult.publicUrl;
         r2Key = signResult.key;
         
@@ -264,12 +378,13 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
         user_id: user?.id || null, // Allow null for anonymous posts
         username: user?.username || 'Anonymous', // Use 'Anonymous' for non-authenticated users
         media_url: finalMediaUrl, // R2 CDN URL
-        media_type: mediaType,
+        media_type: postMediaType,
         title: currentAnalysis.title,
         style: currentAnalysis.style,
-        analysis_data: currentAnalysis,
+        analysis_data: applyRevision(currentAnalysis, postedRevision),
         thumbnail_url: thumbnailUrl, // R2 CDN URL for thumbnail
-        r2_key: r2Key || undefined // Store R2 key for deletion
+        r2_key: r2Key || undefined, // Store R2 key for deletion
+        parent_post_id: currentAnalysis.remixOf?.postId
       };
 
       console.log('Creating post with R2 data:', {
@@ -340,6 +455,28 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
     }
   };
 
+  // Move the audio to a point picked on the waveform, spectrogram or song structure
+  const handleAudioSeek = (time: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    audio.currentTime = time;
+    setAudioTime(time);
+  };
+
+  // Jump the video to a timeline segment and play from there
+  const handleTimelineSeek = (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    video.currentTime = time;
+    setVideoTime(time);
+    video.play().catch(() => {
+      // Autoplay can be blocked; the video is still at the right position
+    });
+    addBreadcrumb('Seeked video from scene timeline', 'ui', { time });
+  };
+
   // UPDATED: Handle key token click to append to editable prompt
   const handleKeyTokenClick = (token: string) => {
     addBreadcrumb('User clicked key token', 'ui', { token });
@@ -369,16 +506,64 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
     onBack();
   };
 
-  const handleTabClick = (moduleId: string, setActiveModule: (id: string) => void) => {
+  // While streaming, a module only shows its prompts once the whole list has arrived.
+  // Custom module items only come with the final result.
+  const isModuleReady = (module: AnyModuleDefinition) =>
+    !isStreaming || ('promptKey' in module && completedFields.includes(module.promptKey));
+
+  const handleTabClick = (module: AnyModuleDefinition, setActiveModule: (id: string) => void) => {
+    const moduleId = module.id;
     setAnimatingModuleId(moduleId);
     setTimeout(() => setAnimatingModuleId(null), 300);
 
+    const variationCount = getModuleItems(currentAnalysis, module).length;
+    if (isModuleReady(module) && variationCount > 0) {
+      setCurrentPromptIndices(prev => ({
+        ...prev,
+        [moduleId]: ((prev[moduleId] ?? 0) + 1) % variationCount
+      }));
+    }
+
+    setActiveModule(moduleId);
+  };
+
+  // Step back and forth through a module's variations, including regenerated ones
+  const handleStepVariation = (module: AnyModuleDefinition, step: number) => {
+    const variationCount = getModuleItems(currentAnalysis, module).length;
     setCurrentPromptIndices(prev => ({
       ...prev,
-      [moduleId]: (prev[moduleId] + 1) % 3
+      [module.id]: Math.min(Math.max((prev[module.id] ?? 0) + step, 0), variationCount - 1)
     }));
+  };
 
-    setActiveModule(moduleId);
+  // Ask for fresh variations of one module and append them, saving them when the analysis is in the database
+  const handleRegenerateModule = async (module: ModuleDefinition) => {
+    const existing = currentAnalysis[module.promptKey];
+
+    try {
+      setRegeneratingModuleId(module.id);
+      setRegenerateError(null);
+      addBreadcrumb('Regenerating module prompts', 'ui', { moduleId: module.id, existingCount: existing.length });
+
+      const variations = await regenerateModulePrompts(currentAnalysis, module.promptKey);
+      const updatedList = hasValidDatabaseId
+        ? await appendAnalysisVariations(currentAnalysis.id!, module.promptKey, variations)
+        : [...existing, ...variations];
+
+      onAnalysisChange?.({ ...currentAnalysis, [module.promptKey]: updatedList });
+
+      // Jump to the first new variation; the earlier ones stay reachable with the step buttons
+      setCurrentPromptIndices(prev => ({ ...prev, [module.id]: existing.length }));
+    } catch (error) {
+      console.error('Failed to regenerate module prompts:', error);
+      captureError(error as Error, { context: 'handleRegenerateModule', moduleId: module.id });
+      setRegenerateError({
+        moduleId: module.id,
+        message: error instanceof Error ? error.message : 'Failed to regenerate prompts'
+      });
+    } finally {
+      setRegeneratingModuleId(null);
+    }
   };
 
   // NEW: Handle module prompt click to append to editable prompt
@@ -410,6 +595,55 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
     }
   };
 
+  // Download the analysis as a style pack
+  const handleExport = async (format: StylePackExportFormat) => {
+    setShowExportMenu(false);
+    setExportError(null);
+
+    try {
+      setExportingFormat(format);
+      const pack = buildStylePack(currentAnalysis, {
+        mediaType,
+        mediaUrl,
+        styleCodes: parseStyleCodes(styleCodes),
+        postId,
+        artistUsername
+      });
+      await exportStylePack(pack, format, hasMedia ? { mediaUrl, thumbnailFile } : undefined);
+    } catch (error) {
+      console.error('Failed to export style pack:', error);
+      setExportError(error instanceof Error ? error.message : 'Failed to export style pack');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  // Save the editor as the next revision
+  const handleSaveRevision = async (): Promise<AnalysisRevision> => {
+    try {
+      setIsSavingRevision(true);
+      setRevisionError(null);
+
+      const revision = await saveAnalysisRevision(currentAnalysis.id!, editablePrompt, parseStyleCodes(styleCodes));
+      setRevisions(prev => [revision, ...prev.filter(item => item.id !== revision.id)]);
+      setActiveRevision(revision);
+      return revision;
+    } catch (error) {
+      setRevisionError(error instanceof Error ? error.message : 'Failed to save revision');
+      throw error;
+    } finally {
+      setIsSavingRevision(false);
+    }
+  };
+
+  // Load a saved revision, or the model output, into the editor
+  const handleRestoreRevision = (revision: AnalysisRevision | null) => {
+    setEditablePrompt(revision ? revision.prompt : originalPrompt);
+    setStyleCodes((revision ? revision.style_codes : originalStyleCodes).join(' '));
+    setActiveRevision(revision);
+    setShowHistory(false);
+  };
+
   // NEW: Parse style codes into individual clickable codes
   const parseStyleCodes = (codes: string): string[] => {
     return codes
@@ -430,7 +664,20 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
     
     return (
       <div className="relative w-full h-full flex items-center justify-center">
-        {mediaType === 'image' && (
+        {/* Placeholder for mixes, which have no media */}
+        {!hasMedia && (
+          <div className="w-full aspect-square max-h-[80vh] bg-gradient-to-br from-[#B8A082]/20 to-[#7C9A92]/20 rounded-2xl flex items-center justify-center">
+            <div className="text-center px-6">
+              <Blend className="w-16 h-16 text-[#B8A082] mx-auto mb-4" />
+              <p className="text-[#B8A082] text-lg">Mixed style</p>
+              {currentAnalysis.mixSources && (
+                <p className="text-[#B8A082]/60 text-sm mt-2">Blended from {currentAnalysis.mixSources.length} styles</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {hasMedia && mediaType === 'image' && (
           <img
             src={displayMediaUrl}
             alt={currentAnalysis.title}
@@ -450,7 +697,7 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
         )}
         
         {/* Fallback for broken images */}
-        {mediaType === 'image' && (
+        {hasMedia && mediaType === 'image' && (
           <div 
             className="absolute inset-0 bg-gradient-to-br from-[#B8A082]/20 to-[#7C9A92]/20 rounded-2xl flex items-center justify-center"
             style={{ display: 'none' }}
@@ -463,10 +710,12 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
           </div>
         )}
         
-        {mediaType === 'video' && (
+        {hasMedia && mediaType === 'video' && (
           <video
+            ref={videoRef}
             src={displayMediaUrl}
             controls
+            onTimeUpdate={(e) => setVideoTime(e.currentTarget.currentTime)}
             className="max-w-full max-h-full object-contain rounded-2xl shadow-2xl"
             loading="lazy"
             preload="metadata"
@@ -478,16 +727,50 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
           />
         )}
         
-        {mediaType === 'audio' && (
-          <div className="flex flex-col items-center justify-center space-y-6 p-8 bg-gradient-to-br from-accent-gold/20 to-muted-teal/20 rounded-2xl">
-            <div className="w-32 h-32 bg-gradient-to-br from-accent-gold/20 to-muted-teal/20 rounded-full flex items-center justify-center">
-              <Volume2 className="w-16 h-16 text-accent-gold" />
+        {hasMedia && mediaType === 'audio' && (
+          <div className="flex flex-col items-center justify-center space-y-4 p-6 w-full bg-gradient-to-br from-accent-gold/20 to-muted-teal/20 rounded-2xl">
+            <div className="flex self-end rounded-lg overflow-hidden border border-white/10 text-xs" role="group" aria-label="Audio visualization">
+              {(['waveform', 'spectrogram'] as const).map(view => (
+                <button
+                  key={view}
+                  onClick={() => setAudioView(view)}
+                  aria-pressed={audioView === view}
+                  className={`px-3 py-1 capitalize transition-colors ${
+                    audioView === view ? 'bg-white/15 text-white' : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {view}
+                </button>
+              ))}
             </div>
+            {audioView === 'waveform' ? (
+              <AudioWaveform
+                peaks={currentAnalysis.waveform}
+                src={displayMediaUrl}
+                height={128}
+                progress={audioDuration > 0 ? audioTime / audioDuration : undefined}
+                markers={audioDuration > 0
+                  ? (currentAnalysis.audio?.structure ?? [])
+                      .filter(section => section.start !== undefined && section.start < audioDuration)
+                      .map(section => ({ position: (section.start ?? 0) / audioDuration, label: section.label }))
+                  : []}
+                onSeek={audioDuration > 0 ? position => handleAudioSeek(position * audioDuration) : undefined}
+              />
+            ) : (
+              <AudioSpectrogram
+                src={displayMediaUrl}
+                progress={audioDuration > 0 ? audioTime / audioDuration : undefined}
+                onSeek={audioDuration > 0 ? position => handleAudioSeek(position * audioDuration) : undefined}
+              />
+            )}
             <audio
+              ref={audioRef}
               src={displayMediaUrl}
               controls
               loading="lazy"
               preload="metadata"
+              onTimeUpdate={(e) => setAudioTime(e.currentTarget.currentTime)}
+              onLoadedMetadata={(e) => setAudioDuration(Number.isFinite(e.currentTarget.duration) ? e.currentTarget.duration : 0)}
               className="w-full max-w-md"
               onError={(e) => {
                 console.error('Failed to load audio from R2:', displayMediaUrl);
@@ -496,8 +779,8 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
           </div>
         )}
 
-        {/* Database Status Indicator */}
-        {!hasValidDatabaseId && (
+        {/* Database Status Indicator - the analysis is saved once streaming finishes */}
+        {!hasValidDatabaseId && !isStreaming && !streamError && (
           <div className="absolute top-3 right-3 bg-orange-500/20 backdrop-blur-sm rounded-xl px-2 py-1 border border-orange-500/30">
             <div className="flex items-center space-x-2">
               <AlertTriangle className="w-4 h-4 text-orange-400" />
@@ -509,7 +792,7 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
     );
   };
 
-  const renderModuleTabs = (modules: ModuleDefinition[], activeModule: string, setActiveModule: (id: string) => void) => {
+  const renderModuleTabs = (modules: AnyModuleDefinition[], activeModule: string, setActiveModule: (id: string) => void) => {
     return (
       <div className="flex border-b border-white/10 bg-black/30 backdrop-blur-md rounded-t-xl overflow-hidden">
         {modules.map((module, index) => {
@@ -519,7 +802,7 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
           return (
             <React.Fragment key={module.id}>
               <button
-                onClick={() => handleTabClick(module.id, setActiveModule)}
+                onClick={() => handleTabClick(module, setActiveModule)}
                 className={`flex-1 p-3 text-xs font-medium transition-all duration-300 relative overflow-hidden flex items-center justify-center ${
                   isActive
                     ? 'text-white'
@@ -555,6 +838,9 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
                 )}
                 
                 <span className="relative z-10">{module.name}</span>
+                {!isModuleReady(module) && (
+                  <Loader2 className="relative z-10 w-3 h-3 ml-1 animate-spin" aria-label={`Generating ${module.name}`} />
+                )}
               </button>
               {index < modules.length - 1 && (
                 <div className="w-px bg-white/10" />
@@ -566,11 +852,87 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
     );
   };
 
-  const getActiveModule = (modules: ModuleDefinition[], activeId: string) => {
+  const getActiveModule = <T extends AnyModuleDefinition>(modules: T[], activeId: string) => {
     return modules.find(m => m.id === activeId) || modules[0];
   };
 
+  const renderModuleContent = (modules: AnyModuleDefinition[], activeId: string) => {
+    const module = getActiveModule(modules, activeId);
+
+    if (!isModuleReady(module)) {
+      return (
+        <div className="flex items-center space-x-2 p-3 text-gray-400 text-sm font-mono">
+          <Loader2 className="w-4 h-4 animate-spin" style={{ color: module.color }} />
+          <span>Generating {module.name.toLowerCase()} prompts...</span>
+        </div>
+      );
+    }
+
+    const variations = getModuleItems(currentAnalysis, module);
+    if (variations.length === 0) {
+      return (
+        <p className="p-3 text-gray-400 text-sm font-mono">No {module.name.toLowerCase()} prompts were generated.</p>
+      );
+    }
+
+    const currentIndex = Math.min(currentPromptIndices[module.id] ?? 0, variations.length - 1);
+    const isRegenerating = regeneratingModuleId === module.id;
+    const isAtVariationLimit = variations.length >= DEFAULTS.MAX_PROMPT_VARIATIONS;
+
+    return (
+      <>
+        <AnalysisContent
+          currentPrompt={variations[currentIndex]}
+          moduleColor={module.color}
+          onTextClick={handleModulePromptClick}
+        />
+
+        <div className="flex items-center justify-between mt-3">
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => handleStepVariation(module, -1)}
+              disabled={currentIndex <= 0}
+              className="p-1 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              aria-label={`Previous ${module.name.toLowerCase()} variation`}
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-gray-400 text-xs font-mono min-w-[3rem] text-center">
+              {currentIndex + 1} / {variations.length}
+            </span>
+            <button
+              onClick={() => handleStepVariation(module, 1)}
+              disabled={currentIndex >= variations.length - 1}
+              className="p-1 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              aria-label={`Next ${module.name.toLowerCase()} variation`}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+
+          {canRegenerate && 'promptKey' in module && (
+            <button
+              onClick={() => handleRegenerateModule(module)}
+              disabled={!!regeneratingModuleId || isAtVariationLimit}
+              className="flex items-center space-x-1 px-2 py-1 rounded-lg text-xs font-medium hover:bg-white/10 disabled:opacity-50 disabled:hover:bg-transparent transition-colors"
+              style={{ color: module.color }}
+              title={isAtVariationLimit ? 'Variation limit reached' : `Generate new ${module.name.toLowerCase()} prompts`}
+            >
+              <RefreshCw className={`w-3 h-3 ${isRegenerating ? 'animate-spin' : ''}`} />
+              <span>{isRegenerating ? 'Regenerating...' : 'Regenerate'}</span>
+            </button>
+          )}
+        </div>
+
+        {regenerateError?.moduleId === module.id && (
+          <p className="text-red-400 text-xs mt-2" role="alert">{regenerateError.message}</p>
+        )}
+      </>
+    );
+  };
+
   const getPostButtonContent = () => {
+    if (isStreaming) return { text: 'Analyzing...', disabled: true };
     if (authLoading || checkingPostStatus) return { text: 'Loading...', disabled: true };
     if (!hasValidDatabaseId) return { text: 'Cannot Post', disabled: true };
     if (isAlreadyPosted) return { text: 'Already Posted', disabled: true };
@@ -581,6 +943,7 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
   };
 
   const getPostButtonStyle = () => {
+    if (isStreaming) return 'bg-[#B8A082]/20 text-[#B8A082]';
     if (!hasValidDatabaseId) return 'bg-red-500/20 text-red-400';
     if (isAlreadyPosted) return 'bg-gray-500/20 text-gray-400';
     if (postStatus === 'success') return 'bg-green-500/20 text-green-400';
@@ -591,6 +954,22 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
   // NEW: Check if user can delete this post
   const canDeletePost = user && postId && artistId && user.id === artistId && artistId !== 'anon';
 
+  // Regenerating needs a finished analysis the viewer decoded or owns
+  const canRegenerate = !isStreaming && !streamError && (isFromDecodePage || (!!artistId && user?.id === artistId));
+
+  // Revisions belong to the analysis; posts are copies and keep the revision they were posted with
+  const canSaveRevision = canRegenerate && !!hasValidDatabaseId && !postId;
+  const hasUnsavedEdits = editablePrompt.trim() !== (activeRevision ? activeRevision.prompt : originalPrompt).trim()
+    || parseStyleCodes(styleCodes).join(' ') !== (activeRevision ? activeRevision.style_codes : originalStyleCodes).join(' ');
+
+  // User-defined modules the analysis was decoded with
+  const customModules = getCustomModuleDefinitions(currentAnalysis);
+
+  // Variation shown in each built-in module, so formatted prompts follow what the user is looking at
+  const moduleVariationIndices = Object.fromEntries(
+    [...TOP_MODULES, ...BOTTOM_MODULES].map(module => [module.promptKey, currentPromptIndices[module.id] ?? 0])
+  ) as Partial<Record<PromptListKey, number>>;
+
   // NEW: Check if style codes input should be visible
   const shouldShowStyleCodes = !isAlreadyPosted && (isFromDecodePage || (artistId && user?.id === artistId));
 
@@ -622,11 +1001,134 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
                 >
                   <ArrowLeft className="w-5 h-5 text-gray-400" />
                 </button>
+
+                <div className="flex items-center space-x-2">
+                  {/* Style pack export */}
+                  {!isStreaming && (
+                    <div className="relative">
+                      <button
+                        onClick={() => setShowExportMenu(prev => !prev)}
+                        disabled={!!exportingFormat}
+                        className="p-2 rounded-xl bg-white/10 hover:bg-white/20 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 disabled:opacity-50"
+                        aria-label="Export style pack"
+                        aria-haspopup="menu"
+                        aria-expanded={showExportMenu}
+                        title="Export style pack"
+                      >
+                        {exportingFormat
+                          ? <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+                          : <Download className="w-5 h-5 text-gray-400" />}
+                      </button>
+                      {showExportMenu && (
+                        <div className="absolute right-0 mt-2 w-48 bg-black/90 border border-white/10 rounded-xl shadow-lg overflow-hidden z-20" role="menu">
+                          {([
+                            ['zip', 'Style pack (.zip)'],
+                            ['json', 'JSON'],
+                            ['markdown', 'Markdown']
+                          ] as [StylePackExportFormat, string][]).map(([format, label]) => (
+                            <button
+                              key={format}
+                              role="menuitem"
+                              onClick={() => handleExport(format)}
+                              className="w-full text-left px-4 py-2 text-sm text-gray-300 hover:bg-white/10 hover:text-white transition-colors"
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Add to mix - once the analysis is saved, so the mix can credit it */}
+                  {onAddToMix && hasValidDatabaseId && !isStreaming && (
+                    <button
+                      onClick={onAddToMix}
+                      className={`p-2 rounded-xl transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 ${isInMix ? 'bg-[#8FB3A8]/20 hover:bg-[#8FB3A8]/30' : 'bg-white/10 hover:bg-white/20'}`}
+                      aria-label={isInMix ? 'Open mix' : 'Add to mix'}
+                      title={isInMix ? 'In your mix' : 'Add to mix'}
+                    >
+                      <Blend className={`w-5 h-5 ${isInMix ? 'text-[#8FB3A8]' : 'text-gray-400'}`} />
+                    </button>
+                  )}
+
+                  {/* Remix - decode new media as a remix of this post */}
+                  {onRemix && postId && (
+                    <button
+                      onClick={onRemix}
+                      className="p-2 rounded-xl bg-white/10 hover:bg-white/20 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+                      aria-label="Remix this"
+                      title="Remix this"
+                    >
+                      <GitFork className="w-5 h-5 text-gray-400" />
+                    </button>
+                  )}
+
+                  {/* Add to collection - posts as posts, saved analyses as analyses */}
+                  {user && (postId || hasValidDatabaseId) && !isStreaming && (
+                    <div className="relative">
+                      <button
+                        onClick={() => setShowCollectionPicker(prev => !prev)}
+                        className="p-2 rounded-xl bg-white/10 hover:bg-white/20 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+                        aria-label="Add to collection"
+                        aria-haspopup="dialog"
+                        aria-expanded={showCollectionPicker}
+                        title="Add to collection"
+                      >
+                        <FolderPlus className="w-5 h-5 text-gray-400" />
+                      </button>
+                      {showCollectionPicker && (
+                        <CollectionPicker
+                          userId={user.id}
+                          postId={postId}
+                          analysisId={postId ? undefined : currentAnalysis.id}
+                          onClose={() => setShowCollectionPicker(false)}
+                        />
+                      )}
+                    </div>
+                  )}
+
+                  {/* Bookmark Toggle - once the analysis is saved to the database */}
+                  {hasValidDatabaseId && currentAnalysis.id && (
+                    <BookmarkButton
+                      analysisId={currentAnalysis.id}
+                      userId={user?.id}
+                      variant="page"
+                    />
+                  )}
+
+                  {/* Like Toggle - only for posts in the gallery */}
+                  {postId && (
+                    <LikeButton
+                      postId={postId}
+                      userId={user?.id}
+                      likesCount={likesCount}
+                      variant="page"
+                    />
+                  )}
+                </div>
               </header>
 
+              {exportError && (
+                <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-xl flex items-start space-x-2" role="alert">
+                  <AlertTriangle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
+                  <p className="text-red-300 text-sm">{exportError}</p>
+                </div>
+              )}
+
+              {/* Streaming failure - whatever arrived stays visible but can't be posted */}
+              {streamError && (
+                <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-xl flex items-start space-x-2" role="alert">
+                  <AlertTriangle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
+                  <p className="text-red-300 text-sm">{streamError}</p>
+                </div>
+              )}
+
               {/* Analysis Title */}
               <h1 className="text-4xl lg:text-5xl font-light text-[#8FB3A8] mb-3">
-                {currentAnalysis.title}
+                {currentAnalysis.title || (isStreaming && (
+                  <span className="text-gray-500 animate-pulse">Decoding...</span>
+                ))}
               </h1>
               
               {/* Analysis Style - Clickable */}
@@ -658,6 +1160,28 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
                 </button>
               )}
 
+              {/* Sources of a mixed analysis */}
+              {currentAnalysis.mixSources && currentAnalysis.mixSources.length > 0 && (
+                <MixAttribution sources={currentAnalysis.mixSources} />
+              )}
+
+              {/* Posts this remixes, and its remixes */}
+              {(postId || currentAnalysis.remixOf) && !isStreaming && (
+                <RemixLineage postId={postId} remixOf={currentAnalysis.remixOf} />
+              )}
+
+              {/* Posted with an edited prompt or style codes */}
+              {currentAnalysis.revision && (
+                <button
+                  onClick={() => setShowHistory(true)}
+                  className="flex items-center space-x-2 mb-4 px-3 py-1.5 rounded-lg bg-[#D4B896]/10 hover:bg-[#D4B896]/20 text-[#D4B896] text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+                  aria-label="Compare with the original model output"
+                >
+                  <PenLine className="w-4 h-4" />
+                  <span>Edited by {artistUsername || 'the artist'} · compare with original</span>
+                </button>
+              )}
+
               {/* Editable Prompt Textarea - Smaller on mobile */}
               <textarea
                 value={editablePrompt}
@@ -683,6 +1207,56 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
                 />
               </div>
 
+              {/* Revision controls */}
+              {!isStreaming && hasValidDatabaseId && (
+                <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+                  {canSaveRevision && hasUnsavedEdits && (
+                    <button
+                      onClick={() => handleSaveRevision().catch(() => undefined)}
+                      disabled={isSavingRevision || !editablePrompt.trim()}
+                      className="flex items-center space-x-2 px-3 py-1.5 rounded-lg bg-[#B8A082]/20 hover:bg-[#B8A082]/30 text-[#B8A082] disabled:opacity-50 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+                    >
+                      {isSavingRevision ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                      <span>Save revision</span>
+                    </button>
+                  )}
+                  <span className="text-gray-500">
+                    {hasUnsavedEdits
+                      ? 'Unsaved edits'
+                      : activeRevision ? `Revision ${activeRevision.revision_number}` : 'Original'}
+                  </span>
+                  {revisions.length > 0 && (
+                    <button
+                      onClick={() => setShowHistory(prev => !prev)}
+                      className="ml-auto flex items-center space-x-1 px-2 py-1 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+                      aria-expanded={showHistory}
+                    >
+                      <History className="w-4 h-4" />
+                      <span>History ({revisions.length + 1})</span>
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {revisionError && (
+                <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-xl flex items-start space-x-2" role="alert">
+                  <AlertTriangle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
+                  <p className="text-red-300 text-sm">{revisionError}</p>
+                </div>
+              )}
+
+              {showHistory && (
+                <RevisionHistory
+                  revisions={revisions}
+                  originalPrompt={originalPrompt}
+                  activeRevisionId={activeRevision?.id ?? null}
+                  currentPrompt={editablePrompt}
+                  currentStyleCodes={parseStyleCodes(styleCodes)}
+                  onRestore={handleRestoreRevision}
+                  onClose={() => setShowHistory(false)}
+                />
+              )}
+
               {/* NEW: Parsed Style Codes - Only visible when codes are entered */}
               {styleCodes.trim().length > 0 && (
                 <div className="mb-4">
@@ -737,6 +1311,30 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
                 </div>
               </div>
 
+              {/* Per-scene analysis for videos decoded with a timeline */}
+              {mediaType === 'video' && currentAnalysis.timeline && currentAnalysis.timeline.segments.length > 0 && (
+                <SceneTimeline
+                  timeline={currentAnalysis.timeline}
+                  currentTime={videoTime}
+                  onSeek={handleTimelineSeek}
+                />
+              )}
+
+              {/* Music details for audio analyses */}
+              {mediaType === 'audio' && currentAnalysis.audio && (
+                <AudioDetails audio={currentAnalysis.audio} onSeek={audioDuration > 0 ? handleAudioSeek : undefined} />
+              )}
+
+              {/* Prompt formatted for a target model */}
+              {!isStreaming && (
+                <PromptFormatPanel
+                  analysis={currentAnalysis}
+                  prompt={editablePrompt}
+                  styleCodes={parseStyleCodes(styleCodes)}
+                  variationIndices={moduleVariationIndices}
+                />
+              )}
+
               {/* Module Sections - Smaller spacing on mobile */}
               <div className="space-y-4">
                 <h2 className="sr-only">Creative modules</h2>
@@ -744,11 +1342,7 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
                 <section className="border border-white/10 rounded-xl overflow-hidden shadow-lg bg-black/20 backdrop-blur-sm" aria-label="Primary creative modules">
                   {renderModuleTabs(TOP_MODULES, activeTopModule, setActiveTopModule)}
                   <div className="p-4 bg-black/10 backdrop-blur-xs">
-                    <AnalysisContent
-                      currentPrompt={currentAnalysis[getActiveModule(TOP_MODULES, activeTopModule).promptKey][currentPromptIndices[activeTopModule]] as string}
-                      moduleColor={getActiveModule(TOP_MODULES, activeTopModule).color}
-                      onTextClick={handleModulePromptClick}
-                    />
+                    {renderModuleContent(TOP_MODULES, activeTopModule)}
                   </div>
                 </section>
 
@@ -756,14 +1350,34 @@ export const AnalysisPage: React.FC<AnalysisPageProps> = ({
                 <section className="border border-white/10 rounded-xl overflow-hidden shadow-lg bg-black/20 backdrop-blur-sm" aria-label="Secondary creative modules">
                   {renderModuleTabs(BOTTOM_MODULES, activeBottomModule, setActiveBottomModule)}
                   <div className="p-4 bg-black/10 backdrop-blur-xs">
-                    <AnalysisContent
-                      currentPrompt={currentAnalysis[getActiveModule(BOTTOM_MODULES, activeBottomModule).promptKey][currentPromptIndices[activeBottomModule]] as string}
-                      moduleColor={getActiveModule(BOTTOM_MODULES, activeBottomModule).color}
-                      onTextClick={handleModulePromptClick}
-                    />
+                    {renderModuleContent(BOTTOM_MODULES, activeBottomModule)}
                   </div>
                 </section>
+
+                {/* Custom Modules */}
+                {customModules.length > 0 && (
+                  <section className="border border-white/10 rounded-xl overflow-hidden shadow-lg bg-black/20 backdrop-blur-sm" aria-label="Custom modules">
+                    {renderModuleTabs(customModules, activeCustomModule, setActiveCustomModule)}
+                    <div className="p-4 bg-black/10 backdrop-blur-xs">
+                      {renderModuleContent(customModules, activeCustomModule)}
+                    </div>
+                  </section>
+                )}
               </div>
+
+              {/* Posts with the closest style embeddings */}
+              {onOpenPost && !isStreaming && (
+                <div className="mt-6">
+                  <SimilarPostsRail analysis={currentAnalysis} postId={postId} onOpenPost={onOpenPost} />
+                </div>
+              )}
+
+              {/* Threaded discussion on gallery posts */}
+              {postId && !isStreaming && (
+                <div className="mt-6">
+                  <CommentThread postId={postId} postOwnerId={artistId} />
+                </div>
+              )}
             </div>
           </div>
 
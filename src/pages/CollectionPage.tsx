@@ -0,0 +1,390 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { ArrowLeft, FolderOpen, Loader2, AlertTriangle, Lock, Globe, Pencil, Trash2, ChevronLeft, ChevronRight, ImageIcon, X } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useLikedPostIds } from '../hooks/useLikedPostIds';
+import { useBookmarkedAnalysisIds } from '../hooks/useBookmarkedAnalysisIds';
+import { addBreadcrumb, captureError } from '../lib/sentry';
+import { Post } from '../lib/supabaseUtils';
+import {
+  Collection,
+  CollectionItem,
+  getCollectionById,
+  getCollectionItems,
+  updateCollection,
+  deleteCollection,
+  removeCollectionItem,
+  reorderCollectionItems,
+  collectionItemToPost,
+  getCollectionItemMedia
+} from '../lib/collections';
+import { GalleryPostCard } from '../components/GalleryPostCard';
+import { AnalysisResult } from '../constants/modules';
+import { COLLECTIONS } from '../constants';
+
+interface CollectionPageProps {
+  collectionId: string;
+  onBack: () => void;
+  onOpenPost: (post: Post) => void;
+  onOpenAnalysis: (analysis: AnalysisResult, mediaUrl: string, mediaType: 'image' | 'video' | 'audio') => void;
+  onDeleted: () => void;
+}
+
+/**
+ * A collection's gallery. Owners can edit its details, reorder and remove items, and
+ * pick the cover.
+ */
+export const CollectionPage: React.FC<CollectionPageProps> = ({ collectionId, onBack, onOpenPost, onOpenAnalysis, onDeleted }) => {
+  const { user } = useAuth();
+  const [collection, setCollection] = useState<Collection | null>(null);
+  const [items, setItems] = useState<CollectionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState({ name: '', description: '', is_public: false });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isOwner = !!user && !!collection && user.id === collection.user_id;
+
+  const cards = useMemo(
+    () => items.flatMap(item => {
+      const post = collectionItemToPost(item);
+      return post ? [{ item, post }] : [];
+    }),
+    [items]
+  );
+  const posts = useMemo(() => items.flatMap(item => item.post ? [item.post] : []), [items]);
+  const likedPostIds = useLikedPostIds(posts, user?.id);
+  const bookmarkedAnalysisIds = useBookmarkedAnalysisIds(cards.map(card => card.post), user?.id);
+
+  const loadCollection = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      addBreadcrumb('Loading collection', 'ui', { collectionId });
+
+      const result = await getCollectionById(collectionId);
+      setCollection(result);
+      setItems(result ? await getCollectionItems(collectionId) : []);
+    } catch (loadError) {
+      console.error('Failed to load collection:', loadError);
+      setError('Failed to load this collection. Please try again.');
+      captureError(loadError as Error, { context: 'loadCollection', collectionId });
+    } finally {
+      setLoading(false);
+    }
+  }, [collectionId]);
+
+  useEffect(() => {
+    loadCollection();
+  }, [loadCollection]);
+
+  const handleOpen = (item: CollectionItem) => {
+    addBreadcrumb('Collection item opened', 'ui', { collectionId, itemId: item.id });
+
+    if (item.post) {
+      onOpenPost(item.post);
+      return;
+    }
+
+    const media = getCollectionItemMedia(item);
+    if (item.analysis && media) {
+      onOpenAnalysis({ ...item.analysis.data, id: item.analysis.id }, media.url, media.type);
+    }
+  };
+
+  const handleStartEditing = () => {
+    if (!collection) return;
+    setDraft({ name: collection.name, description: collection.description, is_public: collection.is_public });
+    setIsEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!collection || !draft.name.trim() || isSaving) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const updated = await updateCollection(collection.id, draft);
+      setCollection(prev => prev && { ...prev, ...updated });
+      setIsEditing(false);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save the collection');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!collection) return;
+    if (!window.confirm(`Delete the "${collection.name}" collection? Its posts and analyses are kept.`)) return;
+
+    try {
+      await deleteCollection(collection.id);
+      addBreadcrumb('Collection deleted', 'ui', { collectionId });
+      onDeleted();
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : 'Failed to delete the collection');
+    }
+  };
+
+  const handleSetCover = async (item: CollectionItem) => {
+    const post = collectionItemToPost(item);
+    const coverUrl = post?.thumbnail_url || (post?.media_type === 'image' ? post.media_url : null);
+    if (!collection || !coverUrl) return;
+
+    try {
+      setError(null);
+      const updated = await updateCollection(collection.id, { cover_url: coverUrl });
+      setCollection(prev => prev && { ...prev, ...updated });
+    } catch (coverError) {
+      setError(coverError instanceof Error ? coverError.message : 'Failed to set the cover');
+    }
+  };
+
+  const handleRemove = async (item: CollectionItem) => {
+    const previous = items;
+    setItems(prev => prev.filter(other => other.id !== item.id));
+
+    try {
+      setError(null);
+      await removeCollectionItem(item.id);
+    } catch (removeError) {
+      setItems(previous);
+      setError(removeError instanceof Error ? removeError.message : 'Failed to remove the item');
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (!collection || target < 0 || target >= items.length) return;
+
+    const previous = items;
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setItems(reordered);
+
+    try {
+      setError(null);
+      await reorderCollectionItems(collection.id, reordered.map(item => item.id));
+    } catch (moveError) {
+      setItems(previous);
+      setError(moveError instanceof Error ? moveError.message : 'Failed to reorder the collection');
+    }
+  };
+
+  const renderOwnerActions = (item: CollectionItem, post: Post) => {
+    const index = items.indexOf(item);
+    const canBeCover = !!post.thumbnail_url || post.media_type === 'image';
+    const buttonClass = 'p-1.5 rounded-lg bg-black/70 hover:bg-black/90 text-white/70 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all focus:outline-none focus:ring-2 focus:ring-blue-400 disabled:hidden';
+
+    // Clicks on the controls shouldn't open the item
+    const stop = (action: () => void) => (e: React.MouseEvent) => {
+      e.stopPropagation();
+      action();
+    };
+
+    return (
+      <>
+        <button onClick={stop(() => handleMove(index, -1))} onKeyDown={(e) => e.stopPropagation()} disabled={index === 0} className={buttonClass} aria-label="Move earlier" title="Move earlier">
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <button onClick={stop(() => handleMove(index, 1))} onKeyDown={(e) => e.stopPropagation()} disabled={index === items.length - 1} className={buttonClass} aria-label="Move later" title="Move later">
+          <ChevronRight className="w-4 h-4" />
+        </button>
+        {canBeCover && (
+          <button onClick={stop(() => handleSetCover(item))} onKeyDown={(e) => e.stopPropagation()} className={buttonClass} aria-label="Use as cover" title="Use as cover">
+            <ImageIcon className="w-4 h-4" />
+          </button>
+        )}
+        <button onClick={stop(() => handleRemove(item))} onKeyDown={(e) => e.stopPropagation()} className={`${buttonClass} hover:text-red-300`} aria-label="Remove from collection" title="Remove from collection">
+          <X className="w-4 h-4" />
+        </button>
+      </>
+    );
+  };
+
+  const renderHeader = () => {
+    if (!collection) return null;
+    const VisibilityIcon = collection.is_public ? Globe : Lock;
+
+    if (isEditing) {
+      return (
+        <form onSubmit={handleSave} className="flex-1 space-y-3 max-w-xl">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            maxLength={COLLECTIONS.NAME_MAX_LENGTH}
+            className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-white text-xl focus:outline-none focus:ring-2 focus:ring-blue-400"
+            aria-label="Collection name"
+          />
+          <textarea
+            value={draft.description}
+            onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+            maxLength={COLLECTIONS.DESCRIPTION_MAX_LENGTH}
+            placeholder="Description (optional)"
+            rows={2}
+            className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-white text-sm placeholder-gray-500 resize-none focus:outline-none focus:ring-2 focus:ring-blue-400"
+            aria-label="Collection description"
+          />
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.is_public}
+                onChange={(e) => setDraft(prev => ({ ...prev, is_public: e.target.checked }))}
+                className="rounded border-white/30 bg-white/5"
+              />
+              <span>Public</span>
+            </label>
+            <div className="flex items-center space-x-2">
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                className="px-4 py-2 rounded-xl text-sm text-gray-400 hover:text-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!draft.name.trim() || isSaving}
+                className="flex items-center space-x-2 px-4 py-2 bg-[#D4B896] hover:bg-[#C4A886] disabled:opacity-50 disabled:cursor-not-allowed text-[#1a1a1a] rounded-xl text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+              >
+                {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>Save</span>
+              </button>
+            </div>
+          </div>
+        </form>
+      );
+    }
+
+    return (
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center space-x-2">
+          <h1 className="text-2xl font-semibold text-white truncate">{collection.name}</h1>
+          <VisibilityIcon className="w-4 h-4 text-gray-500 flex-shrink-0" aria-label={collection.is_public ? 'Public' : 'Private'} />
+        </div>
+        <p className="text-gray-400 text-sm">
+          {collection.owner_username && <span className="text-[#5F6BBB] font-mono">@{collection.owner_username} · </span>}
+          {items.length} {items.length === 1 ? 'item' : 'items'}
+        </p>
+        {collection.description && (
+          <p className="text-improved-contrast text-sm mt-2 max-w-2xl whitespace-pre-wrap">{collection.description}</p>
+        )}
+      </div>
+    );
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <Loader2 className="w-8 h-8 text-[#B8A082] animate-spin mx-auto mb-4" />
+            <p className="text-white/70 text-lg">Loading collection...</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (!collection) {
+      return (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="w-16 h-16 mx-auto mb-4 bg-white/10 rounded-full flex items-center justify-center">
+              <FolderOpen className="w-8 h-8 text-white/30" />
+            </div>
+            <p className="text-improved-muted text-lg mb-2">Collection not found</p>
+            <p className="text-gray-400 text-sm">It may be private, or it was deleted.</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (cards.length === 0) {
+      return (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="w-16 h-16 mx-auto mb-4 bg-white/10 rounded-full flex items-center justify-center">
+              <FolderOpen className="w-8 h-8 text-white/30" />
+            </div>
+            <p className="text-improved-muted text-lg mb-2">This collection is empty</p>
+            {isOwner && (
+              <p className="text-gray-400 text-sm">Use "Add to collection" on any post or analysis to add it here.</p>
+            )}
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="columns-1 md:columns-2 lg:columns-3 xl:columns-4 gap-6 space-y-6" role="list" aria-label={collection.name}>
+        {cards.map(({ item, post }) => (
+          <GalleryPostCard
+            key={item.id}
+            post={post}
+            userId={user?.id}
+            isLiked={likedPostIds.has(post.id)}
+            isSaved={!!post.analysis_data?.id && bookmarkedAnalysisIds.has(post.analysis_data.id)}
+            isLikeable={!!item.post}
+            role="listitem"
+            onClick={() => handleOpen(item)}
+          >
+            {isOwner && renderOwnerActions(item, post)}
+          </GalleryPostCard>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <main id="main-content" className="min-h-screen pt-20 bg-[#1a1a1a] font-inter" tabIndex={-1}>
+      <div className="px-4 py-4">
+        {/* Header */}
+        <div className="flex items-start space-x-4 mb-6">
+          <button
+            onClick={onBack}
+            className="p-2 rounded-xl bg-white/10 hover:bg-white/20 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+            aria-label="Go back"
+          >
+            <ArrowLeft className="w-5 h-5 text-gray-400" />
+          </button>
+
+          {renderHeader()}
+
+          {isOwner && !isEditing && (
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={handleStartEditing}
+                className="p-2 rounded-xl bg-white/10 hover:bg-white/20 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+                aria-label="Edit collection"
+                title="Edit collection"
+              >
+                <Pencil className="w-5 h-5 text-gray-400" />
+              </button>
+              <button
+                onClick={handleDelete}
+                className="p-2 rounded-xl bg-white/10 hover:bg-red-500/30 transition-colors focus:outline-none focus:ring-2 focus:ring-red-400"
+                aria-label="Delete collection"
+                title="Delete collection"
+              >
+                <Trash2 className="w-5 h-5 text-gray-400" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-xl flex items-start space-x-2 max-w-xl" role="alert">
+            <AlertTriangle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
+            <p className="text-red-300 text-sm">{error}</p>
+          </div>
+        )}
+
+        {renderContent()}
+      </div>
+    </main>
+  );
+};
@@ -0,0 +1,252 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, FolderOpen, Loader2, AlertTriangle, Plus, Lock, Globe } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { addBreadcrumb, captureError } from '../lib/sentry';
+import { Collection, getCollections, createCollection } from '../lib/collections';
+import { COLLECTIONS } from '../constants';
+
+interface CollectionsPageProps {
+  onBack: () => void;
+  onOpenCollection: (collection: Collection) => void;
+}
+
+/**
+ * The signed-in user's collections, with a form to start a new one
+ */
+export const CollectionsPage: React.FC<CollectionsPageProps> = ({ onBack, onOpenCollection }) => {
+  const { user, loading: authLoading } = useAuth();
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isPublic, setIsPublic] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadCollections = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    setError(null);
+    addBreadcrumb('Loading collections', 'ui', { userId: user.id });
+
+    setCollections(await getCollections(user.id));
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadCollections();
+  }, [loadCollections]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !name.trim() || isCreating) return;
+
+    try {
+      setIsCreating(true);
+      setError(null);
+
+      const collection = await createCollection(user.id, { name, description, is_public: isPublic });
+      addBreadcrumb('Collection created', 'ui', { collectionId: collection.id, isPublic });
+
+      setName('');
+      setDescription('');
+      setIsPublic(false);
+      setShowCreateForm(false);
+      onOpenCollection(collection);
+    } catch (createError) {
+      console.error('Failed to create collection:', createError);
+      setError('Failed to create the collection. Please try again.');
+      captureError(createError as Error, { context: 'createCollectionPage' });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const renderCreateForm = () => (
+    <form onSubmit={handleCreate} className="mb-6 p-4 bg-white/5 border border-white/10 rounded-2xl space-y-3 max-w-xl">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        maxLength={COLLECTIONS.NAME_MAX_LENGTH}
+        placeholder="Name"
+        className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-400"
+        aria-label="Collection name"
+        autoFocus
+      />
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        maxLength={COLLECTIONS.DESCRIPTION_MAX_LENGTH}
+        placeholder="Description (optional)"
+        rows={2}
+        className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-white text-sm placeholder-gray-500 resize-none focus:outline-none focus:ring-2 focus:ring-blue-400"
+        aria-label="Collection description"
+      />
+      <div className="flex items-center justify-between">
+        <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isPublic}
+            onChange={(e) => setIsPublic(e.target.checked)}
+            className="rounded border-white/30 bg-white/5"
+          />
+          <span>Public - anyone with the link can view it</span>
+        </label>
+        <div className="flex items-center space-x-2">
+          <button
+            type="button"
+            onClick={() => setShowCreateForm(false)}
+            className="px-4 py-2 rounded-xl text-sm text-gray-400 hover:text-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!name.trim() || isCreating}
+            className="flex items-center space-x-2 px-4 py-2 bg-[#D4B896] hover:bg-[#C4A886] disabled:opacity-50 disabled:cursor-not-allowed text-[#1a1a1a] rounded-xl text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+          >
+            {isCreating && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>Create</span>
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+
+  const renderContent = () => {
+    if (authLoading || (user && loading)) {
+      return (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <Loader2 className="w-8 h-8 text-[#B8A082] animate-spin mx-auto mb-4" />
+            <p className="text-white/70 text-lg">Loading collections...</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (!user) {
+      return (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="w-16 h-16 mx-auto mb-4 bg-white/10 rounded-full flex items-center justify-center">
+              <FolderOpen className="w-8 h-8 text-white/30" />
+            </div>
+            <p className="text-improved-muted text-lg mb-2">Sign in to curate collections</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (collections.length === 0) {
+      return (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="w-16 h-16 mx-auto mb-4 bg-white/10 rounded-full flex items-center justify-center">
+              <FolderOpen className="w-8 h-8 text-white/30" />
+            </div>
+            <p className="text-improved-muted text-lg mb-2">No collections yet</p>
+            <p className="text-gray-400 text-sm mb-4">Group posts and analyses into boards, then share the public ones.</p>
+            {!showCreateForm && (
+              <button
+                onClick={() => setShowCreateForm(true)}
+                className="px-6 py-2 bg-[#D4B896] hover:bg-[#C4A886] text-[#1a1a1a] rounded-xl font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+              >
+                New Collection
+              </button>
+            )}
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6" role="list" aria-label="Collections">
+        {collections.map(collection => {
+          const VisibilityIcon = collection.is_public ? Globe : Lock;
+          return (
+            <button
+              key={collection.id}
+              onClick={() => onOpenCollection(collection)}
+              className="text-left bg-white/5 rounded-2xl overflow-hidden hover:bg-white/10 transition-all border border-white/10 hover:border-white/20 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+              role="listitem"
+            >
+              <div className="aspect-video bg-gradient-to-br from-[#B8A082]/20 to-[#7C9A92]/20 flex items-center justify-center overflow-hidden">
+                {collection.cover_url ? (
+                  <img src={collection.cover_url} alt="" className="w-full h-full object-cover" loading="lazy" />
+                ) : (
+                  <FolderOpen className="w-12 h-12 text-white/30" />
+                )}
+              </div>
+              <div className="p-4">
+                <div className="flex items-center space-x-2">
+                  <p className="flex-1 text-white font-medium truncate">{collection.name}</p>
+                  <VisibilityIcon className="w-4 h-4 text-gray-500 flex-shrink-0" aria-label={collection.is_public ? 'Public' : 'Private'} />
+                </div>
+                <p className="text-[#8FB3A8] font-mono text-xs">
+                  {collection.items_count} {collection.items_count === 1 ? 'item' : 'items'}
+                </p>
+                {collection.description && (
+                  <p className="text-gray-400 text-sm mt-2 line-clamp-2">{collection.description}</p>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <main id="main-content" className="min-h-screen pt-20 bg-[#1a1a1a] font-inter" tabIndex={-1}>
+      <div className="px-4 py-4">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={onBack}
+              className="p-2 rounded-xl bg-white/10 hover:bg-white/20 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+              aria-label="Go back"
+            >
+              <ArrowLeft className="w-5 h-5 text-gray-400" />
+            </button>
+
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-gradient-to-r from-[#B8A082]/20 to-[#7C9A92]/20 rounded-full flex items-center justify-center">
+                <FolderOpen className="w-5 h-5 text-[#B8A082]" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-semibold text-white">Collections</h1>
+                <p className="text-gray-400 text-sm">Boards of posts and analyses you've curated</p>
+              </div>
+            </div>
+          </div>
+
+          {user && collections.length > 0 && !showCreateForm && (
+            <button
+              onClick={() => setShowCreateForm(true)}
+              className="flex items-center space-x-2 px-4 py-2 bg-white/10 hover:bg-white/20 rounded-xl text-sm text-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New Collection</span>
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-xl flex items-start space-x-2 max-w-xl" role="alert">
+            <AlertTriangle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
+            <p className="text-red-300 text-sm">{error}</p>
+          </div>
+        )}
+
+        {user && showCreateForm && renderCreateForm()}
+
+        {renderContent()}
+      </div>
+    </main>
+  );
+};
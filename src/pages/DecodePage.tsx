@@ -1,12 +1,18 @@
-import React, { useState, useCallback } from 'react';
-import { Upload, Loader2, AlertCircle, FileImage, FileVideo, FileAudio, X, ArrowLeft, ArrowRight, Copy, Check, ExternalLink, Settings } from 'lucide-react';
-import { callGeminiAnalysisFunction } from '../lib/geminiApi';
-import { AnalysisResult, TOP_MODULES, BOTTOM_MODULES, ModuleDefinition } from '../constants/modules';
+import React, { useState, useCallback, useEffect } from 'react';
+import { Upload, Loader2, AlertCircle, FileImage, FileVideo, FileAudio, X, ArrowLeft, ArrowRight, Copy, Check, ExternalLink, Settings, PackageOpen, GitFork } from 'lucide-react';
+import { callGeminiAnalysisFunction, getAnalysisProviderInfo, buildCustomModuleResults } from '../lib/geminiApi';
+import { fetchCustomModules, CustomModule } from '../lib/supabaseUtils';
+import { importStylePack, ImportedStylePack } from '../lib/stylePacks';
+import { AnalysisProviderInfo, AnalysisField, CUSTOM_MODULE_LIMITS } from '../utils/geminiParser';
+import { AnalysisResult, TOP_MODULES, BOTTOM_MODULES, ModuleDefinition, RemixSource, getCustomModuleIcon } from '../constants/modules';
 import { AnalysisContent } from '../components/AnalysisContent';
+import { BatchDecodePanel } from '../components/BatchDecodePanel';
 import { addBreadcrumb, captureError } from '../lib/sentry';
 import { useAuth } from '../hooks/useAuth';
 import { generateThumbnailFile } from '../utils/videoThumbnail';
-import { ALLOWED_MEDIA_TYPES, FILE_SIZE_LIMITS, MEDIA_TYPE_CATEGORIES } from '../constants';
+import { makeUUID } from '../utils/uuid';
+import { KeyframeSampling } from '../utils/videoKeyframes';
+import { ALLOWED_MEDIA_TYPES, FILE_SIZE_LIMITS, MEDIA_TYPE_CATEGORIES, BATCH_DECODE } from '../constants';
 
 interface DecodePageProps {
   onDecodeSuccess: (
@@ -16,6 +22,20 @@ interface DecodePageProps {
     file: File,
     thumbnailFile?: File // NEW: Optional thumbnail file for videos
   ) => void;
+  // Called as the streamed analysis fills in; the analysis carries a temporary pending id
+  onDecodeProgress?: (
+    analysis: AnalysisResult,
+    completedFields: AnalysisField[],
+    mediaUrl: string,
+    mediaType: 'image' | 'video' | 'audio',
+    file: File,
+    thumbnailFile?: File
+  ) => void;
+  // Errors after onDecodeProgress has fired, when this page is no longer shown
+  onDecodeError?: (message: string) => void;
+  onStylePackImported?: (imported: ImportedStylePack) => void; // A .json/.zip style pack was imported as a new analysis
+  remixOf?: RemixSource; // Post this decode remixes, started with "Remix this"
+  onClearRemix?: () => void; // Decode without linking to the post
   onBack: () => void;
 }
 
@@ -53,14 +73,21 @@ const DECODE_MODULE_DESCRIPTIONS = {
   ]
 };
 
-export const DecodePage: React.FC<DecodePageProps> = ({ onDecodeSuccess, onBack }) => {
+export const DecodePage: React.FC<DecodePageProps> = ({ onDecodeSuccess, onDecodeProgress, onDecodeError, onStylePackImported, remixOf, onClearRemix, onBack }) => {
   const { user } = useAuth();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null); // R2 upload progress before analysis
   const [error, setError] = useState<string | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [thumbnailFile, setThumbnailFile] = useState<File | null>(null); // NEW: Store generated thumbnail
+  const [provider, setProvider] = useState<AnalysisProviderInfo | null>(null); // Analysis backend in use
+  const [customModules, setCustomModules] = useState<CustomModule[]>([]); // User-defined modules
+  const [selectedModuleIds, setSelectedModuleIds] = useState<string[]>([]);
+  const [isImporting, setIsImporting] = useState(false); // Style pack import in progress
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null); // Files queued for batch decode
+  const [timelineSampling, setTimelineSampling] = useState<KeyframeSampling | null>(null); // Scene timeline for videos
   
   // Active module states
   const [activeTopModule, setActiveTopModule] = useState<string>(TOP_MODULES[0].id);
@@ -86,6 +113,53 @@ export const DecodePage: React.FC<DecodePageProps> = ({ onDecodeSuccess, onBack
     return supabaseUrl && supabaseKey && supabaseUrl !== 'your_supabase_url_here';
   };
 
+  // Show which analysis provider will decode the media
+  useEffect(() => {
+    let cancelled = false;
+    getAnalysisProviderInfo().then(info => {
+      if (!cancelled && info) setProvider(info);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Load the user's custom modules, preselecting the active ones
+  useEffect(() => {
+    if (!user) {
+      setCustomModules([]);
+      setSelectedModuleIds([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetchCustomModules(user.id)
+      .then(modules => {
+        if (cancelled) return;
+        setCustomModules(modules);
+        setSelectedModuleIds(
+          modules
+            .filter(module => module.is_active)
+            .slice(0, CUSTOM_MODULE_LIMITS.MAX_MODULES)
+            .map(module => module.id)
+        );
+      })
+      .catch(error => {
+        console.error('Failed to load custom modules:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const toggleCustomModule = (moduleId: string) => {
+    setSelectedModuleIds(prev => {
+      if (prev.includes(moduleId)) return prev.filter(id => id !== moduleId);
+      if (prev.length >= CUSTOM_MODULE_LIMITS.MAX_MODULES) return prev;
+      return [...prev, moduleId];
+    });
+  };
+
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -102,40 +176,72 @@ export const DecodePage: React.FC<DecodePageProps> = ({ onDecodeSuccess, onBack
     setDragActive(false);
     
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFileSelection(e.dataTransfer.files[0]);
+      handleFilesSelected(Array.from(e.dataTransfer.files));
     }
   }, []);
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      handleFileSelection(e.target.files[0]);
+      handleFilesSelected(Array.from(e.target.files));
     }
   };
 
-  const handleFileSelection = async (file: File) => {
-    // Validate file type
-
+  // Returns why a file can't be decoded, or null if it can
+  const getFileValidationError = (file: File): string | null => {
     if (!ALLOWED_MEDIA_TYPES.includes(file.type as any)) {
-      const errorMsg = 'Please select a valid image, video, or audio file.';
-      setError(errorMsg);
       captureError(new Error(`Invalid file type: ${file.type}`), { 
         context: 'handleFileSelection',
         fileName: file.name,
         fileType: file.type
       });
-      return;
+      return 'Please select a valid image, video, or audio file.';
     }
 
-    // Check file size (max 10MB)
+    // Check file size
     if (file.size > FILE_SIZE_LIMITS.MAX_UPLOAD_SIZE_MB * 1024 * 1024) {
-      const errorMsg = `File size must be less than ${FILE_SIZE_LIMITS.MAX_UPLOAD_SIZE_MB}MB.`;
-      setError(errorMsg);
       captureError(new Error(`File too large: ${file.size} bytes`), {
         context: 'handleFileSelection',
         fileName: file.name,
         fileSize: file.size,
         maxSize: FILE_SIZE_LIMITS.MAX_UPLOAD_SIZE_MB * 1024 * 1024
       });
+      return `File size must be less than ${FILE_SIZE_LIMITS.MAX_UPLOAD_SIZE_MB}MB.`;
+    }
+
+    return null;
+  };
+
+  // More than one file switches to batch mode; a single file keeps the normal flow
+  const handleFilesSelected = (files: File[]) => {
+    if (files.length === 1) {
+      handleFileSelection(files[0]);
+      return;
+    }
+
+    const validFiles = files.filter(file => !getFileValidationError(file));
+    const skippedCount = files.length - validFiles.length;
+    const acceptedFiles = validFiles.slice(0, BATCH_DECODE.MAX_FILES);
+
+    if (acceptedFiles.length === 0) {
+      setError('None of the selected files are images, videos, or audio files within the size limit.');
+      return;
+    }
+
+    clearFile();
+    setBatchFiles(acceptedFiles);
+
+    const notices: string[] = [];
+    if (skippedCount > 0) notices.push(`Skipped ${skippedCount} unsupported or oversized ${skippedCount === 1 ? 'file' : 'files'}.`);
+    if (validFiles.length > BATCH_DECODE.MAX_FILES) notices.push(`Only the first ${BATCH_DECODE.MAX_FILES} files were added.`);
+    setError(notices.length > 0 ? notices.join(' ') : null);
+
+    addBreadcrumb('Files selected for batch decode', 'ui', { count: acceptedFiles.length, skippedCount });
+  };
+
+  const handleFileSelection = async (file: File) => {
+    const validationError = getFileValidationError(file);
+    if (validationError) {
+      setError(validationError);
       return;
     }
 
@@ -184,18 +290,52 @@ export const DecodePage: React.FC<DecodePageProps> = ({ onDecodeSuccess, onBack
       return;
     }
 
+    const mediaType = getMediaTypeFromFile(selectedFile);
+    const pendingAnalysisId = `pending-${makeUUID()}`;
+    const selectedModules = customModules.filter(module => selectedModuleIds.includes(module.id));
+    let streamStarted = false;
+
     try {
       setIsAnalyzing(true);
+      setUploadProgress(0);
       setError(null);
       
-      addBreadcrumb('Starting decode analysis', 'ui');
+      addBreadcrumb('Starting decode analysis', 'ui', {
+        streaming: !!onDecodeProgress,
+        customModulesCount: selectedModules.length,
+        timelineSampling,
+        remixOf: remixOf?.postId
+      });
       
-      // Call analysis function with 'anon' as userId to enable posting
-      const analysis = await callGeminiAnalysisFunction(selectedFile, 'anon');
-      const mediaUrl = previewUrl || URL.createObjectURL(selectedFile);
-      const mediaType = getMediaTypeFromFile(selectedFile);
+      // Call analysis function with 'anon' as userId to enable posting.
+      // The file is uploaded to R2 first, so the analysis page can post that same upload.
+      const { analysis, mediaUrl, provider: resultProvider } = await callGeminiAnalysisFunction(selectedFile, 'anon', {
+        onUploadProgress: (progress) => {
+          setUploadProgress(progress < 100 ? progress : null);
+        },
+        customModules: selectedModules,
+        timelineSampling: timelineSampling ?? undefined,
+        remixOf,
+        onPartialAnalysis: onDecodeProgress && ((partial, uploadedMediaUrl) => {
+          streamStarted = true;
+          // Custom module items arrive with the final result, so show them as pending until then
+          onDecodeProgress(
+            {
+              id: pendingAnalysisId,
+              ...partial.analysis,
+              ...(selectedModules.length > 0 && { customModules: buildCustomModuleResults(selectedModules) })
+            },
+            partial.completedFields,
+            uploadedMediaUrl,
+            mediaType,
+            selectedFile,
+            thumbnailFile || undefined
+          );
+        })
+      });
+      if (resultProvider) setProvider(resultProvider);
       
-      addBreadcrumb('Decode analysis completed', 'ui');
+      addBreadcrumb('Decode analysis completed', 'ui', { provider: resultProvider?.id });
       
       // NEW: Pass thumbnail file to onDecodeSuccess
       onDecodeSuccess(analysis, mediaUrl, mediaType, selectedFile, thumbnailFile || undefined);
@@ -205,17 +345,16 @@ export const DecodePage: React.FC<DecodePageProps> = ({ onDecodeSuccess, onBack
       
       // Enhanced error handling for common issues
       if (errorMessage.includes('Edge Function returned a non-2xx status code')) {
-        setError(
-          'Analysis service is temporarily unavailable. Please try again later.'
-        );
+        errorMessage = 'Analysis service is temporarily unavailable. Please try again later.';
       } else if (errorMessage.includes('Failed to get response from Gemini API')) {
-        setError(
-          'AI analysis service is temporarily unavailable. Please try again later.'
-        );
+        errorMessage = 'AI analysis service is temporarily unavailable. Please try again later.';
       } else if (errorMessage.includes('Gemini API key not configured')) {
-        setError(
-          'AI analysis service is temporarily unavailable. Please try again later.'
-        );
+        errorMessage = 'AI analysis service is temporarily unavailable. Please try again later.';
+      }
+
+      // Once streaming has started the analysis page is showing, so report the error there
+      if (streamStarted && onDecodeError) {
+        onDecodeError(errorMessage);
       } else {
         setError(errorMessage);
       }
@@ -223,6 +362,25 @@ export const DecodePage: React.FC<DecodePageProps> = ({ onDecodeSuccess, onBack
       captureError(error as Error, { context: 'handleDecode' });
     } finally {
       setIsAnalyzing(false);
+      setUploadProgress(null);
+    }
+  };
+
+  // Open a previously exported style pack as a new analysis
+  const handleStylePackInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onStylePackImported) return;
+
+    try {
+      setIsImporting(true);
+      setError(null);
+      onStylePackImported(await importStylePack(file));
+    } catch (error) {
+      console.error('Style pack import failed:', error);
+      setError(error instanceof Error ? error.message : 'Failed to import style pack');
+    } finally {
+      setIsImporting(false);
     }
   };
 
@@ -381,106 +539,143 @@ export const DecodePage: React.FC<DecodePageProps> = ({ onDecodeSuccess, onBack
               </div>
             )}
 
+            {/* Remix banner - the decoded analysis will be linked to this post */}
+            {remixOf && !batchFiles && (
+              <div className="mb-6 p-4 bg-[#D4B896]/10 border border-[#D4B896]/20 rounded-lg flex items-center space-x-3">
+                <GitFork className="w-5 h-5 text-[#D4B896] flex-shrink-0" />
+                <p className="flex-1 text-sm text-[#D4B896] min-w-0 truncate">
+                  Remixing <span className="text-white">{remixOf.title}</span>
+                  {remixOf.username && <span className="text-white/50"> by @{remixOf.username}</span>}
+                </p>
+                {onClearRemix && (
+                  <button
+                    onClick={onClearRemix}
+                    className="p-1 rounded-lg hover:bg-white/10 text-gray-400 hover:text-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400"
+                    aria-label="Decode without linking to this post"
+                    title="Don't link to this post"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Upload Section */}
             <div className="w-full p-8 text-center transition-all duration-300">
-              {/* Drag and Drop Zone */}
-              <div
-                className={`relative border-2 border-dashed rounded-xl p-12 text-center transition-all duration-300 ${
-                  dragActive
-                    ? 'border-purple-400 bg-purple-400/10'
-                    : selectedFile
-                    ? 'border-green-400 bg-green-400/5'
-                    : 'border-gray-600 hover:border-gray-500'
-                }`}
-                onDragEnter={handleDrag}
-                onDragLeave={handleDrag}
-                onDragOver={handleDrag}
-                onDrop={handleDrop}
-              >
-                <input
-                  type="file"
-                  accept="image/*,video/*,audio/*"
-                  onChange={handleFileInput}
-                  className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                  disabled={isAnalyzing}
-                />
+              {/* Batch decode replaces the drop zone when several files are selected */}
+              {batchFiles ? (
+                <div className="border-2 border-white/10 rounded-xl p-6">
+                  <BatchDecodePanel
+                    files={batchFiles}
+                    customModules={customModules.filter(module => selectedModuleIds.includes(module.id))}
+                    onOpenResult={(result, file) => onDecodeSuccess(result.analysis, result.mediaUrl, result.mediaType, file, result.thumbnailFile)}
+                    onClose={() => setBatchFiles(null)}
+                  />
+                </div>
+              ) : (
+                /* Drag and Drop Zone */
+                <div
+                  className={`relative border-2 border-dashed rounded-xl p-12 text-center transition-all duration-300 ${
+                    dragActive
+                      ? 'border-purple-400 bg-purple-400/10'
+                      : selectedFile
+                      ? 'border-green-400 bg-green-400/5'
+                      : 'border-gray-600 hover:border-gray-500'
+                  }`}
+                  onDragEnter={handleDrag}
+                  onDragLeave={handleDrag}
+                  onDragOver={handleDrag}
+                  onDrop={handleDrop}
+                >
+                  <input
+                    type="file"
+                    accept="image/*,video/*,audio/*"
+                    onChange={handleFileInput}
+                    multiple
+                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                    disabled={isAnalyzing}
+                  />
                 
-                {selectedFile ? (
-                  <div className="space-y-6">
-                    <div className="flex items-center justify-center space-x-3">
-                      {React.createElement(getFileIcon(selectedFile), { 
-                        className: "w-12 h-12 text-green-400" 
-                      })}
-                      <span className="text-white font-medium text-lg">{selectedFile.name}</span>
-                      <button
-                        onClick={clearFile}
-                        className="p-2 rounded-full hover:bg-white/10 transition-colors"
-                        disabled={isAnalyzing}
-                      >
-                        <X className="w-6 h-6 text-gray-400" />
-                      </button>
-                    </div>
-                    <p className="text-gray-400 text-base">
-                      {(selectedFile.size / 1024 / 1024).toFixed(2)} MB • {selectedFile.type}
-                      {/* NEW: Show thumbnail status for videos */}
-                      {getMediaTypeFromFile(selectedFile) === 'video' && (
-                        <span className="block mt-1 text-sm">
-                          {thumbnailFile ? '✓ Thumbnail generated' : '⏳ Generating thumbnail...'}
-                        </span>
-                      )}
-                    </p>
-                    
-                    {/* Preview */}
-                    {previewUrl && (
-                      <div className="mt-6 flex justify-center">
-                        {getMediaTypeFromFile(selectedFile) === 'image' && (
-                          <img
-                            src={previewUrl}
-                            alt="Preview"
-                            className="max-w-md max-h-64 rounded-lg shadow-lg"
-                            loading="lazy"
-                            decoding="async"
-                          />
-                        )}
-                        {getMediaTypeFromFile(selectedFile) === 'video' && (
-                          <video
-                            src={previewUrl}
-                            controls
-                            className="max-w-md max-h-64 rounded-lg shadow-lg"
-                            preload="metadata"
-                            poster={thumbnailFile ? URL.createObjectURL(thumbnailFile) : undefined}
-                          />
-                        )}
-                        {getMediaTypeFromFile(selectedFile) === 'audio' && (
-                          <div className="bg-white/10 rounded-lg p-6 w-full max-w-md">
-                            <audio src={previewUrl} controls className="w-full" preload="metadata" />
-                          </div>
-                        )}
+                  {selectedFile ? (
+                    <div className="space-y-6">
+                      <div className="flex items-center justify-center space-x-3">
+                        {React.createElement(getFileIcon(selectedFile), { 
+                          className: "w-12 h-12 text-green-400" 
+                        })}
+                        <span className="text-white font-medium text-lg">{selectedFile.name}</span>
+                        <button
+                          onClick={clearFile}
+                          className="p-2 rounded-full hover:bg-white/10 transition-colors"
+                          disabled={isAnalyzing}
+                        >
+                          <X className="w-6 h-6 text-gray-400" />
+                        </button>
                       </div>
-                    )}
-                  </div>
-                ) : (
-                  <div className="space-y-6">
-                    <div className="flex items-center justify-center space-x-4 mb-6">
-                      <FileImage className="w-16 h-16 text-gray-400" />
-                      <FileVideo className="w-16 h-16 text-gray-400" />
-                      <FileAudio className="w-16 h-16 text-gray-400" />
-                    </div>
-                    <Upload className="w-20 h-20 text-gray-400 mx-auto" />
-                    <div>
-                      <h3 className="text-white font-medium text-2xl mb-4">
-                        DeStyle
-                      </h3>
-                      <p className="text-white font-medium text-lg mb-2">
-                        Drop your media here or click to browse
-                      </p>
                       <p className="text-gray-400 text-base">
-                        Supports images, videos, and audio files (max 10MB)
+                        {(selectedFile.size / 1024 / 1024).toFixed(2)} MB • {selectedFile.type}
+                        {/* NEW: Show thumbnail status for videos */}
+                        {getMediaTypeFromFile(selectedFile) === 'video' && (
+                          <span className="block mt-1 text-sm">
+                            {thumbnailFile ? '✓ Thumbnail generated' : '⏳ Generating thumbnail...'}
+                          </span>
+                        )}
                       </p>
+                    
+                      {/* Preview */}
+                      {previewUrl && (
+                        <div className="mt-6 flex justify-center">
+                          {getMediaTypeFromFile(selectedFile) === 'image' && (
+                            <img
+                              src={previewUrl}
+                              alt="Preview"
+                              className="max-w-md max-h-64 rounded-lg shadow-lg"
+                              loading="lazy"
+                              decoding="async"
+                            />
+                          )}
+                          {getMediaTypeFromFile(selectedFile) === 'video' && (
+                            <video
+                              src={previewUrl}
+                              controls
+                              className="max-w-md max-h-64 rounded-lg shadow-lg"
+                              preload="metadata"
+                              poster={thumbnailFile ? URL.createObjectURL(thumbnailFile) : undefined}
+                            />
+                          )}
+                          {getMediaTypeFromFile(selectedFile) === 'audio' && (
+                            <div className="bg-white/10 rounded-lg p-6 w-full max-w-md">
+                              <audio src={previewUrl} controls className="w-full" preload="metadata" />
+                            </div>
+                          )}
+                        </div>
+                      )}
                     </div>
-                  </div>
-                )}
-              </div>
+                  ) : (
+                    <div className="space-y-6">
+                      <div className="flex items-center justify-center space-x-4 mb-6">
+                        <FileImage className="w-16 h-16 text-gray-400" />
+                        <FileVideo className="w-16 h-16 text-gray-400" />
+                        <FileAudio className="w-16 h-16 text-gray-400" />
+                      </div>
+                      <Upload className="w-20 h-20 text-gray-400 mx-auto" />
+                      <div>
+                        <h3 className="text-white font-medium text-2xl mb-4">
+                          DeStyle
+                        </h3>
+                        <p className="text-white font-medium text-lg mb-2">
+                          Drop your media here or click to browse
+                        </p>
+                        <p className="text-gray-400 text-base">
+                          Supports images, videos, and audio files (max {FILE_SIZE_LIMITS.MAX_UPLOAD_SIZE_MB}MB)
+                        </p>
+                        <p className="text-gray-500 text-sm mt-1">
+                          Drop up to {BATCH_DECODE.MAX_FILES} files at once to decode them as a batch
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
 
               {/* Error Message */}
               {error && (
@@ -518,6 +713,63 @@ export const DecodePage: React.FC<DecodePageProps> = ({ onDecodeSuccess, onBack
                 </div>
               )}
 
+              {/* Scene timeline option for videos */}
+              {selectedFile && getMediaTypeFromFile(selectedFile) === 'video' && (
+                <div className="mt-6 flex items-center justify-between text-left">
+                  <div>
+                    <label htmlFor="timeline-sampling" className="text-xs text-gray-400">Scene timeline</label>
+                    <p className="text-xs text-gray-500">Analyze sampled keyframes separately and show them on a timeline</p>
+                  </div>
+                  <select
+                    id="timeline-sampling"
+                    value={timelineSampling ?? ''}
+                    onChange={(e) => setTimelineSampling((e.target.value || null) as KeyframeSampling | null)}
+                    disabled={isAnalyzing}
+                    className="bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:ring-2 focus:ring-blue-400"
+                  >
+                    <option value="">Off</option>
+                    <option value="interval">Every few seconds</option>
+                    <option value="scenes">At scene cuts</option>
+                  </select>
+                </div>
+              )}
+
+              {/* Custom module selection */}
+              {customModules.length > 0 && (
+                <div className="mt-6 text-left">
+                  <p className="text-xs text-gray-400 mb-2">
+                    Your modules ({selectedModuleIds.length}/{CUSTOM_MODULE_LIMITS.MAX_MODULES})
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {customModules.map(module => {
+                      const isSelected = selectedModuleIds.includes(module.id);
+                      const Icon = getCustomModuleIcon(module.icon);
+
+                      return (
+                        <button
+                          key={module.id}
+                          type="button"
+                          onClick={() => toggleCustomModule(module.id)}
+                          disabled={isAnalyzing}
+                          aria-pressed={isSelected}
+                          className={`flex items-center space-x-1.5 px-3 py-1.5 rounded-full border text-xs transition-all duration-300 ${
+                            isSelected ? 'text-white' : 'text-gray-400 border-white/10 hover:text-gray-300'
+                          }`}
+                          style={isSelected ? {
+                            borderColor: `${module.color}80`,
+                            background: `linear-gradient(135deg, ${module.color}40, ${module.color}20)`
+                          } : undefined}
+                          title={module.instruction}
+                        >
+                          <Icon className="w-3.5 h-3.5" />
+                          <span>{module.name}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex justify-center space-x-4 mt-8">
                 <button
@@ -541,13 +793,43 @@ export const DecodePage: React.FC<DecodePageProps> = ({ onDecodeSuccess, onBack
                   {isAnalyzing ? (
                     <>
                       <Loader2 className="w-5 h-5 animate-spin" />
-                      <span>Analyzing...</span>
+                      <span>
+                        {uploadProgress !== null ? `Uploading ${Math.round(uploadProgress)}%...` : 'Analyzing...'}
+                      </span>
                     </>
                   ) : (
                     <span>Decode</span>
                   )}
                 </button>
               </div>
+
+              {/* Style pack import */}
+              {onStylePackImported && (
+                <label
+                  className={`mt-4 inline-flex items-center space-x-2 text-sm text-gray-400 hover:text-gray-200 transition-colors ${
+                    isAnalyzing || isImporting ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
+                  }`}
+                >
+                  {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <PackageOpen className="w-4 h-4" />}
+                  <span>{isImporting ? 'Importing style pack...' : 'Import a style pack (.json or .zip)'}</span>
+                  <input
+                    type="file"
+                    accept=".json,.zip,application/json,application/zip"
+                    onChange={handleStylePackInput}
+                    disabled={isAnalyzing || isImporting}
+                    className="sr-only"
+                  />
+                </label>
+              )}
+
+              {/* Analysis provider badge */}
+              {provider && (
+                <p className="mt-4 text-xs text-gray-400" aria-live="polite">
+                  Analyzed by <span className="text-gray-300 font-medium">{provider.label}</span>
+                  <span className="font-mono"> · {provider.model}</span>
+                  {provider.id === 'mock' && <span className="text-orange-300"> (offline fixture)</span>}
+                </p>
+              )}
             </div>
           </div>
         </div>
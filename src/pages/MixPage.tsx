@@ -0,0 +1,389 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Blend, Bookmark, Images, Loader2, Plus, Search, X, AlertTriangle, Type } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { addBreadcrumb, captureError } from '../lib/sentry';
+import { getPosts, fetchBookmarkedAnalyses } from '../lib/supabaseUtils';
+import {
+  MIX_LIMITS,
+  MixCandidate,
+  MixedAnalysis,
+  mixAnalyses,
+  postToMixCandidate,
+  bookmarkToMixCandidate
+} from '../lib/styleMix';
+import { STYLE_MIX, SEARCH } from '../constants';
+import { AudioWaveform } from '../components/AudioWaveform';
+
+interface MixPageProps {
+  selection: MixCandidate[]; // Held by App so "Add to mix" works from any analysis
+  onSelectionChange: (selection: MixCandidate[]) => void;
+  onMixCreated: (mixed: MixedAnalysis) => void;
+  onBack: () => void;
+}
+
+type PickerTab = 'gallery' | 'saved';
+type PickerMediaType = 'image' | 'video' | 'audio';
+
+const MEDIA_TYPE_TABS: { id: PickerMediaType; label: string }[] = [
+  { id: 'image', label: 'Images' },
+  { id: 'video', label: 'Videos' },
+  { id: 'audio', label: 'Audio' }
+];
+
+export const MixPage: React.FC<MixPageProps> = ({ selection, onSelectionChange, onMixCreated, onBack }) => {
+  const { user } = useAuth();
+  const [pickerTab, setPickerTab] = useState<PickerTab>('gallery');
+  const [mediaType, setMediaType] = useState<PickerMediaType>('image');
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [candidates, setCandidates] = useState<MixCandidate[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingCandidates, setLoadingCandidates] = useState(true);
+  const [candidatesError, setCandidatesError] = useState<string | null>(null);
+  const [isMixing, setIsMixing] = useState(false);
+  const [mixError, setMixError] = useState<string | null>(null);
+
+  const isFull = selection.length >= MIX_LIMITS.MAX_SOURCES;
+  const canMix = selection.length >= MIX_LIMITS.MIN_SOURCES && !isMixing;
+  const totalWeight = selection.reduce((sum, source) => sum + source.weight, 0);
+
+  // Debounce the search box like the gallery does
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(searchInput.trim()), SEARCH.DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const loadCandidates = useCallback(async (offset: number) => {
+    try {
+      setLoadingCandidates(true);
+      setCandidatesError(null);
+
+      if (pickerTab === 'saved') {
+        if (!user) {
+          setCandidates([]);
+          setHasMore(false);
+          return;
+        }
+        const bookmarks = await fetchBookmarkedAnalyses(user.id);
+        setCandidates(bookmarks.map(bookmarkToMixCandidate));
+        setHasMore(false);
+        return;
+      }
+
+      const result = await getPosts(
+        searchQuery ? 'relevance' : 'top',
+        STYLE_MIX.PICKER_PAGE_SIZE,
+        offset,
+        mediaType,
+        searchQuery
+      );
+      const loaded = result.posts.map(postToMixCandidate);
+      setCandidates(prev => offset === 0 ? loaded : [...prev, ...loaded]);
+      setHasMore(result.hasMore);
+    } catch (error) {
+      console.error('Failed to load mix candidates:', error);
+      setCandidatesError('Failed to load styles. Please try again.');
+      captureError(error as Error, { context: 'loadMixCandidates', pickerTab, mediaType });
+    } finally {
+      setLoadingCandidates(false);
+    }
+  }, [pickerTab, mediaType, searchQuery, user]);
+
+  useEffect(() => {
+    loadCandidates(0);
+  }, [loadCandidates]);
+
+  const handleAdd = (candidate: MixCandidate) => {
+    if (isFull || selection.some(source => source.key === candidate.key)) return;
+
+    addBreadcrumb('Mix source added', 'ui', { source: candidate.key });
+    onSelectionChange([...selection, candidate]);
+    setMixError(null);
+  };
+
+  const handleRemove = (key: string) => {
+    addBreadcrumb('Mix source removed', 'ui', { source: key });
+    onSelectionChange(selection.filter(source => source.key !== key));
+  };
+
+  const handleWeightChange = (key: string, weight: number) => {
+    onSelectionChange(selection.map(source => source.key === key ? { ...source, weight } : source));
+  };
+
+  const handleMix = async () => {
+    if (!canMix) return;
+
+    try {
+      setIsMixing(true);
+      setMixError(null);
+      const mixed = await mixAnalyses(selection, user?.id);
+      onMixCreated(mixed);
+    } catch (error) {
+      console.error('Failed to mix styles:', error);
+      setMixError(error instanceof Error ? error.message : 'Failed to mix these styles. Please try again.');
+    } finally {
+      setIsMixing(false);
+    }
+  };
+
+  const renderThumbnail = (candidate: MixCandidate, className: string) => {
+    if (!candidate.mediaUrl) {
+      return (
+        <div className={`${className} bg-white/5 flex items-center justify-center`}>
+          <Blend className="w-5 h-5 text-white/30" />
+        </div>
+      );
+    }
+
+    switch (candidate.mediaType) {
+      case 'video':
+        return <video src={candidate.mediaUrl} className={`${className} object-cover`} muted preload="metadata" />;
+      case 'audio':
+        return (
+          <div className={`${className} bg-white/5 flex items-center px-2`}>
+            <AudioWaveform peaks={candidate.analysis.waveform} src={candidate.mediaUrl} height={40} />
+          </div>
+        );
+      case 'image':
+      default:
+        return <img src={candidate.mediaUrl} alt={candidate.analysis.title} className={`${className} object-cover`} loading="lazy" />;
+    }
+  };
+
+  const renderSelection = () => (
+    <section className="mb-8" aria-label="Styles in this mix">
+      <div className="space-y-3">
+        {selection.map(source => (
+          <div key={source.key} className="flex items-center gap-4 bg-white/5 border border-white/10 rounded-2xl p-3">
+            {renderThumbnail(source, 'w-16 h-16 rounded-xl flex-shrink-0')}
+            <div className="flex-1 min-w-0">
+              <p className="text-white font-medium truncate">{source.analysis.title}</p>
+              <p className="text-[#8FB3A8] font-mono text-xs truncate">
+                {source.analysis.style}{source.username ? ` · @${source.username}` : ''}
+              </p>
+              <div className="flex items-center gap-3 mt-2">
+                <input
+                  type="range"
+                  min={MIX_LIMITS.MIN_WEIGHT}
+                  max={MIX_LIMITS.MAX_WEIGHT}
+                  value={source.weight}
+                  onChange={(e) => handleWeightChange(source.key, Number(e.target.value))}
+                  className="flex-1 accent-[#B8A082]"
+                  aria-label={`Weight of ${source.analysis.title}`}
+                />
+                <span className="text-white/70 font-mono text-xs w-10 text-right">
+                  {Math.round((source.weight / totalWeight) * 100)}%
+                </span>
+              </div>
+            </div>
+            <button
+              onClick={() => handleRemove(source.key)}
+              className="p-1.5 rounded-lg bg-white/10 hover:bg-red-500/30 text-white/70 hover:text-red-300 transition-colors focus:outline-none focus:ring-2 focus:ring-red-400"
+              aria-label={`Remove ${source.analysis.title} from the mix`}
+              title="Remove from mix"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+
+        {selection.length < MIX_LIMITS.MIN_SOURCES && (
+          <div className="border border-dashed border-white/20 rounded-2xl p-6 text-center">
+            <p className="text-improved-muted text-sm">
+              Pick {MIX_LIMITS.MIN_SOURCES}-{MIX_LIMITS.MAX_SOURCES} styles below, then set how much each one counts.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {mixError && (
+        <div className="mt-4 flex items-center gap-2 text-red-400 text-sm" role="alert">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <span>{mixError}</span>
+        </div>
+      )}
+
+      <button
+        onClick={handleMix}
+        disabled={!canMix}
+        className="mt-4 w-full flex items-center justify-center gap-2 px-6 py-3 bg-[#D4B896] hover:bg-[#C4A886] disabled:bg-white/10 disabled:text-white/40 text-[#1a1a1a] rounded-xl font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+      >
+        {isMixing ? <Loader2 className="w-5 h-5 animate-spin" /> : <Blend className="w-5 h-5" />}
+        <span>{isMixing ? 'Mixing...' : `Mix ${selection.length} styles`}</span>
+      </button>
+    </section>
+  );
+
+  const renderCandidates = () => {
+    if (pickerTab === 'saved' && !user) {
+      return (
+        <div className="flex items-center justify-center h-48">
+          <p className="text-improved-muted">Sign in to mix your saved analyses</p>
+        </div>
+      );
+    }
+
+    if (candidatesError) {
+      return (
+        <div className="flex items-center justify-center h-48">
+          <div className="text-center">
+            <p className="text-red-400 text-sm mb-4">{candidatesError}</p>
+            <button
+              onClick={() => loadCandidates(0)}
+              className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-xl font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-red-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+            >
+              Try Again
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    if (loadingCandidates && candidates.length === 0) {
+      return (
+        <div className="flex items-center justify-center h-48">
+          <Loader2 className="w-8 h-8 text-[#B8A082] animate-spin" />
+        </div>
+      );
+    }
+
+    if (candidates.length === 0) {
+      return (
+        <div className="flex items-center justify-center h-48">
+          <div className="text-center">
+            <Type className="w-10 h-10 text-white/30 mx-auto mb-2" />
+            <p className="text-improved-muted text-sm">
+              {pickerTab === 'saved' ? 'Nothing saved yet' : 'No matches'}
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4" role="list" aria-label="Styles to mix">
+          {candidates.map(candidate => {
+            const isPicked = selection.some(source => source.key === candidate.key);
+            return (
+              <button
+                key={candidate.key}
+                onClick={() => handleAdd(candidate)}
+                disabled={isPicked || isFull}
+                className="relative text-left bg-white/5 rounded-2xl overflow-hidden border border-white/10 hover:border-white/20 hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed transition-all focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+                role="listitem"
+                aria-label={isPicked ? `${candidate.analysis.title} is in the mix` : `Add ${candidate.analysis.title} to the mix`}
+              >
+                {renderThumbnail(candidate, 'w-full h-32')}
+                <div className="p-3">
+                  <p className="text-white text-sm font-medium truncate">{candidate.analysis.title}</p>
+                  <p className="text-[#8FB3A8] font-mono text-xs truncate">{candidate.analysis.style}</p>
+                </div>
+                {!isPicked && !isFull && (
+                  <span className="absolute top-2 right-2 p-1.5 rounded-lg bg-black/70 text-white/80">
+                    <Plus className="w-4 h-4" />
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        {hasMore && (
+          <div className="flex justify-center mt-6">
+            <button
+              onClick={() => loadCandidates(candidates.length)}
+              disabled={loadingCandidates}
+              className="flex items-center gap-2 px-6 py-2 bg-white/10 hover:bg-white/20 text-white rounded-xl font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+            >
+              {loadingCandidates && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>Load more</span>
+            </button>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <main id="main-content" className="min-h-screen pt-20 bg-[#1a1a1a] font-inter" tabIndex={-1}>
+      <div className="px-4 py-4 max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center space-x-4 mb-6">
+          <button
+            onClick={onBack}
+            className="p-2 rounded-xl bg-white/10 hover:bg-white/20 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+            aria-label="Go back"
+          >
+            <ArrowLeft className="w-5 h-5 text-gray-400" />
+          </button>
+
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-r from-[#B8A082]/20 to-[#7C9A92]/20 rounded-full flex items-center justify-center">
+              <Blend className="w-5 h-5 text-[#B8A082]" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-semibold text-white">Mix</h1>
+              <p className="text-gray-400 text-sm">Blend styles into a new prompt set</p>
+            </div>
+          </div>
+        </div>
+
+        {renderSelection()}
+
+        {/* Picker */}
+        <section aria-label="Pick styles">
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <button
+              onClick={() => setPickerTab('gallery')}
+              className={`flex items-center gap-2 px-4 py-1.5 rounded-2xl font-mono text-sm transition-colors ${pickerTab === 'gallery' ? 'bg-white/15 text-white' : 'text-white/60 hover:text-white hover:bg-white/10'}`}
+              aria-pressed={pickerTab === 'gallery'}
+            >
+              <Images className="w-4 h-4" />
+              <span>Gallery</span>
+            </button>
+            <button
+              onClick={() => setPickerTab('saved')}
+              className={`flex items-center gap-2 px-4 py-1.5 rounded-2xl font-mono text-sm transition-colors ${pickerTab === 'saved' ? 'bg-white/15 text-white' : 'text-white/60 hover:text-white hover:bg-white/10'}`}
+              aria-pressed={pickerTab === 'saved'}
+            >
+              <Bookmark className="w-4 h-4" />
+              <span>Saved</span>
+            </button>
+          </div>
+
+          {pickerTab === 'gallery' && (
+            <div className="flex flex-col sm:flex-row gap-3 mb-4">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/40" />
+                <input
+                  type="search"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="Search styles to mix..."
+                  className="w-full pl-9 pr-3 py-2 bg-white/5 border border-white/10 rounded-xl text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-400"
+                  aria-label="Search styles to mix"
+                />
+              </div>
+              <div className="flex gap-1" role="tablist" aria-label="Media type">
+                {MEDIA_TYPE_TABS.map(tab => (
+                  <button
+                    key={tab.id}
+                    onClick={() => setMediaType(tab.id)}
+                    className={`px-3 py-2 rounded-xl text-sm transition-colors ${mediaType === tab.id ? 'bg-white/15 text-white' : 'text-white/60 hover:text-white hover:bg-white/10'}`}
+                    role="tab"
+                    aria-selected={mediaType === tab.id}
+                  >
+                    {tab.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {renderCandidates()}
+        </section>
+      </div>
+    </main>
+  );
+};
@@ -4,6 +4,7 @@ import { useAuth } from '../hooks/useAuth';
 import { addBreadcrumb, captureError } from '../lib/sentry';
 import { updateUserProfileUsername, getUserProfile } from '../lib/supabaseUtils';
 import { DEFAULTS } from '../constants';
+import { CustomModulesSettings } from '../components/CustomModulesSettings';
 
 interface ProfileSettingsPageProps {
   onBack: () => void;
@@ -344,6 +345,9 @@ export const ProfileSettingsPage: React.FC<ProfileSettingsPageProps> = ({ onBack
           </div>
         </div>
 
+        {/* Custom analysis modules */}
+        {user && <CustomModulesSettings userId={user.id} />}
+
         {/* Additional Info */}
         <div className="mt-6 p-4 bg-white/5 backdrop-blur-sm rounded-lg border border-white/10">
           <h3 className="text-white font-medium mb-2">Account Information</h3>
@@ -0,0 +1,281 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Bookmark, BookmarkX, Loader2, AlertTriangle, Play, Type } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { addBreadcrumb, captureError } from '../lib/sentry';
+import {
+  fetchBookmarkedAnalyses,
+  removeBookmark,
+  BookmarkedAnalysis,
+  getImageUrl,
+  getSavedAnalysisMediaType,
+  validateAndFixMediaUrl
+} from '../lib/supabaseUtils';
+import { AnalysisResult } from '../constants/modules';
+import { AudioWaveform } from '../components/AudioWaveform';
+
+interface SavedPageProps {
+  onBack: () => void;
+  onOpenAnalysis: (analysis: AnalysisResult, mediaUrl: string, mediaType: 'image' | 'video' | 'audio') => void;
+}
+
+export const SavedPage: React.FC<SavedPageProps> = ({ onBack, onOpenAnalysis }) => {
+  const { user, loading: authLoading } = useAuth();
+  const [bookmarks, setBookmarks] = useState<BookmarkedAnalysis[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const loadBookmarks = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      addBreadcrumb('Loading saved analyses', 'ui', { userId: user.id });
+
+      const result = await fetchBookmarkedAnalyses(user.id);
+      setBookmarks(result);
+    } catch (error) {
+      console.error('Failed to load saved analyses:', error);
+      setError('Failed to load your saved analyses. Please try again.');
+      captureError(error as Error, { context: 'loadSavedAnalyses' });
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadBookmarks();
+  }, [loadBookmarks]);
+
+  const getMediaType = (bookmark: BookmarkedAnalysis): 'image' | 'video' | 'audio' => {
+    return getSavedAnalysisMediaType(bookmark.analysis.image?.mime_type, bookmark.analysis.data);
+  };
+
+  const getMediaUrl = (bookmark: BookmarkedAnalysis): string | null => {
+    if (!bookmark.analysis.image?.storage_path) return null;
+    return validateAndFixMediaUrl(getImageUrl(bookmark.analysis.image.storage_path));
+  };
+
+  const handleOpen = (bookmark: BookmarkedAnalysis) => {
+    addBreadcrumb('Saved analysis opened', 'ui', { analysisId: bookmark.analysis_id });
+
+    const analysis: AnalysisResult = {
+      ...bookmark.analysis.data,
+      id: bookmark.analysis.id
+    };
+
+    // Mixes have no media of their own
+    onOpenAnalysis(analysis, getMediaUrl(bookmark) || '', getMediaType(bookmark));
+  };
+
+  const handleRemove = async (e: React.MouseEvent, bookmark: BookmarkedAnalysis) => {
+    // Don't open the analysis when removing it
+    e.stopPropagation();
+
+    if (!user || removingId) return;
+
+    try {
+      setRemovingId(bookmark.id);
+      addBreadcrumb('Removing saved analysis', 'ui', { analysisId: bookmark.analysis_id });
+
+      await removeBookmark(user.id, bookmark.analysis_id);
+      setBookmarks(prev => prev.filter(item => item.id !== bookmark.id));
+    } catch (error) {
+      console.error('Failed to remove saved analysis:', error);
+      setError('Failed to remove this analysis. Please try again.');
+      captureError(error as Error, { context: 'removeSavedAnalysis', analysisId: bookmark.analysis_id });
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const renderMediaPreview = (bookmark: BookmarkedAnalysis) => {
+    const mediaUrl = getMediaUrl(bookmark);
+    const mediaType = getMediaType(bookmark);
+
+    if (!mediaUrl) {
+      return (
+        <div className="w-full bg-white/5 flex items-center justify-center py-16">
+          <div className="text-center">
+            <Type className="w-12 h-12 text-white/30 mx-auto mb-2" />
+            <p className="text-white/30 text-sm">{bookmark.analysis.data?.mixSources ? 'Mixed style' : 'Media unavailable'}</p>
+          </div>
+        </div>
+      );
+    }
+
+    switch (mediaType) {
+      case 'video':
+        return (
+          <div className="relative w-full">
+            <video
+              src={mediaUrl}
+              className="w-full h-auto object-cover"
+              muted
+              preload="metadata"
+            />
+            <div className="absolute inset-0 bg-black/30 flex items-center justify-center">
+              <Play className="w-12 h-12 text-white/80" />
+            </div>
+          </div>
+        );
+      case 'audio':
+        return (
+          <div className="w-full bg-white/5 border-b border-white/10 px-4 py-8">
+            <AudioWaveform peaks={bookmark.analysis.data.waveform} src={mediaUrl} height={80} />
+          </div>
+        );
+      case 'image':
+      default:
+        return (
+          <img
+            src={mediaUrl}
+            alt={bookmark.analysis.data.title || 'Saved analysis'}
+            className="w-full h-auto object-cover"
+            loading="lazy"
+          />
+        );
+    }
+  };
+
+  const renderContent = () => {
+    if (authLoading || (user && loading)) {
+      return (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <Loader2 className="w-8 h-8 text-[#B8A082] animate-spin mx-auto mb-4" />
+            <p className="text-white/70 text-lg">Loading saved analyses...</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (!user) {
+      return (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="w-16 h-16 mx-auto mb-4 bg-white/10 rounded-full flex items-center justify-center">
+              <Bookmark className="w-8 h-8 text-white/30" />
+            </div>
+            <p className="text-improved-muted text-lg mb-2">Sign in to see your saved analyses</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="w-16 h-16 mx-auto mb-4 bg-red-500/20 rounded-full flex items-center justify-center">
+              <AlertTriangle className="w-8 h-8 text-red-400" />
+            </div>
+            <p className="text-red-400 text-lg mb-2">Something went wrong</p>
+            <p className="text-improved-muted text-sm mb-4">{error}</p>
+            <button
+              onClick={loadBookmarks}
+              className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-xl font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-red-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+            >
+              Try Again
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    if (bookmarks.length === 0) {
+      return (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="w-16 h-16 mx-auto mb-4 bg-white/10 rounded-full flex items-center justify-center">
+              <Bookmark className="w-8 h-8 text-white/30" />
+            </div>
+            <p className="text-improved-muted text-lg mb-2">Nothing saved yet</p>
+            <p className="text-gray-400 text-sm mb-4">Use the bookmark button on any analysis to keep it here.</p>
+            <button
+              onClick={onBack}
+              className="px-6 py-2 bg-[#D4B896] hover:bg-[#C4A886] text-[#1a1a1a] rounded-xl font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+            >
+              Explore Gallery
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="columns-1 md:columns-2 lg:columns-3 xl:columns-4 gap-6 space-y-6" role="list" aria-label="Saved analyses">
+        {bookmarks.map((bookmark) => (
+          <div
+            key={bookmark.id}
+            onClick={() => handleOpen(bookmark)}
+            className="bg-white/5 rounded-2xl overflow-hidden hover:bg-white/10 transition-all group border border-white/10 hover:border-white/20 cursor-pointer relative break-inside-avoid focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+            role="listitem"
+            tabIndex={0}
+            aria-label={`Open ${bookmark.analysis.data.title || 'saved analysis'}`}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                handleOpen(bookmark);
+              }
+            }}
+          >
+            {renderMediaPreview(bookmark)}
+
+            {/* Analysis Info */}
+            <div className="p-4">
+              <p className="text-white font-medium truncate">{bookmark.analysis.data.title}</p>
+              <p className="text-[#8FB3A8] font-mono text-xs truncate">{bookmark.analysis.data.style}</p>
+            </div>
+
+            {/* Remove Button */}
+            <button
+              onClick={(e) => handleRemove(e, bookmark)}
+              onKeyDown={(e) => e.stopPropagation()}
+              disabled={removingId === bookmark.id}
+              className="absolute top-2 right-2 p-1.5 rounded-lg bg-black/70 hover:bg-red-500/30 text-white/70 hover:text-red-300 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all focus:outline-none focus:ring-2 focus:ring-red-400"
+              aria-label="Remove from saved"
+              title="Remove from saved"
+            >
+              {removingId === bookmark.id ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <BookmarkX className="w-4 h-4" />
+              )}
+            </button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <main id="main-content" className="min-h-screen pt-20 bg-[#1a1a1a] font-inter" tabIndex={-1}>
+      <div className="px-4 py-4">
+        {/* Header */}
+        <div className="flex items-center space-x-4 mb-6">
+          <button
+            onClick={onBack}
+            className="p-2 rounded-xl bg-white/10 hover:bg-white/20 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2 focus:ring-offset-gray-900"
+            aria-label="Go back"
+          >
+            <ArrowLeft className="w-5 h-5 text-gray-400" />
+          </button>
+
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-r from-[#B8A082]/20 to-[#7C9A92]/20 rounded-full flex items-center justify-center">
+              <Bookmark className="w-5 h-5 text-[#B8A082]" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-semibold text-white">Saved</h1>
+              <p className="text-gray-400 text-sm">Analyses you've bookmarked</p>
+            </div>
+          </div>
+        </div>
+
+        {renderContent()}
+      </div>
+    </main>
+  );
+};
@@ -1,17 +1,25 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Loader2, AlertTriangle, ChevronDown, Play, Volume2, Type, Palette, Image, Video, Music } from 'lucide-react';
+import { Loader2, AlertTriangle, ChevronDown, Play, Volume2, Type, Palette, Image, Video, Music, CornerLeftUp, PenLine, GitFork, MessageCircle } from 'lucide-react';
 import { getPostsByStyle, Post, validateAndFixMediaUrl } from '../lib/supabaseUtils';
+import { Style, RelatedStyle, getRelatedStyles } from '../lib/styles';
 import { addBreadcrumb, captureError } from '../lib/sentry';
 import { DEFAULTS } from '../constants';
 import { GallerySkeletonLoader, GalleryLoadMoreSkeleton } from '../components/GallerySkeletonLoader';
+import { LikeButton } from '../components/LikeButton';
+import { BookmarkButton } from '../components/BookmarkButton';
+import { useAuth } from '../hooks/useAuth';
+import { useLikedPostIds } from '../hooks/useLikedPostIds';
+import { useBookmarkedAnalysisIds } from '../hooks/useBookmarkedAnalysisIds';
+import { AudioWaveform } from '../components/AudioWaveform';
 
 interface StyleGalleryPageProps {
-  styleName: string;
+  style: Style;
   onBack: () => void;
   onPostClick: (post: Post) => void;
+  onStyleClick: (style: Style) => void; // Opens a related style's gallery
 }
 
-export const StyleGalleryPage: React.FC<StyleGalleryPageProps> = ({ styleName, onBack, onPostClick }) => {
+export const StyleGalleryPage: React.FC<StyleGalleryPageProps> = ({ style, onBack, onPostClick, onStyleClick }) => {
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -19,7 +27,13 @@ export const StyleGalleryPage: React.FC<StyleGalleryPageProps> = ({ styleName, o
   const [selectedMediaType, setSelectedMediaType] = useState<'image' | 'video' | 'audio'>('image');
   const [hasMore, setHasMore] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
+  const [relatedStyles, setRelatedStyles] = useState<RelatedStyle[]>([]); // Parent, children, siblings and similar styles
   const loadMoreRef = useRef<HTMLDivElement>(null);
+  const styleName = style.name;
+  const parentStyle = relatedStyles.find(related => related.relation === 'parent');
+  const { user } = useAuth();
+  const likedPostIds = useLikedPostIds(posts, user?.id);
+  const bookmarkedAnalysisIds = useBookmarkedAnalysisIds(posts, user?.id);
 
   const loadPosts = useCallback(async (reset: boolean = false) => {
     try {
@@ -31,7 +45,7 @@ export const StyleGalleryPage: React.FC<StyleGalleryPageProps> = ({ styleName, o
       }
 
       const offset = reset ? 0 : posts.length;
-      const { posts: newPosts, hasMore: moreAvailable } = await getPostsByStyle(styleName, sortOrder, DEFAULTS.GALLERY_PAGE_SIZE, offset, selectedMediaType);
+      const { posts: newPosts, hasMore: moreAvailable } = await getPostsByStyle(style, sortOrder, DEFAULTS.GALLERY_PAGE_SIZE, offset, selectedMediaType);
 
       if (reset) {
         setPosts(newPosts);
@@ -54,12 +68,26 @@ export const StyleGalleryPage: React.FC<StyleGalleryPageProps> = ({ styleName, o
       setLoading(false);
       setLoadingMore(false);
     }
-  }, [styleName, sortOrder, selectedMediaType, posts.length]);
+  }, [style, styleName, sortOrder, selectedMediaType, posts.length]);
 
   // Load posts on mount and when sort order or media type changes
   useEffect(() => {
     loadPosts(true);
-  }, [styleName, sortOrder, selectedMediaType]);
+  }, [style.id, sortOrder, selectedMediaType]);
+
+  // Load related styles whenever the style changes
+  useEffect(() => {
+    let cancelled = false;
+    setRelatedStyles([]);
+
+    getRelatedStyles(style.id).then(result => {
+      if (!cancelled) setRelatedStyles(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [style.id]);
 
   // Infinite scroll
   useEffect(() => {
@@ -98,6 +126,15 @@ export const StyleGalleryPage: React.FC<StyleGalleryPageProps> = ({ styleName, o
     setSelectedMediaType(newMediaType);
   };
 
+  const handleRelatedStyleClick = (related: RelatedStyle) => {
+    addBreadcrumb('Related style clicked', 'ui', { 
+      from: styleName, 
+      to: related.name,
+      relation: related.relation
+    });
+    onStyleClick(related);
+  };
+
   const handlePostClick = (post: Post) => {
     addBreadcrumb('Style gallery post clicked', 'ui', { 
       postId: post.id, 
@@ -234,11 +271,8 @@ export const StyleGalleryPage: React.FC<StyleGalleryPageProps> = ({ styleName, o
         );
       case 'audio':
         return (
-          <div className="w-full h-auto bg-white/5 backdrop-blur-xl border border-white/10 flex items-center justify-center shadow-lg py-12">
-            <div className="text-center">
-              <Volume2 className="w-16 h-16 text-white/60 mx-auto mb-2" />
-              <p className="text-white/50 text-sm">Audio Content</p>
-            </div>
+          <div className="w-full h-auto bg-white/5 backdrop-blur-xl border border-white/10 shadow-lg px-4 py-8">
+            <AudioWaveform peaks={post.analysis_data?.waveform} src={validatedUrl} height={80} />
           </div>
         );
       default:
@@ -256,6 +290,42 @@ export const StyleGalleryPage: React.FC<StyleGalleryPageProps> = ({ styleName, o
   return (
     <div className="pt-20 min-h-screen bg-[#1a1a1a]">
       <div className="overflow-y-auto">
+        {/* Style details */}
+        <section className="px-4 pt-4 pb-3 border-b border-white/10" aria-label="Style details">
+          {parentStyle && (
+            <button
+              onClick={() => handleRelatedStyleClick(parentStyle)}
+              className="flex items-center space-x-1 text-xs text-white/50 hover:text-white transition-colors mb-1"
+            >
+              <CornerLeftUp className="w-3 h-3" />
+              <span>{parentStyle.name}</span>
+            </button>
+          )}
+          <div className="flex items-baseline space-x-3">
+            <h1 className="text-xl font-semibold text-white">{styleName}</h1>
+            <span className="text-sm text-white/50">
+              {style.post_count} {style.post_count === 1 ? 'creation' : 'creations'}
+            </span>
+          </div>
+          {style.description && (
+            <p className="mt-1 text-sm text-white/70 max-w-3xl">{style.description}</p>
+          )}
+          {relatedStyles.length > 0 && (
+            <nav className="mt-3 flex items-center gap-2 overflow-x-auto" aria-label="Related styles">
+              {relatedStyles.filter(related => related.relation !== 'parent').map(related => (
+                <button
+                  key={related.id}
+                  onClick={() => handleRelatedStyleClick(related)}
+                  className="flex-shrink-0 px-3 py-1 rounded-full text-xs border border-white/10 text-[#E0E0E0] bg-black/60 hover:bg-black/80 transition-colors"
+                  title={related.relation === 'child' ? `A kind of ${styleName}` : undefined}
+                >
+                  {related.name} <span className="text-white/40">{related.post_count}</span>
+                </button>
+              ))}
+            </nav>
+          )}
+        </section>
+
         {/* Top Section */}
         <div className="px-4 py-4 flex items-center justify-between border-b border-white/10">
           <div className="flex items-center space-x-4">
@@ -348,6 +418,41 @@ export const StyleGalleryPage: React.FC<StyleGalleryPageProps> = ({ styleName, o
                   >
                     {/* Media Preview */}
                     {renderMediaPreview(post)}
+
+                    {/* Card Actions - Remixes, Comments, Save and Like */}
+                    <div className="absolute bottom-2 right-2 flex items-center space-x-2">
+                      {(post.remixes_count || 0) > 0 && (
+                        <div
+                          className="flex items-center px-2 py-1 text-xs space-x-1 rounded-lg bg-black/70"
+                          title={`${post.remixes_count} ${post.remixes_count === 1 ? 'remix' : 'remixes'}`}
+                        >
+                          <GitFork className="w-4 h-4 text-white/70" />
+                          <span className="text-white/80 font-mono">{post.remixes_count}</span>
+                        </div>
+                      )}
+                      {(post.comments_count || 0) > 0 && (
+                        <div
+                          className="flex items-center px-2 py-1 text-xs space-x-1 rounded-lg bg-black/70"
+                          title={`${post.comments_count} ${post.comments_count === 1 ? 'comment' : 'comments'}`}
+                        >
+                          <MessageCircle className="w-4 h-4 text-white/70" />
+                          <span className="text-white/80 font-mono">{post.comments_count}</span>
+                        </div>
+                      )}
+                      {post.analysis_data?.id && (
+                        <BookmarkButton
+                          analysisId={post.analysis_data.id}
+                          userId={user?.id}
+                          isSaved={bookmarkedAnalysisIds.has(post.analysis_data.id)}
+                        />
+                      )}
+                      <LikeButton
+                        postId={post.id}
+                        userId={user?.id}
+                        likesCount={post.likes_count || 0}
+                        isLiked={likedPostIds.has(post.id)}
+                      />
+                    </div>
                     
                     {/* Title Overlay */}
                     <div className="absolute bottom-0 left-1/2 transform -translate-x-1/2 bg-black px-3 py-2 rounded-t-lg">
@@ -356,12 +461,20 @@ export const StyleGalleryPage: React.FC<StyleGalleryPageProps> = ({ styleName, o
                       </p>
                     </div>
 
-                    {/* Username Badge */}
-                    {post.username && (
-                      <div className="absolute top-2 left-2 bg-black/80 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity">
-                        @{post.username}
-                      </div>
-                    )}
+                    {/* Username and Edited Badges */}
+                    <div className="absolute top-2 left-2 flex items-center space-x-1">
+                      {post.username && (
+                        <div className="bg-black/80 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity">
+                          @{post.username}
+                        </div>
+                      )}
+                      {post.analysis_data?.revision && (
+                        <div className="flex items-center space-x-1 bg-black/70 text-[#D4B896] text-xs px-2 py-1 rounded" title="Prompt edited by the artist">
+                          <PenLine className="w-3 h-3" />
+                          <span>Edited</span>
+                        </div>
+                      )}
+                    </div>
 
                     {/* Debug info overlay (only in development) */}
                     {import.meta.env.DEV && (
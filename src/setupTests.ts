@@ -3,10 +3,6 @@ import '@testing-library/jest-dom';
 // Mock environment variables for tests
 Object.defineProperty(import.meta, 'env', {
   value: {
-    VITE_R2_ENDPOINT: 'https://test-account.r2.cloudflarestorage.com',
-    VITE_R2_ACCESS_KEY: 'test-access-key',
-    VITE_R2_SECRET_KEY: 'test-secret-key',
-    VITE_R2_BUCKET_NAME: 'test-bucket',
     VITE_R2_PUBLIC_URL: 'https://cdn.test.com/',
     VITE_SUPABASE_URL: 'https://test.supabase.co',
     VITE_SUPABASE_ANON_KEY: 'test-anon-key',
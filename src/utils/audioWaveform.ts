@@ -0,0 +1,183 @@
+/**
+ * Waveform and spectrogram data for audio files
+ *
+ * Audio is decoded in the browser and mixed down to mono. The waveform is a short
+ * list of normalized peaks, small enough to store with the analysis; the spectrogram
+ * is computed on demand from the decoded samples with a windowed FFT.
+ */
+
+export interface DecodedAudio {
+  samples: Float32Array; // Mono, -1 to 1
+  sampleRate: number;
+  duration: number; // Seconds
+}
+
+// Peaks are stored with the analysis, so they're kept to three decimals
+const roundPeak = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Largest absolute sample in each of `count` equal buckets, scaled so the loudest
+ * bucket is 1. Silence stays at 0.
+ */
+export const computePeaks = (samples: Float32Array, count: number): number[] => {
+  if (count < 1 || samples.length === 0) return [];
+
+  const bucketSize = samples.length / count;
+  const peaks: number[] = [];
+  for (let bucket = 0; bucket < count; bucket++) {
+    const start = Math.floor(bucket * bucketSize);
+    const end = Math.max(start + 1, Math.floor((bucket + 1) * bucketSize));
+    let peak = 0;
+    for (let i = start; i < end && i < samples.length; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    peaks.push(peak);
+  }
+
+  const loudest = Math.max(...peaks);
+  return loudest > 0 ? peaks.map(peak => roundPeak(peak / loudest)) : peaks.map(() => 0);
+};
+
+/**
+ * In-place iterative radix-2 FFT. Both arrays must have the same power-of-two length.
+ */
+export const fft = (real: Float64Array, imag: Float64Array): void => {
+  const n = real.length;
+  if (n !== imag.length || (n & (n - 1)) !== 0) {
+    throw new Error('FFT input length must be a power of two');
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+
+    for (let start = 0; start < n; start += size) {
+      let twiddleReal = 1;
+      let twiddleImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const even = start + k;
+        const odd = even + size / 2;
+        const oddReal = real[odd] * twiddleReal - imag[odd] * twiddleImag;
+        const oddImag = real[odd] * twiddleImag + imag[odd] * twiddleReal;
+
+        real[odd] = real[even] - oddReal;
+        imag[odd] = imag[even] - oddImag;
+        real[even] += oddReal;
+        imag[even] += oddImag;
+
+        const nextReal = twiddleReal * stepReal - twiddleImag * stepImag;
+        twiddleImag = twiddleReal * stepImag + twiddleImag * stepReal;
+        twiddleReal = nextReal;
+      }
+    }
+  }
+};
+
+/**
+ * Spectrogram as `columns` evenly spaced Hann-windowed frames, each holding
+ * fftSize / 2 frequency bins from low to high. Magnitudes are in decibels relative
+ * to the loudest bin and mapped to 0-1, with `floorDb` and below as 0.
+ */
+export const computeSpectrogram = (
+  samples: Float32Array,
+  options: { fftSize: number; columns: number; floorDb: number }
+): number[][] => {
+  const { fftSize, columns, floorDb } = options;
+  if (samples.length === 0 || columns < 1) return [];
+
+  const window = Array.from({ length: fftSize }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (fftSize - 1)));
+  const hop = Math.max(1, (samples.length - fftSize) / Math.max(1, columns - 1));
+  const magnitudes: number[][] = [];
+  let loudest = 0;
+
+  for (let column = 0; column < columns; column++) {
+    const offset = Math.max(0, Math.floor(column * hop));
+    const real = new Float64Array(fftSize);
+    const imag = new Float64Array(fftSize);
+    for (let i = 0; i < fftSize; i++) {
+      real[i] = (samples[offset + i] ?? 0) * window[i];
+    }
+
+    fft(real, imag);
+
+    const bins = Array.from({ length: fftSize / 2 }, (_, bin) => Math.hypot(real[bin], imag[bin]));
+    loudest = Math.max(loudest, ...bins);
+    magnitudes.push(bins);
+  }
+
+  if (loudest === 0) return magnitudes.map(bins => bins.map(() => 0));
+
+  return magnitudes.map(bins => bins.map(magnitude => {
+    const db = 20 * Math.log10(magnitude / loudest || Number.MIN_VALUE);
+    return Math.min(1, Math.max(0, 1 - db / floorDb));
+  }));
+};
+
+// Dark purple through magenta and orange to pale yellow
+const SPECTROGRAM_STOPS: [number, number, number][] = [
+  [10, 8, 20],
+  [72, 28, 110],
+  [180, 54, 122],
+  [244, 136, 64],
+  [252, 240, 170]
+];
+
+/**
+ * RGB color for a spectrogram value from 0 to 1
+ */
+export const getSpectrogramColor = (value: number): [number, number, number] => {
+  const position = Math.min(1, Math.max(0, value)) * (SPECTROGRAM_STOPS.length - 1);
+  const index = Math.min(SPECTROGRAM_STOPS.length - 2, Math.floor(position));
+  const mix = position - index;
+  const [from, to] = [SPECTROGRAM_STOPS[index], SPECTROGRAM_STOPS[index + 1]];
+
+  return [0, 1, 2].map(channel => Math.round(from[channel] + (to[channel] - from[channel]) * mix)) as [number, number, number];
+};
+
+/**
+ * Decode an encoded audio file into mono samples
+ */
+export const decodeAudio = async (data: ArrayBuffer): Promise<DecodedAudio> => {
+  const AudioContextClass = window.AudioContext
+    ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) throw new Error('Audio decoding is not supported in this browser');
+
+  const context = new AudioContextClass();
+  try {
+    const buffer = await context.decodeAudioData(data);
+
+    // Average the channels so stereo tracks aren't judged on the left channel alone
+    const samples = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const channelData = buffer.getChannelData(channel);
+      for (let i = 0; i < buffer.length; i++) {
+        samples[i] += channelData[i] / buffer.numberOfChannels;
+      }
+    }
+
+    return { samples, sampleRate: buffer.sampleRate, duration: buffer.duration };
+  } finally {
+    void context.close();
+  }
+};
+
+/**
+ * Fetch and decode audio from a URL, such as the R2 URL of a saved analysis
+ */
+export const loadAudio = async (url: string): Promise<DecodedAudio> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch audio: ${response.status}`);
+  return decodeAudio(await response.arrayBuffer());
+};
@@ -0,0 +1,50 @@
+/**
+ * Threads of comments on a post
+ */
+
+export interface PostComment {
+  id: string;
+  post_id: string;
+  user_id: string;
+  parent_id: string | null;
+  body: string; // Markdown
+  created_at: string;
+  updated_at: string; // Later than created_at once the body is edited
+  author: { username: string | null; avatar_url: string | null } | null;
+}
+
+export interface CommentNode {
+  comment: PostComment;
+  replies: CommentNode[];
+}
+
+const byCreatedAt = (a: PostComment, b: PostComment) => a.created_at.localeCompare(b.created_at);
+
+/**
+ * Nest comments under the comments they reply to, oldest first at every level.
+ * Replies whose parent is missing are shown as top-level comments.
+ */
+export const buildCommentTree = (comments: PostComment[]): CommentNode[] => {
+  const ids = new Set(comments.map(comment => comment.id));
+  const repliesTo = new Map<string | null, PostComment[]>();
+
+  for (const comment of [...comments].sort(byCreatedAt)) {
+    const parentId = comment.parent_id && ids.has(comment.parent_id) ? comment.parent_id : null;
+    const siblings = repliesTo.get(parentId) || [];
+    siblings.push(comment);
+    repliesTo.set(parentId, siblings);
+  }
+
+  const toNodes = (parentId: string | null, seen: Set<string>): CommentNode[] =>
+    (repliesTo.get(parentId) || [])
+      .filter(comment => !seen.has(comment.id))
+      .map(comment => ({
+        comment,
+        replies: toNodes(comment.id, new Set(seen).add(comment.id))
+      }));
+
+  return toNodes(null, new Set());
+};
+
+export const isCommentEdited = (comment: PostComment): boolean =>
+  new Date(comment.updated_at).getTime() > new Date(comment.created_at).getTime();
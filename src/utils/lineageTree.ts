@@ -0,0 +1,64 @@
+/**
+ * Remix lineage of a post: the chain of posts it remixes and the tree of its remixes
+ */
+
+// Row of get_post_lineage: depth < 0 for ancestors (-1 is the parent), 0 for the post
+// itself and > 0 for remixes (1 remixes the post directly)
+export interface LineagePost {
+  id: string;
+  title: string;
+  style: string;
+  username: string;
+  media_url: string;
+  media_type: 'image' | 'video' | 'audio';
+  thumbnail_url?: string | null;
+  parent_post_id: string | null;
+  remixes_count: number;
+  created_at: string;
+  depth: number;
+}
+
+export interface RemixNode {
+  post: LineagePost;
+  remixes: RemixNode[];
+}
+
+export interface PostLineage {
+  ancestors: LineagePost[]; // Oldest first, ending with the parent
+  remixes: RemixNode[]; // Direct remixes, newest first
+}
+
+/**
+ * Arrange lineage rows around `postId`. Remixes whose parent isn't among the rows (cut
+ * off by the row limit) are left out, so every branch is reachable from the post.
+ */
+export const buildLineageTree = (rows: LineagePost[], postId: string): PostLineage => {
+  const ancestors = rows
+    .filter(row => row.depth < 0)
+    .sort((a, b) => a.depth - b.depth);
+
+  const childrenOf = new Map<string, LineagePost[]>();
+  for (const row of rows) {
+    if (row.depth <= 0 || !row.parent_post_id) continue;
+    const siblings = childrenOf.get(row.parent_post_id) || [];
+    siblings.push(row);
+    childrenOf.set(row.parent_post_id, siblings);
+  }
+
+  const toNodes = (parentId: string, seen: Set<string>): RemixNode[] =>
+    (childrenOf.get(parentId) || [])
+      .filter(child => !seen.has(child.id))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map(child => ({
+        post: child,
+        remixes: toNodes(child.id, new Set(seen).add(child.id))
+      }));
+
+  return { ancestors, remixes: toNodes(postId, new Set([postId])) };
+};
+
+/**
+ * Number of remixes in a tree, at every level
+ */
+export const countRemixNodes = (nodes: RemixNode[]): number =>
+  nodes.reduce((total, node) => total + 1 + countRemixNodes(node.remixes), 0);
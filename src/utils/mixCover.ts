@@ -0,0 +1,99 @@
+/**
+ * Cover image for a mixed analysis
+ * Mixes have no media of their own, so posting one uploads this generated cover instead
+ */
+
+import type { AnalysisResult } from '../constants/modules';
+
+const COVER_SIZE = 1024;
+const COVER_PADDING = 96;
+const COVER_QUALITY = 0.9;
+
+// Split text into lines that fit maxWidth, keeping at most maxLines
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length <= maxLines) return lines;
+  return [...lines.slice(0, maxLines - 1), `${lines[maxLines - 1]}…`];
+};
+
+/**
+ * Draw the mix's title, style and sources on the app's gradient as a square JPEG
+ */
+export const generateMixCover = (analysis: Pick<AnalysisResult, 'title' | 'style' | 'mixSources'>): Promise<File> => {
+  return new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) {
+      reject(new Error('Could not get canvas context'));
+      return;
+    }
+
+    canvas.width = COVER_SIZE;
+    canvas.height = COVER_SIZE;
+    const maxWidth = COVER_SIZE - COVER_PADDING * 2;
+
+    const gradient = ctx.createLinearGradient(0, 0, COVER_SIZE, COVER_SIZE);
+    gradient.addColorStop(0, '#3a3226');
+    gradient.addColorStop(1, '#1f2b29');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, COVER_SIZE, COVER_SIZE);
+
+    ctx.textBaseline = 'top';
+    let y = COVER_PADDING;
+
+    ctx.fillStyle = '#8FB3A8';
+    ctx.font = '600 32px Inter, sans-serif';
+    ctx.fillText('STYLE MIX', COVER_PADDING, y);
+    y += 80;
+
+    ctx.fillStyle = '#D4B896';
+    ctx.font = '700 72px Inter, sans-serif';
+    for (const line of wrapText(ctx, analysis.title, maxWidth, 3)) {
+      ctx.fillText(line, COVER_PADDING, y);
+      y += 88;
+    }
+    y += 24;
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.75)';
+    ctx.font = '400 40px Inter, sans-serif';
+    for (const line of wrapText(ctx, analysis.style, maxWidth, 2)) {
+      ctx.fillText(line, COVER_PADDING, y);
+      y += 52;
+    }
+
+    const sources = analysis.mixSources ?? [];
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.font = '400 30px Inter, sans-serif';
+    sources.forEach((source, index) => {
+      const credit = `${Math.round(source.weight * 100)}%  ${source.title}${source.username ? ` by @${source.username}` : ''}`;
+      const [line] = wrapText(ctx, credit, maxWidth, 1);
+      ctx.fillText(line, COVER_PADDING, COVER_SIZE - COVER_PADDING - (sources.length - index) * 44);
+    });
+
+    canvas.toBlob(
+      blob => {
+        if (!blob) {
+          reject(new Error('Failed to generate mix cover'));
+          return;
+        }
+        resolve(new File([blob], 'mix-cover.jpg', { type: 'image/jpeg' }));
+      },
+      'image/jpeg',
+      COVER_QUALITY
+    );
+  });
+};
@@ -0,0 +1,203 @@
+/**
+ * Tolerant parsing for streamed JSON
+ *
+ * Model output arrives in arbitrary chunks, so the text seen so far is usually
+ * cut off mid-string, mid-number or mid-array. These helpers recover as much
+ * as possible without ever throwing on truncated input.
+ */
+
+export interface PartialJSONResult {
+  value: unknown; // Best-effort value of the text so far, undefined if nothing usable yet
+  complete: boolean; // True once the top-level value has been closed
+  completeKeys: string[]; // Top-level object keys whose values are fully received
+}
+
+interface ParsedValue {
+  value: unknown;
+  complete: boolean;
+}
+
+const INCOMPLETE: ParsedValue = { value: undefined, complete: false };
+
+/**
+ * Parse a possibly truncated JSON document. Leading text before the first `{` or `[`
+ * (such as a markdown fence) is skipped. Anything after a syntax error is ignored.
+ */
+export const parsePartialJSON = (text: string): PartialJSONResult => {
+  let pos = 0;
+  const completeKeys: string[] = [];
+
+  // Treat a syntax error like the end of the text so everything before it is kept
+  const stop = (): ParsedValue => {
+    pos = text.length;
+    return INCOMPLETE;
+  };
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const parseString = (): ParsedValue => {
+    // Caller guarantees text[pos] === '"'
+    pos++;
+    let result = '';
+
+    while (pos < text.length) {
+      const char = text[pos];
+
+      if (char === '"') {
+        pos++;
+        return { value: result, complete: true };
+      }
+
+      if (char === '\\') {
+        const next = text[pos + 1];
+        if (next === undefined) break; // Escape cut off by the chunk boundary
+
+        if (next === 'u') {
+          const hex = text.substring(pos + 2, pos + 6);
+          if (hex.length < 4) break;
+          result += String.fromCharCode(parseInt(hex, 16));
+          pos += 6;
+          continue;
+        }
+
+        const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+        result += escapes[next] ?? next;
+        pos += 2;
+        continue;
+      }
+
+      result += char;
+      pos++;
+    }
+
+    pos = text.length;
+    return { value: result, complete: false };
+  };
+
+  const parseNumber = (): ParsedValue => {
+    const match = /^-?\d+(\.\d*)?([eE][+-]?\d*)?/.exec(text.substring(pos));
+    if (!match) return stop();
+    pos += match[0].length;
+    // A number running into the end of the text may still have digits to come
+    return { value: Number(match[0]), complete: pos < text.length };
+  };
+
+  const parseLiteral = (): ParsedValue => {
+    for (const [word, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (text.startsWith(word, pos)) {
+        pos += word.length;
+        return { value, complete: true };
+      }
+      if (word.startsWith(text.substring(pos))) {
+        pos = text.length;
+        return INCOMPLETE;
+      }
+    }
+    return stop();
+  };
+
+  const parseArray = (): ParsedValue => {
+    pos++;
+    const items: unknown[] = [];
+
+    while (true) {
+      skipWhitespace();
+      if (pos >= text.length) return { value: items, complete: false };
+
+      if (text[pos] === ']') {
+        pos++;
+        return { value: items, complete: true };
+      }
+
+      const item = parseValue();
+      if (item.value !== undefined) items.push(item.value);
+      if (!item.complete) return { value: items, complete: false };
+
+      skipWhitespace();
+      if (text[pos] === ',') pos++;
+    }
+  };
+
+  const parseObject = (isRoot: boolean): ParsedValue => {
+    pos++;
+    const result: Record<string, unknown> = {};
+
+    while (true) {
+      skipWhitespace();
+      if (pos >= text.length) return { value: result, complete: false };
+
+      if (text[pos] === '}') {
+        pos++;
+        return { value: result, complete: true };
+      }
+
+      if (text[pos] !== '"') {
+        stop();
+        return { value: result, complete: false };
+      }
+      const key = parseString();
+      if (!key.complete) return { value: result, complete: false };
+
+      skipWhitespace();
+      if (pos >= text.length) return { value: result, complete: false };
+      if (text[pos] !== ':') {
+        stop();
+        return { value: result, complete: false };
+      }
+      pos++;
+
+      const member = parseValue();
+      if (member.value !== undefined) result[key.value as string] = member.value;
+      if (!member.complete) return { value: result, complete: false };
+      if (isRoot) completeKeys.push(key.value as string);
+
+      skipWhitespace();
+      if (text[pos] === ',') pos++;
+    }
+  };
+
+  const parseValue = (isRoot = false): ParsedValue => {
+    skipWhitespace();
+    if (pos >= text.length) return INCOMPLETE;
+
+    const char = text[pos];
+    if (char === '{') return parseObject(isRoot);
+    if (char === '[') return parseArray();
+    if (char === '"') return parseString();
+    if (char === '-' || (char >= '0' && char <= '9')) return parseNumber();
+    return parseLiteral();
+  };
+
+  const start = text.search(/[{[]/);
+  if (start === -1) {
+    return { value: undefined, complete: false, completeKeys };
+  }
+  pos = start;
+
+  const root = parseValue(true);
+  return { value: root.value, complete: root.complete, completeKeys };
+};
+
+/**
+ * Split a byte stream of newline-delimited JSON into lines, holding back the
+ * trailing partial line until the rest of it arrives
+ */
+export const createLineBuffer = () => {
+  let buffer = '';
+
+  return {
+    push(chunk: string): string[] {
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      return lines.filter(line => line.trim() !== '');
+    },
+    flush(): string[] {
+      const rest = buffer.trim();
+      buffer = '';
+      return rest ? [rest] : [];
+    }
+  };
+};
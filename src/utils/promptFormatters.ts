@@ -0,0 +1,209 @@
+/**
+ * Target-model prompt formatting
+ *
+ * Turns an analysis into the syntax a specific generation tool expects. Formatters are
+ * pure functions of the analysis, so the same output can be copied, shared or tested.
+ */
+
+import type { AnalysisResult, PromptListKey } from '../constants/modules';
+
+export type PromptTargetId = 'midjourney' | 'sdxl' | 'flux' | 'suno' | 'runway';
+
+export const ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4', '3:2', '2:3'] as const;
+export type AspectRatio = typeof ASPECT_RATIOS[number];
+
+export interface PromptFormatOptions {
+  aspectRatio?: AspectRatio;
+  styleCodes?: string[]; // Midjourney style references: bare codes or full `--flag value` parameters
+  variationIndex?: number; // Which entry of the formatter's source prompt list to use
+}
+
+// One copyable block of a formatted prompt, e.g. the prompt and its negative prompt
+export interface FormattedPromptSection {
+  label: string;
+  text: string;
+}
+
+export interface PromptFormatter {
+  id: PromptTargetId;
+  label: string;
+  description: string;
+  sourceKey?: PromptListKey; // Module prompt list the output is built from, if any
+  usesAspectRatio: boolean;
+  format: (analysis: AnalysisResult, options?: PromptFormatOptions) => FormattedPromptSection[];
+}
+
+const MIDJOURNEY_STYLIZE = 250;
+const SD_MAX_TOKEN_WEIGHT = 1.3;
+const SD_MIN_TOKEN_WEIGHT = 1.05;
+const SD_NEGATIVE_PROMPT = 'lowres, blurry, jpeg artifacts, watermark, signature, text, deformed, bad anatomy, extra limbs, oversaturated';
+const SUNO_STYLE_MAX_LENGTH = 120;
+const RUNWAY_PROMPT_MAX_LENGTH = 500;
+
+const stripTrailingPunctuation = (text: string) => text.trim().replace(/[.,;:!\s]+$/, '');
+
+const ensureSentence = (text: string) => {
+  const trimmed = text.trim();
+  return !trimmed || /[.!?]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+};
+
+// Join items as "a, b and c"
+const toNaturalList = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+// Cut at the last whole word or phrase that fits
+const truncateAt = (text: string, maxLength: number, separator: string) => {
+  if (text.length <= maxLength) return text;
+  const cut = text.substring(0, maxLength);
+  const lastSeparator = cut.lastIndexOf(separator);
+  return (lastSeparator > 0 ? cut.substring(0, lastSeparator) : cut).trim();
+};
+
+// Parentheses and brackets are SDXL attention syntax, so literal ones are escaped
+const escapeSdText = (text: string) => text.replace(/[\\()[\]]/g, character => `\\${character}`);
+
+// A colon inside "(token:weight)" would be read as the weight separator
+const toSdToken = (token: string) => escapeSdText(token.replace(/\s*:\s*/g, ' ').trim());
+
+const pickVariation = (items: string[], index = 0): string =>
+  items.length === 0 ? '' : items[Math.min(Math.max(index, 0), items.length - 1)];
+
+/**
+ * Midjourney: prose prompt plus `--ar`, `--stylize` and `--sref` parameters.
+ * Bare style codes are grouped under a single --sref; full parameters are kept as-is.
+ */
+const formatMidjourney = (analysis: AnalysisResult, options: PromptFormatOptions = {}): FormattedPromptSection[] => {
+  const styleCodes = options.styleCodes ?? [];
+  const references = styleCodes.filter(code => !code.startsWith('--'));
+  const parameters = [
+    `--ar ${options.aspectRatio ?? '1:1'}`,
+    `--stylize ${MIDJOURNEY_STYLIZE}`,
+    ...(references.length > 0 ? [`--sref ${references.join(' ')}`] : []),
+    ...styleCodes.filter(code => code.startsWith('--'))
+  ];
+
+  const description = [stripTrailingPunctuation(analysis.prompt), analysis.style, ...analysis.keyTokens]
+    .filter(Boolean)
+    .join(', ');
+
+  return [{ label: 'Prompt', text: `${description} ${parameters.join(' ')}` }];
+};
+
+/**
+ * Stable Diffusion XL: key tokens as weighted tags, strongest first, plus a negative prompt
+ */
+const formatSdxl = (analysis: AnalysisResult): FormattedPromptSection[] => {
+  const step = analysis.keyTokens.length > 1
+    ? (SD_MAX_TOKEN_WEIGHT - SD_MIN_TOKEN_WEIGHT) / (analysis.keyTokens.length - 1)
+    : 0;
+  const weightedTokens = analysis.keyTokens.map((token, index) => {
+    const weight = SD_MAX_TOKEN_WEIGHT - step * index;
+    return `(${toSdToken(token)}:${Number(weight.toFixed(2))})`;
+  });
+
+  const description = [analysis.style, stripTrailingPunctuation(analysis.prompt)]
+    .filter(Boolean)
+    .map(escapeSdText);
+  const prompt = [...weightedTokens, ...description].join(', ');
+
+  return [
+    { label: 'Prompt', text: prompt },
+    { label: 'Negative prompt', text: SD_NEGATIVE_PROMPT }
+  ];
+};
+
+/**
+ * Flux: plain descriptive sentences, which it follows better than tag lists
+ */
+const formatFlux = (analysis: AnalysisResult): FormattedPromptSection[] => {
+  const sentences = [ensureSentence(analysis.prompt)];
+  if (analysis.style) sentences.push(`The style is ${stripTrailingPunctuation(analysis.style).toLowerCase()}.`);
+  if (analysis.keyTokens.length > 0) sentences.push(`It features ${toNaturalList(analysis.keyTokens)}.`);
+
+  return [{ label: 'Prompt', text: sentences.join(' ') }];
+};
+
+/**
+ * Suno: short comma-separated style tags taken from a music prompt, plus a song title
+ */
+const formatSuno = (analysis: AnalysisResult, options: PromptFormatOptions = {}): FormattedPromptSection[] => {
+  const musicPrompt = pickVariation(analysis.musicPrompts, options.variationIndex);
+  const tags: string[] = [];
+
+  musicPrompt
+    .toLowerCase()
+    .split(/[,.;]|\s+(?:and|with)\s+/)
+    .map(tag => tag.trim())
+    .filter(tag => tag && tag.split(/\s+/).length <= 4)
+    .forEach(tag => {
+      if (!tags.includes(tag)) tags.push(tag);
+    });
+
+  return [
+    { label: 'Style of music', text: truncateAt(tags.join(', '), SUNO_STYLE_MAX_LENGTH, ',') },
+    { label: 'Title', text: analysis.title }
+  ];
+};
+
+/**
+ * Runway: the camera motion first, then the scene and its look
+ */
+const formatRunway = (analysis: AnalysisResult, options: PromptFormatOptions = {}): FormattedPromptSection[] => {
+  const motion = pickVariation(analysis.animationPrompts, options.variationIndex);
+  const prompt = [
+    motion && ensureSentence(motion),
+    ensureSentence(analysis.prompt),
+    analysis.style && `${stripTrailingPunctuation(analysis.style)} aesthetic.`
+  ].filter(Boolean).join(' ');
+
+  return [{ label: 'Prompt', text: truncateAt(prompt, RUNWAY_PROMPT_MAX_LENGTH, ' ') }];
+};
+
+export const PROMPT_FORMATTERS: PromptFormatter[] = [
+  {
+    id: 'midjourney',
+    label: 'Midjourney',
+    description: 'Prompt with --ar, --stylize and --sref parameters',
+    usesAspectRatio: true,
+    format: formatMidjourney
+  },
+  {
+    id: 'sdxl',
+    label: 'SDXL',
+    description: 'Weighted tokens with a negative prompt',
+    usesAspectRatio: false,
+    format: formatSdxl
+  },
+  {
+    id: 'flux',
+    label: 'Flux',
+    description: 'Natural-language description',
+    usesAspectRatio: false,
+    format: formatFlux
+  },
+  {
+    id: 'suno',
+    label: 'Suno',
+    description: 'Style tags from the selected sound prompt',
+    sourceKey: 'musicPrompts',
+    usesAspectRatio: false,
+    format: formatSuno
+  },
+  {
+    id: 'runway',
+    label: 'Runway',
+    description: 'Motion prompt from the selected motion prompt',
+    sourceKey: 'animationPrompts',
+    usesAspectRatio: false,
+    format: formatRunway
+  }
+];
+
+export const getPromptFormatter = (id: PromptTargetId): PromptFormatter =>
+  PROMPT_FORMATTERS.find(formatter => formatter.id === id) || PROMPT_FORMATTERS[0];
+
+export const formatPromptForTarget = (
+  target: PromptTargetId,
+  analysis: AnalysisResult,
+  options?: PromptFormatOptions
+): FormattedPromptSection[] => getPromptFormatter(target).format(analysis, options);
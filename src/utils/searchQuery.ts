@@ -0,0 +1,68 @@
+/**
+ * Gallery search query parsing
+ *
+ * The search box accepts plain words plus a few operators:
+ *   "neon glow"     phrase, matched in order
+ *   -blur           exclude posts containing a word (or -"a phrase")
+ *   style:noir      style name contains the value (style:"neo noir" for several words)
+ *   artist:name     posted by that username
+ *
+ * Words, phrases and exclusions are kept in websearch_to_tsquery syntax and matched
+ * against posts.search_vector; style: and artist: become separate filters.
+ */
+
+export interface ParsedSearchQuery {
+  text: string; // websearch_to_tsquery input
+  styles: string[];
+  artists: string[];
+}
+
+// Optional '-', optional operator, then a quoted value (closing quote optional while typing) or a bare word
+const TERM_PATTERN = /(-?)(?:(style|artist):)?(?:"([^"]*)"?|([^\s"]+))/gi;
+
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+  const textTerms: string[] = [];
+  const styles: string[] = [];
+  const artists: string[] = [];
+
+  for (const match of input.matchAll(TERM_PATTERN)) {
+    const [, negated, operator, phrase, word] = match;
+    const value = (phrase ?? word ?? '').trim();
+    if (!value || value === '-') continue;
+
+    if (operator) {
+      // Operators filter rather than search, and can't be negated
+      if (!negated) {
+        (operator.toLowerCase() === 'style' ? styles : artists).push(value);
+      }
+      continue;
+    }
+
+    const term = phrase !== undefined ? `"${value}"` : value;
+    textTerms.push(`${negated}${term}`);
+  }
+
+  return { text: textTerms.join(' '), styles, artists };
+};
+
+export const hasSearchTerms = (query: ParsedSearchQuery): boolean =>
+  query.text.length > 0 || query.styles.length > 0 || query.artists.length > 0;
+
+/**
+ * Add or remove a style: filter in the raw search box text, used by the style facets
+ */
+export const toggleStyleFilter = (input: string, style: string): string => {
+  const token = /\s/.test(style) ? `style:"${style}"` : `style:${style}`;
+  const { styles } = parseSearchQuery(input);
+
+  if (!styles.some(existing => existing.toLowerCase() === style.toLowerCase())) {
+    return [input.trim(), token].filter(Boolean).join(' ');
+  }
+
+  return input
+    .replace(/style:(?:"([^"]*)"?|([^\s"]+))/gi, (operator, phrase?: string, word?: string) =>
+      (phrase ?? word ?? '').trim().toLowerCase() === style.toLowerCase() ? '' : operator
+    )
+    .replace(/\s+/g, ' ')
+    .trim();
+};
@@ -30,19 +30,16 @@ async function generateSitemap() {
   try {
     console.log('Generating dynamic sitemap...');
     
-    // Fetch unique styles from posts
+    // Fetch canonical styles (aliases redirect to these, so they're the only style URLs listed)
     const { data: styles, error: stylesError } = await supabase
-      .from('posts')
-      .select('style')
+      .from('styles')
+      .select('slug, name')
       .order('created_at', { ascending: false });
 
     if (stylesError) {
       console.error('Error fetching styles:', stylesError);
       return;
     }
-
-    // Get unique styles
-    const uniqueStyles = [...new Set(styles?.map(post => post.style) || [])];
     
     // Fetch recent posts for individual analysis pages
     const { data: posts, error: postsError } = await supabase
@@ -88,12 +85,11 @@ async function generateSitemap() {
 `;
 
     // Add style pages
-    uniqueStyles.forEach(style => {
-      const styleSlug = style.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    (styles || []).forEach(style => {
       sitemapXml += `  
-  <!-- Style: ${style} -->
+  <!-- Style: ${style.name} -->
   <url>
-    <loc>${baseUrl}/style/${styleSlug}</loc>
+    <loc>${baseUrl}/style/${style.slug}</loc>
     <lastmod>${currentDate}</lastmod>
     <changefreq>weekly</changefreq>
     <priority>0.7</priority>
@@ -109,7 +105,7 @@ async function generateSitemap() {
       sitemapXml += `  
   <!-- Analysis: ${post.id} -->
   <url>
-    <loc>${baseUrl}/analysis/${post.id}</loc>
+    <loc>${baseUrl}/post/${post.id}</loc>
     <lastmod>${formattedDate}</lastmod>
     <changefreq>monthly</changefreq>
     <priority>0.6</priority>
@@ -126,7 +122,7 @@ async function generateSitemap() {
     
     fs.writeFileSync(sitemapPath, sitemapXml, 'utf8');
     
-    console.log(`✅ Sitemap generated successfully with ${uniqueStyles.length} styles and ${posts?.length || 0} posts`);
+    console.log(`✅ Sitemap generated successfully with ${styles?.length || 0} styles and ${posts?.length || 0} posts`);
     console.log(`📍 Sitemap saved to: ${sitemapPath}`);
     
   } catch (error) {
@@ -0,0 +1,387 @@
+/**
+ * Style packs: portable, versioned exports of an analysis
+ *
+ * A pack is plain JSON, optionally zipped together with a README and the media
+ * thumbnail. Imports go through the same validator the analyze-media edge function
+ * uses, so a pack can only ever produce an analysis the app could have decoded itself.
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import type { AnalysisResult, CustomModuleResult, VideoTimeline } from '../constants/modules';
+import { TOP_MODULES, BOTTOM_MODULES } from '../constants/modules';
+import {
+  AnalysisValidationError,
+  GeminiAnalysisResult,
+  validateAnalysisResult
+} from '../../supabase/functions/_shared/analysisSchema';
+import { slugifyStyle } from '../lib/routes';
+
+export const STYLE_PACK_FORMAT = 'styledrop-style-pack';
+export const STYLE_PACK_VERSION = 1;
+
+// Entry names inside a zipped style pack
+export const STYLE_PACK_MANIFEST = 'stylepack.json';
+const STYLE_PACK_README = 'README.md';
+
+export type StylePackMediaType = 'image' | 'video' | 'audio';
+
+export interface StylePack {
+  format: typeof STYLE_PACK_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  analysis: Omit<AnalysisResult, 'id'>;
+  styleCodes: string[];
+  media: {
+    type: StylePackMediaType;
+    url?: string; // Public URL of the original media, if it was hosted
+    thumbnail?: string; // Zip entry holding the thumbnail image
+  };
+  source?: {
+    analysisId?: string;
+    postId?: string;
+    artistUsername?: string;
+  };
+}
+
+export interface StylePackContents {
+  pack: StylePack;
+  thumbnail?: { name: string; data: Uint8Array };
+}
+
+export class StylePackError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'StylePackError';
+    this.issues = issues;
+  }
+}
+
+export interface BuildStylePackOptions {
+  mediaType: StylePackMediaType;
+  mediaUrl?: string;
+  styleCodes?: string[];
+  postId?: string;
+  artistUsername?: string;
+  thumbnailName?: string;
+}
+
+export const buildStylePack = (analysis: AnalysisResult, options: BuildStylePackOptions): StylePack => {
+  const { id, ...analysisData } = analysis;
+
+  return {
+    format: STYLE_PACK_FORMAT,
+    version: STYLE_PACK_VERSION,
+    exportedAt: new Date().toISOString(),
+    analysis: analysisData,
+    styleCodes: options.styleCodes ?? [],
+    media: {
+      type: options.mediaType,
+      ...(options.mediaUrl && /^https?:\/\//.test(options.mediaUrl) && { url: options.mediaUrl }),
+      ...(options.thumbnailName && { thumbnail: options.thumbnailName })
+    },
+    source: {
+      // Pending ids from a decode in progress aren't worth keeping
+      ...(id && !id.startsWith('pending-') && { analysisId: id }),
+      ...(options.postId && { postId: options.postId }),
+      ...(options.artistUsername && { artistUsername: options.artistUsername })
+    }
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const getCustomModuleIssues = (value: unknown): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return ['analysis.customModules must be an array'];
+
+  return value.flatMap((module, index) => {
+    const path = `analysis.customModules[${index}]`;
+    if (!isRecord(module)) return [`${path} must be an object`];
+
+    const issues = (['id', 'name', 'color', 'icon'] as const)
+      .filter(key => typeof module[key] !== 'string')
+      .map(key => `${path}.${key} must be a string`);
+    if (!isStringArray(module.items)) issues.push(`${path}.items must be an array of strings`);
+    return issues;
+  });
+};
+
+const getTimelineIssues = (value: unknown): string[] => {
+  if (value === undefined) return [];
+  if (!isRecord(value) || !Array.isArray(value.segments) || typeof value.duration !== 'number' ||
+      !['interval', 'scenes'].includes(value.sampling as string)) {
+    return ['analysis.timeline must have a sampling mode, a duration and a segments array'];
+  }
+
+  return value.segments.flatMap((segment, index) => {
+    const path = `analysis.timeline.segments[${index}]`;
+    if (!isRecord(segment)) return [`${path} must be an object`];
+
+    const issues: string[] = [];
+    if (typeof segment.start !== 'number' || typeof segment.end !== 'number') issues.push(`${path} must have numeric start and end`);
+    if (typeof segment.style !== 'string' || typeof segment.prompt !== 'string') issues.push(`${path} must have a string style and prompt`);
+    if (!isStringArray(segment.animationPrompts)) issues.push(`${path}.animationPrompts must be an array of strings`);
+    if (segment.keyframeUrl !== undefined && typeof segment.keyframeUrl !== 'string') issues.push(`${path}.keyframeUrl must be a string`);
+    return issues;
+  });
+};
+
+const getWaveformIssues = (value: unknown): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(peak => typeof peak !== 'number' || !(peak >= 0 && peak <= 1))) {
+    return ['analysis.waveform must be an array of numbers from 0 to 1'];
+  }
+  return [];
+};
+
+const getProviderIssues = (value: unknown): string[] => {
+  if (value === undefined) return [];
+  if (!isRecord(value) || ['id', 'label', 'model'].some(key => typeof value[key] !== 'string')) {
+    return ['analysis.provider must have string id, label and model'];
+  }
+  return [];
+};
+
+/**
+ * Check a parsed pack and return a clean copy. Throws StylePackError listing every problem.
+ */
+export const validateStylePack = (value: unknown): StylePack => {
+  if (!isRecord(value) || value.format !== STYLE_PACK_FORMAT) {
+    throw new StylePackError('Not a StyleDrop style pack');
+  }
+
+  if (typeof value.version !== 'number' || !Number.isInteger(value.version) || value.version < 1) {
+    throw new StylePackError('Style pack has an invalid version');
+  }
+  if (value.version > STYLE_PACK_VERSION) {
+    throw new StylePackError(
+      `Style pack version ${value.version} is newer than this app supports (version ${STYLE_PACK_VERSION})`
+    );
+  }
+
+  const issues: string[] = [];
+  const analysis = isRecord(value.analysis) ? value.analysis : undefined;
+  const media = isRecord(value.media) ? value.media : undefined;
+
+  if (!analysis) {
+    issues.push('analysis must be an object');
+  } else {
+    try {
+      validateAnalysisResult(analysis, [], analysis.audio !== undefined ? 'audio' : undefined);
+    } catch (error) {
+      if (!(error instanceof AnalysisValidationError)) throw error;
+      issues.push(...error.fieldErrors.map(fieldError => `analysis: ${fieldError.message}`));
+    }
+    issues.push(
+      ...getCustomModuleIssues(analysis.customModules),
+      ...getProviderIssues(analysis.provider),
+      ...getTimelineIssues(analysis.timeline),
+      ...getWaveformIssues(analysis.waveform)
+    );
+  }
+
+  if (!isStringArray(value.styleCodes)) issues.push('styleCodes must be an array of strings');
+
+  if (!media || !['image', 'video', 'audio'].includes(media.type as string)) {
+    issues.push('media.type must be image, video or audio');
+  } else {
+    if (media.url !== undefined && (typeof media.url !== 'string' || !/^https?:\/\//.test(media.url))) {
+      issues.push('media.url must be an http(s) URL');
+    }
+    if (media.thumbnail !== undefined && typeof media.thumbnail !== 'string') issues.push('media.thumbnail must be a string');
+  }
+
+  if (value.source !== undefined && !isRecord(value.source)) issues.push('source must be an object');
+
+  if (issues.length > 0 || !analysis || !media) {
+    throw new StylePackError('Invalid style pack', issues);
+  }
+
+  // Only the known fields are copied over, so a stray id or extra keys never make it in
+  const validatedAnalysis = validateAnalysisResult(analysis, [], analysis.audio !== undefined ? 'audio' : undefined);
+  const validated: GeminiAnalysisResult = validatedAnalysis;
+  const source = value.source as StylePack['source'];
+  const timeline = analysis.timeline as VideoTimeline | undefined;
+
+  return {
+    format: STYLE_PACK_FORMAT,
+    version: value.version,
+    exportedAt: typeof value.exportedAt === 'string' ? value.exportedAt : '',
+    analysis: {
+      ...validated,
+      ...(analysis.provider !== undefined && { provider: analysis.provider as AnalysisResult['provider'] }),
+      ...(analysis.customModules !== undefined && {
+        customModules: (analysis.customModules as CustomModuleResult[]).map(({ id, name, color, icon, items }) => ({
+          id, name, color, icon, items
+        }))
+      }),
+      ...(timeline && {
+        timeline: {
+          sampling: timeline.sampling,
+          duration: timeline.duration,
+          segments: timeline.segments.map(({ start, end, keyframeUrl, style, prompt, animationPrompts }) => ({
+            start, end, ...(keyframeUrl !== undefined && { keyframeUrl }), style, prompt, animationPrompts
+          }))
+        }
+      }),
+      ...(validatedAnalysis.audio && { audio: validatedAnalysis.audio }),
+      ...(analysis.waveform !== undefined && { waveform: analysis.waveform as number[] })
+    },
+    styleCodes: value.styleCodes as string[],
+    media: {
+      type: media.type as StylePackMediaType,
+      ...(typeof media.url === 'string' && { url: media.url }),
+      ...(typeof media.thumbnail === 'string' && { thumbnail: media.thumbnail })
+    },
+    ...(source && { source })
+  };
+};
+
+export const stylePackToJSON = (pack: StylePack): string => JSON.stringify(pack, null, 2);
+
+/**
+ * Human-readable version of a pack, also included as the README of zipped packs
+ */
+export const stylePackToMarkdown = (pack: StylePack): string => {
+  const { analysis } = pack;
+  const lines: string[] = [
+    `# ${analysis.title}`,
+    '',
+    `**Style:** ${analysis.style}`,
+    '',
+    analysis.prompt,
+    '',
+    '## Key tokens',
+    '',
+    analysis.keyTokens.map(token => `\`${token}\``).join(' '),
+    ''
+  ];
+
+  if (analysis.audio) {
+    const { genre, bpm, key, instrumentation, mood, lyricThemes, structure } = analysis.audio;
+    lines.push(
+      '## Audio',
+      '',
+      `- **Genre:** ${genre}`,
+      `- **Tempo:** ${bpm !== null ? `${bpm} BPM` : 'Free time'}`,
+      `- **Key:** ${key}`,
+      ...(instrumentation.length > 0 ? [`- **Instrumentation:** ${instrumentation.join(', ')}`] : []),
+      ...(mood.length > 0 ? [`- **Mood:** ${mood.join(', ')}`] : []),
+      ...(lyricThemes.length > 0 ? [`- **Lyric themes:** ${lyricThemes.join(', ')}`] : []),
+      ''
+    );
+    if (structure.length > 0) {
+      lines.push('### Structure', '', ...structure.map(section => `- **${section.label}:** ${section.description}`), '');
+    }
+  }
+
+  const addSection = (name: string, items: string[]) => {
+    if (items.length === 0) return;
+    lines.push(`## ${name}`, '', ...items.map((item, index) => `${index + 1}. ${item}`), '');
+  };
+
+  [...TOP_MODULES, ...BOTTOM_MODULES].forEach(module => {
+    addSection(module.name.charAt(0) + module.name.slice(1).toLowerCase(), analysis[module.promptKey]);
+  });
+  analysis.customModules?.forEach(module => addSection(module.name, module.items));
+
+  if (pack.styleCodes.length > 0) {
+    lines.push('## Style codes', '', pack.styleCodes.map(code => `\`${code}\``).join(' '), '');
+  }
+
+  lines.push('---', '');
+  if (pack.media.url) lines.push(`Media: ${pack.media.url}`, '');
+  if (analysis.provider) lines.push(`Analyzed by ${analysis.provider.label} (${analysis.provider.model})`, '');
+  lines.push(`StyleDrop style pack v${pack.version}, exported ${pack.exportedAt}`);
+
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Zip a pack with its README and, when available, the media thumbnail
+ */
+export const createStylePackZip = (pack: StylePack, thumbnail?: { name: string; data: Uint8Array }): Uint8Array => {
+  const packWithThumbnail: StylePack = thumbnail
+    ? { ...pack, media: { ...pack.media, thumbnail: thumbnail.name } }
+    : pack;
+
+  return zipSync({
+    [STYLE_PACK_MANIFEST]: strToU8(stylePackToJSON(packWithThumbnail)),
+    [STYLE_PACK_README]: strToU8(stylePackToMarkdown(packWithThumbnail)),
+    // Images are already compressed
+    ...(thumbnail && { [thumbnail.name]: [thumbnail.data, { level: 0 }] })
+  });
+};
+
+const isZip = (bytes: Uint8Array) => bytes.length > 3 && bytes[0] === 0x50 && bytes[1] === 0x4b;
+
+/**
+ * Read a pack from the bytes of a .json or .zip file
+ */
+export const readStylePack = (bytes: Uint8Array): StylePackContents => {
+  if (!isZip(bytes)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(strFromU8(bytes));
+    } catch {
+      throw new StylePackError('Style pack is not valid JSON');
+    }
+    return { pack: validateStylePack(parsed) };
+  }
+
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(bytes);
+  } catch {
+    throw new StylePackError('Style pack zip could not be read');
+  }
+
+  const manifest = entries[STYLE_PACK_MANIFEST];
+  if (!manifest) {
+    throw new StylePackError(`Style pack zip is missing ${STYLE_PACK_MANIFEST}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(strFromU8(manifest));
+  } catch {
+    throw new StylePackError(`${STYLE_PACK_MANIFEST} is not valid JSON`);
+  }
+
+  const pack = validateStylePack(parsed);
+  const thumbnailData = pack.media.thumbnail ? entries[pack.media.thumbnail] : undefined;
+
+  return {
+    pack,
+    ...(thumbnailData && { thumbnail: { name: pack.media.thumbnail!, data: thumbnailData } })
+  };
+};
+
+export const getStylePackFileName = (pack: StylePack, extension: 'json' | 'md' | 'zip'): string =>
+  `${slugifyStyle(pack.analysis.title) || 'analysis'}-style-pack.${extension}`;
+
+/**
+ * Zip several packs together, each as its own importable style pack zip
+ */
+export const createStylePackBundle = (
+  packs: { pack: StylePack; thumbnail?: { name: string; data: Uint8Array } }[]
+): Uint8Array => {
+  const entries: Record<string, [Uint8Array, { level: 0 }]> = {};
+
+  packs.forEach(({ pack, thumbnail }) => {
+    const baseName = getStylePackFileName(pack, 'zip').replace(/\.zip$/, '');
+    let name = `${baseName}.zip`;
+    for (let copy = 2; entries[name]; copy++) {
+      name = `${baseName}-${copy}.zip`;
+    }
+    entries[name] = [createStylePackZip(pack, thumbnail), { level: 0 }];
+  });
+
+  return zipSync(entries);
+};
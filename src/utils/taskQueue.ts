@@ -0,0 +1,88 @@
+/**
+ * Client-side task queue with a concurrency limit and retries
+ *
+ * Runs a worker over a list of items, at most `concurrency` at a time. A failed item is
+ * retried with exponential backoff before it is reported as failed; the other items
+ * keep going either way.
+ */
+
+export interface TaskQueueOptions {
+  concurrency: number;
+  retries: number; // Extra attempts after the first failure
+  retryDelayMs: number; // Doubled after every failed attempt
+  signal?: AbortSignal; // Aborting stops starting new attempts; running ones finish
+}
+
+export type TaskEvent<R> =
+  | { index: number; status: 'running'; attempt: number }
+  | { index: number; status: 'retrying'; attempt: number; error: unknown; delayMs: number }
+  | { index: number; status: 'done'; result: R }
+  | { index: number; status: 'failed'; error: unknown }
+  | { index: number; status: 'cancelled' };
+
+export type TaskOutcome<R> =
+  | { status: 'done'; result: R }
+  | { status: 'failed'; error: unknown }
+  | { status: 'cancelled' };
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  if (ms <= 0 || signal?.aborted) {
+    resolve();
+    return;
+  }
+
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Process every item and resolve with one outcome per item, in input order.
+ * Never rejects; worker errors end up as 'failed' outcomes.
+ */
+export const runTaskQueue = async <T, R>(
+  items: T[],
+  worker: (item: T, index: number, attempt: number) => Promise<R>,
+  options: TaskQueueOptions,
+  onEvent?: (event: TaskEvent<R>) => void
+): Promise<TaskOutcome<R>[]> => {
+  const outcomes: TaskOutcome<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const processItem = async (index: number): Promise<TaskOutcome<R>> => {
+    for (let attempt = 1; ; attempt++) {
+      if (options.signal?.aborted) return { status: 'cancelled' };
+
+      onEvent?.({ index, status: 'running', attempt });
+      try {
+        return { status: 'done', result: await worker(items[index], index, attempt) };
+      } catch (error) {
+        if (attempt > options.retries) return { status: 'failed', error };
+
+        const delayMs = options.retryDelayMs * 2 ** (attempt - 1);
+        onEvent?.({ index, status: 'retrying', attempt, error, delayMs });
+        await wait(delayMs, options.signal);
+      }
+    }
+  };
+
+  const runLane = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      const outcome = await processItem(index);
+      outcomes[index] = outcome;
+      onEvent?.({ index, ...outcome });
+    }
+  };
+
+  const laneCount = Math.max(1, Math.min(options.concurrency, items.length));
+  await Promise.all(Array.from({ length: laneCount }, runLane));
+
+  return outcomes;
+};
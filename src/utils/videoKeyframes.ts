@@ -0,0 +1,223 @@
+/**
+ * Video keyframe sampling for scene timelines
+ *
+ * Keyframes are taken either at fixed intervals or at detected scene cuts. Cuts are
+ * found by scanning small frames and comparing each one to the previous; the frame
+ * after a large enough change starts a new scene.
+ */
+
+export type KeyframeSampling = 'interval' | 'scenes';
+
+export interface KeyframeSamplingOptions {
+  sampling: KeyframeSampling;
+  maxKeyframes: number;
+  intervalSeconds: number;
+  scanStepSeconds: number;
+  maxScanFrames: number;
+  sceneCutThreshold: number; // Mean pixel difference (0-1)
+  minSceneSeconds: number;
+  keyframeWidth: number;
+  quality?: number; // JPEG quality 0-1 (default: 0.8)
+}
+
+export interface Keyframe {
+  time: number; // Seconds
+  file: File;
+}
+
+export interface FrameSample {
+  time: number;
+  difference: number; // Change from the previous sample, 0-1
+}
+
+// Keyframe times are kept to the hundredth of a second
+const roundTime = (seconds: number) => Math.round(seconds * 100) / 100;
+
+/**
+ * Evenly spaced keyframe times starting at 0. The interval grows for long videos so
+ * the keyframes never run out before the end of the clip.
+ */
+export const getIntervalTimes = (duration: number, intervalSeconds: number, maxKeyframes: number): number[] => {
+  if (!(duration > 0) || maxKeyframes < 1) return [0];
+
+  const interval = Math.max(intervalSeconds, duration / maxKeyframes);
+  const times: number[] = [];
+  for (let time = 0; time < duration && times.length < maxKeyframes; time += interval) {
+    times.push(roundTime(time));
+  }
+  return times;
+};
+
+/**
+ * Keyframe times at scene cuts: 0, then every sample whose difference reaches the
+ * threshold and isn't too close to the previous cut. With more cuts than keyframes
+ * allow, the strongest ones are kept.
+ */
+export const getSceneCutTimes = (
+  samples: FrameSample[],
+  options: { threshold: number; minSceneSeconds: number; maxKeyframes: number }
+): number[] => {
+  const cuts: FrameSample[] = [];
+  let lastCutTime = 0;
+
+  for (const sample of samples) {
+    if (sample.difference < options.threshold || sample.time - lastCutTime < options.minSceneSeconds) continue;
+    cuts.push(sample);
+    lastCutTime = sample.time;
+  }
+
+  const kept = cuts
+    .sort((a, b) => b.difference - a.difference)
+    .slice(0, Math.max(0, options.maxKeyframes - 1))
+    .map(cut => roundTime(cut.time))
+    .sort((a, b) => a - b);
+
+  return [0, ...kept];
+};
+
+/**
+ * Mean per-channel difference between two RGBA frames of the same size, from 0 to 1
+ */
+export const getFrameDifference = (a: Uint8ClampedArray, b: Uint8ClampedArray): number => {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 0;
+
+  let total = 0;
+  let channels = 0;
+  for (let i = 0; i < length; i += 4) {
+    // Alpha is always opaque for video frames, so only RGB is compared
+    total += Math.abs(a[i] - b[i]) + Math.abs(a[i + 1] - b[i + 1]) + Math.abs(a[i + 2] - b[i + 2]);
+    channels += 3;
+  }
+
+  return total / (channels * 255);
+};
+
+/**
+ * Turn sorted keyframe times into back-to-back segments covering the whole video
+ */
+export const buildTimelineSegments = (times: number[], duration: number): { start: number; end: number }[] =>
+  times.map((start, index) => ({
+    start,
+    end: index < times.length - 1 ? times[index + 1] : roundTime(Math.max(duration, start))
+  }));
+
+// m:ss label for a position in the video
+export const formatTimestamp = (seconds: number): string => {
+  const totalSeconds = Math.floor(seconds);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+const loadVideo = (file: File): Promise<HTMLVideoElement> => new Promise((resolve, reject) => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  video.addEventListener('loadeddata', () => resolve(video), { once: true });
+  video.addEventListener('error', () => {
+    URL.revokeObjectURL(video.src);
+    reject(new Error('Video loading failed'));
+  }, { once: true });
+
+  video.src = URL.createObjectURL(file);
+  video.load();
+});
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => new Promise((resolve, reject) => {
+  const onSeeked = () => {
+    video.removeEventListener('error', onError);
+    resolve();
+  };
+  const onError = () => {
+    video.removeEventListener('seeked', onSeeked);
+    reject(new Error(`Failed to seek video to ${time}s`));
+  };
+
+  video.addEventListener('seeked', onSeeked, { once: true });
+  video.addEventListener('error', onError, { once: true });
+  video.currentTime = time;
+});
+
+const canvasToFile = (canvas: HTMLCanvasElement, fileName: string, quality: number): Promise<File> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(new File([blob], fileName, { type: 'image/jpeg' }));
+      } else {
+        reject(new Error('Failed to encode keyframe'));
+      }
+    }, 'image/jpeg', quality);
+  });
+
+/**
+ * Scan the video at a low resolution and report how much each frame differs from the last
+ */
+const scanFrameDifferences = async (
+  video: HTMLVideoElement,
+  options: KeyframeSamplingOptions
+): Promise<FrameSample[]> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 64;
+  canvas.height = 36;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  const step = Math.max(options.scanStepSeconds, video.duration / options.maxScanFrames);
+  const samples: FrameSample[] = [];
+  let previous: Uint8ClampedArray | null = null;
+
+  for (let time = 0; time < video.duration; time += step) {
+    await seekTo(video, time);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const frame = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+
+    if (previous) samples.push({ time, difference: getFrameDifference(previous, frame) });
+    previous = frame;
+  }
+
+  return samples;
+};
+
+/**
+ * Sample keyframes from a video file as JPEG files, with the video duration
+ */
+export const sampleVideoKeyframes = async (
+  file: File,
+  options: KeyframeSamplingOptions
+): Promise<{ duration: number; keyframes: Keyframe[] }> => {
+  const video = await loadVideo(file);
+
+  try {
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+
+    const times = options.sampling === 'scenes' && duration > 0
+      ? getSceneCutTimes(await scanFrameDifferences(video, options), {
+          threshold: options.sceneCutThreshold,
+          minSceneSeconds: options.minSceneSeconds,
+          maxKeyframes: options.maxKeyframes
+        })
+      : getIntervalTimes(duration, options.intervalSeconds, options.maxKeyframes);
+
+    // Keep the video's aspect ratio instead of stretching it into a fixed box
+    const canvas = document.createElement('canvas');
+    canvas.width = options.keyframeWidth;
+    canvas.height = Math.round(options.keyframeWidth * (video.videoHeight / video.videoWidth || 9 / 16));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    const baseName = file.name.replace(/\.[^/.]+$/, '');
+    const keyframes: Keyframe[] = [];
+    for (const [index, time] of times.entries()) {
+      await seekTo(video, time);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      keyframes.push({ time, file: await canvasToFile(canvas, `keyframe_${baseName}_${index + 1}.jpg`, options.quality ?? 0.8) });
+    }
+
+    return { duration, keyframes };
+  } finally {
+    URL.revokeObjectURL(video.src);
+    video.removeAttribute('src');
+    video.load();
+  }
+};
@@ -0,0 +1,692 @@
+/**
+ * Analysis result schema, validation and fallback parsing
+ *
+ * Shared by the analyze-media edge function (Deno) and the client, so this file
+ * must not import anything.
+ */
+
+export interface GeminiAnalysisResult {
+  title: string;
+  style: string;
+  prompt: string;
+  keyTokens: string[];
+  creativeRemixes: string[];
+  outpaintingPrompts: string[];
+  animationPrompts: string[];
+  musicPrompts: string[];
+  dialoguePrompts: string[];
+  storyPrompts: string[];
+}
+
+export type AnalysisField = keyof GeminiAnalysisResult;
+
+export type MediaType = 'image' | 'video' | 'audio';
+
+export type AnalysisProviderId = 'gemini' | 'openai' | 'mock';
+
+// Which backend produced an analysis, returned alongside every result
+export interface AnalysisProviderInfo {
+  id: AnalysisProviderId;
+  label: string;
+  model: string;
+}
+
+// A user-defined module requested alongside the built-in ones
+export interface CustomModuleSpec {
+  id: string;
+  name: string;
+  instruction: string; // What the model should write for this module
+  itemCount: number;
+  minWords?: number | null;
+  maxWords?: number | null;
+}
+
+// Custom module items keyed by module id, returned under `customModules`
+export type CustomModuleOutputs = Record<string, string[]>;
+
+// A section of a track's arrangement, e.g. intro, verse or chorus
+export interface AudioStructureSection {
+  label: string;
+  start?: number; // Estimated start in seconds, when the model gave a usable one
+  description: string;
+}
+
+// Music-specific details returned for audio, under `audio`
+export interface AudioAnalysis {
+  genre: string;
+  bpm: number | null; // Estimated tempo, null when there is no steady beat
+  key: string; // e.g. "A minor", or "Unknown"
+  instrumentation: string[];
+  mood: string[];
+  lyricThemes: string[]; // Empty for instrumentals
+  structure: AudioStructureSection[];
+}
+
+export type ValidatedAnalysis = GeminiAnalysisResult & { customModules?: CustomModuleOutputs; audio?: AudioAnalysis };
+
+export const CUSTOM_MODULE_LIMITS = {
+  MAX_MODULES: 6, // Per analysis
+  MAX_ITEMS: 10,
+  MAX_NAME_LENGTH: 40,
+  MAX_INSTRUCTION_LENGTH: 500
+} as const;
+
+type AnalysisFieldKind = 'string' | 'string[]';
+
+// Single source of truth for the result shape; the Record type forces every field to be listed
+export const ANALYSIS_FIELDS: Record<AnalysisField, AnalysisFieldKind> = {
+  title: 'string',
+  style: 'string',
+  prompt: 'string',
+  keyTokens: 'string[]',
+  creativeRemixes: 'string[]',
+  outpaintingPrompts: 'string[]',
+  animationPrompts: 'string[]',
+  musicPrompts: 'string[]',
+  dialoguePrompts: 'string[]',
+  storyPrompts: 'string[]'
+};
+
+const ANALYSIS_FIELD_NAMES = Object.keys(ANALYSIS_FIELDS) as AnalysisField[];
+
+// Prompt lists a module cycles through, each of which can be regenerated on its own
+export const PROMPT_LIST_FIELDS = [
+  'storyPrompts',
+  'animationPrompts',
+  'dialoguePrompts',
+  'creativeRemixes',
+  'outpaintingPrompts',
+  'musicPrompts'
+] as const;
+
+export type PromptListKey = typeof PROMPT_LIST_FIELDS[number];
+
+export const isPromptListKey = (value: unknown): value is PromptListKey =>
+  typeof value === 'string' && (PROMPT_LIST_FIELDS as readonly string[]).includes(value);
+
+// Gemini responseSchema (OpenAPI subset) generated from ANALYSIS_FIELDS
+export const ANALYSIS_RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: Object.fromEntries(
+    ANALYSIS_FIELD_NAMES.map(field => [
+      field,
+      ANALYSIS_FIELDS[field] === 'string'
+        ? { type: 'STRING' }
+        : { type: 'ARRAY', items: { type: 'STRING' } }
+    ])
+  ),
+  required: ANALYSIS_FIELD_NAMES,
+  propertyOrdering: ANALYSIS_FIELD_NAMES
+};
+
+// Standard JSON Schema for OpenAI-compatible structured outputs
+export const ANALYSIS_JSON_SCHEMA = {
+  type: 'object',
+  properties: Object.fromEntries(
+    ANALYSIS_FIELD_NAMES.map(field => [
+      field,
+      ANALYSIS_FIELDS[field] === 'string'
+        ? { type: 'string' }
+        : { type: 'array', items: { type: 'string' } }
+    ])
+  ),
+  required: ANALYSIS_FIELD_NAMES,
+  additionalProperties: false
+};
+
+const AUDIO_FIELD_NAMES = ['genre', 'bpm', 'key', 'instrumentation', 'mood', 'lyricThemes', 'structure'];
+
+const AUDIO_RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    genre: { type: 'STRING' },
+    bpm: { type: 'NUMBER', nullable: true },
+    key: { type: 'STRING' },
+    instrumentation: { type: 'ARRAY', items: { type: 'STRING' } },
+    mood: { type: 'ARRAY', items: { type: 'STRING' } },
+    lyricThemes: { type: 'ARRAY', items: { type: 'STRING' } },
+    structure: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: { label: { type: 'STRING' }, start: { type: 'NUMBER' }, description: { type: 'STRING' } },
+        required: ['label', 'start', 'description'],
+        propertyOrdering: ['label', 'start', 'description']
+      }
+    }
+  },
+  required: AUDIO_FIELD_NAMES,
+  propertyOrdering: AUDIO_FIELD_NAMES
+};
+
+const AUDIO_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    genre: { type: 'string' },
+    bpm: { type: ['number', 'null'] },
+    key: { type: 'string' },
+    instrumentation: { type: 'array', items: { type: 'string' } },
+    mood: { type: 'array', items: { type: 'string' } },
+    lyricThemes: { type: 'array', items: { type: 'string' } },
+    structure: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { label: { type: 'string' }, start: { type: 'number' }, description: { type: 'string' } },
+        required: ['label', 'start', 'description'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: AUDIO_FIELD_NAMES,
+  additionalProperties: false
+};
+
+/**
+ * Gemini responseSchema for an analysis that also asks for custom modules and, for
+ * audio, the music details
+ */
+export const buildAnalysisResponseSchema = (customModules: CustomModuleSpec[] = [], mediaType?: MediaType) => {
+  if (customModules.length === 0 && mediaType !== 'audio') return ANALYSIS_RESPONSE_SCHEMA;
+
+  const ids = customModules.map(module => module.id);
+  const extraFields = [...(ids.length > 0 ? ['customModules'] : []), ...(mediaType === 'audio' ? ['audio'] : [])];
+
+  return {
+    ...ANALYSIS_RESPONSE_SCHEMA,
+    properties: {
+      ...ANALYSIS_RESPONSE_SCHEMA.properties,
+      ...(ids.length > 0 && {
+        customModules: {
+          type: 'OBJECT',
+          properties: Object.fromEntries(ids.map(id => [id, { type: 'ARRAY', items: { type: 'STRING' } }])),
+          required: ids,
+          propertyOrdering: ids
+        }
+      }),
+      ...(mediaType === 'audio' && { audio: AUDIO_RESPONSE_SCHEMA })
+    },
+    required: [...ANALYSIS_FIELD_NAMES, ...extraFields],
+    propertyOrdering: [...ANALYSIS_FIELD_NAMES, ...extraFields]
+  };
+};
+
+/**
+ * JSON Schema for an analysis that also asks for custom modules and, for audio, the music details
+ */
+export const buildAnalysisJsonSchema = (customModules: CustomModuleSpec[] = [], mediaType?: MediaType) => {
+  if (customModules.length === 0 && mediaType !== 'audio') return ANALYSIS_JSON_SCHEMA;
+
+  const ids = customModules.map(module => module.id);
+  return {
+    ...ANALYSIS_JSON_SCHEMA,
+    properties: {
+      ...ANALYSIS_JSON_SCHEMA.properties,
+      ...(ids.length > 0 && {
+        customModules: {
+          type: 'object',
+          properties: Object.fromEntries(ids.map(id => [id, { type: 'array', items: { type: 'string' } }])),
+          required: ids,
+          additionalProperties: false
+        }
+      }),
+      ...(mediaType === 'audio' && { audio: AUDIO_JSON_SCHEMA })
+    },
+    required: [
+      ...ANALYSIS_FIELD_NAMES,
+      ...(ids.length > 0 ? ['customModules'] : []),
+      ...(mediaType === 'audio' ? ['audio'] : [])
+    ]
+  };
+};
+
+// Response schemas for regenerating a single prompt list
+export const VARIATIONS_RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: { variations: { type: 'ARRAY', items: { type: 'STRING' } } },
+  required: ['variations']
+};
+
+export const VARIATIONS_JSON_SCHEMA = {
+  type: 'object',
+  properties: { variations: { type: 'array', items: { type: 'string' } } },
+  required: ['variations'],
+  additionalProperties: false
+};
+
+// One keyframe of a video timeline, analyzed on its own
+export interface VideoSegmentAnalysis {
+  style: string;
+  prompt: string;
+  animationPrompts: string[];
+}
+
+export const TIMELINE_LIMITS = {
+  MAX_KEYFRAMES: 12 // Per video
+} as const;
+
+const SEGMENT_ITEM_RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    style: { type: 'STRING' },
+    prompt: { type: 'STRING' },
+    animationPrompts: { type: 'ARRAY', items: { type: 'STRING' } }
+  },
+  required: ['style', 'prompt', 'animationPrompts'],
+  propertyOrdering: ['style', 'prompt', 'animationPrompts']
+};
+
+// Response schemas for analyzing the keyframes of a video timeline, one segment per keyframe
+export const SEGMENTS_RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: { segments: { type: 'ARRAY', items: SEGMENT_ITEM_RESPONSE_SCHEMA } },
+  required: ['segments']
+};
+
+export const SEGMENTS_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    segments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          style: { type: 'string' },
+          prompt: { type: 'string' },
+          animationPrompts: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['style', 'prompt', 'animationPrompts'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['segments'],
+  additionalProperties: false
+};
+
+export type AnalysisFieldErrorCode =
+  | 'not_object'
+  | 'missing'
+  | 'not_string'
+  | 'empty_string'
+  | 'not_array'
+  | 'invalid_item';
+
+export interface AnalysisFieldError {
+  field: AnalysisField | 'customModules' | 'audio' | '$root';
+  code: AnalysisFieldErrorCode;
+  message: string;
+  index?: number; // Position of the offending item in array fields
+  moduleId?: string; // Custom module the error refers to
+}
+
+export class AnalysisValidationError extends Error {
+  readonly fieldErrors: AnalysisFieldError[];
+
+  constructor(fieldErrors: AnalysisFieldError[]) {
+    super(`Invalid analysis result: ${fieldErrors.map(error => error.message).join('; ')}`);
+    this.name = 'AnalysisValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+export class AnalysisParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalysisParseError';
+  }
+}
+
+/**
+ * Collect every field-level problem with a parsed result instead of stopping at the first one
+ */
+export const getAnalysisFieldErrors = (value: unknown): AnalysisFieldError[] => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [{ field: '$root', code: 'not_object', message: 'Analysis result must be a JSON object' }];
+  }
+
+  const result = value as Record<string, unknown>;
+  const errors: AnalysisFieldError[] = [];
+
+  for (const field of ANALYSIS_FIELD_NAMES) {
+    const fieldValue = result[field];
+
+    if (fieldValue === undefined || fieldValue === null) {
+      errors.push({ field, code: 'missing', message: `Missing required field '${field}'` });
+      continue;
+    }
+
+    if (ANALYSIS_FIELDS[field] === 'string') {
+      if (typeof fieldValue !== 'string') {
+        errors.push({ field, code: 'not_string', message: `Field '${field}' must be a string` });
+      } else if (fieldValue.trim() === '') {
+        errors.push({ field, code: 'empty_string', message: `Field '${field}' must be a non-empty string` });
+      }
+      continue;
+    }
+
+    if (!Array.isArray(fieldValue)) {
+      errors.push({ field, code: 'not_array', message: `Field '${field}' must be an array` });
+      continue;
+    }
+
+    fieldValue.forEach((item, index) => {
+      if (typeof item !== 'string') {
+        errors.push({ field, code: 'invalid_item', index, message: `Field '${field}[${index}]' must be a string` });
+      }
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Check the `customModules` object holds an item list for every requested module
+ */
+export const getCustomModuleErrors = (value: unknown, customModules: CustomModuleSpec[]): AnalysisFieldError[] => {
+  const outputs = (typeof value === 'object' && value !== null)
+    ? (value as Record<string, unknown>).customModules
+    : undefined;
+
+  if (typeof outputs !== 'object' || outputs === null || Array.isArray(outputs)) {
+    return [{ field: 'customModules', code: 'missing', message: "Missing required field 'customModules'" }];
+  }
+
+  const errors: AnalysisFieldError[] = [];
+
+  for (const module of customModules) {
+    const items = (outputs as Record<string, unknown>)[module.id];
+
+    if (!Array.isArray(items)) {
+      errors.push({
+        field: 'customModules',
+        code: items === undefined ? 'missing' : 'not_array',
+        moduleId: module.id,
+        message: `Custom module '${module.name}' must be an array`
+      });
+      continue;
+    }
+
+    items.forEach((item, index) => {
+      if (typeof item !== 'string') {
+        errors.push({
+          field: 'customModules',
+          code: 'invalid_item',
+          moduleId: module.id,
+          index,
+          message: `Custom module '${module.name}[${index}]' must be a string`
+        });
+      }
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Check the `audio` object has the music details. Only the text fields and lists are
+ * required to be well-formed; a bad bpm or section start is dropped instead.
+ */
+export const getAudioAnalysisErrors = (value: unknown): AnalysisFieldError[] => {
+  const audio = (typeof value === 'object' && value !== null)
+    ? (value as Record<string, unknown>).audio
+    : undefined;
+
+  if (typeof audio !== 'object' || audio === null || Array.isArray(audio)) {
+    return [{ field: 'audio', code: 'missing', message: "Missing required field 'audio'" }];
+  }
+
+  const details = audio as Record<string, unknown>;
+  const errors: AnalysisFieldError[] = [];
+
+  for (const key of ['genre', 'key']) {
+    if (typeof details[key] !== 'string' || !(details[key] as string).trim()) {
+      errors.push({ field: 'audio', code: 'empty_string', message: `Field 'audio.${key}' must be a non-empty string` });
+    }
+  }
+
+  for (const key of ['instrumentation', 'mood', 'lyricThemes']) {
+    const items = details[key];
+    if (!Array.isArray(items)) {
+      errors.push({ field: 'audio', code: 'not_array', message: `Field 'audio.${key}' must be an array` });
+    } else if (items.some(item => typeof item !== 'string')) {
+      errors.push({ field: 'audio', code: 'invalid_item', message: `Field 'audio.${key}' must only contain strings` });
+    }
+  }
+
+  if (!Array.isArray(details.structure)) {
+    errors.push({ field: 'audio', code: 'not_array', message: "Field 'audio.structure' must be an array" });
+  } else {
+    details.structure.forEach((section, index) => {
+      const { label, description } = (section ?? {}) as Record<string, unknown>;
+      if (typeof label !== 'string' || typeof description !== 'string') {
+        errors.push({
+          field: 'audio',
+          code: 'invalid_item',
+          index,
+          message: `Field 'audio.structure[${index}]' must have a string label and description`
+        });
+      }
+    });
+  }
+
+  return errors;
+};
+
+const normalizeAudioAnalysis = (audio: Record<string, unknown>): AudioAnalysis => {
+  const trimList = (items: unknown) => (items as string[]).map(item => item.trim()).filter(item => item !== '');
+  const bpm = audio.bpm;
+
+  return {
+    genre: (audio.genre as string).trim(),
+    bpm: typeof bpm === 'number' && Number.isFinite(bpm) && bpm > 0 ? Math.round(bpm) : null,
+    key: (audio.key as string).trim(),
+    instrumentation: trimList(audio.instrumentation),
+    mood: trimList(audio.mood),
+    lyricThemes: trimList(audio.lyricThemes),
+    structure: (audio.structure as Record<string, unknown>[]).map(section => ({
+      label: (section.label as string).trim(),
+      ...(typeof section.start === 'number' && Number.isFinite(section.start) && section.start >= 0 && {
+        start: Math.round(section.start * 10) / 10
+      }),
+      description: (section.description as string).trim()
+    }))
+  };
+};
+
+/**
+ * Validate a parsed result and return a trimmed copy, including the items of any
+ * requested custom modules and, for audio, the music details. Throws
+ * AnalysisValidationError listing every invalid field.
+ */
+export const validateAnalysisResult = (
+  value: unknown,
+  customModules: CustomModuleSpec[] = [],
+  mediaType?: MediaType
+): ValidatedAnalysis => {
+  const errors = [
+    ...getAnalysisFieldErrors(value),
+    ...(customModules.length > 0 ? getCustomModuleErrors(value, customModules) : []),
+    ...(mediaType === 'audio' ? getAudioAnalysisErrors(value) : [])
+  ];
+  if (errors.length > 0) {
+    throw new AnalysisValidationError(errors);
+  }
+
+  const result = value as GeminiAnalysisResult & { customModules: Record<string, string[]>; audio: Record<string, unknown> };
+  const trimList = (items: string[]) => items.map(item => item.trim());
+
+  const validated: ValidatedAnalysis = {
+    title: result.title.trim(),
+    style: result.style.trim(),
+    prompt: result.prompt.trim(),
+    keyTokens: trimList(result.keyTokens),
+    creativeRemixes: trimList(result.creativeRemixes),
+    outpaintingPrompts: trimList(result.outpaintingPrompts),
+    animationPrompts: trimList(result.animationPrompts),
+    musicPrompts: trimList(result.musicPrompts),
+    dialoguePrompts: trimList(result.dialoguePrompts),
+    storyPrompts: trimList(result.storyPrompts)
+  };
+
+  if (customModules.length > 0) {
+    validated.customModules = Object.fromEntries(
+      customModules.map(module => [module.id, trimList(result.customModules[module.id])])
+    );
+  }
+
+  if (mediaType === 'audio') {
+    validated.audio = normalizeAudioAnalysis(result.audio);
+  }
+
+  return validated;
+};
+
+/**
+ * Pull a JSON object out of free-form model text.
+ * Only for responses generated without schema mode: handles markdown code blocks,
+ * backticks, surrounding prose, trailing commas and smart quotes.
+ */
+export const extractAnalysisJSON = (responseText: string): unknown => {
+  const trimmed = responseText.trim();
+
+  // Already clean JSON
+  if (trimmed.startsWith('{') && trimmed.endsWith('}')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      // Fall through to cleaning
+    }
+  }
+
+  let cleanedText = trimmed
+    // Remove opening and closing code blocks
+    .replace(/^```\s*(?:json)?\s*\n?/i, '')
+    .replace(/\n?\s*```\s*$/, '')
+    // Remove any remaining backticks at start/end
+    .replace(/^`+|`+$/g, '')
+    .trim();
+
+  // Keep only the outermost object
+  const firstBrace = cleanedText.indexOf('{');
+  const lastBrace = cleanedText.lastIndexOf('}');
+  if (firstBrace === -1 || lastBrace <= firstBrace) {
+    throw new AnalysisParseError('No JSON object found in response');
+  }
+  cleanedText = cleanedText.substring(firstBrace, lastBrace + 1);
+
+  // Remove trailing commas before closing brackets/braces
+  cleanedText = cleanedText.replace(/,(\s*[}\]])/g, '$1');
+
+  try {
+    return JSON.parse(cleanedText);
+  } catch {
+    // Retry below assuming smart quotes were used as delimiters. Not done up front
+    // because they are valid inside string values.
+  }
+
+  try {
+    return JSON.parse(cleanedText.replace(/[“”]/g, '"').replace(/[‘’]/g, "'"));
+  } catch (error) {
+    throw new AnalysisParseError(
+      `Failed to parse response JSON: ${error instanceof Error ? error.message : 'Unknown parsing error'}`
+    );
+  }
+};
+
+// Schema-mode responses are strict JSON and are never scraped
+const parseModelJSON = (responseText: string, schemaMode: boolean): unknown => {
+  if (!schemaMode) {
+    return extractAnalysisJSON(responseText);
+  }
+
+  try {
+    return JSON.parse(responseText);
+  } catch (error) {
+    throw new AnalysisParseError(
+      `Schema-mode response is not valid JSON: ${error instanceof Error ? error.message : 'Unknown parsing error'}`
+    );
+  }
+};
+
+/**
+ * Parse and validate model output. Schema-mode responses are strict JSON and are
+ * never scraped; text extraction only runs for responses produced without a schema.
+ */
+export const parseAnalysisText = (
+  responseText: string,
+  options: { schemaMode: boolean; customModules?: CustomModuleSpec[]; mediaType?: MediaType }
+): ValidatedAnalysis => validateAnalysisResult(
+  parseModelJSON(responseText, options.schemaMode),
+  options.customModules ?? [],
+  options.mediaType
+);
+
+/**
+ * Parse regenerated variations for a single prompt list, dropping blank entries
+ */
+export const parseVariationsText = (
+  responseText: string,
+  options: { schemaMode: boolean }
+): string[] => {
+  const parsed = parseModelJSON(responseText, options.schemaMode);
+  const variations = (typeof parsed === 'object' && parsed !== null)
+    ? (parsed as { variations?: unknown }).variations
+    : undefined;
+
+  if (!Array.isArray(variations)) {
+    throw new AnalysisParseError("Response is missing the 'variations' array");
+  }
+
+  const cleaned = variations
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(item => item !== '');
+
+  if (cleaned.length === 0) {
+    throw new AnalysisParseError('Response contained no usable variations');
+  }
+
+  return cleaned;
+};
+
+/**
+ * Parse the per-keyframe analyses of a video timeline. The model must describe every
+ * keyframe, in order; extra segments are dropped.
+ */
+export const parseSegmentsText = (
+  responseText: string,
+  options: { schemaMode: boolean; count: number }
+): VideoSegmentAnalysis[] => {
+  const parsed = parseModelJSON(responseText, options.schemaMode);
+  const segments = (typeof parsed === 'object' && parsed !== null)
+    ? (parsed as { segments?: unknown }).segments
+    : undefined;
+
+  if (!Array.isArray(segments)) {
+    throw new AnalysisParseError("Response is missing the 'segments' array");
+  }
+
+  if (segments.length < options.count) {
+    throw new AnalysisParseError(`Expected ${options.count} segments but got ${segments.length}`);
+  }
+
+  return segments.slice(0, options.count).map((segment, index) => {
+    const { style, prompt, animationPrompts } = (segment ?? {}) as Record<string, unknown>;
+
+    if (typeof style !== 'string' || !style.trim() || typeof prompt !== 'string' || !prompt.trim()) {
+      throw new AnalysisParseError(`Segment ${index + 1} must have a non-empty style and prompt`);
+    }
+
+    return {
+      style: style.trim(),
+      prompt: prompt.trim(),
+      animationPrompts: Array.isArray(animationPrompts)
+        ? animationPrompts
+            .filter((item): item is string => typeof item === 'string')
+            .map(item => item.trim())
+            .filter(item => item !== '')
+        : []
+    };
+  });
+};
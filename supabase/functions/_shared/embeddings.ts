@@ -0,0 +1,91 @@
+/**
+ * Style embeddings shared by the analyze-media edge function and the client
+ *
+ * A post is embedded from its prompt plus keyTokens, so "More like this" finds posts
+ * described the same way rather than posts with a similar title. Every provider returns
+ * vectors of EMBEDDING_DIMENSIONS so they fit the posts.embedding pgvector column.
+ */
+
+import type { GeminiAnalysisResult } from './analysisSchema.ts';
+
+// Must match the vector(768) column in the posts table
+export const EMBEDDING_DIMENSIONS = 768;
+
+// Embedded per request, and per batch when backfilling
+export const EMBEDDING_BATCH_SIZE = 32;
+
+// Model id stored next to the vectors of the deterministic embedder
+export const LOCAL_EMBEDDING_MODEL = 'local-hash-v1';
+
+/**
+ * Text a post is embedded from: the prompt, then its key tokens on their own line
+ */
+export const buildEmbeddingText = (analysis: Pick<GeminiAnalysisResult, 'prompt' | 'keyTokens'>): string => {
+  const tokens = (analysis.keyTokens || []).map(token => token.trim()).filter(Boolean);
+  return [analysis.prompt.trim(), tokens.length > 0 ? `Key tokens: ${tokens.join(', ')}` : '']
+    .filter(Boolean)
+    .join('\n');
+};
+
+// 32-bit FNV-1a, stable across runtimes
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').match(/[a-z0-9]+/g) ?? [];
+
+/**
+ * Scale a vector to unit length, so cosine similarity is a dot product. Zero vectors
+ * are returned unchanged.
+ */
+export const normalizeVector = (vector: number[]): number[] => {
+  const length = Math.hypot(...vector);
+  return length > 0 ? vector.map(value => value / length) : vector;
+};
+
+/**
+ * Deterministic embedding from hashed words and word pairs. No model or network is
+ * needed, so tests and the mock provider get stable vectors; texts sharing words end
+ * up close together, which is enough to exercise similarity search.
+ */
+export const createLocalEmbedding = (text: string, dimensions: number = EMBEDDING_DIMENSIONS): number[] => {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = tokenize(text).filter(word => word.length > 1);
+  const features = [...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)];
+
+  for (const feature of features) {
+    const hash = hashString(feature);
+    // The top bit picks the sign so collisions cancel out instead of piling up
+    vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+  }
+
+  return normalizeVector(vector);
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Check a provider embedding has the expected size and only finite numbers
+ */
+export const isValidEmbedding = (value: unknown, dimensions: number = EMBEDDING_DIMENSIONS): value is number[] =>
+  Array.isArray(value) && value.length === dimensions && value.every(item => typeof item === 'number' && Number.isFinite(item));
+
+// pgvector text representation, e.g. "[0.1,0.2]"
+export const toVectorLiteral = (vector: number[]): string => `[${vector.join(',')}]`;
@@ -0,0 +1,56 @@
+/**
+ * Media URL checks shared by the analyze-media edge function and the client
+ *
+ * Only objects under the R2 public base URL count as StyleDrop media. URLs are compared
+ * parsed, by origin and whole path segments, so a base of "https://pub.example.com"
+ * doesn't also match "https://pub.example.com.evil/..." or "https://pub.example.com-x/...".
+ */
+
+// Parse the base URL, with its path ending in a slash so it only matches whole segments
+const parseBaseUrl = (publicBaseUrl: string): URL | null => {
+  try {
+    const base = new URL(publicBaseUrl);
+    if (!base.pathname.endsWith('/')) base.pathname += '/';
+    return base;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The normalized URL when it points into the bucket, otherwise null
+ */
+export const resolvePublicMediaUrl = (url: string, publicBaseUrl: string): string | null => {
+  const base = parseBaseUrl(publicBaseUrl);
+  if (!base) return null;
+
+  try {
+    // Parsing resolves "." and ".." segments (encoded ones too) before the path is compared
+    const parsed = new URL(url);
+    const isInBucket = parsed.origin === base.origin
+      && !parsed.username
+      && !parsed.password
+      && parsed.pathname.startsWith(base.pathname)
+      && parsed.pathname.length > base.pathname.length;
+    return isInBucket ? parsed.href : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isPublicMediaUrl = (url: string, publicBaseUrl: string): boolean =>
+  resolvePublicMediaUrl(url, publicBaseUrl) !== null;
+
+/**
+ * Public URL of an object key, or null when the key would point outside the bucket
+ */
+export const getPublicMediaUrlForKey = (key: string, publicBaseUrl: string): string | null => {
+  const base = parseBaseUrl(publicBaseUrl);
+  if (!base) return null;
+
+  try {
+    return resolvePublicMediaUrl(new URL(key.replace(/^\/+/, ''), base).href, publicBaseUrl);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,63 @@
+import type { AudioAnalysis, GeminiAnalysisResult } from './analysisSchema.ts';
+
+// Fixture analysis used by the mock provider and as the client's placeholder analysis
+export const MOCK_ANALYSIS_RESULT: GeminiAnalysisResult = {
+  title: "Digital Serenity",
+  style: "Neo-futuristic Cyberpunk",
+  prompt: "A captivating cybernetic portrait bathed in neon glow, showcasing intricate digital enhancements and a serene expression, blending human and machine aesthetics seamlessly.",
+  keyTokens: [
+    "cybernetic portrait",
+    "neon lighting",
+    "futuristic aesthetic",
+    "digital enhancement",
+    "synthetic beauty",
+    "technological fusion",
+    "ethereal glow"
+  ],
+  creativeRemixes: [
+    "Transform into medieval fantasy setting with magical elements replacing technological components in mystical environment.",
+    "Reimagine as 1920s art deco style with geometric patterns and luxurious vintage aesthetic throughout composition.",
+    "Convert to underwater scene with bioluminescent features and flowing aquatic elements creating ethereal atmosphere."
+  ],
+  outpaintingPrompts: [
+    "Reveal vast surrounding environment with additional contextual elements extending beyond current boundaries of content.",
+    "Expand to show broader narrative context with supporting characters and environmental details in background.",
+    "Extend scope to include temporal elements showing progression and development of central theme."
+  ],
+  animationPrompts: [
+    "Gentle rhythmic motion with subtle environmental changes and soft transitions creating peaceful flowing movement.",
+    "Dynamic transformation sequence with dramatic lighting changes and particle effects building visual intensity.",
+    "Cinematic camera movement revealing hidden details and creating immersive storytelling experience through motion."
+  ],
+  musicPrompts: [
+    "Ethereal ambient soundscape with layered textures, evolving harmonies, and subtle rhythmic elements creating immersive atmospheric experience perfect for contemplation.",
+    "Dynamic orchestral composition featuring dramatic crescendos, intricate melodies, and rich instrumentation that captures emotional depth and narrative complexity.",
+    "Electronic fusion with synthesized textures, rhythmic patterns, and digital processing creating modern sonic interpretation of visual themes."
+  ],
+  dialoguePrompts: [
+    "The essence of transformation unfolds",
+    "Where reality meets imagination",
+    "Beyond the realm of possibility"
+  ],
+  storyPrompts: [
+    "A simple discovery becomes the catalyst for extraordinary personal transformation and unexpected journey of growth.",
+    "An intricate narrative exploring how seemingly unrelated elements connect across different dimensions of experience.",
+    "A surreal adventure where boundaries between different realities blur creating infinite possibilities for exploration."
+  ]
+};
+
+// Music details added to the fixture when the mock provider analyzes audio
+export const MOCK_AUDIO_ANALYSIS: AudioAnalysis = {
+  genre: "Synthwave",
+  bpm: 104,
+  key: "A minor",
+  instrumentation: ["analog synth pads", "gated drums", "fretless bass", "arpeggiated lead"],
+  mood: ["nostalgic", "nocturnal", "hopeful"],
+  lyricThemes: ["city lights", "late-night drives", "longing"],
+  structure: [
+    { label: "Intro", start: 0, description: "Filtered pads swell over a distant kick" },
+    { label: "Verse", start: 18, description: "Bass and arpeggios enter under a breathy vocal" },
+    { label: "Chorus", start: 55, description: "Full drums and a soaring lead hook" },
+    { label: "Outro", start: 150, description: "Pads fade out with a tape-stopped drum fill" }
+  ]
+};
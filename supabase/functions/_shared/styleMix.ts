@@ -0,0 +1,92 @@
+/**
+ * Style mixing shared by the analyze-media edge function and the client
+ *
+ * A mix blends 2-4 existing analyses into a new one. Each source has a weight from the
+ * Mix workspace slider; weights are normalized to shares of the mix before they reach
+ * the model, so only their ratio matters.
+ */
+
+import { PROMPT_LIST_FIELDS } from './analysisSchema.ts';
+import type { ValidatedAnalysis } from './analysisSchema.ts';
+
+export const MIX_LIMITS = {
+  MIN_SOURCES: 2,
+  MAX_SOURCES: 4,
+  MIN_WEIGHT: 1,
+  MAX_WEIGHT: 100,
+  DEFAULT_WEIGHT: 50
+} as const;
+
+export interface MixSourceInput {
+  analysis: ValidatedAnalysis;
+  weight: number; // Share of the mix, see normalizeMixWeights
+}
+
+/**
+ * Clamp slider weights to MIN_WEIGHT-MAX_WEIGHT and turn them into shares summing to 1.
+ * Missing or non-numeric weights count as DEFAULT_WEIGHT.
+ */
+export const normalizeMixWeights = (weights: unknown[]): number[] => {
+  const clamped = weights.map(weight => typeof weight === 'number' && Number.isFinite(weight)
+    ? Math.min(Math.max(weight, MIX_LIMITS.MIN_WEIGHT), MIX_LIMITS.MAX_WEIGHT)
+    : MIX_LIMITS.DEFAULT_WEIGHT
+  );
+  const total = clamped.reduce((sum, weight) => sum + weight, 0);
+  return clamped.map(weight => weight / total);
+};
+
+/**
+ * Take `count` items from several lists, each list contributing in proportion to its
+ * weight (smooth weighted round-robin). Duplicates are skipped ignoring case, and a list
+ * that runs out leaves its turns to the others.
+ */
+export const interleaveByWeight = (lists: string[][], weights: number[], count: number): string[] => {
+  const result: string[] = [];
+  const seen = new Set<string>();
+  const positions = lists.map(() => 0);
+  const credit = lists.map(() => 0);
+
+  const hasItemsLeft = (index: number) => positions[index] < lists[index].length;
+
+  while (result.length < count && lists.some((_, index) => hasItemsLeft(index))) {
+    let next = -1;
+    let totalWeight = 0;
+    lists.forEach((_, index) => {
+      if (!hasItemsLeft(index)) return;
+      credit[index] += weights[index];
+      totalWeight += weights[index];
+      if (next === -1 || credit[index] > credit[next]) next = index;
+    });
+    credit[next] -= totalWeight;
+
+    const item = lists[next][positions[next]++];
+    const key = item.trim().toLowerCase();
+    if (key && !seen.has(key)) {
+      seen.add(key);
+      result.push(item);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Deterministic blend without a model, used by the mock provider: names joined from the
+ * two heaviest sources, the heaviest prompt, and list items interleaved by weight.
+ */
+export const blendAnalysesLocally = (sources: MixSourceInput[]): ValidatedAnalysis => {
+  const byWeight = [...sources].sort((a, b) => b.weight - a.weight);
+  const [primary, secondary] = byWeight;
+  const weights = byWeight.map(source => source.weight);
+  const blendList = (pick: (analysis: ValidatedAnalysis) => string[], count: number) =>
+    interleaveByWeight(byWeight.map(source => pick(source.analysis)), weights, count);
+
+  return {
+    title: `${primary.analysis.title} × ${secondary.analysis.title}`,
+    style: `${primary.analysis.style} meets ${secondary.analysis.style}`,
+    prompt: primary.analysis.prompt,
+    keyTokens: blendList(analysis => analysis.keyTokens, 7),
+    ...Object.fromEntries(PROMPT_LIST_FIELDS.map(field => [field, blendList(analysis => analysis[field], 3)])) as
+      Pick<ValidatedAnalysis, typeof PROMPT_LIST_FIELDS[number]>
+  };
+};
@@ -1,10 +1,56 @@
 /*
-  # Gemini 2.5 Flash Media Analysis Edge Function
+  # Media Analysis Edge Function
 
-  This function analyzes media files using Google's Gemini 2.5 Flash model.
-  It accepts base64-encoded media data and returns structured analysis results.
+  Analyzes media files with a pluggable provider chosen by ANALYSIS_PROVIDER:
+  Google Gemini (default), any OpenAI-compatible chat completions API, or a
+  deterministic mock for offline development and CI.
+
+  The client uploads the file to R2 first and sends its public URL (or key); the
+  media is fetched server-side by providers that need it. Output is requested in
+  JSON mode with a response schema generated from the shared analysis schema;
+  free-text JSON extraction is only used if a provider rejects schema mode.
+
+  GET returns the configured provider so the client can show it before decoding.
+
+  `customModules` adds the caller's own modules to the prompt and response schema;
+  their items come back under `analysis.customModules`, keyed by module id.
+
+  Audio gets music-specific wording for the prompt lists plus an `analysis.audio`
+  object with genre, tempo, key, instrumentation, mood, lyric themes and structure.
+
+  With `mode: 'regenerate'` the body carries the stored analysis and one prompt list
+  key instead of media, and the response holds fresh variations for that list only.
+
+  With `mode: 'timeline'` the body carries keyframe images sampled from a video by the
+  client (already uploaded to R2, with their timestamps), and the response holds one
+  segment analysis (style, prompt, animationPrompts) per keyframe, in order.
+
+  With `mode: 'mix'` the body carries 2-4 stored analyses with slider weights instead
+  of media, and the response holds one new analysis blending them, weighted accordingly.
+
+  With `mode: 'embed'` the body carries `postIds`, whose prompt and keyTokens are
+  embedded and saved to posts.embedding, or a `text` whose embedding is returned for
+  similarity search. Posts can only be embedded by their owner (the caller's JWT) or
+  with the service role key. `mode: 'backfill-embeddings'` embeds the oldest posts that are
+  missing one; it needs the service role key as bearer token and is repeated until
+  `hasMore` is false, passing the returned `after` along each time.
+
+  With `stream: true` the response is NDJSON instead: a `provider` event, `delta`
+  events carrying raw model text as it arrives, then a single `done` event with the
+  validated analysis (or an `error` event). Failures before the model starts
+  answering still come back as a regular JSON error response.
 */
 
+import { AnalysisValidationError, CUSTOM_MODULE_LIMITS, TIMELINE_LIMITS, isPromptListKey, validateAnalysisResult } from '../_shared/analysisSchema.ts';
+import type { CustomModuleSpec, GeminiAnalysisResult, MediaType, PromptListKey } from '../_shared/analysisSchema.ts';
+import { getProviderFromEnv, parseProviderOutput, ProviderError } from './providers/index.ts';
+import type { AnalysisMedia, AnalysisProvider, AnalysisStream, BlendRequest, VariationRequest } from './providers/index.ts';
+import { buildEmbeddingText, EMBEDDING_BATCH_SIZE } from '../_shared/embeddings.ts';
+import { getPostStoreFromEnv, getPostsByIds, getPostsMissingEmbedding, getUserIdFromAuthorization, savePostEmbedding } from './postStore.ts';
+import type { PostForEmbedding, PostStore } from './postStore.ts';
+import { MIX_LIMITS, normalizeMixWeights } from '../_shared/styleMix.ts';
+import { getPublicMediaUrlForKey, resolvePublicMediaUrl } from '../_shared/mediaUrls.ts';
+
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
@@ -12,193 +58,598 @@ const corsHeaders = {
 };
 
 interface AnalysisRequest {
-  mediaData: string;
+  mode?: 'analyze';
+  mediaUrl?: string;
+  mediaKey?: string;
   mimeType: string;
-  mediaType: 'image' | 'video' | 'audio';
+  mediaType: MediaType;
+  stream?: boolean;
+  customModules?: unknown; // CustomModuleSpec[], checked by parseCustomModuleSpecs
+}
+
+interface RegenerateRequest {
+  mode: 'regenerate';
+  promptKey: string;
+  analysis: Partial<GeminiAnalysisResult>;
+  mediaType?: MediaType; // Media the analysis came from, for media-specific wording
+}
+
+interface TimelineRequest {
+  mode: 'timeline';
+  keyframes: { time: number; mediaUrl?: string; mediaKey?: string; mimeType?: string }[];
+  analysis?: { title?: string; style?: string }; // Whole-video analysis, for consistent wording
+}
+
+interface MixRequest {
+  mode: 'mix';
+  sources: { analysis: unknown; weight?: number }[]; // Stored analyses, checked by validateAnalysisResult
+  mediaType?: MediaType; // 'audio' when every source is a track
 }
 
-interface GeminiAnalysisResult {
-  title: string;
-  style: string;
-  prompt: string;
-  keyTokens: string[];
-  creativeRemixes: string[];
-  outpaintingPrompts: string[];
-  animationPrompts: string[];
-  musicPrompts: string[];
-  dialoguePrompts: string[];
-  storyPrompts: string[];
+interface EmbedRequest {
+  mode: 'embed';
+  postIds?: string[]; // Embed these posts from their stored analysis and save the vectors
+  text?: string; // Or embed this text and return the vector
 }
 
+interface BackfillEmbeddingsRequest {
+  mode: 'backfill-embeddings';
+  limit?: number; // Posts per call, at most EMBEDDING_BATCH_SIZE
+  after?: string; // created_at of the last post of the previous batch
+}
+
+// Longest source analysis accepted for a mix, as JSON; a full analysis is about 4000 characters
+const MAX_MIX_SOURCE_LENGTH = 12000;
+
+// Longest text embedded for a search, about twice a full prompt plus its tokens
+const MAX_EMBEDDING_TEXT_LENGTH = 2000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Variations added per regeneration, matching the size of the original lists
+const VARIATIONS_PER_REGENERATION = 3;
+
+// What each prompt list holds, mirroring the REQUIREMENTS of the analysis prompt
+const PROMPT_LIST_GUIDANCE: Record<PromptListKey, string> = {
+  storyPrompts: 'unique story concepts (10-25 words each)',
+  animationPrompts: 'video animation descriptions (10-25 words each)',
+  dialoguePrompts: 'dialogue/narration prompts (3-12 words each)',
+  creativeRemixes: 'creative reinterpretations (10-25 words each)',
+  outpaintingPrompts: 'scene expansion prompts (10-25 words each)',
+  musicPrompts: 'music style descriptions (brief descriptions)'
+};
+
+// Lists whose meaning changes when the media is a track rather than a picture or clip
+const AUDIO_PROMPT_LIST_GUIDANCE: Partial<Record<PromptListKey, string>> = {
+  animationPrompts: 'music video concepts for the track (10-25 words each)',
+  dialoguePrompts: 'lyric hooks in the spirit of the track (3-12 words each)',
+  creativeRemixes: 'remix or genre-flip ideas for the track (10-25 words each)',
+  outpaintingPrompts: 'ideas for extending the track, such as a bridge, intro or outro (10-25 words each)',
+  musicPrompts: 'text-to-music prompts that recreate the track (brief descriptions)'
+};
+
+const getPromptListGuidance = (promptKey: PromptListKey, mediaType?: MediaType): string =>
+  (mediaType === 'audio' && AUDIO_PROMPT_LIST_GUIDANCE[promptKey]) || PROMPT_LIST_GUIDANCE[promptKey];
+
+const jsonResponse = (body: unknown, status: number) => new Response(
+  JSON.stringify(body),
+  {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  }
+);
+
+const providerErrorResponse = (error: ProviderError) => jsonResponse(
+  {
+    error: error.message,
+    details: error.details,
+    ...error.extra
+  },
+  error.status
+);
+
 /**
- * Extract and parse JSON from Gemini response text
- * Handles markdown code blocks, backticks, and other formatting artifacts
+ * Relay a provider stream to the client as newline-delimited JSON events, validating
+ * the full text once the model has finished
  */
-const extractGeminiJSON = (responseText: string): GeminiAnalysisResult => {
-  console.log('SERVER: Starting Gemini JSON extraction', {
-    textLength: responseText.length,
-    textPreview: responseText.substring(0, 100),
-    hasCodeBlockStart: responseText.includes('```json'),
-    hasCodeBlockEnd: responseText.includes('```'),
-    startsWithBrace: responseText.trim().startsWith('{'),
-    endsWithBrace: responseText.trim().endsWith('}')
+const ndjsonStreamResponse = (
+  provider: AnalysisProvider,
+  stream: AnalysisStream,
+  mediaType: MediaType,
+  customModules: CustomModuleSpec[]
+) => {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      send({ type: 'provider', provider: provider.info });
+
+      let fullText = '';
+      try {
+        for await (const text of stream.chunks) {
+          fullText += text;
+          send({ type: 'delta', text });
+        }
+
+        const analysis = parseProviderOutput(fullText, stream.schemaMode, provider.info.label, customModules, mediaType);
+        console.log('SERVER: Stream finished, returning validated analysis');
+        send({ type: 'done', analysis, mediaType, provider: provider.info });
+      } catch (error) {
+        console.error('SERVER: Streaming analysis failed:', error);
+        send(error instanceof ProviderError
+          ? { type: 'error', error: error.message, details: error.details, ...error.extra }
+          : { type: 'error', error: 'Streaming analysis failed', details: error instanceof Error ? error.message : 'Unknown error' });
+      } finally {
+        controller.close();
+      }
+    }
   });
 
-  let cleanedText = responseText.trim();
-  
-  try {
-    // Strategy 1: Try parsing as-is first (in case it's already clean JSON)
-    if (cleanedText.startsWith('{') && cleanedText.endsWith('}')) {
-      const result = JSON.parse(cleanedText);
-      console.log('SERVER: Direct JSON parse successful');
-      return validateGeminiResult(result);
+  return new Response(body, {
+    status: 200,
+    headers: { ...corsHeaders, 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' }
+  });
+};
+
+/**
+ * Resolve the media URL from the request, only allowing objects in our own R2 bucket
+ * so the function can't be used to fetch arbitrary URLs
+ */
+const resolveMediaUrl = (request: { mediaUrl?: string; mediaKey?: string }, publicBaseUrl: string): string | null => {
+  if (request.mediaUrl) {
+    return resolvePublicMediaUrl(request.mediaUrl, publicBaseUrl);
+  }
+
+  if (request.mediaKey && !request.mediaKey.includes('..')) {
+    return getPublicMediaUrlForKey(request.mediaKey, publicBaseUrl);
+  }
+
+  return null;
+};
+
+/**
+ * Check the custom modules sent by the client, since their text goes straight into the prompt
+ */
+const parseCustomModuleSpecs = (value: unknown): { specs: CustomModuleSpec[] } | { error: string } => {
+  if (value === undefined || value === null) return { specs: [] };
+  if (!Array.isArray(value)) return { error: 'customModules must be an array' };
+  if (value.length > CUSTOM_MODULE_LIMITS.MAX_MODULES) {
+    return { error: `At most ${CUSTOM_MODULE_LIMITS.MAX_MODULES} custom modules can be used per analysis` };
+  }
+
+  const specs: CustomModuleSpec[] = [];
+  for (const item of value) {
+    const { id, name, instruction, itemCount, minWords, maxWords } = item ?? {};
+    const isWordLimit = (limit: unknown) => limit === undefined || limit === null || (Number.isInteger(limit) && (limit as number) > 0);
+
+    if (typeof id !== 'string' || !/^[\w-]{1,64}$/.test(id)) return { error: 'Custom module id is invalid' };
+    if (typeof name !== 'string' || !name.trim() || name.length > CUSTOM_MODULE_LIMITS.MAX_NAME_LENGTH) {
+      return { error: `Custom module name must be 1-${CUSTOM_MODULE_LIMITS.MAX_NAME_LENGTH} characters` };
     }
-  } catch (directParseError) {
-    console.log('SERVER: Direct parse failed, attempting cleaning', {
-      error: directParseError instanceof Error ? directParseError.message : 'Unknown error'
-    });
+    if (typeof instruction !== 'string' || !instruction.trim() || instruction.length > CUSTOM_MODULE_LIMITS.MAX_INSTRUCTION_LENGTH) {
+      return { error: `Custom module instruction must be 1-${CUSTOM_MODULE_LIMITS.MAX_INSTRUCTION_LENGTH} characters` };
+    }
+    if (!Number.isInteger(itemCount) || itemCount < 1 || itemCount > CUSTOM_MODULE_LIMITS.MAX_ITEMS) {
+      return { error: `Custom module item count must be 1-${CUSTOM_MODULE_LIMITS.MAX_ITEMS}` };
+    }
+    if (!isWordLimit(minWords) || !isWordLimit(maxWords)) return { error: 'Custom module word limits must be positive integers' };
+
+    specs.push({ id, name: name.trim(), instruction: instruction.trim(), itemCount, minWords, maxWords });
   }
 
-  // Strategy 2: Comprehensive text cleaning
-  try {
-    console.log('SERVER: Starting comprehensive text cleaning');
-    
-    // Remove all possible markdown code block variations
-    cleanedText = cleanedText
-      // Remove opening code blocks (case insensitive, with optional whitespace)
-      .replace(/^```\s*(?:json|JSON)?\s*\n?/gi, '')
-      // Remove closing code blocks
-      .replace(/\n?\s*```\s*$/gi, '')
-      // Remove any remaining backticks at start/end
-      .replace(/^`+|`+$/g, '')
-      // Remove any leading/trailing whitespace
-      .trim();
-
-    // Strategy 3: Extract JSON object using regex
-    const jsonMatch = cleanedText.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      cleanedText = jsonMatch[0];
-      console.log('SERVER: JSON object extracted using regex');
+  return { specs };
+};
+
+const describeWordLimits = (module: CustomModuleSpec): string => {
+  if (module.minWords && module.maxWords) return ` (${module.minWords}-${module.maxWords} words each)`;
+  if (module.maxWords) return ` (at most ${module.maxWords} words each)`;
+  if (module.minWords) return ` (at least ${module.minWords} words each)`;
+  return '';
+};
+
+/**
+ * The JSON structure and field requirements of an analysis, shared by the analysis and mix prompts
+ */
+const buildAnalysisOutputSpec = (mediaType?: MediaType, customModules: CustomModuleSpec[] = []): string => {
+  const customStructure = customModules.length > 0
+    ? `,\n  "customModules": {\n${customModules.map(module => `    "${module.id}": ["item1", ...]`).join(',\n')}\n  }`
+    : '';
+
+  const customRequirements = customModules
+    .map(module => `\n- customModules.${module.id} ("${module.name}"): ${module.itemCount} items${describeWordLimits(module)}. ${module.instruction}`)
+    .join('');
+
+  const isAudio = mediaType === 'audio';
+  const audioStructure = isAudio
+    ? `,\n  "audio": {"genre": "...", "bpm": 120, "key": "...", "instrumentation": ["..."], "mood": ["..."], "lyricThemes": ["..."], "structure": [{"label": "...", "start": 0, "description": "..."}]}`
+    : '';
+  const audioRequirements = isAudio
+    ? `
+- audio.genre: the main genre, optionally with a subgenre (1-4 words)
+- audio.bpm: estimated tempo in beats per minute, or null if there is no steady beat
+- audio.key: musical key such as "F# minor", or "Unknown"
+- audio.instrumentation: the instruments and sound sources you can hear
+- audio.mood: 3-5 mood words
+- audio.lyricThemes: themes of the lyrics, or an empty array for instrumentals
+- audio.structure: the sections of the track in order (intro, verse, chorus...), each with its start in seconds and a short description`
+    : '';
+
+  // RELAXED: Flexible requirements to improve JSON parsing success when a provider can't use schema mode
+  return `{
+  "title": "creative title (2-3 words)",
+  "style": "style description (2-4 words)",
+  "prompt": "complete scene description (25-40 words)",
+  "keyTokens": ["token1","token2","token3","token4","token5","token6","token7"],
+  "creativeRemixes": ["remix1","remix2","remix3"],
+  "outpaintingPrompts": ["outpainting1","outpainting2","outpainting3"],
+  "animationPrompts": ["animation1","animation2","animation3"],
+  "musicPrompts": ["music1","music2","music3"],
+  "dialoguePrompts": ["dialogue1","dialogue2","dialogue3"],
+  "storyPrompts": ["story1","story2","story3"]${customStructure}${audioStructure}
+}
+
+REQUIREMENTS:
+- title: 2-3 words that capture the essence
+- style: 2-4 words describing the aesthetic
+- prompt: 25-40 words describing the complete scene
+- keyTokens: 7 descriptive tokens that summarize the content
+- creativeRemixes: 3 ${getPromptListGuidance('creativeRemixes', mediaType)}
+- outpaintingPrompts: 3 ${getPromptListGuidance('outpaintingPrompts', mediaType)}
+- animationPrompts: 3 ${getPromptListGuidance('animationPrompts', mediaType)}
+- musicPrompts: 3 ${getPromptListGuidance('musicPrompts', mediaType)}
+- dialoguePrompts: 3 ${getPromptListGuidance('dialoguePrompts', mediaType)}
+- storyPrompts: 3 ${getPromptListGuidance('storyPrompts', mediaType)}${customRequirements}${audioRequirements}
+
+IMPORTANT: Return ONLY the JSON object above. No markdown, no code blocks, no additional text. Start with { and end with }.`;
+};
+
+const buildAnalysisPrompt = (mediaType: MediaType, customModules: CustomModuleSpec[] = []): string =>
+  `Analyze this ${mediaType} and return ONLY a valid JSON object with the following structure. Do not include any markdown formatting, code blocks, or additional text:
+
+${buildAnalysisOutputSpec(mediaType, customModules)}`;
+
+const buildMixPrompt = (request: BlendRequest): string => {
+  const sources = request.sources.map(({ analysis, weight }, index) => `SOURCE ${index + 1} (${Math.round(weight * 100)}% of the mix)
+Title: ${analysis.title}
+Style: ${analysis.style}
+Scene: ${analysis.prompt}
+Key tokens: ${analysis.keyTokens.join(', ')}
+Example story: ${analysis.storyPrompts[0] ?? ''}
+Example music: ${analysis.musicPrompts[0] ?? ''}${analysis.audio ? `
+Music: ${analysis.audio.genre}, ${analysis.audio.mood.join(', ')}` : ''}`).join('\n\n');
+
+  return `You are mixing ${request.sources.length} existing styles into one new style. Each source below was analyzed from a piece of ${request.mediaType === 'audio' ? 'music' : 'media'} and has a share of the mix.
+
+${sources}
+
+Invent ONE coherent new style that fuses the sources. Each source should shape the result in proportion to its share: the largest share sets the overall look and mood, smaller shares contribute accents. Do not simply list or alternate the sources, and write every field fresh rather than copying from them.
+
+Return ONLY a valid JSON object with the following structure. Do not include any markdown formatting, code blocks, or additional text:
+
+${buildAnalysisOutputSpec(request.mediaType)}`;
+};
+
+const buildVariationsPrompt = (request: VariationRequest, mediaType?: MediaType): string => {
+  const { context, existing, count, promptKey } = request;
+
+  return `You previously analyzed a piece of media and described it as follows:
+
+Title: ${context.title}
+Style: ${context.style}
+Scene: ${context.prompt}
+Key tokens: ${context.keyTokens.join(', ')}
+
+Write ${count} new ${getPromptListGuidance(promptKey, mediaType)} for this media. They must be clearly different from these existing ones:
+${existing.map(item => `- ${item}`).join('\n')}
+
+Return ONLY a JSON object of the form {"variations": ["...", "..."]}. No markdown, no code blocks, no additional text.`;
+};
+
+const formatTimestamp = (seconds: number): string => {
+  const totalSeconds = Math.floor(seconds);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+const buildTimelinePrompt = (times: number[], context: TimelineRequest['analysis']): string => {
+  const contextLine = context?.title && context?.style
+    ? `\nThe video as a whole was described as "${context.title}" in a ${context.style} style; keep the wording consistent with that.\n`
+    : '';
+
+  return `The ${times.length} images are keyframes from one video, in order, taken at ${times.map(formatTimestamp).join(', ')}. Each keyframe starts a segment of the video.
+${contextLine}
+For each keyframe, in the same order, describe its segment:
+- style: 2-4 words describing the aesthetic of this segment
+- prompt: 15-30 words describing the scene in this segment
+- animationPrompts: 2 video animation descriptions for this segment (10-25 words each)
+
+Return ONLY a JSON object of the form {"segments": [{"style": "...", "prompt": "...", "animationPrompts": ["...", "..."]}]} with exactly ${times.length} segments. No markdown, no code blocks, no additional text.`;
+};
+
+/**
+ * Analyze the keyframes of a video as timeline segments, one per keyframe
+ */
+const handleTimelineRequest = async (provider: AnalysisProvider, requestData: TimelineRequest) => {
+  const { keyframes, analysis } = requestData;
+
+  if (!Array.isArray(keyframes) || keyframes.length === 0) {
+    return jsonResponse({ error: 'At least one keyframe is required' }, 400);
+  }
+  if (keyframes.length > TIMELINE_LIMITS.MAX_KEYFRAMES) {
+    return jsonResponse({ error: `At most ${TIMELINE_LIMITS.MAX_KEYFRAMES} keyframes can be analyzed per video` }, 400);
+  }
+  if (keyframes.some(keyframe => typeof keyframe?.time !== 'number' || !Number.isFinite(keyframe.time) || keyframe.time < 0)) {
+    return jsonResponse({ error: 'Every keyframe needs a non-negative time in seconds' }, 400);
+  }
+
+  // Keyframes go through the same R2-only check as regular media
+  let frames: AnalysisMedia[];
+  if (provider.fetchesMedia) {
+    const publicBaseUrl = Deno.env.get('R2_PUBLIC_URL');
+    if (!publicBaseUrl) {
+      console.error('SERVER: R2_PUBLIC_URL not found in environment variables');
+      return jsonResponse({ error: 'Media storage not configured' }, 500);
     }
 
-    // Strategy 4: Find first { and last } to extract core JSON
-    const firstBrace = cleanedText.indexOf('{');
-    const lastBrace = cleanedText.lastIndexOf('}');
-    
-    if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-      cleanedText = cleanedText.substring(firstBrace, lastBrace + 1);
-      console.log('SERVER: JSON boundaries identified and extracted');
+    const urls = keyframes.map(keyframe => resolveMediaUrl(keyframe, publicBaseUrl));
+    if (urls.some(url => !url)) {
+      return jsonResponse({ error: 'Keyframes must be uploaded to StyleDrop storage before analysis' }, 400);
     }
+    frames = keyframes.map((keyframe, i) => ({ url: urls[i]!, mimeType: keyframe.mimeType || 'image/jpeg' }));
+  } else {
+    frames = keyframes.map(keyframe => ({ url: keyframe.mediaUrl || keyframe.mediaKey || '', mimeType: keyframe.mimeType || 'image/jpeg' }));
+  }
 
-    // Strategy 5: Clean up common JSON formatting issues
-    cleanedText = cleanedText
-      // Remove trailing commas before closing brackets/braces
-      .replace(/,(\s*[}\]])/g, '$1')
+  console.log('SERVER: Analyzing video timeline', { keyframes: keyframes.length });
 
-    console.log('SERVER: Text cleaning completed', {
-      cleanedLength: cleanedText.length,
-      cleanedStart: cleanedText.substring(0, 100),
-      startsWithBrace: cleanedText.startsWith('{'),
-      endsWithBrace: cleanedText.endsWith('}')
+  try {
+    const segments = await provider.analyzeKeyframes(frames, {
+      prompt: buildTimelinePrompt(keyframes.map(keyframe => keyframe.time), analysis),
+      maxOutputTokens: 4096
     });
 
-    const result = JSON.parse(cleanedText);
-    console.log('SERVER: Cleaned JSON parse successful');
-    return validateGeminiResult(result);
+    return jsonResponse({ success: true, segments, provider: provider.info }, 200);
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      console.error('SERVER: Provider failed to analyze timeline:', error.message, error.details);
+      return providerErrorResponse(error);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Regenerate a single prompt list from the stored analysis, without touching the media
+ */
+const handleRegenerateRequest = async (provider: AnalysisProvider, requestData: RegenerateRequest) => {
+  const { promptKey, analysis } = requestData;
+
+  if (!isPromptListKey(promptKey)) {
+    return jsonResponse({ error: `Unknown prompt list: ${promptKey}` }, 400);
+  }
+
+  if (!analysis || typeof analysis.title !== 'string' || typeof analysis.style !== 'string' || typeof analysis.prompt !== 'string') {
+    return jsonResponse({ error: 'Missing analysis context (title, style and prompt are required)' }, 400);
+  }
 
-  } catch (cleanParseError) {
-    console.error('SERVER: All parsing strategies failed', {
-      cleanError: cleanParseError instanceof Error ? cleanParseError.message : 'Unknown error',
-      originalText: responseText.substring(0, 500),
-      cleanedText: cleanedText.substring(0, 500),
-      fullCleanedText: cleanedText // ENHANCED: Log the full cleaned text that failed to parse
+  const stringList = (value: unknown) => Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+
+  const variationRequest: VariationRequest = {
+    promptKey,
+    context: {
+      title: analysis.title,
+      style: analysis.style,
+      prompt: analysis.prompt,
+      keyTokens: stringList(analysis.keyTokens)
+    },
+    existing: stringList(analysis[promptKey]),
+    count: VARIATIONS_PER_REGENERATION
+  };
+
+  console.log('SERVER: Regenerating prompt list', { promptKey, existingCount: variationRequest.existing.length });
+
+  try {
+    const variations = await provider.generateVariations(variationRequest, {
+      prompt: buildVariationsPrompt(variationRequest, requestData.mediaType === 'audio' ? 'audio' : undefined),
+      temperature: 0.9
     });
-    
-    throw new Error(`Failed to parse Gemini response: ${cleanParseError instanceof Error ? cleanParseError.message : 'Unknown parsing error'}`);
+
+    return jsonResponse(
+      {
+        success: true,
+        promptKey,
+        variations: variations.slice(0, VARIATIONS_PER_REGENERATION),
+        provider: provider.info
+      },
+      200
+    );
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      console.error('SERVER: Provider failed to regenerate:', error.message, error.details);
+      return providerErrorResponse(error);
+    }
+    throw error;
   }
 };
 
 /**
- * Validate that the parsed result has the expected structure
+ * Blend 2-4 stored analyses into a new one, without any media
  */
-const validateGeminiResult = (result: any): GeminiAnalysisResult => {
-  const requiredFields = [
-    'title', 'style', 'prompt', 'keyTokens', 
-    'creativeRemixes', 'outpaintingPrompts', 'animationPrompts',
-    'musicPrompts', 'dialoguePrompts', 'storyPrompts'
-  ];
-
-  const missingFields = requiredFields.filter(field => !result[field]);
-  
-  if (missingFields.length > 0) {
-    throw new Error(`Missing required fields in Gemini response: ${missingFields.join(', ')}`);
+const handleMixRequest = async (provider: AnalysisProvider, requestData: MixRequest) => {
+  const { sources } = requestData;
+
+  if (!Array.isArray(sources) || sources.length < MIX_LIMITS.MIN_SOURCES || sources.length > MIX_LIMITS.MAX_SOURCES) {
+    return jsonResponse({ error: `A mix needs ${MIX_LIMITS.MIN_SOURCES}-${MIX_LIMITS.MAX_SOURCES} sources` }, 400);
   }
 
-  // Validate array fields
-  const arrayFields = [
-    'keyTokens', 'creativeRemixes', 'outpaintingPrompts', 
-    'animationPrompts', 'musicPrompts', 'dialoguePrompts', 'storyPrompts'
-  ];
+  const invalidIndex = sources.findIndex(source => !source || typeof source !== 'object' || Array.isArray(source));
+  if (invalidIndex !== -1) {
+    return jsonResponse({ error: `Source ${invalidIndex + 1} must be an object with an analysis and a weight` }, 400);
+  }
 
-  for (const field of arrayFields) {
-    if (!Array.isArray(result[field])) {
-      throw new Error(`Field '${field}' must be an array`);
+  const mediaType = requestData.mediaType === 'audio' ? 'audio' : undefined;
+  const weights = normalizeMixWeights(sources.map(source => source.weight));
+
+  const blendRequest: BlendRequest = { sources: [], mediaType };
+  for (const [index, source] of sources.entries()) {
+    // Source text goes straight into the prompt
+    if (JSON.stringify(source.analysis ?? null).length > MAX_MIX_SOURCE_LENGTH) {
+      return jsonResponse({ error: `Source ${index + 1} is too large to mix` }, 400);
     }
-  }
 
-  // Validate string fields
-  const stringFields = ['title', 'style', 'prompt'];
-  for (const field of stringFields) {
-    if (typeof result[field] !== 'string' || result[field].trim() === '') {
-      throw new Error(`Field '${field}' must be a non-empty string`);
+    try {
+      const hasAudio = mediaType === 'audio' && typeof (source.analysis as { audio?: unknown })?.audio === 'object';
+      blendRequest.sources.push({
+        analysis: validateAnalysisResult(source.analysis, [], hasAudio ? 'audio' : undefined),
+        weight: weights[index]
+      });
+    } catch (error) {
+      if (error instanceof AnalysisValidationError) {
+        return jsonResponse({ error: `Source ${index + 1} is not a complete analysis`, details: error.message }, 400);
+      }
+      throw error;
     }
   }
 
-  // CRITICAL: Validate keyTokens array has exactly 7 elements
-  if (result.keyTokens.length !== 7) {
-    console.warn('SERVER: keyTokens validation failed', {
-      expected: 7,
-      actual: result.keyTokens.length,
-      tokens: result.keyTokens
+  console.log('SERVER: Mixing analyses', { sources: sources.length, weights, mediaType });
+
+  try {
+    const analysis = await provider.blendAnalyses(blendRequest, {
+      prompt: buildMixPrompt(blendRequest),
+      temperature: 0.9
     });
-    
-    // Fix the keyTokens array to have exactly 7 elements
-    if (result.keyTokens.length > 7) {
-      // If more than 7, take the first 7
-      result.keyTokens = result.keyTokens.slice(0, 7);
-    } else {
-      // If less than 7, pad with generic tokens
-      const fallbackTokens = [
-        'visual style', 'color palette', 'artistic mood', 'creative essence', 
-        'design elements', 'aesthetic tone', 'artistic vision'
-      ];
-      
-      while (result.keyTokens.length < 7) {
-        const missingIndex = result.keyTokens.length;
-        result.keyTokens.push(fallbackTokens[missingIndex] || `token ${missingIndex + 1}`);
-      }
+
+    return jsonResponse({ success: true, analysis, provider: provider.info }, 200);
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      console.error('SERVER: Provider failed to mix:', error.message, error.details);
+      return providerErrorResponse(error);
     }
+    throw error;
   }
+};
 
-  console.log('SERVER: Gemini result validation successful', {
-    title: result.title,
-    style: result.style,
-    keyTokensCount: result.keyTokens.length,
-    keyTokens: result.keyTokens
+/**
+ * Embed posts from their stored prompt and keyTokens and save the vectors. Posts
+ * without a usable prompt are skipped.
+ */
+const embedPosts = async (provider: AnalysisProvider, store: PostStore, posts: PostForEmbedding[]) => {
+  const embeddable = posts.flatMap(post => {
+    const { prompt, keyTokens } = post.analysis_data ?? {};
+    if (typeof prompt !== 'string' || !prompt.trim()) return [];
+    const tokens = Array.isArray(keyTokens) ? keyTokens.filter((token): token is string => typeof token === 'string') : [];
+    return [{ id: post.id, text: buildEmbeddingText({ prompt, keyTokens: tokens }) }];
   });
 
-  return {
-    title: result.title.trim(),
-    style: result.style.trim(),
-    prompt: result.prompt.trim(),
-    keyTokens: result.keyTokens.map((token: string) => token.trim()),
-    creativeRemixes: result.creativeRemixes.map((remix: string) => remix.trim()),
-    outpaintingPrompts: result.outpaintingPrompts.map((prompt: string) => prompt.trim()),
-    animationPrompts: result.animationPrompts.map((prompt: string) => prompt.trim()),
-    musicPrompts: result.musicPrompts.map((prompt: string) => prompt.trim()),
-    dialoguePrompts: result.dialoguePrompts.map((prompt: string) => prompt.trim()),
-    storyPrompts: result.storyPrompts.map((prompt: string) => prompt.trim())
-  };
+  if (embeddable.length === 0) return { embedded: 0, skipped: posts.length };
+
+  const embeddings = await provider.embedTexts(embeddable.map(post => post.text));
+  await Promise.all(embeddable.map((post, index) =>
+    savePostEmbedding(store, post.id, embeddings[index], provider.embeddingModel)
+  ));
+
+  return { embedded: embeddable.length, skipped: posts.length - embeddable.length };
+};
+
+/**
+ * Embed a search text, or posts by id
+ */
+const handleEmbedRequest = async (
+  provider: AnalysisProvider,
+  requestData: EmbedRequest,
+  authorization: string | null
+) => {
+  const { postIds, text } = requestData;
+
+  try {
+    if (typeof text === 'string') {
+      if (!text.trim() || text.length > MAX_EMBEDDING_TEXT_LENGTH) {
+        return jsonResponse({ error: `Text must be 1-${MAX_EMBEDDING_TEXT_LENGTH} characters` }, 400);
+      }
+
+      const [embedding] = await provider.embedTexts([text]);
+      return jsonResponse({ success: true, embedding, model: provider.embeddingModel }, 200);
+    }
+
+    if (!Array.isArray(postIds) || postIds.length === 0 || postIds.length > EMBEDDING_BATCH_SIZE) {
+      return jsonResponse({ error: `Send a text or 1-${EMBEDDING_BATCH_SIZE} postIds` }, 400);
+    }
+    if (postIds.some(id => typeof id !== 'string' || !UUID_PATTERN.test(id))) {
+      return jsonResponse({ error: 'postIds must be post UUIDs' }, 400);
+    }
+
+    const store = getPostStoreFromEnv();
+    if (!store) {
+      console.error('SERVER: SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not found in environment variables');
+      return jsonResponse({ error: 'Post storage not configured' }, 500);
+    }
+
+    // Signed-in users can only embed their own posts; the service role can embed any
+    const isServiceRole = authorization === `Bearer ${store.serviceRoleKey}`;
+    const userId = isServiceRole ? null : await getUserIdFromAuthorization(store, authorization);
+    if (!isServiceRole && !userId) {
+      return jsonResponse({ error: 'Embedding posts requires a signed-in user' }, 401);
+    }
+
+    const posts = await getPostsByIds(store, postIds);
+    if (!isServiceRole && posts.some(post => post.user_id !== userId)) {
+      return jsonResponse({ error: 'You can only embed your own posts' }, 403);
+    }
+
+    const result = await embedPosts(provider, store, posts);
+    console.log('SERVER: Posts embedded', { ...result, model: provider.embeddingModel });
+    return jsonResponse({ success: true, ...result, model: provider.embeddingModel }, 200);
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      console.error('SERVER: Provider failed to embed:', error.message, error.details);
+      return providerErrorResponse(error);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Embed one batch of the posts missing an embedding from the current model
+ */
+const handleBackfillEmbeddingsRequest = async (
+  provider: AnalysisProvider,
+  requestData: BackfillEmbeddingsRequest,
+  authorization: string | null
+) => {
+  const store = getPostStoreFromEnv();
+  if (!store) {
+    return jsonResponse({ error: 'Post storage not configured' }, 500);
+  }
+  if (authorization !== `Bearer ${store.serviceRoleKey}`) {
+    return jsonResponse({ error: 'Backfilling embeddings requires the service role key' }, 401);
+  }
+
+  const limit = Math.min(Math.max(Math.floor(Number(requestData.limit) || EMBEDDING_BATCH_SIZE), 1), EMBEDDING_BATCH_SIZE);
+
+  try {
+    const after = typeof requestData.after === 'string' ? requestData.after : undefined;
+    const posts = await getPostsMissingEmbedding(store, provider.embeddingModel, limit, after);
+    const result = await embedPosts(provider, store, posts);
+
+    console.log('SERVER: Embedding backfill batch done', { ...result, model: provider.embeddingModel });
+    return jsonResponse({
+      success: true,
+      ...result,
+      hasMore: posts.length === limit,
+      after: posts[posts.length - 1]?.created_at ?? after
+    }, 200);
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      console.error('SERVER: Provider failed during backfill:', error.message, error.details);
+      return providerErrorResponse(error);
+    }
+    throw error;
+  }
 };
 
 Deno.serve(async (req: Request) => {
@@ -209,285 +660,173 @@ Deno.serve(async (req: Request) => {
     });
   }
 
+  let provider: AnalysisProvider;
+  try {
+    provider = getProviderFromEnv();
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      console.error('SERVER: Provider not configured:', error.message);
+      return providerErrorResponse(error);
+    }
+    throw error;
+  }
+
+  if (req.method === "GET") {
+    return jsonResponse({ provider: provider.info }, 200);
+  }
+
   try {
     console.log('SERVER: Request received', {
       method: req.method,
       url: req.url,
       contentType: req.headers.get('Content-Type'),
+      provider: provider.info,
       timestamp: new Date().toISOString()
     });
 
     // Parse JSON body with error handling
-    let requestData: AnalysisRequest;
+    let body: AnalysisRequest | RegenerateRequest | TimelineRequest | MixRequest | EmbedRequest | BackfillEmbeddingsRequest;
     try {
-      requestData = await req.json();
-      console.log('SERVER: JSON parsing successful', {
-        hasMediaData: !!requestData.mediaData,
-        mediaDataLength: requestData.mediaData?.length || 0,
-        mimeType: requestData.mimeType,
-        mediaType: requestData.mediaType
-      });
+      body = await req.json();
     } catch (jsonError) {
       console.error('SERVER: JSON parsing failed:', jsonError);
-      return new Response(
-        JSON.stringify({ 
+      return jsonResponse(
+        { 
           error: 'Failed to parse request JSON', 
           details: jsonError instanceof Error ? jsonError.message : 'Unknown JSON error'
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
+        },
+        400
       );
     }
 
-    const { mediaData, mimeType, mediaType } = requestData;
+    if (body.mode === 'regenerate') {
+      return await handleRegenerateRequest(provider, body);
+    }
+
+    if (body.mode === 'timeline') {
+      return await handleTimelineRequest(provider, body);
+    }
+
+    if (body.mode === 'mix') {
+      return await handleMixRequest(provider, body);
+    }
+
+    if (body.mode === 'embed') {
+      return await handleEmbedRequest(provider, body, req.headers.get('Authorization'));
+    }
+
+    if (body.mode === 'backfill-embeddings') {
+      return await handleBackfillEmbeddingsRequest(provider, body, req.headers.get('Authorization'));
+    }
+
+    const requestData: AnalysisRequest = body;
+    console.log('SERVER: JSON parsing successful', {
+      mediaUrl: requestData.mediaUrl,
+      mediaKey: requestData.mediaKey,
+      mimeType: requestData.mimeType,
+      mediaType: requestData.mediaType,
+      stream: requestData.stream
+    });
+
+    const { mediaUrl, mediaKey, mimeType, mediaType, stream } = requestData;
 
     // Validate required parameters
     const missingParams = [];
-    if (!mediaData) missingParams.push('mediaData');
+    if (!mediaUrl && !mediaKey) missingParams.push('mediaUrl or mediaKey');
     if (!mimeType) missingParams.push('mimeType');
     if (!mediaType) missingParams.push('mediaType');
 
     if (missingParams.length > 0) {
       const errorMsg = `Missing required parameters: ${missingParams.join(', ')}`;
       console.error('SERVER: Validation failed:', errorMsg);
-      return new Response(
-        JSON.stringify({ error: errorMsg }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
+      return jsonResponse({ error: errorMsg }, 400);
     }
 
-    // Get Gemini API key from environment
-    const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
-    if (!geminiApiKey) {
-      console.error('SERVER: GEMINI_API_KEY not found in environment variables');
-      return new Response(
-        JSON.stringify({ 
-          error: 'Gemini API key not configured',
-          details: 'Please set GEMINI_API_KEY in your environment variables'
-        }),
-        {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
+    const customModuleCheck = parseCustomModuleSpecs(requestData.customModules);
+    if ('error' in customModuleCheck) {
+      console.error('SERVER: Invalid custom modules:', customModuleCheck.error);
+      return jsonResponse({ error: customModuleCheck.error }, 400);
     }
-
-    console.log('SERVER: Gemini API key found, proceeding with analysis');
-
-    // RELAXED: Construct the analysis prompt with more flexible requirements to improve JSON parsing success
-    const analysisPrompt = `Analyze this ${mediaType} and return ONLY a valid JSON object with the following structure. Do not include any markdown formatting, code blocks, or additional text:
-
-{
-  "title": "creative title (2-3 words)",
-  "style": "style description (2-4 words)",
-  "prompt": "complete scene description (25-40 words)",
-  "keyTokens": ["token1","token2","token3","token4","token5","token6","token7"],
-  "creativeRemixes": ["remix1","remix2","remix3"],
-  "outpaintingPrompts": ["outpainting1","outpainting2","outpainting3"],
-  "animationPrompts": ["animation1","animation2","animation3"],
-  "musicPrompts": ["music1","music2","music3"],
-  "dialoguePrompts": ["dialogue1","dialogue2","dialogue3"],
-  "storyPrompts": ["story1","story2","story3"]
-}
-
-REQUIREMENTS:
-- title: 2-3 words that capture the essence
-- style: 2-4 words describing the aesthetic
-- prompt: 25-40 words describing the complete scene
-- keyTokens: 7 descriptive tokens that summarize the content
-- creativeRemixes: 3 creative reinterpretations (10-25 words each)
-- outpaintingPrompts: 3 scene expansion prompts (10-25 words each)
-- animationPrompts: 3 video animation descriptions (10-25 words each)
-- musicPrompts: 3 music style descriptions (brief descriptions)
-- dialoguePrompts: 3 dialogue/narration prompts (3-12 words each)
-- storyPrompts: 3 unique story concepts (10-25 words each)
-
-IMPORTANT: Return ONLY the JSON object above. No markdown, no code blocks, no additional text. Start with { and end with }.`;
-
-    // Prepare the request to Gemini API
-    const geminiRequest = {
-      contents: [
-        {
-          parts: [
-            {
-              text: analysisPrompt
-            },
-            {
-              inline_data: {
-                mime_type: mimeType,
-                data: mediaData
-              }
-            }
-          ]
-        }
-      ],
-      generationConfig: {
-        temperature: 0.7,
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 2048,
+    const customModules = customModuleCheck.specs;
+    const analysisOptions = { prompt: buildAnalysisPrompt(mediaType, customModules), customModules };
+
+    // Providers that read the media may only fetch it from our R2 bucket
+    let resolvedMediaUrl = mediaUrl || mediaKey || '';
+    if (provider.fetchesMedia) {
+      const publicBaseUrl = Deno.env.get('R2_PUBLIC_URL');
+      if (!publicBaseUrl) {
+        console.error('SERVER: R2_PUBLIC_URL not found in environment variables');
+        return jsonResponse(
+          { 
+            error: 'Media storage not configured',
+            details: 'Please set R2_PUBLIC_URL in your environment variables'
+          },
+          500
+        );
       }
-    };
-
-    console.log('SERVER: Calling Gemini API');
 
-    // Call Gemini 2.5 Flash API with error handling
-    let geminiResponse;
-    try {
-      geminiResponse = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${geminiApiKey}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(geminiRequest)
-        }
-      );
-    } catch (fetchError) {
-      console.error('SERVER: Gemini API fetch failed:', fetchError);
-      return new Response(
-        JSON.stringify({ 
-          error: 'Failed to connect to Gemini API',
-          details: fetchError instanceof Error ? fetchError.message : 'Network error'
-        }),
-        {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
+      const allowedUrl = resolveMediaUrl(requestData, publicBaseUrl);
+      if (!allowedUrl) {
+        console.error('SERVER: Rejected media location', { mediaUrl, mediaKey });
+        return jsonResponse({ error: 'Media must be uploaded to StyleDrop storage before analysis' }, 400);
+      }
+      resolvedMediaUrl = allowedUrl;
     }
 
-    console.log('SERVER: Gemini API response received', {
-      status: geminiResponse.status,
-      statusText: geminiResponse.statusText,
-      ok: geminiResponse.ok
-    });
+    console.log('SERVER: Provider configured, proceeding with analysis', provider.info);
 
-    if (!geminiResponse.ok) {
-      let errorText;
+    if (stream) {
       try {
-        errorText = await geminiResponse.text();
-      } catch {
-        errorText = 'Unable to read error response';
-      }
-      console.error('SERVER: Gemini API error:', errorText);
-      return new Response(
-        JSON.stringify({ 
-          error: 'Gemini API request failed',
-          details: `Status ${geminiResponse.status}: ${errorText}`
-        }),
-        {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
-    }
-
-    // Parse Gemini response with error handling
-    let geminiData;
-    try {
-      geminiData = await geminiResponse.json();
-    } catch (parseError) {
-      console.error('SERVER: Failed to parse Gemini response JSON:', parseError);
-      return new Response(
-        JSON.stringify({ 
-          error: 'Invalid JSON response from Gemini API',
-          details: parseError instanceof Error ? parseError.message : 'JSON parse error'
-        }),
-        {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
-    }
-    
-    console.log('SERVER: Gemini response parsed', {
-      hasCandidates: !!geminiData.candidates,
-      candidatesLength: geminiData.candidates?.length || 0,
-      firstCandidateHasContent: !!(geminiData.candidates?.[0]?.content)
-    });
-    
-    if (!geminiData.candidates || !geminiData.candidates[0] || !geminiData.candidates[0].content) {
-      console.error('SERVER: Invalid Gemini response structure:', geminiData);
-      return new Response(
-        JSON.stringify({ 
-          error: 'Invalid response structure from Gemini API',
-          details: 'Missing candidates or content in response'
-        }),
-        {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        const analysisStream = await provider.analyzeStream(
+          { url: resolvedMediaUrl, mimeType },
+          mediaType,
+          analysisOptions
+        );
+        return ndjsonStreamResponse(provider, analysisStream, mediaType, customModules);
+      } catch (error) {
+        if (error instanceof ProviderError) {
+          console.error('SERVER: Provider failed to start stream:', error.message, error.details);
+          return providerErrorResponse(error);
         }
-      );
+        throw error;
+      }
     }
 
-    // Extract the analysis text from Gemini response
-    const analysisText = geminiData.candidates[0].content.parts[0].text;
-    
-    console.log('SERVER: Analysis text extracted', {
-      textLength: analysisText.length,
-      textPreview: analysisText.substring(0, 200) + '...'
-    });
-    
-    // ENHANCED: Log the full analysis text for debugging
-    console.log('SERVER: Full Gemini 2.5 Flash response text:', analysisText);
-    
-    // Parse the analysis result using robust JSON extraction
     let analysisResult;
     try {
-      analysisResult = extractGeminiJSON(analysisText);
-      console.log('SERVER: Analysis result parsed and validated successfully', {
-        keyTokensCount: analysisResult.keyTokens.length,
-        keyTokens: analysisResult.keyTokens
-      });
-    } catch (parseError) {
-      console.error('SERVER: Failed to parse/validate analysis result:', parseError);
-      console.error('SERVER: Raw Gemini 2.5 Flash response text for debugging:', analysisText);
-      return new Response(
-        JSON.stringify({ 
-          error: 'Failed to parse analysis result',
-          details: parseError instanceof Error ? parseError.message : 'Parse error',
-          responsePreview: analysisText.substring(0, 500) + '...',
-          fullResponse: analysisText // ENHANCED: Include full response in error for debugging
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
+      analysisResult = await provider.analyze(
+        { url: resolvedMediaUrl, mimeType },
+        mediaType,
+        analysisOptions
       );
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        console.error('SERVER: Provider failed:', error.message, error.details);
+        return providerErrorResponse(error);
+      }
+      throw error;
     }
 
     // Return the successful analysis
     console.log('SERVER: Returning successful response');
-    return new Response(
-      JSON.stringify({ 
+    return jsonResponse(
+      { 
         success: true, 
         analysis: analysisResult,
-        mediaType 
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      }
+        mediaType,
+        provider: provider.info
+      },
+      200
     );
 
   } catch (error) {
     console.error('SERVER: Unexpected edge function error:', error);
-    return new Response(
-      JSON.stringify({ 
+    return jsonResponse(
+      { 
         error: 'Internal server error',
         details: error instanceof Error ? error.message : 'Unknown error'
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      }
+      },
+      500
     );
   }
-});
\ No newline at end of file
+});
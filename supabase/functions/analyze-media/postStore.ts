@@ -0,0 +1,98 @@
+import { toVectorLiteral } from '../_shared/embeddings.ts';
+
+/**
+ * Posts table access through PostgREST with the service role key. Only used to read
+ * analysis_data and write embeddings, which clients aren't allowed to set themselves.
+ */
+export interface PostStore {
+  url: string;
+  serviceRoleKey: string;
+}
+
+export interface PostForEmbedding {
+  id: string;
+  user_id: string | null;
+  created_at: string;
+  analysis_data: { prompt?: unknown; keyTokens?: unknown } | null;
+}
+
+// SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are set automatically for deployed functions
+export const getPostStoreFromEnv = (): PostStore | null => {
+  const url = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return url && serviceRoleKey ? { url: url.replace(/\/+$/, ''), serviceRoleKey } : null;
+};
+
+const restRequest = async (store: PostStore, path: string, init: RequestInit = {}): Promise<Response> => {
+  const response = await fetch(`${store.url}/rest/v1/${path}`, {
+    ...init,
+    headers: {
+      apikey: store.serviceRoleKey,
+      Authorization: `Bearer ${store.serviceRoleKey}`,
+      'Content-Type': 'application/json',
+      ...init.headers
+    }
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => 'Unable to read error response');
+    throw new Error(`Posts request failed: status ${response.status}: ${errorText}`);
+  }
+  return response;
+};
+
+export const getPostsByIds = async (store: PostStore, ids: string[]): Promise<PostForEmbedding[]> => {
+  const response = await restRequest(store, `posts?select=id,user_id,created_at,analysis_data&id=in.(${ids.join(',')})`);
+  return response.json();
+};
+
+/**
+ * ID of the user a request's `Authorization` header belongs to, or null when it isn't a
+ * valid user session (a missing header, the anon key or an expired JWT)
+ */
+export const getUserIdFromAuthorization = async (store: PostStore, authorization: string | null): Promise<string | null> => {
+  if (!authorization?.startsWith('Bearer ')) return null;
+
+  const response = await fetch(`${store.url}/auth/v1/user`, {
+    headers: { apikey: store.serviceRoleKey, Authorization: authorization }
+  });
+  if (!response.ok) return null;
+
+  const user = await response.json().catch(() => null);
+  return typeof user?.id === 'string' ? user.id : null;
+};
+
+/**
+ * Oldest posts without an embedding from `model`, for backfilling. `after` is the
+ * created_at of the last post of the previous batch, so posts that can't be embedded
+ * don't come back in every batch.
+ */
+export const getPostsMissingEmbedding = async (
+  store: PostStore,
+  model: string,
+  limit: number,
+  after?: string
+): Promise<PostForEmbedding[]> => {
+  const filters = [
+    `or=(embedding.is.null,embedding_model.neq.${encodeURIComponent(`"${model}"`)})`,
+    ...(after ? [`created_at=gt.${encodeURIComponent(after)}`] : [])
+  ];
+  const response = await restRequest(
+    store,
+    `posts?select=id,user_id,created_at,analysis_data&${filters.join('&')}&order=created_at.asc&limit=${limit}`
+  );
+  return response.json();
+};
+
+export const savePostEmbedding = async (
+  store: PostStore,
+  postId: string,
+  embedding: number[],
+  model: string
+): Promise<void> => {
+  await restRequest(store, `posts?id=eq.${postId}`, {
+    method: 'PATCH',
+    headers: { Prefer: 'return=minimal' },
+    body: JSON.stringify({ embedding: toVectorLiteral(embedding), embedding_model: model })
+  });
+};
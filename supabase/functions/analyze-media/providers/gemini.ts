@@ -0,0 +1,333 @@
+import { buildAnalysisResponseSchema, SEGMENTS_RESPONSE_SCHEMA, VARIATIONS_RESPONSE_SCHEMA } from '../../_shared/analysisSchema.ts';
+import { AnalysisMedia, AnalysisOptions, AnalysisProvider, ProviderError } from './types.ts';
+import { arrayBufferToBase64, fetchMedia } from './media.ts';
+import { readSSEData } from './sse.ts';
+import { checkEmbeddings, parseProviderOutput, parseSegmentsOutput, parseVariationsOutput } from './output.ts';
+import { EMBEDDING_DIMENSIONS } from '../../_shared/embeddings.ts';
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com';
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+const DEFAULT_GEMINI_EMBEDDING_MODEL = 'text-embedding-004';
+
+// Gemini caps inline requests at 20MB and base64 adds a third, so larger media
+// goes through the File API instead
+const INLINE_MEDIA_LIMIT_BYTES = 14 * 1024 * 1024;
+
+type GeminiMediaPart =
+  | { inline_data: { mime_type: string; data: string } }
+  | { file_data: { mime_type: string; file_uri: string } };
+
+/**
+ * Upload media to the Gemini File API and wait until it is ready to be referenced.
+ * Videos stay in PROCESSING for a while after upload.
+ */
+const uploadToGeminiFileApi = async (
+  mediaResponse: Response,
+  contentLength: number,
+  mimeType: string,
+  apiKey: string
+): Promise<string> => {
+  const startResponse = await fetch(`${GEMINI_API_BASE}/upload/v1beta/files?key=${apiKey}`, {
+    method: 'POST',
+    headers: {
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(contentLength),
+      'X-Goog-Upload-Header-Content-Type': mimeType,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ file: { display_name: `styledrop-${Date.now()}` } })
+  });
+
+  const uploadUrl = startResponse.headers.get('x-goog-upload-url');
+  if (!startResponse.ok || !uploadUrl) {
+    throw new Error(`Failed to start Gemini file upload: status ${startResponse.status}`);
+  }
+
+  // Stream the R2 body straight through instead of buffering it in memory
+  const uploadResponse = await fetch(uploadUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Length': String(contentLength),
+      'X-Goog-Upload-Offset': '0',
+      'X-Goog-Upload-Command': 'upload, finalize',
+    },
+    body: mediaResponse.body
+  });
+
+  if (!uploadResponse.ok) {
+    throw new Error(`Gemini file upload failed: status ${uploadResponse.status}`);
+  }
+
+  let { file } = await uploadResponse.json();
+
+  for (let attempt = 0; file?.state === 'PROCESSING' && attempt < 30; attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 2000));
+    const statusResponse = await fetch(`${GEMINI_API_BASE}/v1beta/${file.name}?key=${apiKey}`);
+    if (!statusResponse.ok) {
+      throw new Error(`Failed to check Gemini file status: status ${statusResponse.status}`);
+    }
+    file = await statusResponse.json();
+  }
+
+  if (!file?.uri || file.state !== 'ACTIVE') {
+    throw new Error(`Gemini file is not ready (state: ${file?.state || 'unknown'})`);
+  }
+
+  console.log('SERVER: Media uploaded to Gemini File API', { name: file.name, state: file.state });
+  return file.uri;
+};
+
+/**
+ * Fetch the media from R2 and turn it into a Gemini content part
+ */
+const buildMediaPart = async (media: AnalysisMedia, apiKey: string): Promise<GeminiMediaPart> => {
+  const mediaResponse = await fetchMedia(media.url);
+  const contentLength = Number(mediaResponse.headers.get('Content-Length') || 0);
+
+  console.log('SERVER: Media fetched from storage', { contentLength, mimeType: media.mimeType });
+
+  try {
+    if (contentLength > INLINE_MEDIA_LIMIT_BYTES) {
+      const fileUri = await uploadToGeminiFileApi(mediaResponse, contentLength, media.mimeType, apiKey);
+      return { file_data: { mime_type: media.mimeType, file_uri: fileUri } };
+    }
+
+    const buffer = await mediaResponse.arrayBuffer();
+
+    // Content-Length may be missing, so check the real size before inlining
+    if (buffer.byteLength > INLINE_MEDIA_LIMIT_BYTES) {
+      const fileUri = await uploadToGeminiFileApi(new Response(buffer), buffer.byteLength, media.mimeType, apiKey);
+      return { file_data: { mime_type: media.mimeType, file_uri: fileUri } };
+    }
+
+    return { inline_data: { mime_type: media.mimeType, data: arrayBufferToBase64(buffer) } };
+  } catch (error) {
+    throw new ProviderError(
+      'Failed to load media for analysis',
+      502,
+      error instanceof Error ? error.message : 'Unknown media error'
+    );
+  }
+};
+
+/**
+ * Call generateContent (or its streaming variant) in JSON mode, retrying without the
+ * response schema only when the API rejects schema mode itself
+ */
+const sendGeminiRequest = async (
+  method: 'generateContent' | 'streamGenerateContent',
+  apiKey: string,
+  model: string,
+  mediaParts: GeminiMediaPart[],
+  options: AnalysisOptions,
+  responseSchema: object
+): Promise<{ response: Response; schemaMode: boolean }> => {
+  const baseGenerationConfig = {
+    temperature: options.temperature ?? 0.7,
+    topK: 40,
+    topP: 0.95,
+    maxOutputTokens: options.maxOutputTokens ?? 2048,
+  };
+
+  const query = method === 'streamGenerateContent' ? `alt=sse&key=${apiKey}` : `key=${apiKey}`;
+
+  const callGemini = (useSchema: boolean) => fetch(
+    `${GEMINI_API_BASE}/v1beta/models/${model}:${method}?${query}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents: [
+          {
+            parts: [{ text: options.prompt }, ...mediaParts]
+          }
+        ],
+        generationConfig: useSchema
+          ? {
+              ...baseGenerationConfig,
+              responseMimeType: 'application/json',
+              responseSchema
+            }
+          : baseGenerationConfig
+      })
+    }
+  );
+
+  console.log('SERVER: Calling Gemini API', { model, method });
+
+  let response: Response;
+  let schemaMode = true;
+  try {
+    response = await callGemini(true);
+
+    if (response.status === 400) {
+      const errorText = await response.clone().text();
+      if (/response_?schema|response_?mime_?type/i.test(errorText)) {
+        console.warn('SERVER: Schema mode unavailable, retrying without responseSchema', errorText);
+        schemaMode = false;
+        response = await callGemini(false);
+      }
+    }
+  } catch (fetchError) {
+    console.error('SERVER: Gemini API fetch failed:', fetchError);
+    throw new ProviderError(
+      'Failed to connect to Gemini API',
+      500,
+      fetchError instanceof Error ? fetchError.message : 'Network error'
+    );
+  }
+
+  console.log('SERVER: Gemini API response received', {
+    status: response.status,
+    statusText: response.statusText,
+    ok: response.ok
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => 'Unable to read error response');
+    console.error('SERVER: Gemini API error:', errorText);
+    throw new ProviderError('Gemini API request failed', 500, `Status ${response.status}: ${errorText}`);
+  }
+
+  return { response, schemaMode };
+};
+
+interface GeminiResponseData {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+const getCandidateText = (geminiData: GeminiResponseData | null): string | undefined =>
+  geminiData?.candidates?.[0]?.content?.parts?.[0]?.text;
+
+/**
+ * Read the model text out of a non-streaming generateContent response
+ */
+const readResponseText = async (response: Response): Promise<string> => {
+  let geminiData: GeminiResponseData;
+  try {
+    geminiData = await response.json();
+  } catch (parseError) {
+    console.error('SERVER: Failed to parse Gemini response JSON:', parseError);
+    throw new ProviderError(
+      'Invalid JSON response from Gemini API',
+      500,
+      parseError instanceof Error ? parseError.message : 'JSON parse error'
+    );
+  }
+
+  const text = getCandidateText(geminiData);
+  if (typeof text !== 'string') {
+    console.error('SERVER: Invalid Gemini response structure:', geminiData);
+    throw new ProviderError(
+      'Invalid response structure from Gemini API',
+      500,
+      'Missing candidates or content in response'
+    );
+  }
+
+  return text;
+};
+
+/**
+ * Google Gemini via generateContent, using JSON mode with the shared response schema
+ */
+export const createGeminiProvider = (
+  apiKey: string,
+  model: string = DEFAULT_GEMINI_MODEL,
+  embeddingModel: string = DEFAULT_GEMINI_EMBEDDING_MODEL
+): AnalysisProvider => ({
+  info: { id: 'gemini', label: 'Gemini', model },
+  fetchesMedia: true,
+  embeddingModel: `gemini:${embeddingModel}`,
+
+  async analyze(media, mediaType, options) {
+    const mediaPart = await buildMediaPart(media, apiKey);
+    const { response, schemaMode } = await sendGeminiRequest(
+      'generateContent', apiKey, model, [mediaPart], options,
+      buildAnalysisResponseSchema(options.customModules, mediaType)
+    );
+
+    return parseProviderOutput(
+      await readResponseText(response), schemaMode, 'Gemini', options.customModules, mediaType
+    );
+  },
+
+  async analyzeStream(media, mediaType, options) {
+    const mediaPart = await buildMediaPart(media, apiKey);
+    const { response, schemaMode } = await sendGeminiRequest(
+      'streamGenerateContent', apiKey, model, [mediaPart], options,
+      buildAnalysisResponseSchema(options.customModules, mediaType)
+    );
+
+    async function* chunks() {
+      for await (const data of readSSEData(response)) {
+        const text = getCandidateText(JSON.parse(data));
+        if (text) yield text;
+      }
+    }
+
+    return { schemaMode, chunks: chunks() };
+  },
+
+  async generateVariations(_request, options) {
+    const { response, schemaMode } = await sendGeminiRequest(
+      'generateContent', apiKey, model, [], options, VARIATIONS_RESPONSE_SCHEMA
+    );
+
+    return parseVariationsOutput(await readResponseText(response), schemaMode, 'Gemini');
+  },
+
+  async analyzeKeyframes(frames, options) {
+    const mediaParts = await Promise.all(frames.map(frame => buildMediaPart(frame, apiKey)));
+    const { response, schemaMode } = await sendGeminiRequest(
+      'generateContent', apiKey, model, mediaParts, options, SEGMENTS_RESPONSE_SCHEMA
+    );
+
+    return parseSegmentsOutput(await readResponseText(response), schemaMode, 'Gemini', frames.length);
+  },
+
+  async blendAnalyses(request, options) {
+    const { response, schemaMode } = await sendGeminiRequest(
+      'generateContent', apiKey, model, [], options,
+      buildAnalysisResponseSchema([], request.mediaType)
+    );
+
+    return parseProviderOutput(await readResponseText(response), schemaMode, 'Gemini', [], request.mediaType);
+  },
+
+  async embedTexts(texts) {
+    let response: Response;
+    try {
+      response = await fetch(`${GEMINI_API_BASE}/v1beta/models/${embeddingModel}:batchEmbedContents?key=${apiKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          requests: texts.map(text => ({
+            model: `models/${embeddingModel}`,
+            content: { parts: [{ text }] },
+            taskType: 'SEMANTIC_SIMILARITY',
+            outputDimensionality: EMBEDDING_DIMENSIONS
+          }))
+        })
+      });
+    } catch (fetchError) {
+      throw new ProviderError(
+        'Failed to connect to Gemini API',
+        500,
+        fetchError instanceof Error ? fetchError.message : 'Network error'
+      );
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unable to read error response');
+      console.error('SERVER: Gemini embedding error:', errorText);
+      throw new ProviderError('Gemini embedding request failed', 500, `Status ${response.status}: ${errorText}`);
+    }
+
+    const data = await response.json();
+    return checkEmbeddings(data.embeddings?.map((embedding: { values?: unknown }) => embedding.values), texts.length, 'Gemini');
+  }
+});
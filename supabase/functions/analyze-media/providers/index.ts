@@ -0,0 +1,65 @@
+import { AnalysisProvider, ProviderError } from './types.ts';
+import { createGeminiProvider } from './gemini.ts';
+import { createOpenAICompatibleProvider } from './openaiCompatible.ts';
+import { createMockProvider } from './mock.ts';
+
+export type { AnalysisMedia, AnalysisOptions, AnalysisProvider, AnalysisStream, BlendRequest, VariationRequest } from './types.ts';
+export { ProviderError } from './types.ts';
+export { parseProviderOutput } from './output.ts';
+
+/**
+ * Pick the analysis provider from ANALYSIS_PROVIDER (gemini | openai | mock, default gemini)
+ */
+export const getProviderFromEnv = (): AnalysisProvider => {
+  const providerId = (Deno.env.get('ANALYSIS_PROVIDER') || 'gemini').toLowerCase();
+
+  switch (providerId) {
+    case 'mock':
+      return createMockProvider();
+
+    case 'openai': {
+      const baseUrl = Deno.env.get('OPENAI_BASE_URL') || undefined;
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+
+      // Only the hosted OpenAI API strictly needs a key; local servers usually don't
+      if (!apiKey && !baseUrl) {
+        throw new ProviderError(
+          'OpenAI API key not configured',
+          500,
+          'Please set OPENAI_API_KEY (or OPENAI_BASE_URL for a local server) in your environment variables'
+        );
+      }
+
+      return createOpenAICompatibleProvider(
+        apiKey,
+        baseUrl,
+        Deno.env.get('OPENAI_MODEL') || undefined,
+        Deno.env.get('OPENAI_EMBEDDING_MODEL') || undefined
+      );
+    }
+
+    case 'gemini': {
+      const apiKey = Deno.env.get('GEMINI_API_KEY');
+      if (!apiKey) {
+        throw new ProviderError(
+          'Gemini API key not configured',
+          500,
+          'Please set GEMINI_API_KEY in your environment variables'
+        );
+      }
+
+      return createGeminiProvider(
+        apiKey,
+        Deno.env.get('GEMINI_MODEL') || undefined,
+        Deno.env.get('GEMINI_EMBEDDING_MODEL') || undefined
+      );
+    }
+
+    default:
+      throw new ProviderError(
+        'Unknown analysis provider',
+        500,
+        `ANALYSIS_PROVIDER must be one of gemini, openai or mock (got "${providerId}")`
+      );
+  }
+};
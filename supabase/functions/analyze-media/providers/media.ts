@@ -0,0 +1,40 @@
+import { ProviderError } from './types.ts';
+
+/**
+ * Fetch media from R2 for a provider that needs the bytes
+ */
+export const fetchMedia = async (url: string): Promise<Response> => {
+  let mediaResponse: Response;
+  try {
+    mediaResponse = await fetch(url);
+  } catch (error) {
+    throw new ProviderError(
+      'Failed to load media for analysis',
+      502,
+      error instanceof Error ? error.message : 'Network error'
+    );
+  }
+
+  if (!mediaResponse.ok || !mediaResponse.body) {
+    throw new ProviderError(
+      'Failed to load media for analysis',
+      502,
+      `Failed to fetch media from storage: status ${mediaResponse.status}`
+    );
+  }
+
+  return mediaResponse;
+};
+
+export const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  const chunkSize = 0x8000;
+  let binary = '';
+
+  // Chunked to avoid exceeding the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+
+  return btoa(binary);
+};
@@ -0,0 +1,92 @@
+import { MOCK_ANALYSIS_RESULT, MOCK_AUDIO_ANALYSIS } from '../../_shared/mockAnalysis.ts';
+import { CustomModuleSpec, MediaType, validateAnalysisResult } from '../../_shared/analysisSchema.ts';
+import { createLocalEmbedding, LOCAL_EMBEDDING_MODEL } from '../../_shared/embeddings.ts';
+import { blendAnalysesLocally } from '../../_shared/styleMix.ts';
+import { AnalysisProvider } from './types.ts';
+
+// Small slices with a pause between them so progressive rendering can be exercised offline
+const MOCK_CHUNK_SIZE = 48;
+const MOCK_CHUNK_DELAY_MS = 30;
+
+// The fixture analysis plus numbered placeholder items for any requested custom modules,
+// and the music details for audio
+const buildMockAnalysis = (customModules: CustomModuleSpec[] = [], mediaType?: MediaType) => {
+  const analysis = structuredClone(MOCK_ANALYSIS_RESULT);
+
+  return {
+    ...analysis,
+    ...(customModules.length > 0 && {
+      customModules: Object.fromEntries(customModules.map(module => [
+        module.id,
+        Array.from({ length: module.itemCount }, (_, i) => `${module.name} ${i + 1}: ${analysis.prompt}`)
+      ]))
+    }),
+    ...(mediaType === 'audio' && { audio: structuredClone(MOCK_AUDIO_ANALYSIS) })
+  };
+};
+
+/**
+ * Deterministic offline provider for local development and CI.
+ * Never touches the media or the network and always returns the fixture analysis.
+ */
+export const createMockProvider = (): AnalysisProvider => ({
+  info: { id: 'mock', label: 'Mock', model: 'fixture' },
+  fetchesMedia: false,
+  embeddingModel: LOCAL_EMBEDDING_MODEL,
+
+  analyze(_media, mediaType, options) {
+    console.log('SERVER: Returning mock analysis', { mediaType });
+    // Run the fixture through the shared validator so it can't drift from the schema
+    const customModules = options.customModules ?? [];
+    return Promise.resolve(validateAnalysisResult(buildMockAnalysis(customModules, mediaType), customModules, mediaType));
+  },
+
+  analyzeStream(_media, mediaType, options) {
+    console.log('SERVER: Streaming mock analysis', { mediaType });
+    const customModules = options.customModules ?? [];
+    const text = JSON.stringify(validateAnalysisResult(buildMockAnalysis(customModules, mediaType), customModules, mediaType), null, 2);
+
+    async function* chunks() {
+      for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+        await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY_MS));
+        yield text.substring(i, i + MOCK_CHUNK_SIZE);
+      }
+    }
+
+    return Promise.resolve({ schemaMode: true, chunks: chunks() });
+  },
+
+  generateVariations(request) {
+    console.log('SERVER: Returning mock variations', { promptKey: request.promptKey });
+    // Numbered after the existing ones so repeated regenerations stay distinguishable
+    const start = request.existing.length + 1;
+    return Promise.resolve(Array.from(
+      { length: request.count },
+      (_, i) => `${request.context.title}, variation ${start + i}: ${request.context.prompt}`
+    ));
+  },
+
+  analyzeKeyframes(frames) {
+    console.log('SERVER: Returning mock segments', { count: frames.length });
+    return Promise.resolve(frames.map((_, i) => ({
+      style: `${MOCK_ANALYSIS_RESULT.style}, scene ${i + 1}`,
+      prompt: MOCK_ANALYSIS_RESULT.prompt,
+      animationPrompts: MOCK_ANALYSIS_RESULT.animationPrompts.slice(0, 2)
+    })));
+  },
+
+  blendAnalyses(request) {
+    console.log('SERVER: Returning mock blend', { sources: request.sources.length });
+    const primary = [...request.sources].sort((a, b) => b.weight - a.weight)[0];
+    const blend = {
+      ...blendAnalysesLocally(request.sources),
+      ...(request.mediaType === 'audio' && { audio: primary.analysis.audio ?? structuredClone(MOCK_AUDIO_ANALYSIS) })
+    };
+    return Promise.resolve(validateAnalysisResult(blend, [], request.mediaType));
+  },
+
+  embedTexts(texts) {
+    console.log('SERVER: Returning local embeddings', { count: texts.length });
+    return Promise.resolve(texts.map(text => createLocalEmbedding(text)));
+  }
+});
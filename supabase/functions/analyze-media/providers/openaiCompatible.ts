@@ -0,0 +1,263 @@
+import { buildAnalysisJsonSchema, MediaType, SEGMENTS_JSON_SCHEMA, VARIATIONS_JSON_SCHEMA } from '../../_shared/analysisSchema.ts';
+import { AnalysisMedia, AnalysisOptions, AnalysisProvider, ProviderError } from './types.ts';
+import { arrayBufferToBase64, fetchMedia } from './media.ts';
+import { readSSEData } from './sse.ts';
+import { checkEmbeddings, parseProviderOutput, parseSegmentsOutput, parseVariationsOutput } from './output.ts';
+import { EMBEDDING_DIMENSIONS } from '../../_shared/embeddings.ts';
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+const DEFAULT_OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+interface StructuredOutputSchema {
+  name: string;
+  schema: object;
+}
+
+const getAnalysisOutputSchema = (options: AnalysisOptions, mediaType?: MediaType): StructuredOutputSchema => ({
+  name: 'style_analysis',
+  schema: buildAnalysisJsonSchema(options.customModules, mediaType)
+});
+const VARIATIONS_OUTPUT_SCHEMA: StructuredOutputSchema = { name: 'prompt_variations', schema: VARIATIONS_JSON_SCHEMA };
+const SEGMENTS_OUTPUT_SCHEMA: StructuredOutputSchema = { name: 'video_segments', schema: SEGMENTS_JSON_SCHEMA };
+
+// Formats accepted by the chat completions input_audio content part
+const AUDIO_FORMATS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav'
+};
+
+/**
+ * Build the chat content part for the media. Images are sent as data URLs so
+ * self-hosted servers don't need to reach R2 themselves.
+ */
+const buildMediaContent = async (media: AnalysisMedia, mediaType: string) => {
+  const audioFormat = AUDIO_FORMATS[media.mimeType];
+
+  if (mediaType === 'video' || (mediaType === 'audio' && !audioFormat)) {
+    throw new ProviderError(
+      'Unsupported media for this analysis provider',
+      415,
+      `The OpenAI-compatible provider cannot analyze ${media.mimeType}`
+    );
+  }
+
+  const mediaResponse = await fetchMedia(media.url);
+  const data = arrayBufferToBase64(await mediaResponse.arrayBuffer());
+
+  if (mediaType === 'audio') {
+    return { type: 'input_audio', input_audio: { data, format: audioFormat } };
+  }
+
+  return { type: 'image_url', image_url: { url: `data:${media.mimeType};base64,${data}` } };
+};
+
+/**
+ * Call chat completions in structured output mode, retrying without response_format
+ * when the server doesn't implement it
+ */
+const sendCompletionsRequest = async (
+  apiKey: string | undefined,
+  baseUrl: string,
+  model: string,
+  mediaContents: Awaited<ReturnType<typeof buildMediaContent>>[],
+  options: AnalysisOptions,
+  stream: boolean,
+  outputSchema: StructuredOutputSchema
+): Promise<{ response: Response; schemaMode: boolean }> => {
+  const callCompletions = (useSchema: boolean) => fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+    },
+    body: JSON.stringify({
+      model,
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxOutputTokens ?? 2048,
+      stream,
+      messages: [
+        {
+          role: 'user',
+          content: [{ type: 'text', text: options.prompt }, ...mediaContents]
+        }
+      ],
+      ...(useSchema
+        ? {
+            response_format: {
+              type: 'json_schema',
+              json_schema: { ...outputSchema, strict: true }
+            }
+          }
+        : {})
+    })
+  });
+
+  console.log('SERVER: Calling OpenAI-compatible API', { baseUrl, model, stream });
+
+  let completionResponse: Response;
+  let schemaMode = true;
+  try {
+    completionResponse = await callCompletions(true);
+
+    // Many compatible servers don't implement structured outputs
+    if (completionResponse.status === 400) {
+      const errorText = await completionResponse.clone().text();
+      if (/response_format|json_schema/i.test(errorText)) {
+        console.warn('SERVER: Schema mode unavailable, retrying without response_format', errorText);
+        schemaMode = false;
+        completionResponse = await callCompletions(false);
+      }
+    }
+  } catch (fetchError) {
+    console.error('SERVER: OpenAI-compatible API fetch failed:', fetchError);
+    throw new ProviderError(
+      'Failed to connect to analysis provider',
+      500,
+      fetchError instanceof Error ? fetchError.message : 'Network error'
+    );
+  }
+
+  if (!completionResponse.ok) {
+    const errorText = await completionResponse.text().catch(() => 'Unable to read error response');
+    console.error('SERVER: OpenAI-compatible API error:', errorText);
+    throw new ProviderError('Analysis provider request failed', 500, `Status ${completionResponse.status}: ${errorText}`);
+  }
+
+  return { response: completionResponse, schemaMode };
+};
+
+/**
+ * Read the message text out of a non-streaming chat completion
+ */
+const readCompletionText = async (response: Response): Promise<string> => {
+  let completionData;
+  try {
+    completionData = await response.json();
+  } catch (parseError) {
+    throw new ProviderError(
+      'Invalid JSON response from analysis provider',
+      500,
+      parseError instanceof Error ? parseError.message : 'JSON parse error'
+    );
+  }
+
+  const text = completionData.choices?.[0]?.message?.content;
+  if (typeof text !== 'string') {
+    console.error('SERVER: Invalid OpenAI-compatible response structure:', completionData);
+    throw new ProviderError(
+      'Invalid response structure from analysis provider',
+      500,
+      'Missing choices or message content in response'
+    );
+  }
+
+  return text;
+};
+
+/**
+ * Any server implementing the OpenAI chat completions API (OpenAI, OpenRouter, vLLM, LM Studio...)
+ */
+export const createOpenAICompatibleProvider = (
+  apiKey: string | undefined,
+  baseUrl: string = DEFAULT_OPENAI_BASE_URL,
+  model: string = DEFAULT_OPENAI_MODEL,
+  embeddingModel: string = DEFAULT_OPENAI_EMBEDDING_MODEL
+): AnalysisProvider => ({
+  info: { id: 'openai', label: 'OpenAI-compatible', model },
+  fetchesMedia: true,
+  embeddingModel: `openai:${embeddingModel}`,
+
+  async analyze(media, mediaType, options) {
+    const mediaContent = await buildMediaContent(media, mediaType);
+    const { response, schemaMode } = await sendCompletionsRequest(
+      apiKey, baseUrl, model, [mediaContent], options, false, getAnalysisOutputSchema(options, mediaType)
+    );
+
+    return parseProviderOutput(
+      await readCompletionText(response), schemaMode, 'OpenAI-compatible', options.customModules, mediaType
+    );
+  },
+
+  async analyzeStream(media, mediaType, options) {
+    const mediaContent = await buildMediaContent(media, mediaType);
+    const { response, schemaMode } = await sendCompletionsRequest(
+      apiKey, baseUrl, model, [mediaContent], options, true, getAnalysisOutputSchema(options, mediaType)
+    );
+
+    async function* chunks() {
+      for await (const data of readSSEData(response)) {
+        if (data === '[DONE]') return;
+        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (typeof text === 'string' && text) yield text;
+      }
+    }
+
+    return { schemaMode, chunks: chunks() };
+  },
+
+  async generateVariations(_request, options) {
+    const { response, schemaMode } = await sendCompletionsRequest(
+      apiKey, baseUrl, model, [], options, false, VARIATIONS_OUTPUT_SCHEMA
+    );
+
+    return parseVariationsOutput(await readCompletionText(response), schemaMode, 'OpenAI-compatible');
+  },
+
+  // Keyframes are still images, so this works even though the provider can't take video
+  async analyzeKeyframes(frames, options) {
+    const mediaContents = await Promise.all(frames.map(frame => buildMediaContent(frame, 'image')));
+    const { response, schemaMode } = await sendCompletionsRequest(
+      apiKey, baseUrl, model, mediaContents, options, false, SEGMENTS_OUTPUT_SCHEMA
+    );
+
+    return parseSegmentsOutput(await readCompletionText(response), schemaMode, 'OpenAI-compatible', frames.length);
+  },
+
+  async blendAnalyses(request, options) {
+    const { response, schemaMode } = await sendCompletionsRequest(
+      apiKey, baseUrl, model, [], options, false, getAnalysisOutputSchema(options, request.mediaType)
+    );
+
+    return parseProviderOutput(
+      await readCompletionText(response), schemaMode, 'OpenAI-compatible', [], request.mediaType
+    );
+  },
+
+  async embedTexts(texts) {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, '')}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+        },
+        // Servers that ignore `dimensions` are caught by the size check below
+        body: JSON.stringify({ model: embeddingModel, input: texts, dimensions: EMBEDDING_DIMENSIONS })
+      });
+    } catch (fetchError) {
+      throw new ProviderError(
+        'Failed to connect to analysis provider',
+        500,
+        fetchError instanceof Error ? fetchError.message : 'Network error'
+      );
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unable to read error response');
+      console.error('SERVER: OpenAI-compatible embedding error:', errorText);
+      throw new ProviderError('Embedding request failed', 500, `Status ${response.status}: ${errorText}`);
+    }
+
+    const data = await response.json();
+    const embeddings = Array.isArray(data.data)
+      ? [...data.data]
+          .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+          .map((item: { embedding?: unknown }) => item.embedding)
+      : undefined;
+    return checkEmbeddings(embeddings, texts.length, 'OpenAI-compatible');
+  }
+});
@@ -0,0 +1,121 @@
+import {
+  AnalysisValidationError,
+  CustomModuleSpec,
+  MediaType,
+  ValidatedAnalysis,
+  VideoSegmentAnalysis,
+  parseAnalysisText,
+  parseSegmentsText,
+  parseVariationsText
+} from '../../_shared/analysisSchema.ts';
+import { isValidEmbedding, normalizeVector } from '../../_shared/embeddings.ts';
+import { ProviderError } from './types.ts';
+
+/**
+ * Parse model output with the shared validator, surfacing failures as a 400 with field errors
+ */
+export const parseProviderOutput = (
+  analysisText: string,
+  schemaMode: boolean,
+  providerLabel: string,
+  customModules: CustomModuleSpec[] = [],
+  mediaType?: MediaType
+): ValidatedAnalysis => {
+  console.log(`SERVER: Full ${providerLabel} response text:`, analysisText);
+
+  try {
+    const analysisResult = parseAnalysisText(analysisText, { schemaMode, customModules, mediaType });
+    console.log('SERVER: Analysis result parsed and validated successfully', {
+      schemaMode,
+      keyTokensCount: analysisResult.keyTokens.length,
+      keyTokens: analysisResult.keyTokens
+    });
+    return analysisResult;
+  } catch (parseError) {
+    console.error('SERVER: Failed to parse/validate analysis result:', parseError);
+    throw new ProviderError(
+      'Failed to parse analysis result',
+      400,
+      parseError instanceof Error ? parseError.message : 'Parse error',
+      {
+        fieldErrors: parseError instanceof AnalysisValidationError ? parseError.fieldErrors : undefined,
+        schemaMode,
+        responsePreview: analysisText.substring(0, 500) + '...',
+        fullResponse: analysisText
+      }
+    );
+  }
+};
+
+/**
+ * Parse regenerated variations, surfacing failures as a 400 like parseProviderOutput
+ */
+export const parseVariationsOutput = (
+  responseText: string,
+  schemaMode: boolean,
+  providerLabel: string
+): string[] => {
+  console.log(`SERVER: Full ${providerLabel} variations text:`, responseText);
+
+  try {
+    return parseVariationsText(responseText, { schemaMode });
+  } catch (parseError) {
+    console.error('SERVER: Failed to parse variations:', parseError);
+    throw new ProviderError(
+      'Failed to parse regenerated prompts',
+      400,
+      parseError instanceof Error ? parseError.message : 'Parse error',
+      {
+        schemaMode,
+        responsePreview: responseText.substring(0, 500) + '...'
+      }
+    );
+  }
+};
+
+/**
+ * Parse keyframe segments, surfacing failures as a 400 like parseProviderOutput
+ */
+export const parseSegmentsOutput = (
+  responseText: string,
+  schemaMode: boolean,
+  providerLabel: string,
+  count: number
+): VideoSegmentAnalysis[] => {
+  console.log(`SERVER: Full ${providerLabel} segments text:`, responseText);
+
+  try {
+    return parseSegmentsText(responseText, { schemaMode, count });
+  } catch (parseError) {
+    console.error('SERVER: Failed to parse segments:', parseError);
+    throw new ProviderError(
+      'Failed to parse video timeline',
+      400,
+      parseError instanceof Error ? parseError.message : 'Parse error',
+      {
+        schemaMode,
+        responsePreview: responseText.substring(0, 500) + '...'
+      }
+    );
+  }
+};
+
+/**
+ * Check a provider returned one embedding of the right size per text, normalized to
+ * unit length so the cosine index compares them fairly
+ */
+export const checkEmbeddings = (embeddings: unknown, count: number, providerLabel: string): number[][] => {
+  if (!Array.isArray(embeddings) || embeddings.length !== count || !embeddings.every(embedding => isValidEmbedding(embedding))) {
+    console.error(`SERVER: Invalid ${providerLabel} embeddings`, {
+      expected: count,
+      received: Array.isArray(embeddings) ? embeddings.length : typeof embeddings
+    });
+    throw new ProviderError(
+      'Invalid embeddings from analysis provider',
+      500,
+      `Expected ${count} embeddings with the configured number of dimensions`
+    );
+  }
+
+  return embeddings.map(embedding => normalizeVector(embedding));
+};
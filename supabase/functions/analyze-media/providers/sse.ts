@@ -0,0 +1,33 @@
+const getEventData = (event: string): string => event
+  .split(/\r?\n/)
+  .filter(line => line.startsWith('data:'))
+  .map(line => line.slice(5).trimStart())
+  .join('\n');
+
+/**
+ * Yield the `data:` payloads of a server-sent events response, one per event
+ */
+export async function* readSSEData(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() ?? '';
+
+    for (const event of events) {
+      const data = getEventData(event);
+      if (data) yield data;
+    }
+  }
+
+  // The last event may not be followed by a blank line
+  const data = getEventData(buffer);
+  if (data) yield data;
+}
@@ -0,0 +1,77 @@
+import type {
+  AnalysisProviderInfo,
+  CustomModuleSpec,
+  GeminiAnalysisResult,
+  MediaType,
+  PromptListKey,
+  ValidatedAnalysis,
+  VideoSegmentAnalysis
+} from '../../_shared/analysisSchema.ts';
+
+export interface AnalysisMedia {
+  url: string; // R2 public URL, already checked against R2_PUBLIC_URL
+  mimeType: string;
+}
+
+export interface AnalysisOptions {
+  prompt: string;
+  customModules?: CustomModuleSpec[]; // Extra module lists the response schema must include
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+// Regenerate one prompt list from the stored analysis, without the media
+export interface VariationRequest {
+  promptKey: PromptListKey;
+  context: Pick<GeminiAnalysisResult, 'title' | 'style' | 'prompt' | 'keyTokens'>;
+  existing: string[]; // Variations already shown, which the new ones should differ from
+  count: number;
+}
+
+// Blend several stored analyses into a new one, without any media
+export interface BlendRequest {
+  sources: { analysis: ValidatedAnalysis; weight: number }[]; // Weights are shares summing to 1
+  mediaType?: MediaType; // Set to 'audio' when every source is a track, for the music details
+}
+
+export interface AnalysisStream {
+  // Whether the model was constrained by the response schema, for parsing the final text
+  schemaMode: boolean;
+  // Raw model output text, in whatever pieces the provider sends it
+  chunks: AsyncIterable<string>;
+}
+
+export interface AnalysisProvider {
+  readonly info: AnalysisProviderInfo;
+  // False for providers that never read the media, so they can run without R2
+  readonly fetchesMedia: boolean;
+  // Stored next to each post embedding; vectors from different models are never compared
+  readonly embeddingModel: string;
+  analyze(media: AnalysisMedia, mediaType: MediaType, options: AnalysisOptions): Promise<ValidatedAnalysis>;
+  // Resolves once the provider has accepted the request, so setup failures still surface as ProviderError
+  analyzeStream(media: AnalysisMedia, mediaType: MediaType, options: AnalysisOptions): Promise<AnalysisStream>;
+  generateVariations(request: VariationRequest, options: AnalysisOptions): Promise<string[]>;
+  // Describe each keyframe image of a video, returning one segment per frame in order
+  analyzeKeyframes(frames: AnalysisMedia[], options: AnalysisOptions): Promise<VideoSegmentAnalysis[]>;
+  // Write a full analysis for a blend of other analyses, described in the prompt
+  blendAnalyses(request: BlendRequest, options: AnalysisOptions): Promise<ValidatedAnalysis>;
+  // One EMBEDDING_DIMENSIONS vector per text, in order
+  embedTexts(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Provider failure carrying the HTTP status and body the edge function should respond with
+ */
+export class ProviderError extends Error {
+  readonly status: number;
+  readonly details?: string;
+  readonly extra?: Record<string, unknown>;
+
+  constructor(message: string, status: number, details?: string, extra?: Record<string, unknown>) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.details = details;
+    this.extra = extra;
+  }
+}
@@ -0,0 +1,111 @@
+/*
+  # Add likes table and keep posts.likes_count in sync
+
+  1. New Tables
+    - `likes`: one row per user per liked post, unique on (user_id, post_id)
+
+  2. Changes
+    - Add `likes_count` column to posts table (read and sorted on by the gallery)
+    - Trigger on likes recounts posts.likes_count after every insert or delete
+    - Trigger on posts starts likes_count at 0 and stops it being edited directly through
+      the posts insert and update policies
+
+  3. Security
+    - Enable RLS on likes
+    - Everyone can read likes (counts and liked state are public)
+    - Authenticated users can only like and unlike as themselves
+*/
+
+-- Add likes_count column to posts table
+ALTER TABLE public.posts
+ADD COLUMN IF NOT EXISTS likes_count integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS posts_likes_count_desc ON public.posts(likes_count DESC, created_at DESC);
+
+-- Create likes table
+CREATE TABLE IF NOT EXISTS public.likes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  post_id uuid NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, post_id)
+);
+
+CREATE INDEX IF NOT EXISTS likes_post_id_idx ON public.likes(post_id);
+CREATE INDEX IF NOT EXISTS likes_user_id_idx ON public.likes(user_id);
+
+ALTER TABLE public.likes ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for likes table
+CREATE POLICY "Likes are viewable by everyone"
+  ON public.likes
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Users can like posts as themselves"
+  ON public.likes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own likes"
+  ON public.likes
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Recount likes for the affected post (recounting rather than incrementing keeps the value self-healing)
+CREATE OR REPLACE FUNCTION public.sync_post_likes_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_post_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_post_id := OLD.post_id;
+  ELSE
+    target_post_id := NEW.post_id;
+  END IF;
+
+  UPDATE posts
+  SET likes_count = (SELECT count(*) FROM likes WHERE likes.post_id = target_post_id)
+  WHERE id = target_post_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS likes_sync_post_likes_count ON public.likes;
+
+CREATE TRIGGER likes_sync_post_likes_count
+  AFTER INSERT OR DELETE ON public.likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_post_likes_count();
+
+-- Posts start with no likes, and likes_count is only written by the trigger above
+CREATE OR REPLACE FUNCTION public.protect_post_likes_count()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.likes_count := 0;
+  ELSIF pg_trigger_depth() <= 1 THEN
+    NEW.likes_count := OLD.likes_count;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_protect_likes_count ON public.posts;
+
+CREATE TRIGGER posts_protect_likes_count
+  BEFORE INSERT OR UPDATE OF likes_count ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_post_likes_count();
+
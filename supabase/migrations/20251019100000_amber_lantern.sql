@@ -0,0 +1,104 @@
+/*
+  # Add time-decayed hot score to posts
+
+  1. Changes
+    - Add `calculate_hot_score` function, the only place the score is computed, checked
+      against fixed timestamps when the migration runs
+    - Add stored `hot_score` column to posts table, set by trigger whenever likes_count changes
+    - Trigger on posts sets created_at on insert and keeps it fixed afterwards, so clients
+      can't date a post into the future to rank it higher
+    - Backfill hot_score for existing posts
+    - Index hot_score per media type for the gallery's 'hot' sort
+
+  2. Notes
+    - The score only depends on likes_count and created_at, never on now(), so pagination stays stable
+    - Each 45000 seconds (12.5 hours) of age is worth one order of magnitude of likes
+
+  3. Security
+    - No RLS changes needed as it follows existing post security model
+*/
+
+CREATE OR REPLACE FUNCTION public.calculate_hot_score(likes integer, created timestamptz)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT log(greatest(likes, 1)::double precision)
+    + (extract(epoch FROM created) - 1748736000) / 45000.0;
+$$;
+
+-- Check the formula against fixed timestamps; a wrong score aborts the migration
+DO $$
+DECLARE
+  epoch timestamptz := '2025-06-01T00:00:00Z';
+BEGIN
+  -- No likes at the epoch scores zero
+  ASSERT public.calculate_hot_score(0, epoch) = 0 AND public.calculate_hot_score(1, epoch) = 0,
+    'hot score: no likes at the epoch should score 0';
+  -- One point per order of magnitude of likes
+  ASSERT abs(public.calculate_hot_score(10, epoch) - 1) < 1e-9
+    AND abs(public.calculate_hot_score(1000, epoch) - 3) < 1e-9,
+    'hot score: each 10x likes should add 1';
+  -- One point per 45000 seconds of recency
+  ASSERT abs(public.calculate_hot_score(0, epoch + interval '90000 seconds') - 2) < 1e-9,
+    'hot score: each decay period should add 1';
+  -- A day newer beats 10x the likes; an hour newer doesn't beat 100x the likes
+  ASSERT public.calculate_hot_score(5, '2025-09-02T00:00:00Z') > public.calculate_hot_score(50, '2025-09-01T00:00:00Z'),
+    'hot score: a day-newer post should rank above 10x the likes';
+  ASSERT public.calculate_hot_score(500, '2025-09-01T00:00:00Z') > public.calculate_hot_score(5, '2025-09-01T01:00:00Z'),
+    'hot score: 100x the likes should outweigh an hour of age';
+END;
+$$;
+
+-- Add hot_score column to posts table
+ALTER TABLE public.posts
+ADD COLUMN IF NOT EXISTS hot_score double precision NOT NULL DEFAULT 0;
+
+-- The score trusts created_at, so it's set by the database and can't be moved afterwards
+-- (named to run before posts_set_hot_score)
+CREATE OR REPLACE FUNCTION public.protect_post_created_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_at := now();
+  ELSE
+    NEW.created_at := OLD.created_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_protect_created_at ON public.posts;
+
+CREATE TRIGGER posts_protect_created_at
+  BEFORE INSERT OR UPDATE OF created_at ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_post_created_at();
+
+-- Keep hot_score in sync (named to run after posts_protect_likes_count and
+-- posts_protect_created_at). Updates of hot_score itself are recomputed too.
+CREATE OR REPLACE FUNCTION public.set_post_hot_score()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.hot_score := public.calculate_hot_score(NEW.likes_count, NEW.created_at);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_set_hot_score ON public.posts;
+
+CREATE TRIGGER posts_set_hot_score
+  BEFORE INSERT OR UPDATE OF likes_count, created_at, hot_score ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_post_hot_score();
+
+-- Backfill existing posts
+UPDATE public.posts
+SET hot_score = public.calculate_hot_score(likes_count, created_at);
+
+CREATE INDEX IF NOT EXISTS posts_media_type_hot_score_desc ON public.posts(media_type, hot_score DESC, created_at DESC);
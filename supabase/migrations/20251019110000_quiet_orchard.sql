@@ -0,0 +1,89 @@
+/*
+  # Let analysis modules append regenerated prompt variations
+
+  1. Changes
+    - Add `append_analysis_variations` function, which appends new variations to one
+      prompt list in analyses.data and returns the updated list
+    - The caller's own posts of the analysis get the updated list too, since a post's page
+      renders posts.analysis_data rather than the analysis
+
+  2. Notes
+    - Only the six module prompt lists can be appended to, and each list is capped at 30 entries
+    - Each call appends 1 to 10 variations of at most 4000 characters each
+    - Nothing else in analyses.data can be changed through this function
+
+  3. Security
+    - Decoded analyses are saved without an owner (images.user_id is null), so the update
+      policy on analyses never matches them; the function runs as SECURITY DEFINER and
+      allows the image owner, or anyone for analyses without an owner
+    - Posts are only written through for their owner, never for other callers
+*/
+
+CREATE OR REPLACE FUNCTION public.append_analysis_variations(
+  target_analysis_id uuid,
+  prompt_key text,
+  variations text[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner_id uuid;
+  current_list jsonb;
+  updated_list jsonb;
+BEGIN
+  IF prompt_key NOT IN (
+    'storyPrompts', 'animationPrompts', 'dialoguePrompts',
+    'creativeRemixes', 'outpaintingPrompts', 'musicPrompts'
+  ) THEN
+    RAISE EXCEPTION 'Unknown prompt list: %', prompt_key;
+  END IF;
+
+  IF coalesce(cardinality(variations), 0) NOT BETWEEN 1 AND 10 THEN
+    RAISE EXCEPTION 'Expected between 1 and 10 variations';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(variations) AS v(variation)
+    WHERE v.variation IS NULL OR char_length(v.variation) NOT BETWEEN 1 AND 4000
+  ) THEN
+    RAISE EXCEPTION 'Variations must be between 1 and 4000 characters';
+  END IF;
+
+  SELECT images.user_id, analyses.data -> prompt_key
+  INTO owner_id, current_list
+  FROM analyses
+  JOIN images ON images.id = analyses.image_id
+  WHERE analyses.id = target_analysis_id
+  FOR UPDATE OF analyses;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Analysis not found';
+  END IF;
+
+  IF owner_id IS NOT NULL AND owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to update this analysis';
+  END IF;
+
+  updated_list := coalesce(current_list, '[]'::jsonb) || to_jsonb(variations);
+
+  IF jsonb_array_length(updated_list) > 30 THEN
+    RAISE EXCEPTION 'Prompt list is full';
+  END IF;
+
+  UPDATE analyses
+  SET data = jsonb_set(data, ARRAY[prompt_key], updated_list)
+  WHERE id = target_analysis_id;
+
+  UPDATE posts
+  SET analysis_data = jsonb_set(analysis_data, ARRAY[prompt_key], updated_list)
+  WHERE analysis_data ->> 'id' = target_analysis_id::text
+    AND user_id = auth.uid();
+
+  RETURN updated_list;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.append_analysis_variations(uuid, text, text[]) TO anon, authenticated;
@@ -0,0 +1,65 @@
+/*
+  # Add custom analysis modules
+
+  1. New Tables
+    - `custom_modules`: user-defined modules requested alongside the six built-in ones
+      - `name`, `color`, `icon`: how the module tab is shown
+      - `instruction`: what the model should write for the module
+      - `item_count`, `min_words`, `max_words`: how many items and how long each one is
+      - `is_active`: whether the module is selected by default when decoding
+
+  2. Notes
+    - Analyses copy the module name, color and icon next to the generated items, so
+      editing or deleting a module never changes analyses that already used it
+    - Limits match CUSTOM_MODULE_LIMITS in supabase/functions/_shared/analysisSchema.ts
+
+  3. Security
+    - Enable RLS on custom_modules
+    - Users can only read and manage their own modules
+*/
+
+CREATE TABLE IF NOT EXISTS public.custom_modules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 40),
+  color text NOT NULL DEFAULT '#B8A082' CHECK (color ~ '^#[0-9A-Fa-f]{6}$'),
+  icon text NOT NULL DEFAULT 'sparkles',
+  instruction text NOT NULL CHECK (char_length(btrim(instruction)) BETWEEN 1 AND 500),
+  item_count integer NOT NULL DEFAULT 3 CHECK (item_count BETWEEN 1 AND 10),
+  min_words integer CHECK (min_words > 0),
+  max_words integer CHECK (max_words > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (min_words IS NULL OR max_words IS NULL OR min_words <= max_words)
+);
+
+CREATE INDEX IF NOT EXISTS custom_modules_user_id_idx ON public.custom_modules(user_id, created_at);
+
+ALTER TABLE public.custom_modules ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for custom_modules table
+CREATE POLICY "Users can view their own custom modules"
+  ON public.custom_modules
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own custom modules"
+  ON public.custom_modules
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own custom modules"
+  ON public.custom_modules
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own custom modules"
+  ON public.custom_modules
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
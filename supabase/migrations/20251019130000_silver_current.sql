@@ -0,0 +1,135 @@
+/*
+  # Add style embeddings for "More like this"
+
+  1. Changes
+    - Enable the pgvector extension
+    - Add `embedding` (vector(768)) and `embedding_model` columns to posts
+    - Clear both whenever analysis_data changes, so a post is never matched on a stale description
+    - HNSW cosine index on embedding
+
+  2. New Functions
+    - `match_similar_posts(query_embedding, query_model, match_count, exclude_post_id)`:
+      nearest posts to an embedding, most similar first
+    - `get_similar_posts(source_post_id, match_count)`: the same, starting from a post's
+      own embedding
+
+  3. Notes
+    - Embeddings are written by the analyze-media edge function with the service role,
+      from the prompt and keyTokens in analysis_data (see supabase/functions/_shared/embeddings.ts)
+    - Existing posts are backfilled by calling analyze-media with mode 'backfill-embeddings'
+    - Vectors from different models aren't comparable, so matches are limited to the
+      query's embedding_model
+    - The dimension matches EMBEDDING_DIMENSIONS in the shared embeddings module
+
+  4. Security
+    - Functions run as the caller, so the existing "Posts are viewable by everyone" policy applies
+    - Clients can't set embeddings through the posts update policy (the trigger only clears them)
+*/
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+ALTER TABLE public.posts
+ADD COLUMN IF NOT EXISTS embedding extensions.vector(768),
+ADD COLUMN IF NOT EXISTS embedding_model text;
+
+-- Drop embeddings whose source text changed, and stop clients writing their own
+CREATE OR REPLACE FUNCTION public.reset_post_embedding()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.analysis_data IS DISTINCT FROM OLD.analysis_data THEN
+    NEW.embedding := NULL;
+    NEW.embedding_model := NULL;
+  ELSIF coalesce(auth.role(), 'service_role') <> 'service_role' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.embedding := NULL;
+      NEW.embedding_model := NULL;
+    ELSE
+      NEW.embedding := OLD.embedding;
+      NEW.embedding_model := OLD.embedding_model;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_reset_embedding ON public.posts;
+
+CREATE TRIGGER posts_reset_embedding
+  BEFORE INSERT OR UPDATE ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_post_embedding();
+
+CREATE INDEX IF NOT EXISTS posts_embedding_hnsw
+  ON public.posts USING hnsw (embedding extensions.vector_cosine_ops);
+
+CREATE OR REPLACE FUNCTION public.match_similar_posts(
+  query_embedding extensions.vector(768),
+  query_model text,
+  match_count integer DEFAULT 12,
+  exclude_post_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  media_url text,
+  media_type text,
+  thumbnail_url text,
+  username text,
+  style text,
+  likes_count integer,
+  created_at timestamptz,
+  user_id uuid,
+  analysis_data jsonb,
+  similarity double precision
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    p.id, p.title, p.media_url, p.media_type, p.thumbnail_url, p.username, p.style,
+    p.likes_count, p.created_at, p.user_id, p.analysis_data,
+    1 - (p.embedding <=> query_embedding) AS similarity
+  FROM public.posts p
+  WHERE p.embedding IS NOT NULL
+    AND p.embedding_model = query_model
+    AND (exclude_post_id IS NULL OR p.id <> exclude_post_id)
+  ORDER BY p.embedding <=> query_embedding
+  LIMIT least(greatest(match_count, 1), 50);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_similar_posts(
+  source_post_id uuid,
+  match_count integer DEFAULT 12
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  media_url text,
+  media_type text,
+  thumbnail_url text,
+  username text,
+  style text,
+  likes_count integer,
+  created_at timestamptz,
+  user_id uuid,
+  analysis_data jsonb,
+  similarity double precision
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT matches.*
+  FROM public.posts source
+  CROSS JOIN LATERAL public.match_similar_posts(
+    source.embedding, source.embedding_model, match_count, source.id
+  ) matches
+  WHERE source.id = source_post_id
+    AND source.embedding IS NOT NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.match_similar_posts(extensions.vector, text, integer, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_similar_posts(uuid, integer) TO anon, authenticated;
@@ -0,0 +1,151 @@
+/*
+  # Add ranked full-text search over posts
+
+  1. Changes
+    - Add a stored, generated `search_vector` (tsvector) column to posts, weighted
+      title and style (A), analysis keyTokens (B), analysis prompt (C)
+    - GIN index on search_vector
+
+  2. New Functions
+    - `search_matching_posts(...)`: ids and ranks of the posts matching a search, shared by
+      the two functions below
+    - `search_posts(...)`: one page of matching posts, ordered by relevance, likes, hot
+      score or date
+    - `get_search_facets(...)`: matching post counts per media type, and per style for
+      the selected media type
+
+  3. Notes
+    - `search_text` is parsed with websearch_to_tsquery, so quoted phrases and -exclusions
+      work and no input can break the query
+    - style: and artist: operators are parsed on the client (src/utils/searchQuery.ts) and
+      passed as `style_filters` (every one must appear in the style name) and
+      `artist_filters` (any username matches)
+    - Searches left empty by stop words match every post, like an empty search box
+
+  4. Security
+    - Functions run as the caller, so the existing "Posts are viewable by everyone" policy applies
+*/
+
+ALTER TABLE public.posts
+ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(style, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(analysis_data -> 'keyTokens', '[]'::jsonb)), 'B') ||
+  setweight(to_tsvector('english', coalesce(analysis_data ->> 'prompt', '')), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS posts_search_vector_idx
+  ON public.posts USING gin (search_vector);
+
+CREATE OR REPLACE FUNCTION public.search_matching_posts(
+  search_text text,
+  style_filters text[] DEFAULT '{}',
+  artist_filters text[] DEFAULT '{}',
+  filter_user_id uuid DEFAULT NULL,
+  filter_style text DEFAULT NULL
+)
+RETURNS TABLE (post_id uuid, rank real)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT CASE WHEN numnode(q) > 0 THEN q END AS q
+    FROM websearch_to_tsquery('english', coalesce(search_text, '')) AS q
+  )
+  SELECT p.id, coalesce(ts_rank_cd(p.search_vector, search.q, 32), 0)
+  FROM public.posts p
+  CROSS JOIN search
+  WHERE (search.q IS NULL OR p.search_vector @@ search.q)
+    AND (filter_user_id IS NULL OR p.user_id = filter_user_id)
+    AND (filter_style IS NULL OR p.style = filter_style)
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(coalesce(style_filters, '{}')) AS s
+      WHERE strpos(lower(p.style), lower(s)) = 0
+    )
+    AND (
+      cardinality(coalesce(artist_filters, '{}')) = 0
+      OR lower(p.username) IN (SELECT lower(a) FROM unnest(artist_filters) AS a)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_posts(
+  search_text text,
+  style_filters text[] DEFAULT '{}',
+  artist_filters text[] DEFAULT '{}',
+  filter_media_type text DEFAULT NULL,
+  filter_user_id uuid DEFAULT NULL,
+  filter_style text DEFAULT NULL,
+  sort_order text DEFAULT 'relevance',
+  page_size integer DEFAULT 12,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  media_url text,
+  media_type text,
+  thumbnail_url text,
+  username text,
+  style text,
+  likes_count integer,
+  created_at timestamptz,
+  user_id uuid,
+  analysis_data jsonb,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id, p.title, p.media_url, p.media_type, p.thumbnail_url, p.username, p.style,
+    p.likes_count, p.created_at, p.user_id, p.analysis_data,
+    m.rank
+  FROM public.search_matching_posts(search_text, style_filters, artist_filters, filter_user_id, filter_style) m
+  JOIN public.posts p ON p.id = m.post_id
+  WHERE filter_media_type IS NULL OR p.media_type = filter_media_type
+  ORDER BY
+    CASE WHEN sort_order = 'relevance' THEN m.rank END DESC NULLS LAST,
+    CASE WHEN sort_order = 'top' THEN p.likes_count END DESC NULLS LAST,
+    CASE WHEN sort_order = 'hot' THEN p.hot_score END DESC NULLS LAST,
+    p.created_at DESC
+  LIMIT least(greatest(page_size, 1), 100)
+  OFFSET greatest(page_offset, 0);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_search_facets(
+  search_text text,
+  style_filters text[] DEFAULT '{}',
+  artist_filters text[] DEFAULT '{}',
+  filter_media_type text DEFAULT NULL,
+  filter_user_id uuid DEFAULT NULL,
+  filter_style text DEFAULT NULL,
+  style_limit integer DEFAULT 8
+)
+RETURNS TABLE (facet text, value text, post_count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH matches AS (
+    SELECT p.media_type, p.style
+    FROM public.search_matching_posts(search_text, style_filters, artist_filters, filter_user_id, filter_style) m
+    JOIN public.posts p ON p.id = m.post_id
+  )
+  -- Media type counts ignore filter_media_type, so every tab can show its count
+  (SELECT 'media_type', matches.media_type, count(*) FROM matches GROUP BY matches.media_type)
+  UNION ALL
+  (
+    SELECT 'style', matches.style, count(*)
+    FROM matches
+    WHERE filter_media_type IS NULL OR matches.media_type = filter_media_type
+    GROUP BY matches.style
+    ORDER BY count(*) DESC, matches.style
+    LIMIT least(greatest(style_limit, 1), 50)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_matching_posts(text, text[], text[], uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_posts(text, text[], text[], text, uuid, text, text, integer, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_search_facets(text, text[], text[], text, uuid, text, integer) TO anon, authenticated;
@@ -0,0 +1,316 @@
+/*
+  # Add a style taxonomy
+
+  1. New Tables
+    - `styles`: one row per canonical style
+      - `slug`: canonical URL slug, the same format as slugifyStyle in src/lib/routes.ts
+      - `name`: display name, taken from the first post with the style
+      - `description`: optional, written by maintainers
+      - `parent_id`: optional broader style, e.g. "Cyberpunk" for "Neo-Futuristic Cyberpunk"
+    - `style_aliases`: other slugs that lead to a style, from fuzzy matches and merges
+
+  2. Changes
+    - Enable the pg_trgm extension for fuzzy matching
+    - Add `style_id` to posts. New and edited posts are mapped onto a style by trigger:
+      same slug, then an alias, then the closest slug with trigram similarity >= 0.65,
+      otherwise a new style is created. `posts.style` is rewritten to the style's name
+      so every post of a style shows the same name
+    - Existing posts are mapped oldest first, so the earliest spelling becomes the name
+
+  3. New Functions
+    - `slugify_style(name)`: mirrors slugifyStyle
+    - `find_style(style_name)`: the style a name maps onto, without creating one
+    - `get_style(style_slug)`: a style with its post count, found by slug, alias or fuzzy match
+    - `get_related_styles(target_style_id, match_count)`: parent, children, siblings, then
+      styles with similar slugs
+    - `merge_styles(source_style_id, target_style_id)`: moves posts, aliases and child
+      styles from one style to another and keeps the old slug as an alias
+
+  4. Security
+    - Enable RLS on styles and style_aliases; both are readable by everyone
+    - Only the assign trigger (security definer) and the service role write them
+    - merge_styles is only granted to the service role, for maintainers in the SQL editor:
+        SELECT public.merge_styles('<source style id>', '<target style id>');
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS public.styles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug text NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name text NOT NULL CHECK (char_length(btrim(name)) > 0),
+  description text,
+  parent_id uuid REFERENCES public.styles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (parent_id IS DISTINCT FROM id)
+);
+
+CREATE TABLE IF NOT EXISTS public.style_aliases (
+  slug text PRIMARY KEY CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  style_id uuid NOT NULL REFERENCES public.styles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS styles_slug_trgm_idx ON public.styles USING gin (slug extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS styles_parent_id_idx ON public.styles(parent_id);
+CREATE INDEX IF NOT EXISTS style_aliases_slug_trgm_idx ON public.style_aliases USING gin (slug extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS style_aliases_style_id_idx ON public.style_aliases(style_id);
+
+ALTER TABLE public.posts
+ADD COLUMN IF NOT EXISTS style_id uuid REFERENCES public.styles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS posts_style_id_idx ON public.posts(style_id, created_at DESC);
+
+ALTER TABLE public.styles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.style_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Styles are viewable by everyone"
+  ON public.styles
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Style aliases are viewable by everyone"
+  ON public.style_aliases
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Must match slugifyStyle in src/lib/routes.ts
+CREATE OR REPLACE FUNCTION public.slugify_style(style_name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT btrim(regexp_replace(lower(coalesce(style_name, '')), '[^a-z0-9]+', '-', 'g'), '-');
+$$;
+
+CREATE OR REPLACE FUNCTION public.find_style(style_name text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH search AS (
+    SELECT public.slugify_style(style_name) AS slug, lower(btrim(coalesce(style_name, ''))) AS name
+  ),
+  candidates AS (
+    SELECT s.id AS style_id, 3 AS priority, 1::real AS score
+    FROM public.styles s, search
+    WHERE s.slug = search.slug OR lower(s.name) = search.name
+    UNION ALL
+    SELECT a.style_id, 2, 1::real
+    FROM public.style_aliases a, search
+    WHERE a.slug = search.slug
+    UNION ALL
+    -- % narrows the scan through the trigram indexes before the stricter similarity check
+    SELECT s.id, 1, similarity(s.slug, search.slug)
+    FROM public.styles s, search
+    WHERE s.slug % search.slug AND similarity(s.slug, search.slug) >= 0.65
+    UNION ALL
+    SELECT a.style_id, 1, similarity(a.slug, search.slug)
+    FROM public.style_aliases a, search
+    WHERE a.slug % search.slug AND similarity(a.slug, search.slug) >= 0.65
+  )
+  SELECT candidates.style_id
+  FROM candidates, search
+  WHERE search.slug <> ''
+  ORDER BY candidates.priority DESC, candidates.score DESC
+  LIMIT 1;
+$$;
+
+-- Find or create the style for a name, remembering fuzzy matches as aliases
+CREATE OR REPLACE FUNCTION public.resolve_style(style_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+DECLARE
+  style_slug text := public.slugify_style(style_name);
+  resolved_id uuid;
+BEGIN
+  IF style_slug = '' THEN
+    RETURN NULL;
+  END IF;
+
+  resolved_id := public.find_style(style_name);
+
+  IF resolved_id IS NULL THEN
+    INSERT INTO public.styles (slug, name)
+    VALUES (style_slug, btrim(style_name))
+    ON CONFLICT (slug) DO UPDATE SET slug = EXCLUDED.slug
+    RETURNING id INTO resolved_id;
+  ELSIF NOT EXISTS (SELECT 1 FROM public.styles WHERE id = resolved_id AND slug = style_slug) THEN
+    INSERT INTO public.style_aliases (slug, style_id)
+    VALUES (style_slug, resolved_id)
+    ON CONFLICT (slug) DO NOTHING;
+  END IF;
+
+  RETURN resolved_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_post_style()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  canonical public.styles;
+BEGIN
+  SELECT * INTO canonical FROM public.styles WHERE id = public.resolve_style(NEW.style);
+
+  NEW.style_id := canonical.id;
+  NEW.style := coalesce(canonical.name, NEW.style);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_assign_style ON public.posts;
+
+-- style_id is listed so clients can't point a post at another style directly
+CREATE TRIGGER posts_assign_style
+  BEFORE INSERT OR UPDATE OF style, style_id ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_post_style();
+
+-- Map existing posts, oldest first
+DO $$
+DECLARE
+  post_row record;
+BEGIN
+  FOR post_row IN SELECT id FROM public.posts WHERE style_id IS NULL ORDER BY created_at LOOP
+    UPDATE public.posts SET style = style WHERE id = post_row.id;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_style(style_slug text)
+RETURNS TABLE (
+  id uuid,
+  slug text,
+  name text,
+  description text,
+  parent_id uuid,
+  post_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    s.id, s.slug, s.name, s.description, s.parent_id,
+    (SELECT count(*) FROM public.posts p WHERE p.style_id = s.id)
+  FROM public.styles s
+  WHERE s.id = public.find_style(style_slug);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_related_styles(
+  target_style_id uuid,
+  match_count integer DEFAULT 8
+)
+RETURNS TABLE (
+  id uuid,
+  slug text,
+  name text,
+  description text,
+  parent_id uuid,
+  post_count bigint,
+  relation text
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH source AS (
+    SELECT s.id, s.slug, s.parent_id FROM public.styles s WHERE s.id = target_style_id
+  ),
+  related AS (
+    SELECT s.id, 'parent' AS relation, 0 AS priority, 1::real AS score
+    FROM public.styles s, source
+    WHERE s.id = source.parent_id
+    UNION ALL
+    SELECT s.id, 'child', 1, 1::real
+    FROM public.styles s, source
+    WHERE s.parent_id = source.id
+    UNION ALL
+    SELECT s.id, 'sibling', 2, 1::real
+    FROM public.styles s, source
+    WHERE s.parent_id = source.parent_id AND s.id <> source.id
+    UNION ALL
+    SELECT s.id, 'similar', 3, similarity(s.slug, source.slug)
+    FROM public.styles s, source
+    WHERE s.slug % source.slug AND s.id <> source.id
+  ),
+  -- A style can be related in several ways; keep the closest one
+  closest AS (
+    SELECT DISTINCT ON (related.id) related.id, related.relation, related.priority, related.score
+    FROM related
+    ORDER BY related.id, related.priority, related.score DESC
+  )
+  SELECT
+    s.id, s.slug, s.name, s.description, s.parent_id,
+    (SELECT count(*) FROM public.posts p WHERE p.style_id = s.id) AS post_count,
+    closest.relation
+  FROM closest
+  JOIN public.styles s ON s.id = closest.id
+  ORDER BY closest.priority, closest.score DESC, s.name
+  LIMIT least(greatest(match_count, 1), 50);
+$$;
+
+CREATE OR REPLACE FUNCTION public.merge_styles(source_style_id uuid, target_style_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  source public.styles;
+  target public.styles;
+BEGIN
+  IF coalesce(auth.role(), 'service_role') <> 'service_role' THEN
+    RAISE EXCEPTION 'Only the service role can merge styles';
+  END IF;
+
+  SELECT * INTO source FROM public.styles WHERE id = source_style_id;
+  SELECT * INTO target FROM public.styles WHERE id = target_style_id;
+
+  IF source.id IS NULL OR target.id IS NULL THEN
+    RAISE EXCEPTION 'Style not found';
+  END IF;
+  IF source.id = target.id THEN
+    RAISE EXCEPTION 'Cannot merge a style into itself';
+  END IF;
+
+  UPDATE public.style_aliases SET style_id = target.id WHERE style_id = source.id;
+
+  INSERT INTO public.style_aliases (slug, style_id)
+  VALUES (source.slug, target.id)
+  ON CONFLICT (slug) DO UPDATE SET style_id = EXCLUDED.style_id;
+
+  -- Children move up to the target; if the target was one of them it takes the source's parent
+  UPDATE public.styles
+  SET parent_id = CASE WHEN id = target.id THEN source.parent_id ELSE target.id END
+  WHERE parent_id = source.id;
+
+  UPDATE public.styles
+  SET description = coalesce(description, source.description)
+  WHERE id = target.id;
+
+  -- The assign trigger maps the target's name straight back onto the target
+  UPDATE public.posts SET style = target.name WHERE style_id = source.id;
+
+  DELETE FROM public.styles WHERE id = source.id;
+
+  RETURN target.id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_style(text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.merge_styles(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_styles(uuid, uuid) TO service_role;
+
+GRANT EXECUTE ON FUNCTION public.slugify_style(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_style(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_style(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_related_styles(uuid, integer) TO anon, authenticated;
@@ -0,0 +1,104 @@
+/*
+  # Keep edited prompts and style codes as revisions of an analysis
+
+  1. New Tables
+    - `analysis_revisions`: one row per saved edit of an analysis' prompt and style codes,
+      numbered from 1 per analysis. The model output in analyses.data is never changed, so
+      it stays available as the original.
+
+  2. New Functions
+    - `save_analysis_revision(...)`: adds the next revision and returns it. Saving the same
+      prompt and style codes as the latest revision returns that revision instead.
+
+  3. Notes
+    - Each analysis keeps at most 50 revisions
+    - A post copies the revision it was posted with into posts.analysis_data (prompt,
+      styleCodes and a `revision` entry), so later edits don't change posted work
+
+  4. Security
+    - Revisions are viewable by everyone, like analyses
+    - Rows are only written through save_analysis_revision, which runs as SECURITY DEFINER
+      with the same owner check as append_analysis_variations: the image owner, or anyone
+      for analyses without an owner
+*/
+
+CREATE TABLE IF NOT EXISTS public.analysis_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  analysis_id uuid NOT NULL REFERENCES public.analyses(id) ON DELETE CASCADE,
+  revision_number integer NOT NULL CHECK (revision_number > 0),
+  prompt text NOT NULL CHECK (char_length(prompt) BETWEEN 1 AND 4000),
+  style_codes text[] NOT NULL DEFAULT '{}' CHECK (cardinality(style_codes) <= 50),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (analysis_id, revision_number)
+);
+
+ALTER TABLE public.analysis_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Analysis revisions are viewable by everyone" ON public.analysis_revisions;
+CREATE POLICY "Analysis revisions are viewable by everyone"
+  ON public.analysis_revisions
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE OR REPLACE FUNCTION public.save_analysis_revision(
+  target_analysis_id uuid,
+  revision_prompt text,
+  revision_style_codes text[] DEFAULT '{}'
+)
+RETURNS SETOF public.analysis_revisions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner_id uuid;
+  latest public.analysis_revisions%ROWTYPE;
+BEGIN
+  revision_prompt := btrim(coalesce(revision_prompt, ''));
+  revision_style_codes := coalesce(revision_style_codes, '{}');
+
+  IF revision_prompt = '' THEN
+    RAISE EXCEPTION 'Prompt cannot be empty';
+  END IF;
+
+  -- Locking the analysis serializes revision numbers
+  SELECT images.user_id
+  INTO owner_id
+  FROM analyses
+  JOIN images ON images.id = analyses.image_id
+  WHERE analyses.id = target_analysis_id
+  FOR UPDATE OF analyses;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Analysis not found';
+  END IF;
+
+  IF owner_id IS NOT NULL AND owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to edit this analysis';
+  END IF;
+
+  SELECT * INTO latest
+  FROM analysis_revisions
+  WHERE analysis_id = target_analysis_id
+  ORDER BY revision_number DESC
+  LIMIT 1;
+
+  IF FOUND AND latest.prompt = revision_prompt AND latest.style_codes = revision_style_codes THEN
+    RETURN NEXT latest;
+    RETURN;
+  END IF;
+
+  IF coalesce(latest.revision_number, 0) >= 50 THEN
+    RAISE EXCEPTION 'Revision history is full';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO analysis_revisions (analysis_id, revision_number, prompt, style_codes, created_by)
+  VALUES (target_analysis_id, coalesce(latest.revision_number, 0) + 1, revision_prompt, revision_style_codes, auth.uid())
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_analysis_revision(uuid, text, text[]) TO anon, authenticated;
@@ -0,0 +1,230 @@
+/*
+  # Track remixes: posts decoded from media inspired by another post
+
+  1. Changes
+    - Add `parent_post_id` to posts: the post this one remixes, set when the post is
+      created and cleared if the parent is deleted
+    - Add `remixes_count` to posts, kept in sync by a trigger like likes_count
+    - Recreate `search_posts` so gallery searches return both columns
+
+  2. New Functions
+    - `get_post_lineage(...)`: the ancestors of a post (negative depth, parent first) and
+      its remixes down a few levels (positive depth), for the lineage tree
+
+  3. Notes
+    - parent_post_id can't be changed after the post is created, so lineages can't loop
+    - remixes_count counts direct remixes only
+
+  4. Security
+    - Both columns are only written on insert or by triggers, even through the posts
+      update policy
+    - get_post_lineage runs as the caller, so the existing "Posts are viewable by
+      everyone" policy applies
+*/
+
+ALTER TABLE public.posts
+ADD COLUMN IF NOT EXISTS parent_post_id uuid REFERENCES public.posts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.posts
+ADD COLUMN IF NOT EXISTS remixes_count integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.posts
+DROP CONSTRAINT IF EXISTS posts_parent_post_not_self;
+
+ALTER TABLE public.posts
+ADD CONSTRAINT posts_parent_post_not_self CHECK (parent_post_id IS DISTINCT FROM id);
+
+CREATE INDEX IF NOT EXISTS posts_parent_post_id_idx
+  ON public.posts(parent_post_id)
+  WHERE parent_post_id IS NOT NULL;
+
+-- Recount remixes of the parents involved (recounting keeps the value self-healing)
+CREATE OR REPLACE FUNCTION public.sync_post_remixes_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parent_ids uuid[];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    parent_ids := ARRAY[NEW.parent_post_id];
+  ELSIF TG_OP = 'DELETE' THEN
+    parent_ids := ARRAY[OLD.parent_post_id];
+  ELSE
+    parent_ids := ARRAY[OLD.parent_post_id, NEW.parent_post_id];
+  END IF;
+
+  UPDATE posts
+  SET remixes_count = (SELECT count(*) FROM posts remixes WHERE remixes.parent_post_id = posts.id)
+  WHERE id = ANY(parent_ids);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_sync_remixes_count ON public.posts;
+
+CREATE TRIGGER posts_sync_remixes_count
+  AFTER INSERT OR DELETE OR UPDATE OF parent_post_id ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_post_remixes_count();
+
+-- Direct updates can't rewrite lineage or counts; the trigger above and the
+-- ON DELETE SET NULL of parent_post_id run nested, so they still apply
+CREATE OR REPLACE FUNCTION public.protect_post_lineage()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF pg_trigger_depth() <= 1 THEN
+    NEW.parent_post_id := OLD.parent_post_id;
+    NEW.remixes_count := OLD.remixes_count;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_protect_lineage ON public.posts;
+
+CREATE TRIGGER posts_protect_lineage
+  BEFORE UPDATE OF parent_post_id, remixes_count ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_post_lineage();
+
+-- Remixes start uncounted
+CREATE OR REPLACE FUNCTION public.reset_post_remixes_count()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.remixes_count := 0;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_reset_remixes_count ON public.posts;
+
+CREATE TRIGGER posts_reset_remixes_count
+  BEFORE INSERT ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_post_remixes_count();
+
+CREATE OR REPLACE FUNCTION public.get_post_lineage(
+  target_post_id uuid,
+  max_depth integer DEFAULT 4,
+  max_remixes integer DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  style text,
+  username text,
+  media_url text,
+  media_type text,
+  thumbnail_url text,
+  parent_post_id uuid,
+  remixes_count integer,
+  created_at timestamptz,
+  depth integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE ancestors AS (
+    SELECT p.id, p.parent_post_id, 0 AS depth
+    FROM public.posts p
+    WHERE p.id = target_post_id
+    UNION ALL
+    SELECT parent.id, parent.parent_post_id, ancestors.depth - 1
+    FROM ancestors
+    JOIN public.posts parent ON parent.id = ancestors.parent_post_id
+    WHERE ancestors.depth > -least(greatest(max_depth, 1), 10)
+  ),
+  remixes AS (
+    SELECT p.id, p.parent_post_id, 0 AS depth
+    FROM public.posts p
+    WHERE p.id = target_post_id
+    UNION ALL
+    SELECT child.id, child.parent_post_id, remixes.depth + 1
+    FROM remixes
+    JOIN public.posts child ON child.parent_post_id = remixes.id
+    WHERE remixes.depth < least(greatest(max_depth, 1), 10)
+  ),
+  lineage AS (
+    SELECT ancestors.id, ancestors.depth FROM ancestors
+    UNION ALL
+    (
+      SELECT remixes.id, remixes.depth
+      FROM remixes
+      JOIN public.posts p ON p.id = remixes.id
+      WHERE remixes.depth > 0
+      ORDER BY remixes.depth, p.created_at DESC
+      LIMIT least(greatest(max_remixes, 1), 200)
+    )
+  )
+  SELECT
+    p.id, p.title, p.style, p.username, p.media_url, p.media_type, p.thumbnail_url,
+    p.parent_post_id, p.remixes_count, p.created_at,
+    lineage.depth
+  FROM lineage
+  JOIN public.posts p ON p.id = lineage.id
+  ORDER BY lineage.depth, p.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_post_lineage(uuid, integer, integer) TO anon, authenticated;
+
+-- The return type changes, so search_posts has to be dropped first
+DROP FUNCTION IF EXISTS public.search_posts(text, text[], text[], text, uuid, text, text, integer, integer);
+
+CREATE FUNCTION public.search_posts(
+  search_text text,
+  style_filters text[] DEFAULT '{}',
+  artist_filters text[] DEFAULT '{}',
+  filter_media_type text DEFAULT NULL,
+  filter_user_id uuid DEFAULT NULL,
+  filter_style text DEFAULT NULL,
+  sort_order text DEFAULT 'relevance',
+  page_size integer DEFAULT 12,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  media_url text,
+  media_type text,
+  thumbnail_url text,
+  username text,
+  style text,
+  likes_count integer,
+  created_at timestamptz,
+  user_id uuid,
+  analysis_data jsonb,
+  parent_post_id uuid,
+  remixes_count integer,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id, p.title, p.media_url, p.media_type, p.thumbnail_url, p.username, p.style,
+    p.likes_count, p.created_at, p.user_id, p.analysis_data, p.parent_post_id, p.remixes_count,
+    m.rank
+  FROM public.search_matching_posts(search_text, style_filters, artist_filters, filter_user_id, filter_style) m
+  JOIN public.posts p ON p.id = m.post_id
+  WHERE filter_media_type IS NULL OR p.media_type = filter_media_type
+  ORDER BY
+    CASE WHEN sort_order = 'relevance' THEN m.rank END DESC NULLS LAST,
+    CASE WHEN sort_order = 'top' THEN p.likes_count END DESC NULLS LAST,
+    CASE WHEN sort_order = 'hot' THEN p.hot_score END DESC NULLS LAST,
+    p.created_at DESC
+  LIMIT least(greatest(page_size, 1), 100)
+  OFFSET greatest(page_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_posts(text, text[], text[], text, uuid, text, text, integer, integer) TO anon, authenticated;
@@ -0,0 +1,285 @@
+/*
+  # Add collections for curating posts and analyses
+
+  1. New Tables
+    - `collections`: named boards owned by a user
+      - `description`: optional text shown on the collection page
+      - `is_public`: private collections are only visible to their owner
+      - `cover_url`: media URL picked by the owner; the first item with an image is used
+        when it's empty
+    - `collection_items`: the posts and analyses in a collection, in `position` order.
+      Each item holds exactly one of `post_id` or `analysis_id`.
+
+  2. New Functions
+    - `get_collections(...)`: a user's collections with item counts and covers
+    - `add_collection_item(...)`: appends a post or analysis and returns the item, or the
+      existing item if it's already in the collection
+    - `reorder_collection_items(...)`: renumbers items in the given order
+
+  3. Notes
+    - Items are removed with their post or analysis
+    - A collection holds at most 500 items; limits match COLLECTIONS in src/constants
+
+  4. Security
+    - Enable RLS on both tables
+    - Public collections and their items are viewable by everyone, private ones only by
+      their owner
+    - Only owners can change a collection or its items. The functions run as the caller,
+      so the same policies apply to them.
+*/
+
+CREATE TABLE IF NOT EXISTS public.collections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 80),
+  description text NOT NULL DEFAULT '' CHECK (char_length(description) <= 500),
+  is_public boolean NOT NULL DEFAULT false,
+  cover_url text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS collections_user_id_idx ON public.collections(user_id, updated_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.collection_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  collection_id uuid NOT NULL REFERENCES public.collections(id) ON DELETE CASCADE,
+  post_id uuid REFERENCES public.posts(id) ON DELETE CASCADE,
+  analysis_id uuid REFERENCES public.analyses(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(post_id, analysis_id) = 1)
+);
+
+CREATE INDEX IF NOT EXISTS collection_items_collection_id_idx ON public.collection_items(collection_id, position);
+CREATE UNIQUE INDEX IF NOT EXISTS collection_items_post_unique
+  ON public.collection_items(collection_id, post_id) WHERE post_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS collection_items_analysis_unique
+  ON public.collection_items(collection_id, analysis_id) WHERE analysis_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS collection_items_post_id_idx ON public.collection_items(post_id) WHERE post_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS collection_items_analysis_id_idx ON public.collection_items(analysis_id) WHERE analysis_id IS NOT NULL;
+
+ALTER TABLE public.collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.collection_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for collections table
+CREATE POLICY "Public collections are viewable by everyone"
+  ON public.collections
+  FOR SELECT
+  TO public
+  USING (is_public OR auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own collections"
+  ON public.collections
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own collections"
+  ON public.collections
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own collections"
+  ON public.collections
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for collection_items table: items follow their collection
+CREATE POLICY "Items of visible collections are viewable"
+  ON public.collection_items
+  FOR SELECT
+  TO public
+  USING (EXISTS (
+    SELECT 1 FROM public.collections c
+    WHERE c.id = collection_id AND (c.is_public OR c.user_id = auth.uid())
+  ));
+
+CREATE POLICY "Users can add items to their own collections"
+  ON public.collection_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.collections c
+    WHERE c.id = collection_id AND c.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can reorder items in their own collections"
+  ON public.collection_items
+  FOR UPDATE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.collections c
+    WHERE c.id = collection_id AND c.user_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.collections c
+    WHERE c.id = collection_id AND c.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can remove items from their own collections"
+  ON public.collection_items
+  FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.collections c
+    WHERE c.id = collection_id AND c.user_id = auth.uid()
+  ));
+
+-- Keep updated_at current, so recently curated collections sort first
+CREATE OR REPLACE FUNCTION public.touch_collection()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS collections_touch ON public.collections;
+
+CREATE TRIGGER collections_touch
+  BEFORE UPDATE ON public.collections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_collection();
+
+CREATE OR REPLACE FUNCTION public.touch_collection_from_item()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE collections
+  SET updated_at = now()
+  WHERE id = coalesce(NEW.collection_id, OLD.collection_id);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS collection_items_touch ON public.collection_items;
+
+CREATE TRIGGER collection_items_touch
+  AFTER INSERT OR DELETE ON public.collection_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_collection_from_item();
+
+CREATE OR REPLACE FUNCTION public.get_collections(target_user_id uuid)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  name text,
+  description text,
+  is_public boolean,
+  cover_url text,
+  items_count bigint,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id, c.user_id, c.name, c.description, c.is_public,
+    coalesce(c.cover_url, first_cover.url),
+    (SELECT count(*) FROM public.collection_items i WHERE i.collection_id = c.id),
+    c.created_at, c.updated_at
+  FROM public.collections c
+  LEFT JOIN LATERAL (
+    SELECT coalesce(
+      p.thumbnail_url,
+      CASE WHEN p.media_type = 'image' THEN p.media_url END,
+      CASE WHEN img.mime_type LIKE 'image/%' THEN img.storage_path END
+    ) AS url
+    FROM public.collection_items i
+    LEFT JOIN public.posts p ON p.id = i.post_id
+    LEFT JOIN public.analyses a ON a.id = i.analysis_id
+    LEFT JOIN public.images img ON img.id = a.image_id
+    WHERE i.collection_id = c.id
+      AND coalesce(
+        p.thumbnail_url,
+        CASE WHEN p.media_type = 'image' THEN p.media_url END,
+        CASE WHEN img.mime_type LIKE 'image/%' THEN img.storage_path END
+      ) IS NOT NULL
+    ORDER BY i.position
+    LIMIT 1
+  ) first_cover ON true
+  WHERE c.user_id = target_user_id
+  ORDER BY c.updated_at DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_collection_item(
+  target_collection_id uuid,
+  target_post_id uuid DEFAULT NULL,
+  target_analysis_id uuid DEFAULT NULL
+)
+RETURNS SETOF public.collection_items
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  existing public.collection_items%ROWTYPE;
+  item_count integer;
+  last_position integer;
+BEGIN
+  IF num_nonnulls(target_post_id, target_analysis_id) <> 1 THEN
+    RAISE EXCEPTION 'Add either a post or an analysis';
+  END IF;
+
+  -- Locking the collection serializes positions; only the owner can lock it
+  PERFORM 1
+  FROM collections
+  WHERE id = target_collection_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Collection not found';
+  END IF;
+
+  SELECT * INTO existing
+  FROM collection_items
+  WHERE collection_id = target_collection_id
+    AND (post_id = target_post_id OR analysis_id = target_analysis_id);
+
+  IF FOUND THEN
+    RETURN NEXT existing;
+    RETURN;
+  END IF;
+
+  SELECT count(*), max(position)
+  INTO item_count, last_position
+  FROM collection_items
+  WHERE collection_id = target_collection_id;
+
+  IF item_count >= 500 THEN
+    RAISE EXCEPTION 'Collection is full';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO collection_items (collection_id, post_id, analysis_id, position)
+  VALUES (target_collection_id, target_post_id, target_analysis_id, coalesce(last_position, 0) + 1)
+  RETURNING *;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reorder_collection_items(
+  target_collection_id uuid,
+  item_ids uuid[]
+)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.collection_items
+  SET position = array_position(item_ids, id)
+  WHERE collection_id = target_collection_id
+    AND id = ANY(item_ids);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_collections(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.add_collection_item(uuid, uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reorder_collection_items(uuid, uuid[]) TO authenticated;
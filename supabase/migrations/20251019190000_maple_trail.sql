@@ -0,0 +1,165 @@
+/*
+  # Add follows between artists and a following feed
+
+  1. New Tables
+    - `follows`: one row per follower per followed artist, unique on
+      (follower_id, following_id). Users can't follow themselves.
+
+  2. Changes
+    - Add `followers_count` and `following_count` columns to profiles table
+    - Trigger on follows recounts both profiles after every insert or delete
+    - Trigger on profiles stops the counts being edited directly through the profiles
+      update policy
+
+  3. New Functions
+    - `get_following_posts(...)`: a page of posts by the artists the caller follows,
+      sorted like the gallery (new, top or hot). Returns the gallery card columns only.
+
+  4. Security
+    - Enable RLS on follows
+    - Everyone can read follows (counts and followed state are public)
+    - Authenticated users can only follow and unfollow as themselves
+*/
+
+-- Add follow counts to public.profiles table
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS followers_count integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS following_count integer NOT NULL DEFAULT 0;
+
+-- Create follows table
+CREATE TABLE IF NOT EXISTS public.follows (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  follower_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  following_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX IF NOT EXISTS follows_following_id_idx ON public.follows(following_id);
+
+-- The following feed filters posts by author, newest first
+CREATE INDEX IF NOT EXISTS posts_user_id_created_at_idx ON public.posts(user_id, created_at DESC);
+
+ALTER TABLE public.follows ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for follows table
+CREATE POLICY "Follows are viewable by everyone"
+  ON public.follows
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Users can follow as themselves"
+  ON public.follows
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = follower_id);
+
+CREATE POLICY "Users can remove their own follows"
+  ON public.follows
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = follower_id);
+
+-- Recount both sides of the follow (recounting rather than incrementing keeps the values self-healing)
+CREATE OR REPLACE FUNCTION public.sync_profile_follow_counts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_follower_id uuid;
+  target_following_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_follower_id := OLD.follower_id;
+    target_following_id := OLD.following_id;
+  ELSE
+    target_follower_id := NEW.follower_id;
+    target_following_id := NEW.following_id;
+  END IF;
+
+  UPDATE profiles
+  SET following_count = (SELECT count(*) FROM follows WHERE follows.follower_id = target_follower_id)
+  WHERE id = target_follower_id;
+
+  UPDATE profiles
+  SET followers_count = (SELECT count(*) FROM follows WHERE follows.following_id = target_following_id)
+  WHERE id = target_following_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS follows_sync_profile_counts ON public.follows;
+
+CREATE TRIGGER follows_sync_profile_counts
+  AFTER INSERT OR DELETE ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_profile_follow_counts();
+
+-- Users may update their profiles, but the counts are only written by the trigger above
+CREATE OR REPLACE FUNCTION public.protect_profile_follow_counts()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF pg_trigger_depth() <= 1 THEN
+    NEW.followers_count := OLD.followers_count;
+    NEW.following_count := OLD.following_count;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_protect_follow_counts ON public.profiles;
+
+CREATE TRIGGER profiles_protect_follow_counts
+  BEFORE UPDATE OF followers_count, following_count ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_follow_counts();
+
+CREATE OR REPLACE FUNCTION public.get_following_posts(
+  filter_media_type text DEFAULT 'image',
+  sort_order text DEFAULT 'new',
+  page_size integer DEFAULT 12,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  media_url text,
+  media_type text,
+  thumbnail_url text,
+  username text,
+  style text,
+  likes_count integer,
+  created_at timestamptz,
+  user_id uuid,
+  analysis_data jsonb,
+  parent_post_id uuid,
+  remixes_count integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id, p.title, p.media_url, p.media_type, p.thumbnail_url, p.username, p.style,
+    p.likes_count, p.created_at, p.user_id, p.analysis_data, p.parent_post_id, p.remixes_count
+  FROM public.posts p
+  JOIN public.follows f ON f.following_id = p.user_id
+  WHERE f.follower_id = auth.uid()
+    AND p.media_type = filter_media_type
+  ORDER BY
+    CASE WHEN sort_order = 'top' THEN p.likes_count END DESC NULLS LAST,
+    CASE WHEN sort_order = 'hot' THEN p.hot_score END DESC NULLS LAST,
+    p.created_at DESC
+  LIMIT least(greatest(page_size, 1), 100)
+  OFFSET greatest(page_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_following_posts(text, text, integer, integer) TO authenticated;
@@ -0,0 +1,277 @@
+/*
+  # Add threaded comments on posts
+
+  1. New Tables
+    - `comments`: markdown comments on gallery posts
+      - `parent_id`: the comment this one replies to, on the same post; replies are
+        removed with their parent
+      - `updated_at`: moves when the body is edited, so edited comments can be marked
+
+  2. Changes
+    - Add `comments_count` to posts, kept in sync by a trigger like likes_count
+    - Recreate `search_posts` and `get_following_posts` so searches and the following
+      feed return it
+
+  3. Notes
+    - Only the body of a comment can be edited; the post, parent and author are fixed
+    - Bodies are limited to 2000 characters, matching COMMENTS in src/constants
+
+  4. Security
+    - Enable RLS on comments
+    - Everyone can read comments
+    - Authenticated users can only comment as themselves, and edit their own comments
+    - Comments can be deleted by their author or by the owner of the post
+*/
+
+ALTER TABLE public.posts
+ADD COLUMN IF NOT EXISTS comments_count integer NOT NULL DEFAULT 0;
+
+-- Create comments table
+CREATE TABLE IF NOT EXISTS public.comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES public.comments(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 2000),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (parent_id IS DISTINCT FROM id)
+);
+
+CREATE INDEX IF NOT EXISTS comments_post_id_idx ON public.comments(post_id, created_at);
+CREATE INDEX IF NOT EXISTS comments_parent_id_idx ON public.comments(parent_id) WHERE parent_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS comments_user_id_idx ON public.comments(user_id);
+
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for comments table
+CREATE POLICY "Comments are viewable by everyone"
+  ON public.comments
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Users can comment as themselves"
+  ON public.comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can edit their own comments"
+  ON public.comments
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Authors and post owners can delete comments"
+  ON public.comments
+  FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM public.posts p
+      WHERE p.id = post_id AND p.user_id = auth.uid()
+    )
+  );
+
+-- Replies must stay on their parent's post, and new comments start unedited
+CREATE OR REPLACE FUNCTION public.check_comment_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM comments WHERE id = NEW.parent_id AND post_id = NEW.post_id
+  ) THEN
+    RAISE EXCEPTION 'Reply must be on the same post as its parent';
+  END IF;
+
+  NEW.created_at := now();
+  NEW.updated_at := NEW.created_at;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comments_check_parent ON public.comments;
+
+CREATE TRIGGER comments_check_parent
+  BEFORE INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_comment_parent();
+
+-- Edits only change the body, and mark the comment as edited
+CREATE OR REPLACE FUNCTION public.protect_comment()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.post_id := OLD.post_id;
+  NEW.user_id := OLD.user_id;
+  NEW.parent_id := OLD.parent_id;
+  NEW.created_at := OLD.created_at;
+  NEW.updated_at := CASE WHEN NEW.body IS DISTINCT FROM OLD.body THEN now() ELSE OLD.updated_at END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comments_protect ON public.comments;
+
+CREATE TRIGGER comments_protect
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_comment();
+
+-- Recount comments for the affected post (recounting keeps the value self-healing)
+CREATE OR REPLACE FUNCTION public.sync_post_comments_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_post_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_post_id := OLD.post_id;
+  ELSE
+    target_post_id := NEW.post_id;
+  END IF;
+
+  UPDATE posts
+  SET comments_count = (SELECT count(*) FROM comments WHERE comments.post_id = target_post_id)
+  WHERE id = target_post_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comments_sync_post_comments_count ON public.comments;
+
+CREATE TRIGGER comments_sync_post_comments_count
+  AFTER INSERT OR DELETE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_post_comments_count();
+
+-- Post owners may update their posts, but comments_count is only written by the trigger above
+CREATE OR REPLACE FUNCTION public.protect_post_comments_count()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.comments_count := 0;
+  ELSIF pg_trigger_depth() <= 1 THEN
+    NEW.comments_count := OLD.comments_count;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_protect_comments_count ON public.posts;
+
+CREATE TRIGGER posts_protect_comments_count
+  BEFORE INSERT OR UPDATE OF comments_count ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_post_comments_count();
+
+-- The return type changes, so search_posts has to be dropped first
+DROP FUNCTION IF EXISTS public.search_posts(text, text[], text[], text, uuid, text, text, integer, integer);
+
+CREATE FUNCTION public.search_posts(
+  search_text text,
+  style_filters text[] DEFAULT '{}',
+  artist_filters text[] DEFAULT '{}',
+  filter_media_type text DEFAULT NULL,
+  filter_user_id uuid DEFAULT NULL,
+  filter_style text DEFAULT NULL,
+  sort_order text DEFAULT 'relevance',
+  page_size integer DEFAULT 12,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  media_url text,
+  media_type text,
+  thumbnail_url text,
+  username text,
+  style text,
+  likes_count integer,
+  created_at timestamptz,
+  user_id uuid,
+  analysis_data jsonb,
+  parent_post_id uuid,
+  remixes_count integer,
+  comments_count integer,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id, p.title, p.media_url, p.media_type, p.thumbnail_url, p.username, p.style,
+    p.likes_count, p.created_at, p.user_id, p.analysis_data, p.parent_post_id, p.remixes_count,
+    p.comments_count, m.rank
+  FROM public.search_matching_posts(search_text, style_filters, artist_filters, filter_user_id, filter_style) m
+  JOIN public.posts p ON p.id = m.post_id
+  WHERE filter_media_type IS NULL OR p.media_type = filter_media_type
+  ORDER BY
+    CASE WHEN sort_order = 'relevance' THEN m.rank END DESC NULLS LAST,
+    CASE WHEN sort_order = 'top' THEN p.likes_count END DESC NULLS LAST,
+    CASE WHEN sort_order = 'hot' THEN p.hot_score END DESC NULLS LAST,
+    p.created_at DESC
+  LIMIT least(greatest(page_size, 1), 100)
+  OFFSET greatest(page_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_posts(text, text[], text[], text, uuid, text, text, integer, integer) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.get_following_posts(text, text, integer, integer);
+
+CREATE FUNCTION public.get_following_posts(
+  filter_media_type text DEFAULT 'image',
+  sort_order text DEFAULT 'new',
+  page_size integer DEFAULT 12,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  media_url text,
+  media_type text,
+  thumbnail_url text,
+  username text,
+  style text,
+  likes_count integer,
+  created_at timestamptz,
+  user_id uuid,
+  analysis_data jsonb,
+  parent_post_id uuid,
+  remixes_count integer,
+  comments_count integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id, p.title, p.media_url, p.media_type, p.thumbnail_url, p.username, p.style,
+    p.likes_count, p.created_at, p.user_id, p.analysis_data, p.parent_post_id, p.remixes_count,
+    p.comments_count
+  FROM public.posts p
+  JOIN public.follows f ON f.following_id = p.user_id
+  WHERE f.follower_id = auth.uid()
+    AND p.media_type = filter_media_type
+  ORDER BY
+    CASE WHEN sort_order = 'top' THEN p.likes_count END DESC NULLS LAST,
+    CASE WHEN sort_order = 'hot' THEN p.hot_score END DESC NULLS LAST,
+    p.created_at DESC
+  LIMIT least(greatest(page_size, 1), 100)
+  OFFSET greatest(page_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_following_posts(text, text, integer, integer) TO authenticated;
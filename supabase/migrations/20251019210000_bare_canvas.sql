@@ -0,0 +1,17 @@
+/*
+  # Save mixed analyses without media
+
+  1. Changes
+    - `images.storage_path` may be NULL. Mixes are blended from other analyses and
+      have no media of their own; their images row only carries the owner.
+
+  2. Notes
+    - Media-less rows also leave `original_filename`, `file_size` and `mime_type` NULL
+    - The sources of a mix are recorded in the analysis data (`mixSources`)
+
+  3. Security
+    - No policy changes; analyses keep their owner through images.user_id
+*/
+
+ALTER TABLE public.images
+ALTER COLUMN storage_path DROP NOT NULL;
@@ -0,0 +1,54 @@
+/*
+  # Report R2 media still in use before deleting it
+
+  1. New Functions
+    - `get_shared_media_keys(media_keys, public_base_url, excluded_post_id)`: the keys
+      out of `media_keys` that are still referenced by another post (r2_key, media_url or
+      thumbnail_url) or by another user's upload (images.storage_path). r2-delete keeps
+      those objects.
+
+  2. Notes
+    - Post media columns are written by clients, so a post pointing at a key doesn't prove
+      its owner uploaded it. Checking every other reference stops one user's post from
+      deleting media behind someone else's posts or saved analyses.
+    - storage_path and the URL columns may hold the bare key or the full public URL
+
+  3. Security
+    - SECURITY DEFINER so every images row is checked, not only the caller's. Only the
+      matching keys are returned, never the rows.
+    - Granted to authenticated users; the caller's own uploads don't count as shared
+*/
+
+CREATE OR REPLACE FUNCTION public.get_shared_media_keys(
+  media_keys text[],
+  public_base_url text,
+  excluded_post_id uuid
+)
+RETURNS SETOF text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT k.key
+  FROM unnest(media_keys) AS k(key)
+  WHERE EXISTS (
+      SELECT 1
+      FROM posts p
+      WHERE p.id <> excluded_post_id
+        AND (
+          p.r2_key = k.key
+          OR p.media_url IN (k.key, public_base_url || k.key)
+          OR p.thumbnail_url IN (k.key, public_base_url || k.key)
+        )
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM images i
+      WHERE i.storage_path IN (k.key, public_base_url || k.key)
+        AND i.user_id IS DISTINCT FROM auth.uid()
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_shared_media_keys(text[], text, uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.get_shared_media_keys(text[], text, uuid) TO authenticated;
@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import { computePeaks, computeSpectrogram, fft, getSpectrogramColor } from '../src/utils/audioWaveform';
+
+describe('audio waveform', () => {
+  describe('computePeaks', () => {
+    it('should take the loudest sample of each bucket, scaled to the loudest bucket', () => {
+      const samples = new Float32Array([0.1, -0.2, 0.5, -0.25, 0, 0.05]);
+      expect(computePeaks(samples, 3)).toEqual([0.4, 1, 0.1]);
+    });
+
+    it('should keep silence at zero', () => {
+      expect(computePeaks(new Float32Array(8), 4)).toEqual([0, 0, 0, 0]);
+      expect(computePeaks(new Float32Array(0), 4)).toEqual([]);
+    });
+  });
+
+  describe('fft', () => {
+    it('should put a pure tone in its frequency bin', () => {
+      const size = 16;
+      const real = Float64Array.from({ length: size }, (_, i) => Math.cos((2 * Math.PI * 3 * i) / size));
+      const imag = new Float64Array(size);
+
+      fft(real, imag);
+
+      const magnitudes = Array.from(real, (value, i) => Math.hypot(value, imag[i]));
+      expect(magnitudes[3]).toBeCloseTo(size / 2);
+      expect(magnitudes[13]).toBeCloseTo(size / 2);
+      expect(magnitudes[5]).toBeCloseTo(0);
+    });
+
+    it('should reject lengths that are not a power of two', () => {
+      expect(() => fft(new Float64Array(6), new Float64Array(6))).toThrow();
+    });
+  });
+
+  describe('computeSpectrogram', () => {
+    it('should return one column of fftSize / 2 bins per frame, loudest at the tone', () => {
+      const samples = Float32Array.from({ length: 256 }, (_, i) => Math.sin((2 * Math.PI * 8 * i) / 64));
+      const columns = computeSpectrogram(samples, { fftSize: 64, columns: 4, floorDb: -60 });
+
+      expect(columns).toHaveLength(4);
+      expect(columns[0]).toHaveLength(32);
+      expect(columns[0].indexOf(Math.max(...columns[0]))).toBe(8);
+      expect(Math.min(...columns[0])).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  describe('getSpectrogramColor', () => {
+    it('should run from the darkest to the lightest color and clamp outside 0-1', () => {
+      expect(getSpectrogramColor(0)).toEqual([10, 8, 20]);
+      expect(getSpectrogramColor(1)).toEqual([252, 240, 170]);
+      expect(getSpectrogramColor(2)).toEqual(getSpectrogramColor(1));
+    });
+  });
+});
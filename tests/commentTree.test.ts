@@ -0,0 +1,41 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildCommentTree, isCommentEdited, PostComment } from '../src/utils/commentTree';
+
+const comment = (id: string, parent: string | null, createdAt: string, updatedAt = createdAt): PostComment => ({
+  id,
+  post_id: 'post',
+  user_id: 'user',
+  parent_id: parent,
+  body: id,
+  created_at: createdAt,
+  updated_at: updatedAt,
+  author: { username: 'artist', avatar_url: null }
+});
+
+describe('Comment tree', () => {
+  const comments = [
+    comment('second', null, '2025-01-03T00:00:00Z'),
+    comment('reply-late', 'first', '2025-01-04T00:00:00Z'),
+    comment('first', null, '2025-01-01T00:00:00Z'),
+    comment('reply-early', 'first', '2025-01-02T00:00:00Z'),
+    comment('nested', 'reply-early', '2025-01-05T00:00:00Z')
+  ];
+
+  it('should nest replies oldest first under their parents', () => {
+    const tree = buildCommentTree(comments);
+
+    expect(tree.map(node => node.comment.id)).toEqual(['first', 'second']);
+    expect(tree[0].replies.map(node => node.comment.id)).toEqual(['reply-early', 'reply-late']);
+    expect(tree[0].replies[0].replies.map(node => node.comment.id)).toEqual(['nested']);
+  });
+
+  it('should show replies to missing comments at the top level', () => {
+    const tree = buildCommentTree([comment('orphan', 'deleted', '2025-01-01T00:00:00Z')]);
+    expect(tree.map(node => node.comment.id)).toEqual(['orphan']);
+  });
+
+  it('should mark comments edited after they were posted', () => {
+    expect(isCommentEdited(comment('a', null, '2025-01-01T00:00:00Z'))).toBe(false);
+    expect(isCommentEdited(comment('b', null, '2025-01-01T00:00:00Z', '2025-01-01T00:05:00Z'))).toBe(true);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  EMBEDDING_DIMENSIONS,
+  buildEmbeddingText,
+  cosineSimilarity,
+  createLocalEmbedding,
+  isValidEmbedding,
+  toVectorLiteral
+} from '../supabase/functions/_shared/embeddings';
+
+describe('style embeddings', () => {
+  describe('buildEmbeddingText', () => {
+    it('should combine the prompt with the key tokens', () => {
+      expect(buildEmbeddingText({ prompt: ' Neon rain at night ', keyTokens: ['neon glow', ' ', 'wet asphalt'] }))
+        .toBe('Neon rain at night\nKey tokens: neon glow, wet asphalt');
+    });
+
+    it('should leave out the token line when there are no tokens', () => {
+      expect(buildEmbeddingText({ prompt: 'Quiet forest', keyTokens: [] })).toBe('Quiet forest');
+    });
+  });
+
+  describe('createLocalEmbedding', () => {
+    it('should return the same unit vector for the same text', () => {
+      const embedding = createLocalEmbedding('A rain-soaked street lit by neon signs');
+
+      expect(embedding).toHaveLength(EMBEDDING_DIMENSIONS);
+      expect(embedding).toEqual(createLocalEmbedding('A rain-soaked street lit by neon signs'));
+      expect(Math.hypot(...embedding)).toBeCloseTo(1);
+    });
+
+    it('should ignore case and accents', () => {
+      expect(createLocalEmbedding('Café Noir')).toEqual(createLocalEmbedding('cafe noir'));
+    });
+
+    it('should place texts sharing words closer than unrelated ones', () => {
+      const query = createLocalEmbedding('neon city street at night with rain reflections');
+      const similar = createLocalEmbedding('rain reflections on a neon street in the city');
+      const unrelated = createLocalEmbedding('sunlit meadow of wildflowers and grazing sheep');
+
+      expect(cosineSimilarity(query, similar)).toBeGreaterThan(cosineSimilarity(query, unrelated) + 0.3);
+    });
+
+    it('should return a zero vector for text without words', () => {
+      expect(createLocalEmbedding('!!!').every(value => value === 0)).toBe(true);
+    });
+  });
+
+  describe('isValidEmbedding', () => {
+    it('should only accept finite vectors of the configured size', () => {
+      expect(isValidEmbedding(createLocalEmbedding('neon'))).toBe(true);
+      expect(isValidEmbedding([0.1, 0.2])).toBe(false);
+      expect(isValidEmbedding(new Array(EMBEDDING_DIMENSIONS).fill(NaN))).toBe(false);
+      expect(isValidEmbedding('0.1,0.2')).toBe(false);
+    });
+  });
+
+  it('should format vectors for pgvector', () => {
+    expect(toVectorLiteral([0.5, -1, 0])).toBe('[0.5,-1,0]');
+  });
+});
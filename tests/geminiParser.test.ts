@@ -0,0 +1,277 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  ANALYSIS_FIELDS,
+  ANALYSIS_RESPONSE_SCHEMA,
+  AnalysisParseError,
+  AnalysisValidationError,
+  buildAnalysisResponseSchema,
+  CustomModuleSpec,
+  getAnalysisFieldErrors,
+  isPromptListKey,
+  parseAnalysisText,
+  parseSegmentsText,
+  parseVariationsText,
+  validateAnalysisResult
+} from '../supabase/functions/_shared/analysisSchema';
+import { MOCK_ANALYSIS_RESULT, MOCK_AUDIO_ANALYSIS } from '../supabase/functions/_shared/mockAnalysis';
+
+const validResult = {
+  title: 'Neon Reverie',
+  style: 'Cyberpunk Noir',
+  prompt: 'A rain-soaked street at night lit by pink and teal neon signs',
+  keyTokens: ['neon glow', 'wet asphalt', 'night city', 'teal haze', 'pink light', 'lone figure', 'reflections'],
+  creativeRemixes: ['remix one', 'remix two', 'remix three'],
+  outpaintingPrompts: ['wider street', 'skyline above', 'crowd behind'],
+  animationPrompts: ['rain falls', 'signs flicker', 'camera pans'],
+  musicPrompts: ['synthwave', 'dark ambient', 'lo-fi beats'],
+  dialoguePrompts: ['Where did everyone go?', 'Keep walking.', 'The city never sleeps.'],
+  storyPrompts: ['story one', 'story two', 'story three']
+};
+
+const validJson = JSON.stringify(validResult);
+
+// Malformed output shapes Gemini produced in text mode, before responseSchema was enabled
+const RECORDED_RESPONSES = {
+  fenced: '```json\n' + JSON.stringify(validResult, null, 2) + '\n```',
+  fencedUppercase: '```JSON\n' + validJson + '\n```',
+  withProse: 'Here is the analysis you asked for:\n\n' + validJson + '\n\nLet me know if you need anything else!',
+  trailingCommas: validJson.replace(/"\]/g, '",]').replace(/\]\}$/, '],}'),
+  smartQuotes: validJson.replace(/"/g, '“'),
+  truncated: validJson.substring(0, validJson.length / 2),
+  noJson: 'I am unable to analyze this media.'
+};
+
+describe('Gemini analysis parsing', () => {
+  describe('response schema', () => {
+    it('should declare every result field as required', () => {
+      const fields = Object.keys(ANALYSIS_FIELDS);
+      expect(ANALYSIS_RESPONSE_SCHEMA.required).toEqual(fields);
+      expect(Object.keys(ANALYSIS_RESPONSE_SCHEMA.properties)).toEqual(fields);
+    });
+
+    it('should map string and list fields to Gemini types', () => {
+      expect(ANALYSIS_RESPONSE_SCHEMA.properties.title).toEqual({ type: 'STRING' });
+      expect(ANALYSIS_RESPONSE_SCHEMA.properties.keyTokens).toEqual({ type: 'ARRAY', items: { type: 'STRING' } });
+    });
+  });
+
+  describe('validateAnalysisResult', () => {
+    it('should trim strings and list items', () => {
+      const result = validateAnalysisResult({ ...validResult, title: '  Neon Reverie ', keyTokens: [' neon glow '] });
+      expect(result.title).toBe('Neon Reverie');
+      expect(result.keyTokens).toEqual(['neon glow']);
+    });
+
+    it('should report every invalid field with a typed code', () => {
+      const withoutTitle: Record<string, unknown> = { ...validResult };
+      delete withoutTitle.title;
+      const errors = getAnalysisFieldErrors({
+        ...withoutTitle,
+        style: '   ',
+        prompt: 42,
+        keyTokens: 'neon glow',
+        musicPrompts: ['synthwave', null]
+      });
+
+      expect(errors).toEqual([
+        expect.objectContaining({ field: 'title', code: 'missing' }),
+        expect.objectContaining({ field: 'style', code: 'empty_string' }),
+        expect.objectContaining({ field: 'prompt', code: 'not_string' }),
+        expect.objectContaining({ field: 'keyTokens', code: 'not_array' }),
+        expect.objectContaining({ field: 'musicPrompts', code: 'invalid_item', index: 1 })
+      ]);
+    });
+
+    it('should throw AnalysisValidationError carrying the field errors', () => {
+      try {
+        validateAnalysisResult({ ...validResult, storyPrompts: undefined });
+        throw new Error('Expected validation to fail');
+      } catch (error) {
+        expect(error).toBeInstanceOf(AnalysisValidationError);
+        expect((error as AnalysisValidationError).fieldErrors).toEqual([
+          expect.objectContaining({ field: 'storyPrompts', code: 'missing' })
+        ]);
+      }
+    });
+
+    it('should accept the mock provider fixture', () => {
+      expect(getAnalysisFieldErrors(MOCK_ANALYSIS_RESULT)).toEqual([]);
+    });
+
+    it('should reject non-object results', () => {
+      expect(getAnalysisFieldErrors([validResult])).toEqual([
+        expect.objectContaining({ field: '$root', code: 'not_object' })
+      ]);
+    });
+  });
+
+  describe('parseAnalysisText in schema mode', () => {
+    it('should parse strict JSON', () => {
+      expect(parseAnalysisText(validJson, { schemaMode: true })).toEqual(validResult);
+    });
+
+    it('should not scrape fenced output', () => {
+      expect(() => parseAnalysisText(RECORDED_RESPONSES.fenced, { schemaMode: true })).toThrow(AnalysisParseError);
+    });
+  });
+
+  describe('parseAnalysisText fallback extraction', () => {
+    it.each([
+      ['fenced', RECORDED_RESPONSES.fenced],
+      ['fencedUppercase', RECORDED_RESPONSES.fencedUppercase],
+      ['withProse', RECORDED_RESPONSES.withProse],
+      ['trailingCommas', RECORDED_RESPONSES.trailingCommas],
+      ['smartQuotes', RECORDED_RESPONSES.smartQuotes]
+    ])('should recover the result from a %s response', (_name, response) => {
+      expect(parseAnalysisText(response, { schemaMode: false })).toEqual(validResult);
+    });
+
+    it('should keep smart quotes that appear inside values', () => {
+      const quoted = { ...validResult, prompt: 'A sign that reads “open all night” glows' };
+      expect(parseAnalysisText(JSON.stringify(quoted), { schemaMode: false }).prompt).toBe(quoted.prompt);
+    });
+
+    it('should throw AnalysisParseError for unrecoverable responses', () => {
+      expect(() => parseAnalysisText(RECORDED_RESPONSES.truncated, { schemaMode: false })).toThrow(AnalysisParseError);
+      expect(() => parseAnalysisText(RECORDED_RESPONSES.noJson, { schemaMode: false })).toThrow(AnalysisParseError);
+    });
+
+    it('should validate recovered JSON with the shared validator', () => {
+      const response = '```json\n' + JSON.stringify({ ...validResult, keyTokens: null }) + '\n```';
+      expect(() => parseAnalysisText(response, { schemaMode: false })).toThrow(AnalysisValidationError);
+    });
+  });
+
+  describe('parseVariationsText', () => {
+    it('should return trimmed variations and drop blank ones', () => {
+      const response = JSON.stringify({ variations: [' first ', '', 'second', 42] });
+      expect(parseVariationsText(response, { schemaMode: true })).toEqual(['first', 'second']);
+    });
+
+    it('should recover variations from free-form text without schema mode', () => {
+      const response = 'Sure!\n```json\n{"variations": ["first", "second",]}\n```';
+      expect(parseVariationsText(response, { schemaMode: false })).toEqual(['first', 'second']);
+    });
+
+    it('should throw AnalysisParseError when there are no usable variations', () => {
+      expect(() => parseVariationsText('{"variations": []}', { schemaMode: true })).toThrow(AnalysisParseError);
+      expect(() => parseVariationsText('{"items": ["first"]}', { schemaMode: true })).toThrow(AnalysisParseError);
+    });
+
+    it('should only accept module prompt lists as regeneration targets', () => {
+      expect(isPromptListKey('storyPrompts')).toBe(true);
+      expect(isPromptListKey('keyTokens')).toBe(false);
+      expect(isPromptListKey('title')).toBe(false);
+    });
+  });
+
+  describe('parseSegmentsText', () => {
+    const segment = { style: ' Neon Noir ', prompt: ' A rainy street ', animationPrompts: [' rain falls ', '', 7] };
+
+    it('should return one trimmed segment per keyframe and drop extras', () => {
+      const response = JSON.stringify({ segments: [segment, segment, segment] });
+      expect(parseSegmentsText(response, { schemaMode: true, count: 2 })).toEqual([
+        { style: 'Neon Noir', prompt: 'A rainy street', animationPrompts: ['rain falls'] },
+        { style: 'Neon Noir', prompt: 'A rainy street', animationPrompts: ['rain falls'] }
+      ]);
+    });
+
+    it('should throw AnalysisParseError when keyframes are missing or incomplete', () => {
+      expect(() => parseSegmentsText(JSON.stringify({ segments: [segment] }), { schemaMode: true, count: 2 }))
+        .toThrow(AnalysisParseError);
+      expect(() => parseSegmentsText(JSON.stringify({ segments: [{ style: 'Noir' }] }), { schemaMode: true, count: 1 }))
+        .toThrow(AnalysisParseError);
+    });
+  });
+
+  describe('custom modules', () => {
+    const lighting: CustomModuleSpec = { id: 'mod-1', name: 'Lighting', instruction: 'Describe the lighting', itemCount: 2 };
+
+    it('should require an item list for every requested module in the response schema', () => {
+      const schema = buildAnalysisResponseSchema([lighting]);
+
+      expect(schema.required).toContain('customModules');
+      expect(schema.properties.customModules).toMatchObject({ required: ['mod-1'] });
+      expect(buildAnalysisResponseSchema([])).toBe(ANALYSIS_RESPONSE_SCHEMA);
+    });
+
+    it('should return trimmed custom module items keyed by module id', () => {
+      const result = validateAnalysisResult(
+        { ...validResult, customModules: { 'mod-1': [' soft key light ', 'rim light'] } },
+        [lighting]
+      );
+
+      expect(result.customModules).toEqual({ 'mod-1': ['soft key light', 'rim light'] });
+    });
+
+    it('should report missing and invalid custom module output', () => {
+      try {
+        validateAnalysisResult({ ...validResult, customModules: { 'mod-1': ['ok', 7] } }, [lighting]);
+        throw new Error('Expected validation to fail');
+      } catch (error) {
+        expect(error).toBeInstanceOf(AnalysisValidationError);
+        expect((error as AnalysisValidationError).fieldErrors).toEqual([
+          expect.objectContaining({ field: 'customModules', code: 'invalid_item', moduleId: 'mod-1', index: 1 })
+        ]);
+      }
+
+      expect(() => validateAnalysisResult(validResult, [lighting])).toThrow(AnalysisValidationError);
+    });
+
+    it('should ignore custom module output nobody asked for', () => {
+      const result = validateAnalysisResult({ ...validResult, customModules: { 'mod-1': ['extra'] } });
+      expect(result.customModules).toBeUndefined();
+    });
+  });
+
+  describe('audio details', () => {
+    const audio = {
+      genre: ' Synthwave ',
+      bpm: 103.6,
+      key: 'A minor',
+      instrumentation: ['analog synth', ' '],
+      mood: ['nostalgic'],
+      lyricThemes: [],
+      structure: [
+        { label: 'Intro', start: 0, description: 'Pads swell' },
+        { label: 'Chorus', start: -4, description: 'Full drums' }
+      ]
+    };
+
+    it('should ask for the audio object only for audio', () => {
+      expect(buildAnalysisResponseSchema([], 'audio').required).toContain('audio');
+      expect(buildAnalysisResponseSchema([], 'image')).toBe(ANALYSIS_RESPONSE_SCHEMA);
+    });
+
+    it('should normalize tempo, lists and section starts', () => {
+      const result = validateAnalysisResult({ ...validResult, audio }, [], 'audio');
+
+      expect(result.audio).toEqual({
+        genre: 'Synthwave',
+        bpm: 104,
+        key: 'A minor',
+        instrumentation: ['analog synth'],
+        mood: ['nostalgic'],
+        lyricThemes: [],
+        structure: [
+          { label: 'Intro', start: 0, description: 'Pads swell' },
+          { label: 'Chorus', description: 'Full drums' }
+        ]
+      });
+      expect(validateAnalysisResult({ ...validResult, audio: { ...audio, bpm: 'fast' } }, [], 'audio').audio?.bpm)
+        .toBeNull();
+    });
+
+    it('should require the audio object for audio and ignore it otherwise', () => {
+      expect(() => validateAnalysisResult(validResult, [], 'audio')).toThrow(AnalysisValidationError);
+      expect(() => validateAnalysisResult({ ...validResult, audio: { ...audio, genre: '' } }, [], 'audio'))
+        .toThrow(AnalysisValidationError);
+      expect(validateAnalysisResult({ ...validResult, audio }).audio).toBeUndefined();
+    });
+
+    it('should accept the mock audio fixture', () => {
+      expect(validateAnalysisResult({ ...MOCK_ANALYSIS_RESULT, audio: MOCK_AUDIO_ANALYSIS }, [], 'audio').audio)
+        .toEqual(MOCK_AUDIO_ANALYSIS);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildLineageTree, countRemixNodes, LineagePost } from '../src/utils/lineageTree';
+
+const row = (id: string, parent: string | null, depth: number, createdAt: string): LineagePost => ({
+  id,
+  title: id,
+  style: 'Neon Noir',
+  username: 'artist',
+  media_url: `https://cdn.example.com/${id}.jpg`,
+  media_type: 'image',
+  parent_post_id: parent,
+  remixes_count: 0,
+  created_at: createdAt,
+  depth
+});
+
+describe('Remix lineage tree', () => {
+  const rows = [
+    row('root', null, -2, '2025-01-01'),
+    row('parent', 'root', -1, '2025-01-02'),
+    row('post', 'parent', 0, '2025-01-03'),
+    row('older-remix', 'post', 1, '2025-01-04'),
+    row('newer-remix', 'post', 1, '2025-01-06'),
+    row('nested-remix', 'older-remix', 2, '2025-01-05')
+  ];
+
+  it('should list ancestors oldest first', () => {
+    const lineage = buildLineageTree(rows, 'post');
+    expect(lineage.ancestors.map(post => post.id)).toEqual(['root', 'parent']);
+  });
+
+  it('should nest remixes under their parents, newest first', () => {
+    const lineage = buildLineageTree(rows, 'post');
+    expect(lineage.remixes.map(node => node.post.id)).toEqual(['newer-remix', 'older-remix']);
+    expect(lineage.remixes[1].remixes.map(node => node.post.id)).toEqual(['nested-remix']);
+    expect(countRemixNodes(lineage.remixes)).toBe(3);
+  });
+
+  it('should drop remixes whose parent was cut off', () => {
+    const lineage = buildLineageTree([row('post', null, 0, '2025-01-03'), row('orphan', 'missing', 2, '2025-01-04')], 'post');
+    expect(lineage).toEqual({ ancestors: [], remixes: [] });
+  });
+});
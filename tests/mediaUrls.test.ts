@@ -0,0 +1,27 @@
+import { describe, it, expect } from '@jest/globals';
+import { getPublicMediaUrlForKey, isPublicMediaUrl, resolvePublicMediaUrl } from '../supabase/functions/_shared/mediaUrls';
+
+describe('Public media URLs', () => {
+  it('should accept objects under the base URL with or without its trailing slash', () => {
+    for (const base of ['https://pub.example.com', 'https://pub.example.com/']) {
+      expect(resolvePublicMediaUrl('https://pub.example.com/uploads/neon.jpg', base)).toBe('https://pub.example.com/uploads/neon.jpg');
+    }
+    expect(isPublicMediaUrl('https://cdn.example.com/media/uploads/neon.jpg', 'https://cdn.example.com/media')).toBe(true);
+  });
+
+  it('should reject sibling hosts, sibling paths and escapes from the base path', () => {
+    expect(isPublicMediaUrl('https://pub.example.com.evil/uploads/neon.jpg', 'https://pub.example.com')).toBe(false);
+    expect(isPublicMediaUrl('https://user@pub.example.com/uploads/neon.jpg', 'https://pub.example.com')).toBe(false);
+    expect(isPublicMediaUrl('http://pub.example.com/uploads/neon.jpg', 'https://pub.example.com')).toBe(false);
+    expect(isPublicMediaUrl('https://cdn.example.com/media-private/neon.jpg', 'https://cdn.example.com/media')).toBe(false);
+    expect(isPublicMediaUrl('https://cdn.example.com/media/%2e%2e/secret.jpg', 'https://cdn.example.com/media')).toBe(false);
+    expect(isPublicMediaUrl('https://pub.example.com/', 'https://pub.example.com')).toBe(false);
+    expect(isPublicMediaUrl('not a url', 'https://pub.example.com')).toBe(false);
+  });
+
+  it('should build object URLs from keys inside the bucket only', () => {
+    expect(getPublicMediaUrlForKey('/uploads/neon.jpg', 'https://cdn.example.com/media')).toBe('https://cdn.example.com/media/uploads/neon.jpg');
+    expect(getPublicMediaUrlForKey('//evil.example.com/x.jpg', 'https://cdn.example.com/media')).toBe('https://cdn.example.com/media/evil.example.com/x.jpg');
+    expect(getPublicMediaUrlForKey('https://evil.example.com/x.jpg', 'https://cdn.example.com/media')).toBeNull();
+  });
+});
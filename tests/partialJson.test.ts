@@ -0,0 +1,126 @@
+import { describe, it, expect } from '@jest/globals';
+import { parsePartialJSON, createLineBuffer } from '../src/utils/partialJson';
+import { parsePartialAnalysis } from '../src/utils/geminiParser';
+import { MOCK_ANALYSIS_RESULT } from '../supabase/functions/_shared/mockAnalysis';
+
+const streamedJson = JSON.stringify(MOCK_ANALYSIS_RESULT, null, 2);
+
+describe('Partial JSON parsing', () => {
+  it('should parse complete JSON exactly like JSON.parse', () => {
+    const result = parsePartialJSON(streamedJson);
+
+    expect(result.complete).toBe(true);
+    expect(result.value).toEqual(MOCK_ANALYSIS_RESULT);
+    expect(result.completeKeys).toEqual(Object.keys(MOCK_ANALYSIS_RESULT));
+  });
+
+  it('should never throw and only ever grow completed keys at every chunk boundary', () => {
+    let previousKeys: string[] = [];
+
+    for (let i = 0; i <= streamedJson.length; i++) {
+      const { completeKeys, complete } = parsePartialJSON(streamedJson.substring(0, i));
+
+      expect(completeKeys.slice(0, previousKeys.length)).toEqual(previousKeys);
+      expect(complete).toBe(i === streamedJson.length);
+      previousKeys = completeKeys;
+    }
+  });
+
+  it('should only report a key once its value is closed', () => {
+    expect(parsePartialJSON('{"title": "Neon Rev').completeKeys).toEqual([]);
+    expect(parsePartialJSON('{"title": "Neon Reverie"').completeKeys).toEqual(['title']);
+    expect(parsePartialJSON('{"title": "Neon Reverie", "keyTokens": ["a", "b"').completeKeys).toEqual(['title']);
+    expect(parsePartialJSON('{"title": "Neon Reverie", "keyTokens": ["a", "b"]').completeKeys).toEqual(['title', 'keyTokens']);
+  });
+
+  it('should keep partial strings and array items', () => {
+    expect(parsePartialJSON('{"title": "Neon Rev').value).toEqual({ title: 'Neon Rev' });
+    expect(parsePartialJSON('{"keyTokens": ["neon", "rai').value).toEqual({ keyTokens: ['neon', 'rai'] });
+    expect(parsePartialJSON('{"keyTokens": ["neon", ').value).toEqual({ keyTokens: ['neon'] });
+  });
+
+  it.each([
+    ['a backslash', '{"title": "say \\', 'say '],
+    ['a \\u escape', '{"title": "caf\\u00', 'caf'],
+    ['a complete \\u escape', '{"title": "caf\\u00e9', 'café'],
+    ['an escaped quote', '{"title": "say \\"hi', 'say "hi']
+  ])('should handle a chunk cut at %s', (_label, text, expected) => {
+    const result = parsePartialJSON(text);
+
+    expect(result.value).toEqual({ title: expected });
+    expect(result.completeKeys).toEqual([]);
+  });
+
+  it('should treat a number at the end of the text as incomplete', () => {
+    expect(parsePartialJSON('{"count": 12').completeKeys).toEqual([]);
+    expect(parsePartialJSON('{"count": 12,').completeKeys).toEqual(['count']);
+    expect(parsePartialJSON('{"count": 12}').value).toEqual({ count: 12 });
+  });
+
+  it('should handle partial literals', () => {
+    expect(parsePartialJSON('{"ok": tr').value).toEqual({});
+    expect(parsePartialJSON('{"ok": true').completeKeys).toEqual(['ok']);
+  });
+
+  it('should skip a markdown fence before the JSON', () => {
+    expect(parsePartialJSON('```json\n{"title": "Neon"').value).toEqual({ title: 'Neon' });
+    expect(parsePartialJSON('```json\n').value).toBeUndefined();
+  });
+
+  it('should keep what was parsed before a syntax error', () => {
+    const result = parsePartialJSON('{"title": "Neon", oops');
+
+    expect(result.value).toEqual({ title: 'Neon' });
+    expect(result.complete).toBe(false);
+  });
+});
+
+describe('NDJSON line buffer', () => {
+  it('should hold back partial lines across chunks', () => {
+    const lines = createLineBuffer();
+
+    expect(lines.push('{"type":"del')).toEqual([]);
+    expect(lines.push('ta","text":"a"}\n{"type"')).toEqual(['{"type":"delta","text":"a"}']);
+    expect(lines.push(':"done"}\n\n')).toEqual(['{"type":"done"}']);
+    expect(lines.flush()).toEqual([]);
+  });
+
+  it('should return a final line without a trailing newline on flush', () => {
+    const lines = createLineBuffer();
+
+    expect(lines.push('{"type":"done"}')).toEqual([]);
+    expect(lines.flush()).toEqual(['{"type":"done"}']);
+  });
+});
+
+describe('Partial analysis', () => {
+  it('should fill in empty defaults for fields not received yet', () => {
+    const { analysis, completedFields } = parsePartialAnalysis('{"title": "Neon Reverie", "style": "Cyber');
+
+    expect(analysis.title).toBe('Neon Reverie');
+    expect(analysis.style).toBe('Cyber');
+    expect(analysis.storyPrompts).toEqual([]);
+    expect(completedFields).toEqual(['title']);
+  });
+
+  it('should complete fields in stream order until everything is valid', () => {
+    const fields = Object.keys(MOCK_ANALYSIS_RESULT);
+    let completedCount = 0;
+
+    for (let i = 0; i <= streamedJson.length; i += 7) {
+      const { completedFields } = parsePartialAnalysis(streamedJson.substring(0, i));
+      expect(completedFields.length).toBeGreaterThanOrEqual(completedCount);
+      completedCount = completedFields.length;
+    }
+
+    const { analysis, completedFields } = parsePartialAnalysis(streamedJson);
+    expect(completedFields.sort()).toEqual([...fields].sort());
+    expect(analysis).toEqual(MOCK_ANALYSIS_RESULT);
+  });
+
+  it('should not complete a field that fails validation', () => {
+    const { completedFields } = parsePartialAnalysis('{"title": "", "style": "Noir",');
+
+    expect(completedFields).toEqual(['style']);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+import { formatPromptForTarget, PROMPT_FORMATTERS } from '../src/utils/promptFormatters';
+import { MOCK_ANALYSIS_RESULT } from '../supabase/functions/_shared/mockAnalysis';
+
+const analysis = {
+  ...MOCK_ANALYSIS_RESULT,
+  title: 'Neon Reverie',
+  style: 'Cyberpunk Noir',
+  prompt: 'A rain-soaked street at night lit by pink and teal neon signs.',
+  keyTokens: ['neon glow', 'wet asphalt', 'night city'],
+  musicPrompts: [
+    'Dark synthwave with pulsing bass, gated reverb drums and airy female vocals, slow tempo.',
+    'Lo-fi jazz, dusty piano.'
+  ],
+  animationPrompts: ['Slow dolly forward through the rain', 'Crane up over the rooftops']
+};
+
+describe('Prompt formatters', () => {
+  it('should produce non-empty output for every target', () => {
+    PROMPT_FORMATTERS.forEach(formatter => {
+      const sections = formatter.format(analysis);
+      expect(sections.length).toBeGreaterThan(0);
+      sections.forEach(section => expect(section.text.length).toBeGreaterThan(0));
+    });
+  });
+
+  it('should add Midjourney parameters and group bare style codes under --sref', () => {
+    const [{ text }] = formatPromptForTarget('midjourney', analysis, {
+      aspectRatio: '16:9',
+      styleCodes: ['1234', '5678', '--chaos 10']
+    });
+
+    expect(text).toMatch(/^A rain-soaked street at night lit by pink and teal neon signs, Cyberpunk Noir, neon glow/);
+    expect(text).toMatch(/--ar 16:9 --stylize \d+ --sref 1234 5678 --chaos 10$/);
+  });
+
+  it('should weight SDXL tokens strongest first and add a negative prompt', () => {
+    const [prompt, negative] = formatPromptForTarget('sdxl', analysis);
+
+    expect(prompt.text).toMatch(/^\(neon glow:1\.3\), \(wet asphalt:1\.18\), \(night city:1\.05\), Cyberpunk Noir/);
+    expect(negative.label).toBe('Negative prompt');
+  });
+
+  it('should escape SDXL attention syntax in tokens and text', () => {
+    const [prompt] = formatPromptForTarget('sdxl', {
+      ...analysis,
+      style: 'Film (35mm)',
+      keyTokens: ['lens: 50mm', 'glow (soft)', 'cross\\hatch']
+    });
+
+    expect(prompt.text.split(', ').slice(0, 4)).toEqual([
+      '(lens 50mm:1.3)',
+      '(glow \\(soft\\):1.18)',
+      '(cross\\\\hatch:1.05)',
+      'Film \\(35mm\\)'
+    ]);
+  });
+
+  it('should write Flux prompts as sentences', () => {
+    const [{ text }] = formatPromptForTarget('flux', analysis);
+    expect(text).toBe(
+      'A rain-soaked street at night lit by pink and teal neon signs. The style is cyberpunk noir. ' +
+      'It features neon glow, wet asphalt and night city.'
+    );
+  });
+
+  it('should build Suno tags from the selected music prompt', () => {
+    const [style, title] = formatPromptForTarget('suno', analysis);
+    expect(style.text).toBe('dark synthwave, pulsing bass, gated reverb drums, airy female vocals, slow tempo');
+    expect(title.text).toBe('Neon Reverie');
+
+    expect(formatPromptForTarget('suno', analysis, { variationIndex: 1 })[0].text).toBe('lo-fi jazz, dusty piano');
+  });
+
+  it('should lead Runway prompts with the selected motion', () => {
+    const [{ text }] = formatPromptForTarget('runway', analysis, { variationIndex: 1 });
+    expect(text).toMatch(/^Crane up over the rooftops\. A rain-soaked street/);
+    expect(text).toMatch(/Cyberpunk Noir aesthetic\.$/);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseRoute, buildPath, slugifyStyle, Route } from '../src/lib/routes';
+
+describe('URL routing', () => {
+  describe('parseRoute', () => {
+    it('should map the root and /gallery to the gallery', () => {
+      expect(parseRoute('/')).toEqual({ name: 'gallery' });
+      expect(parseRoute('/gallery')).toEqual({ name: 'gallery' });
+    });
+
+    it('should parse parameterised routes', () => {
+      expect(parseRoute('/post/abc-123')).toEqual({ name: 'post', postId: 'abc-123' });
+      expect(parseRoute('/analysis/xyz')).toEqual({ name: 'analysis', analysisId: 'xyz' });
+      expect(parseRoute('/style/neo-noir')).toEqual({ name: 'style', slug: 'neo-noir' });
+      expect(parseRoute('/artist/jane%20doe')).toEqual({ name: 'artist', username: 'jane doe' });
+      expect(parseRoute('/collection/c-42')).toEqual({ name: 'collection', collectionId: 'c-42' });
+    });
+
+    it('should ignore trailing slashes', () => {
+      expect(parseRoute('/decode/')).toEqual({ name: 'decode' });
+      expect(parseRoute('/settings/')).toEqual({ name: 'settings' });
+    });
+
+    it('should return notFound for unknown paths', () => {
+      expect(parseRoute('/unknown')).toEqual({ name: 'notFound', path: '/unknown' });
+      expect(parseRoute('/post')).toEqual({ name: 'notFound', path: '/post' });
+      expect(parseRoute('/post/1/extra')).toEqual({ name: 'notFound', path: '/post/1/extra' });
+    });
+  });
+
+  describe('buildPath', () => {
+    it('should round-trip through parseRoute', () => {
+      const routes: Route[] = [
+        { name: 'gallery' },
+        { name: 'decode' },
+        { name: 'settings' },
+        { name: 'saved' },
+        { name: 'mix' },
+        { name: 'collections' },
+        { name: 'post', postId: 'abc-123' },
+        { name: 'analysis', analysisId: 'xyz' },
+        { name: 'style', slug: 'neo-noir' },
+        { name: 'artist', username: 'jane doe' },
+        { name: 'collection', collectionId: 'c-42' },
+      ];
+
+      routes.forEach(route => {
+        expect(parseRoute(buildPath(route))).toEqual(route);
+      });
+    });
+  });
+
+  describe('slugifyStyle', () => {
+    it('should produce lowercase dash-separated slugs', () => {
+      expect(slugifyStyle('Neo-Noir Cyberpunk')).toBe('neo-noir-cyberpunk');
+      expect(slugifyStyle('  Lo-Fi / Chillhop!  ')).toBe('lo-fi-chillhop');
+    });
+  });
+});
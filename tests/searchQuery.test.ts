@@ -0,0 +1,49 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseSearchQuery, hasSearchTerms, toggleStyleFilter } from '../src/utils/searchQuery';
+
+describe('Search query parsing', () => {
+  it('should keep plain words as search text', () => {
+    expect(parseSearchQuery('  neon   city ')).toEqual({ text: 'neon city', styles: [], artists: [] });
+  });
+
+  it('should keep quoted phrases and exclusions in websearch syntax', () => {
+    const parsed = parseSearchQuery('"golden hour" portrait -blur -"film grain"');
+    expect(parsed.text).toBe('"golden hour" portrait -blur -"film grain"');
+  });
+
+  it('should pull out style: and artist: filters, quoted or not', () => {
+    const parsed = parseSearchQuery('rain style:"neo noir" artist:Kai STYLE:cinematic');
+    expect(parsed).toEqual({ text: 'rain', styles: ['neo noir', 'cinematic'], artists: ['Kai'] });
+  });
+
+  it('should tolerate an unterminated quote while typing', () => {
+    expect(parseSearchQuery('"soft light').text).toBe('"soft light"');
+    expect(parseSearchQuery('style:"dream').styles).toEqual(['dream']);
+  });
+
+  it('should leave commas and parentheses to the database parser', () => {
+    expect(parseSearchQuery('a,b (c)').text).toBe('a,b (c)');
+  });
+
+  it('should ignore negated operators and empty values', () => {
+    const parsed = parseSearchQuery('-style:noir artist:"" -');
+    expect(hasSearchTerms(parsed)).toBe(false);
+  });
+
+  it('should count a filter-only query as a search', () => {
+    expect(hasSearchTerms(parseSearchQuery('artist:kai'))).toBe(true);
+    expect(hasSearchTerms(parseSearchQuery('   '))).toBe(false);
+  });
+});
+
+describe('Style facet toggling', () => {
+  it('should append a style filter, quoting multi-word styles', () => {
+    expect(toggleStyleFilter('rain', 'Neo Noir')).toBe('rain style:"Neo Noir"');
+    expect(toggleStyleFilter('', 'Vaporwave')).toBe('style:Vaporwave');
+  });
+
+  it('should remove a style filter that is already present, ignoring case', () => {
+    expect(toggleStyleFilter('rain style:"neo noir" night', 'Neo Noir')).toBe('rain night');
+    expect(toggleStyleFilter('style:vaporwave style:glitch', 'Vaporwave')).toBe('style:glitch');
+  });
+});
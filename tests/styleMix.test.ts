@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  blendAnalysesLocally,
+  interleaveByWeight,
+  normalizeMixWeights
+} from '../supabase/functions/_shared/styleMix';
+import { MOCK_ANALYSIS_RESULT } from '../supabase/functions/_shared/mockAnalysis';
+import { PROMPT_LIST_FIELDS, validateAnalysisResult } from '../supabase/functions/_shared/analysisSchema';
+
+const prefixed = (prefix: string) => ({
+  ...MOCK_ANALYSIS_RESULT,
+  title: `${prefix} Title`,
+  style: `${prefix} Style`,
+  prompt: `${prefix} ${MOCK_ANALYSIS_RESULT.prompt}`,
+  keyTokens: MOCK_ANALYSIS_RESULT.keyTokens.map(token => `${prefix} ${token}`),
+  ...Object.fromEntries(PROMPT_LIST_FIELDS.map(field => [field, MOCK_ANALYSIS_RESULT[field].map(item => `${prefix} ${item}`)]))
+});
+
+describe('style mixing', () => {
+  describe('normalizeMixWeights', () => {
+    it('should turn slider weights into shares summing to 1', () => {
+      expect(normalizeMixWeights([75, 25])).toEqual([0.75, 0.25]);
+    });
+
+    it('should clamp out-of-range weights and default missing ones', () => {
+      expect(normalizeMixWeights([0, 500, undefined, 'x'])).toEqual([1 / 201, 100 / 201, 50 / 201, 50 / 201]);
+    });
+  });
+
+  describe('interleaveByWeight', () => {
+    it('should take items in proportion to the weights', () => {
+      const result = interleaveByWeight([['a1', 'a2', 'a3', 'a4'], ['b1', 'b2', 'b3', 'b4']], [0.75, 0.25], 4);
+      expect(result).toEqual(['a1', 'a2', 'b1', 'a3']);
+    });
+
+    it('should skip duplicates ignoring case and fill from lists that have items left', () => {
+      const result = interleaveByWeight([['Neon', 'Rain'], ['neon', 'Fog', 'Dust']], [0.5, 0.5], 4);
+      expect(result).toEqual(['Neon', 'Rain', 'Fog', 'Dust']);
+    });
+  });
+
+  describe('blendAnalysesLocally', () => {
+    it('should build a complete analysis led by the heaviest source', () => {
+      const blended = blendAnalysesLocally([
+        { analysis: prefixed('Light'), weight: 0.3 },
+        { analysis: prefixed('Heavy'), weight: 0.7 }
+      ]);
+
+      expect(blended.title).toBe('Heavy Title × Light Title');
+      expect(blended.style).toBe('Heavy Style meets Light Style');
+      expect(blended.prompt.startsWith('Heavy ')).toBe(true);
+      expect(blended.keyTokens.filter(token => token.startsWith('Heavy')).length).toBeGreaterThan(3);
+      expect(() => validateAnalysisResult(blended)).not.toThrow();
+    });
+  });
+});
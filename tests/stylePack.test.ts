@@ -0,0 +1,95 @@
+import { describe, it, expect } from '@jest/globals';
+import { strToU8 } from 'fflate';
+import {
+  STYLE_PACK_VERSION,
+  StylePackError,
+  buildStylePack,
+  createStylePackZip,
+  readStylePack,
+  stylePackToJSON,
+  stylePackToMarkdown,
+  validateStylePack
+} from '../src/utils/stylePack';
+import { MOCK_ANALYSIS_RESULT } from '../supabase/functions/_shared/mockAnalysis';
+
+const analysis = {
+  id: '3f0c9a52-1b7e-4c1a-9a8e-6f1d2b3c4d5e',
+  ...MOCK_ANALYSIS_RESULT,
+  customModules: [{ id: 'mod-1', name: 'Lighting', color: '#B8A082', icon: 'sun', items: ['soft key light'] }]
+};
+
+const pack = buildStylePack(analysis, {
+  mediaType: 'image',
+  mediaUrl: 'https://cdn.example.com/uploads/neon.jpg',
+  styleCodes: ['1234', '--chaos 10']
+});
+
+describe('Style packs', () => {
+  it('should move the analysis id into the pack source', () => {
+    expect(pack.version).toBe(STYLE_PACK_VERSION);
+    expect(pack.analysis).not.toHaveProperty('id');
+    expect(pack.source?.analysisId).toBe(analysis.id);
+    expect(pack.media).toEqual({ type: 'image', url: 'https://cdn.example.com/uploads/neon.jpg' });
+  });
+
+  it('should round-trip through JSON', () => {
+    const { pack: imported, thumbnail } = readStylePack(strToU8(stylePackToJSON(pack)));
+
+    expect(imported).toEqual(pack);
+    expect(thumbnail).toBeUndefined();
+  });
+
+  it('should round-trip through a zip with its thumbnail', () => {
+    const thumbnailData = new Uint8Array([0xff, 0xd8, 0xff, 0xe0]);
+    const zip = createStylePackZip(pack, { name: 'thumbnail.jpg', data: thumbnailData });
+    const { pack: imported, thumbnail } = readStylePack(zip);
+
+    expect(imported.analysis).toEqual(pack.analysis);
+    expect(imported.media.thumbnail).toBe('thumbnail.jpg');
+    expect(Array.from(thumbnail!.data)).toEqual(Array.from(thumbnailData));
+  });
+
+  it('should reject packs from a newer version', () => {
+    expect(() => validateStylePack({ ...pack, version: STYLE_PACK_VERSION + 1 })).toThrow(/newer than this app supports/);
+  });
+
+  it('should list every invalid field', () => {
+    try {
+      validateStylePack({
+        ...pack,
+        analysis: { ...pack.analysis, keyTokens: 'neon', customModules: [{ id: 'mod-1', items: [1] }] },
+        styleCodes: null
+      });
+      throw new Error('Expected validation to fail');
+    } catch (error) {
+      expect(error).toBeInstanceOf(StylePackError);
+      const { issues } = error as StylePackError;
+      expect(issues).toEqual(expect.arrayContaining([
+        expect.stringContaining('keyTokens'),
+        'analysis.customModules[0].name must be a string',
+        'analysis.customModules[0].items must be an array of strings',
+        'styleCodes must be an array of strings'
+      ]));
+    }
+  });
+
+  it('should only accept http(s) media URLs', () => {
+    expect(() => validateStylePack({ ...pack, media: { type: 'image', url: 'javascript:alert(1)' } }))
+      .toThrow(StylePackError);
+    expect(validateStylePack(pack).media.url).toBe('https://cdn.example.com/uploads/neon.jpg');
+  });
+
+  it('should reject files that are not style packs', () => {
+    expect(() => readStylePack(strToU8('{"title": "Neon"}'))).toThrow(StylePackError);
+    expect(() => readStylePack(strToU8('not json'))).toThrow('Style pack is not valid JSON');
+  });
+
+  it('should render every module and custom module in Markdown', () => {
+    const markdown = stylePackToMarkdown(pack);
+
+    expect(markdown).toMatch(new RegExp(`^# ${MOCK_ANALYSIS_RESULT.title}`));
+    expect(markdown).toContain('## Story');
+    expect(markdown).toContain('## Lighting\n\n1. soft key light');
+    expect(markdown).toContain('`--chaos 10`');
+  });
+});
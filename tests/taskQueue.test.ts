@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import { runTaskQueue, TaskEvent } from '../src/utils/taskQueue';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+describe('Task queue', () => {
+  it('should never run more than the concurrency limit at once', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const outcomes = await runTaskQueue(
+      [1, 2, 3, 4, 5, 6, 7],
+      async (item) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await tick();
+        running--;
+        return item * 2;
+      },
+      { concurrency: 3, retries: 0, retryDelayMs: 0 }
+    );
+
+    expect(maxRunning).toBe(3);
+    expect(outcomes).toEqual([2, 4, 6, 8, 10, 12, 14].map(result => ({ status: 'done', result })));
+  });
+
+  it('should retry a failing item and report each attempt', async () => {
+    const events: TaskEvent<string>[] = [];
+    let calls = 0;
+
+    const [outcome] = await runTaskQueue(
+      ['a'],
+      async (_item, _index, attempt) => {
+        calls++;
+        if (attempt < 3) throw new Error(`attempt ${attempt} failed`);
+        return 'ok';
+      },
+      { concurrency: 1, retries: 2, retryDelayMs: 0 },
+      event => events.push(event)
+    );
+
+    expect(calls).toBe(3);
+    expect(outcome).toEqual({ status: 'done', result: 'ok' });
+    expect(events.map(event => event.status)).toEqual(['running', 'retrying', 'running', 'retrying', 'running', 'done']);
+  });
+
+  it('should report an item as failed once retries run out without stopping the others', async () => {
+    const outcomes = await runTaskQueue(
+      ['bad', 'good'],
+      async (item) => {
+        if (item === 'bad') throw new Error('nope');
+        return item;
+      },
+      { concurrency: 1, retries: 1, retryDelayMs: 0 }
+    );
+
+    expect(outcomes[0]).toEqual({ status: 'failed', error: new Error('nope') });
+    expect(outcomes[1]).toEqual({ status: 'done', result: 'good' });
+  });
+
+  it('should cancel items that have not started when aborted', async () => {
+    const controller = new AbortController();
+
+    const outcomes = await runTaskQueue(
+      [1, 2, 3],
+      async (item) => {
+        controller.abort();
+        return item;
+      },
+      { concurrency: 1, retries: 0, retryDelayMs: 0, signal: controller.signal }
+    );
+
+    expect(outcomes).toEqual([{ status: 'done', result: 1 }, { status: 'cancelled' }, { status: 'cancelled' }]);
+  });
+});
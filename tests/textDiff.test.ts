@@ -0,0 +1,32 @@
+import { describe, it, expect } from '@jest/globals';
+import { diffWords } from '../src/utils/textDiff';
+
+describe('Word diff', () => {
+  it('should mark unchanged text as the same', () => {
+    expect(diffWords('neon rain at night', 'neon rain at night')).toEqual([
+      { type: 'same', text: 'neon rain at night' }
+    ]);
+  });
+
+  it('should show replaced words as removed then added', () => {
+    expect(diffWords('neon rain at night', 'neon fog at dawn')).toEqual([
+      { type: 'same', text: 'neon ' },
+      { type: 'removed', text: 'rain ' },
+      { type: 'added', text: 'fog ' },
+      { type: 'same', text: 'at ' },
+      { type: 'removed', text: 'night' },
+      { type: 'added', text: 'dawn' }
+    ]);
+  });
+
+  it('should rebuild the new text from same and added parts', () => {
+    const after = 'A quiet harbor, soft film grain,\nwarm light';
+    const parts = diffWords('A busy harbor at dusk, film grain', after);
+    expect(parts.filter(part => part.type !== 'removed').map(part => part.text).join('')).toBe(after);
+  });
+
+  it('should handle empty texts', () => {
+    expect(diffWords('', 'new prompt')).toEqual([{ type: 'added', text: 'new prompt' }]);
+    expect(diffWords('old prompt', '')).toEqual([{ type: 'removed', text: 'old prompt' }]);
+  });
+});
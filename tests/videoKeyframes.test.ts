@@ -0,0 +1,74 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildTimelineSegments,
+  formatTimestamp,
+  getFrameDifference,
+  getIntervalTimes,
+  getSceneCutTimes
+} from '../src/utils/videoKeyframes';
+
+describe('video keyframe sampling', () => {
+  describe('getIntervalTimes', () => {
+    it('should space keyframes at the interval from the start of the video', () => {
+      expect(getIntervalTimes(12, 5, 12)).toEqual([0, 5, 10]);
+    });
+
+    it('should stretch the interval so long videos stay within the keyframe limit', () => {
+      expect(getIntervalTimes(120, 5, 4)).toEqual([0, 30, 60, 90]);
+    });
+
+    it('should fall back to the first frame when the duration is unknown', () => {
+      expect(getIntervalTimes(NaN, 5, 12)).toEqual([0]);
+    });
+  });
+
+  describe('getSceneCutTimes', () => {
+    const options = { threshold: 0.3, minSceneSeconds: 1.5, maxKeyframes: 12 };
+
+    it('should start a scene at every large change', () => {
+      const samples = [
+        { time: 0.5, difference: 0.05 },
+        { time: 2, difference: 0.6 },
+        { time: 2.5, difference: 0.1 },
+        { time: 6, difference: 0.4 }
+      ];
+      expect(getSceneCutTimes(samples, options)).toEqual([0, 2, 6]);
+    });
+
+    it('should ignore cuts too close to the previous one', () => {
+      const samples = [
+        { time: 2, difference: 0.6 },
+        { time: 2.5, difference: 0.9 },
+        { time: 4, difference: 0.5 }
+      ];
+      expect(getSceneCutTimes(samples, options)).toEqual([0, 2, 4]);
+    });
+
+    it('should keep the strongest cuts when there are more than the keyframe limit', () => {
+      const samples = [
+        { time: 2, difference: 0.4 },
+        { time: 4, difference: 0.9 },
+        { time: 6, difference: 0.5 },
+        { time: 8, difference: 0.7 }
+      ];
+      expect(getSceneCutTimes(samples, { ...options, maxKeyframes: 3 })).toEqual([0, 4, 8]);
+    });
+  });
+
+  it('should measure frame difference from 0 for identical frames to 1 for inverted ones', () => {
+    const black = new Uint8ClampedArray([0, 0, 0, 255, 0, 0, 0, 255]);
+    const white = new Uint8ClampedArray([255, 255, 255, 255, 255, 255, 255, 255]);
+
+    expect(getFrameDifference(black, black)).toBe(0);
+    expect(getFrameDifference(black, white)).toBe(1);
+  });
+
+  it('should build back-to-back segments ending at the video duration', () => {
+    expect(buildTimelineSegments([0, 4, 9], 12.5)).toEqual([
+      { start: 0, end: 4 },
+      { start: 4, end: 9 },
+      { start: 9, end: 12.5 }
+    ]);
+    expect(formatTimestamp(75.9)).toBe('1:15');
+  });
+});
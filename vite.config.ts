@@ -25,7 +25,7 @@ export default defineConfig({
     chunkSizeWarningLimit: 1000
   },
   // Ensure proper base path for deployment
-  base: './',
+  base: '/',
   // Define environment variables for build
   define: {
     'process.env.NODE_ENV': JSON.stringify('production')